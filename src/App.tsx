@@ -8,15 +8,29 @@ import { WorkRequestForm } from "./components/WorkRequestForm";
 import { AuthPage } from "./components/AuthPage";
 import { Navigation } from "./components/Navigation";
 import Index from "./pages/Index";
+import RequestStatus from "./pages/RequestStatus";
+import ApprovalLink from "./pages/ApprovalLink";
 import NotFound from "./pages/NotFound";
+import AccessDenied from "./pages/AccessDenied";
 import { supabase } from "@/integrations/supabase/client";
+import { AppRole, canAccessRoute, getHomeRoute } from "@/lib/roles";
 import { User, Session } from '@supabase/supabase-js';
 
 // Lazy load admin-only routes for smaller initial bundle
 const AdminDashboard = lazy(() => import("./components/AdminDashboard").then(m => ({ default: m.AdminDashboard })));
+const AssetsPage = lazy(() => import("./components/AssetsPage").then(m => ({ default: m.AssetsPage })));
+const AssetDetailPage = lazy(() => import("./components/AssetDetailPage").then(m => ({ default: m.AssetDetailPage })));
+const InventoryPage = lazy(() => import("./components/InventoryPage").then(m => ({ default: m.InventoryPage })));
+const InventoryItemPage = lazy(() => import("./components/InventoryItemPage").then(m => ({ default: m.InventoryItemPage })));
+const ApprovalsPage = lazy(() => import("./components/ApprovalsPage").then(m => ({ default: m.ApprovalsPage })));
+const VendorsPage = lazy(() => import("./components/VendorsPage").then(m => ({ default: m.VendorsPage })));
+const VendorDetailPage = lazy(() => import("./components/VendorDetailPage").then(m => ({ default: m.VendorDetailPage })));
 const AnalyticsPage = lazy(() => import("./components/AnalyticsPage").then(m => ({ default: m.AnalyticsPage })));
+const MaintenancePage = lazy(() => import("./components/MaintenancePage").then(m => ({ default: m.MaintenancePage })));
+const MyWorkPage = lazy(() => import("./components/MyWorkPage").then(m => ({ default: m.MyWorkPage })));
 const CalendarPage = lazy(() => import("./components/CalendarPage").then(m => ({ default: m.CalendarPage })));
 const PersonalTaskBoard = lazy(() => import("./components/PersonalTaskBoard").then(m => ({ default: m.PersonalTaskBoard })));
+const SettingsPage = lazy(() => import("./components/SettingsPage").then(m => ({ default: m.SettingsPage })));
 const WorkOrderManagement = lazy(() => import("./components/WorkOrderManagement").then(m => ({ default: m.WorkOrderManagement })));
 
 const queryClient = new QueryClient();
@@ -36,6 +50,9 @@ const App = () => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Role is tagged with the user it was loaded for so a fresh login never
+  // briefly renders with the previous user's role
+  const [roleState, setRoleState] = useState<{ userId: string; role: AppRole | null } | null>(null);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -55,13 +72,32 @@ const App = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setRoleState(null);
+      return;
+    }
+    supabase.rpc("get_user_role", { _user_id: userId }).then(({ data }) => {
+      setRoleState({ userId, role: data ?? null });
+    });
+  }, [userId]);
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
   };
 
   const isAuthenticated = !!user && !!session;
+  const role = roleState?.userId === userId ? roleState.role : null;
+  const isRoleLoading = isAuthenticated && roleState?.userId !== userId;
+
+  const guard = (path: string, element: JSX.Element) => {
+    if (!isAuthenticated) return <Navigate to="/auth" replace />;
+    return canAccessRoute(role, path) ? element : <Navigate to="/access-denied" replace />;
+  };
 
-  if (isLoading) {
+  if (isLoading || isRoleLoading) {
     return <PageLoader />;
   }
 
@@ -71,29 +107,32 @@ const App = () => {
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <Navigation isLoggedIn={isAuthenticated} onLogout={handleLogout} />
+          <Navigation isLoggedIn={isAuthenticated} role={role} onLogout={handleLogout} />
           <Suspense fallback={<PageLoader />}>
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/submit" element={<WorkRequestForm />} />
+              <Route path="/status/:token" element={<RequestStatus />} />
+              <Route path="/approval/:token" element={<ApprovalLink />} />
               <Route path="/auth" element={
-                isAuthenticated ? <Navigate to="/admin" replace /> : <AuthPage onLogin={() => {}} />
-              } />
-              <Route path="/admin" element={
-                isAuthenticated ? <AdminDashboard /> : <Navigate to="/auth" replace />
-              } />
-              <Route path="/analytics" element={
-                isAuthenticated ? <AnalyticsPage /> : <Navigate to="/auth" replace />
-              } />
-              <Route path="/calendar" element={
-                isAuthenticated ? <CalendarPage /> : <Navigate to="/auth" replace />
-              } />
-              <Route path="/work-orders" element={
-                isAuthenticated ? <WorkOrderManagement /> : <Navigate to="/auth" replace />
-              } />
-              <Route path="/tasks" element={
-                isAuthenticated ? <PersonalTaskBoard /> : <Navigate to="/auth" replace />
+                isAuthenticated ? <Navigate to={getHomeRoute(role)} replace /> : <AuthPage onLogin={() => {}} />
               } />
+              <Route path="/admin" element={guard("/admin", <AdminDashboard role={role} />)} />
+              <Route path="/analytics" element={guard("/analytics", <AnalyticsPage />)} />
+              <Route path="/calendar" element={guard("/calendar", <CalendarPage role={role} />)} />
+              <Route path="/work-orders" element={guard("/work-orders", <WorkOrderManagement role={role} />)} />
+              <Route path="/my-work" element={guard("/my-work", <MyWorkPage role={role} />)} />
+              <Route path="/maintenance" element={guard("/maintenance", <MaintenancePage />)} />
+              <Route path="/assets" element={guard("/assets", <AssetsPage role={role} />)} />
+              <Route path="/assets/:id" element={guard("/assets", <AssetDetailPage role={role} />)} />
+              <Route path="/inventory" element={guard("/inventory", <InventoryPage role={role} />)} />
+              <Route path="/inventory/:id" element={guard("/inventory", <InventoryItemPage role={role} />)} />
+              <Route path="/approvals" element={guard("/approvals", <ApprovalsPage role={role} />)} />
+              <Route path="/vendors" element={guard("/vendors", <VendorsPage role={role} />)} />
+              <Route path="/vendors/:id" element={guard("/vendors", <VendorDetailPage role={role} />)} />
+              <Route path="/tasks" element={guard("/tasks", <PersonalTaskBoard />)} />
+              <Route path="/settings" element={guard("/settings", <SettingsPage />)} />
+              <Route path="/access-denied" element={<AccessDenied />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </Suspense>
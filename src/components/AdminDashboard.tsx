@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -15,6 +15,26 @@ import { Calendar } from "@/components/ui/calendar";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AttachmentGallery } from "@/components/attachments/AttachmentGallery";
+import { AppRole } from "@/lib/roles";
+import { useStatusTransitions } from "@/hooks/use-status-transitions";
+import { useAssignees } from "@/hooks/use-assignees";
+import { useLookups } from "@/hooks/use-lookups";
+import { WorkTimer } from "@/components/timer/WorkTimer";
+import { formatDuration, getElapsedSeconds, secondsToHours } from "@/lib/work-timer";
+import { AssigneePicker } from "@/components/assignees/AssigneePicker";
+import { getProfileLabel } from "@/lib/assignees";
+import { CostSummary } from "@/components/costs/CostSummary";
+import { WorkRequestNotes } from "@/components/notes/WorkRequestNotes";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
+import {
+  PRIORITIES, PRIORITY_FILTER_EMERGENCY, PRIORITY_META, isOpenEmergency,
+} from "@/lib/priorities";
+import { Highlight } from "@/components/search/Highlight";
+import { useWorkRequestFilters } from "@/hooks/use-work-request-filters";
+import { useWorkRequestSearch } from "@/hooks/use-work-request-search";
+import { useWorkRequestStats } from "@/hooks/use-work-request-stats";
+import { toSearchArgs } from "@/lib/work-request-search";
 
 type WorkRequest = {
   id: string;
@@ -45,6 +65,10 @@ type WorkRequest = {
   completion_notes?: string;
   date_changed_reason?: string;
   approval_checklist?: unknown;
+  is_timer_active?: boolean;
+  timer_started_at?: string;
+  total_elapsed_seconds?: number;
+  is_emergency?: boolean;
 };
 
 const approvalFormSchema = z.object({
@@ -59,20 +83,6 @@ const approvalFormSchema = z.object({
 
 type ApprovalFormData = z.infer<typeof approvalFormSchema>;
 
-const getPriorityBadge = (priority: string) => {
-  switch (priority) {
-    case "emergency":
-    case "high":
-      return "border-2 border-red-500/20 text-red-600 bg-red-50";
-    case "medium":
-      return "border-2 border-orange-500/20 text-orange-600 bg-orange-50";
-    case "low":
-      return "border-2 border-cyan-500/20 text-cyan-600 bg-cyan-50";
-    default:
-      return "border-2 border-gray-200 text-gray-600 bg-gray-50";
-  }
-};
-
 const getStatusBadge = (status: string) => {
   switch (status) {
     case "completed":
@@ -90,96 +100,70 @@ const getStatusBadge = (status: string) => {
   }
 };
 
-export const AdminDashboard = () => {
+interface AdminDashboardProps {
+  role: AppRole | null;
+}
+
+export const AdminDashboard = ({ role }: AdminDashboardProps) => {
   const navigate = useNavigate();
-  const [requests, setRequests] = useState<WorkRequest[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterStatus, setFilterStatus] = useState("all");
-  const [filterPriority, setFilterPriority] = useState("all");
-  const [loading, setLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
+  const { getActions } = useStatusTransitions(role);
+  const { profiles, profilesById, getAssignees, saveAssignees } = useAssignees();
+  const { getLabel } = useLookups();
+  const { filters, updateFilters, searchInput, setSearchInput } = useWorkRequestFilters();
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const { toast } = useToast();
   const itemsPerPage = 10;
 
-  const fetchWorkRequests = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
-        .from('work_requests')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        toast({ title: "Error", description: "Failed to fetch work requests", variant: "destructive" });
-        return;
-      }
-      setRequests(data || []);
-    } catch {
-      toast({ title: "Error", description: "An unexpected error occurred", variant: "destructive" });
-    } finally {
-      setLoading(false);
-    }
-  }, [toast]);
-
-  // Initial load
-  useEffect(() => { fetchWorkRequests(); }, [fetchWorkRequests]);
+  // Paged and filtered on the server; refreshes itself on realtime changes
+  const searchArgs = useMemo(() => toSearchArgs(filters, null), [filters]);
+  const {
+    rows: requests, highlights, total, loading, error: searchError,
+    pageIndex, hasNextPage, hasPrevPage, nextPage, prevPage, refresh: fetchWorkRequests,
+  } = useWorkRequestSearch<WorkRequest>(searchArgs, itemsPerPage);
+  const { stats } = useWorkRequestStats();
 
-  // Realtime subscription — updates the list whenever any row changes in the DB
   useEffect(() => {
-    const channel = supabase
-      .channel("admin_dashboard_work_requests")
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "work_requests" },
-        (payload) => {
-          if (payload.eventType === "INSERT") {
-            setRequests(prev => [payload.new as WorkRequest, ...prev]);
-          } else if (payload.eventType === "UPDATE") {
-            setRequests(prev =>
-              prev.map(r => r.id === (payload.new as WorkRequest).id ? payload.new as WorkRequest : r)
-            );
-          } else if (payload.eventType === "DELETE") {
-            setRequests(prev => prev.filter(r => r.id !== (payload.old as { id: string }).id));
-          }
-        }
-      )
-      .subscribe();
-
-    return () => { supabase.removeChannel(channel); };
-  }, []);
-
-  const pendingCount = requests.filter(r => r.status === "pending").length;
-  const activeCount = requests.filter(r => r.status === "approved" || r.status === "in_progress").length;
-  const completedCount = requests.filter(r => r.status === "completed").length;
-  const highPriorityCount = requests.filter(r => r.priority === "high" || r.priority === "emergency").length;
+    if (searchError) toast({ title: "Error", description: "Failed to fetch work requests", variant: "destructive" });
+  }, [searchError, toast]);
+
+  const pendingCount = stats.pending;
+  const activeCount = stats.approved + stats.in_progress;
+  const completedCount = stats.completed;
+  const highPriorityCount = stats.open_high_priority;
 
   // All status mutations go through SECURITY DEFINER RPC functions so they
   // work correctly even when Supabase RLS blocks direct table updates.
 
-  const approveRequest = async (id: string, newDate?: Date, dateChangeReason?: string, checklist?: Array<{ id: string; text: string; completed: boolean }>) => {
+  const approveRequest = async (id: string, newDate?: Date, dateChangeReason?: string, checklist?: Array<{ id: string; text: string; completed: boolean }>, assigneeIds?: string[]) => {
     try {
       const req = requests.find(r => r.id === id);
       const newDateStr = newDate ? format(newDate, 'yyyy-MM-dd') : undefined;
       const dateChanged = newDateStr && req && newDateStr !== req.requested_date;
 
+      // Reschedule before approving so a request with an approval chain keeps to it
       if (dateChanged && dateChangeReason) {
         const { error } = await supabase.rpc("update_work_request_status", {
-          _request_id: id, _status: "approved", _user_name: "Admin",
+          _request_id: id, _status: req.status,
           _reason: dateChangeReason, _new_requested_date: newDateStr,
         });
         if (error) throw error;
-      } else {
-        const { error } = await supabase.rpc("approve_work_request", {
-          _request_id: id, _approved_by_user: "Admin",
-        });
-        if (error) throw error;
       }
+      const { error } = await supabase.rpc("approve_work_request", { _request_id: id });
+      if (error) throw error;
 
       if (checklist && checklist.length > 0) {
         await supabase.from("work_requests").update({ approval_checklist: checklist }).eq("id", id);
       }
 
-      toast({ title: "Approved", description: "Request approved successfully" });
+      if (assigneeIds && assigneeIds.join() !== getAssignees(id).join()) {
+        await saveAssignees(id, assigneeIds);
+      }
+
+      // Stays pending when this only signed off one step of the chain
+      const { data: approved } = await supabase.from("work_requests").select("status").eq("id", id).maybeSingle();
+      toast(approved?.status === "pending"
+        ? { title: "Step approved", description: "The request moves on to the next approver" }
+        : { title: "Approved", description: "Request approved successfully" });
       await fetchWorkRequests();
     } catch (e: unknown) {
       toast({ title: "Approval failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
@@ -190,7 +174,7 @@ export const AdminDashboard = () => {
     try {
       const { error } = await supabase.rpc("update_work_request_status", {
         _request_id: id, _status: "rejected",
-        _user_name: "Admin", _reason: reason || "Rejected by admin",
+        _reason: reason || "Rejected by admin",
       });
       if (error) throw error;
       toast({ title: "Rejected", description: "Request has been rejected" });
@@ -202,9 +186,7 @@ export const AdminDashboard = () => {
 
   const startWork = async (id: string) => {
     try {
-      const { error } = await supabase.rpc("start_work", {
-        approved_id: id, started_by_user: "Admin",
-      });
+      const { error } = await supabase.rpc("start_work", { approved_id: id });
       if (error) throw error;
       toast({ title: "Work Started", description: "Request is now in progress" });
       await fetchWorkRequests();
@@ -213,10 +195,23 @@ export const AdminDashboard = () => {
     }
   };
 
+  const setPaused = async (id: string, paused: boolean) => {
+    try {
+      const { error } = await supabase.rpc("update_work_request_status", {
+        _request_id: id, _status: paused ? "paused" : "in_progress",
+      });
+      if (error) throw error;
+      toast({ title: paused ? "Paused" : "Resumed", description: paused ? "Work has been paused" : "Work is back in progress" });
+      await fetchWorkRequests();
+    } catch (e: unknown) {
+      toast({ title: paused ? "Failed to pause" : "Failed to resume", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
   const completeWork = async (id: string, hours: number, notes: string) => {
     try {
       const { error } = await supabase.rpc("complete_work", {
-        started_id: id, completed_by_user: "Admin",
+        started_id: id,
         actual_hours_worked: hours, notes: notes.trim() || undefined,
       });
       if (error) throw error;
@@ -227,23 +222,12 @@ export const AdminDashboard = () => {
     }
   };
 
-  const filteredRequests = requests.filter(req => {
-    const matchesSearch = req.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      req.requestor_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      req.department.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (req.work_order_id && req.work_order_id.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesStatus = filterStatus === "all" || req.status === filterStatus;
-    const matchesPriority = filterPriority === "all" || req.priority === filterPriority;
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
-
-  const totalPages = Math.ceil(filteredRequests.length / itemsPerPage);
-  const paginatedRequests = filteredRequests.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
 
   // Approval Dialog
-  const ApprovalDialog = ({ request, onApprove }: { request: WorkRequest; onApprove: (newDate?: Date, dateChangeReason?: string, checklist?: Array<{ id: string; text: string; completed: boolean }>) => void }) => {
+  const ApprovalDialog = ({ request, onApprove }: { request: WorkRequest; onApprove: (newDate?: Date, dateChangeReason?: string, checklist?: Array<{ id: string; text: string; completed: boolean }>, assigneeIds?: string[]) => void }) => {
     const [checklistItems, setChecklistItems] = useState<Array<{ id: string; text: string; completed: boolean }>>([]);
     const [newChecklistItem, setNewChecklistItem] = useState("");
+    const [assigneeIds, setAssigneeIds] = useState<string[]>(getAssignees(request.id));
 
     const form = useForm<ApprovalFormData>({
       resolver: zodResolver(approvalFormSchema),
@@ -270,7 +254,7 @@ export const AdminDashboard = () => {
         form.setError("dateChangeReason", { type: "manual", message: "Please provide a reason for changing the date" });
         return;
       }
-      onApprove(data.newDate, dateChanged ? data.dateChangeReason : undefined, checklistItems.length > 0 ? checklistItems : undefined);
+      onApprove(data.newDate, dateChanged ? data.dateChangeReason : undefined, checklistItems.length > 0 ? checklistItems : undefined, assigneeIds);
     };
 
     return (
@@ -319,6 +303,10 @@ export const AdminDashboard = () => {
                   </FormItem>
                 )} />
               )}
+              <div className="space-y-2">
+                <FormLabel>Assign To</FormLabel>
+                <AssigneePicker profiles={profiles} value={assigneeIds} onChange={setAssigneeIds} />
+              </div>
               <div className="space-y-4">
                 <FormLabel>Approval Checklist</FormLabel>
                 <div className="flex gap-2">
@@ -354,7 +342,8 @@ export const AdminDashboard = () => {
 
   // Complete Work Dialog
   const CompleteWorkDialog = ({ request, onComplete }: { request: WorkRequest; onComplete: (hours: number, notes: string) => void }) => {
-    const [actualHours, setActualHours] = useState("");
+    const recordedSeconds = getElapsedSeconds(request);
+    const [actualHours, setActualHours] = useState(recordedSeconds > 0 ? String(secondsToHours(recordedSeconds)) : "");
     const [completionNotes, setCompletionNotes] = useState("");
 
     const handleSubmit = () => {
@@ -381,7 +370,14 @@ export const AdminDashboard = () => {
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <label className="text-sm font-bold text-gray-700">Actual Hours Worked *</label>
-              <Input type="number" step="0.5" min="0" placeholder="e.g., 3.5" value={actualHours} onChange={(e) => setActualHours(e.target.value)} />
+              <Input type="number" step="0.25" min="0" placeholder="e.g., 3.5" value={actualHours} onChange={(e) => setActualHours(e.target.value)} />
+              {recordedSeconds > 0 && (
+                <p className="text-xs text-blue-700">{formatDuration(recordedSeconds)} recorded by the timer</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-bold text-gray-700">Costs</label>
+              <CostSummary workRequestId={request.id} hours={parseFloat(actualHours) || 0} />
             </div>
             <div className="space-y-2">
               <label className="text-sm font-bold text-gray-700">Completion Notes</label>
@@ -479,7 +475,7 @@ export const AdminDashboard = () => {
                 <span className="material-symbols-outlined">check_circle</span>
               </div>
               <span className="text-green-600 text-xs font-bold bg-green-50 px-2 py-1 rounded-full">
-                {requests.length > 0 ? Math.round((completedCount / requests.length) * 100) : 0}%
+                {stats.total > 0 ? Math.round((completedCount / stats.total) * 100) : 0}%
               </span>
             </div>
             <p className="text-gray-500 text-sm font-semibold mb-1">Completed</p>
@@ -553,15 +549,15 @@ export const AdminDashboard = () => {
               <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">search</span>
               <input
                 className="w-full bg-gray-50 rounded-lg py-2.5 pl-10 pr-4 text-sm border border-gray-200 focus:ring-2 focus:ring-primary/50 focus:border-primary outline-none"
-                placeholder="Search by ID, title, or department..."
-                value={searchTerm}
-                onChange={(e) => { setSearchTerm(e.target.value); setCurrentPage(1); }}
+                placeholder="Search by ID, title, description, or location..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </div>
             <div className="flex items-center gap-2 w-full md:w-auto">
               <select
-                value={filterStatus}
-                onChange={(e) => { setFilterStatus(e.target.value); setCurrentPage(1); }}
+                value={filters.status}
+                onChange={(e) => updateFilters({ status: e.target.value })}
                 className="appearance-none px-4 py-2.5 border border-gray-200 rounded-lg text-sm font-semibold bg-white hover:bg-gray-50 cursor-pointer"
               >
                 <option value="all">All Status</option>
@@ -572,15 +568,15 @@ export const AdminDashboard = () => {
                 <option value="rejected">Rejected</option>
               </select>
               <select
-                value={filterPriority}
-                onChange={(e) => { setFilterPriority(e.target.value); setCurrentPage(1); }}
+                value={filters.priority}
+                onChange={(e) => updateFilters({ priority: e.target.value })}
                 className="appearance-none px-4 py-2.5 border border-gray-200 rounded-lg text-sm font-semibold bg-white hover:bg-gray-50 cursor-pointer"
               >
                 <option value="all">All Priority</option>
-                <option value="emergency">Emergency</option>
-                <option value="high">High</option>
-                <option value="medium">Medium</option>
-                <option value="low">Low</option>
+                <option value={PRIORITY_FILTER_EMERGENCY}>Emergencies</option>
+                {[...PRIORITIES].reverse().map(p => (
+                  <option key={p} value={p}>{PRIORITY_META[p].label}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -592,7 +588,7 @@ export const AdminDashboard = () => {
               </div>
               <p className="text-gray-500 text-sm">Loading work requests...</p>
             </div>
-          ) : filteredRequests.length === 0 ? (
+          ) : requests.length === 0 ? (
             <div className="p-12 text-center">
               <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <span className="material-symbols-outlined text-gray-400 text-2xl">inbox</span>
@@ -617,31 +613,32 @@ export const AdminDashboard = () => {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-100">
-                    {paginatedRequests.map((req) => (
+                    {requests.map((req) => (
                       <tr
                         key={req.id}
-                        className="hover:bg-primary/5 transition-colors cursor-pointer"
+                        className={cn("hover:bg-primary/5 transition-colors cursor-pointer", isOpenEmergency(req) && "bg-red-50/60")}
                         onClick={() => setExpandedRow(expandedRow === req.id ? null : req.id)}
                       >
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className="font-mono font-bold text-primary text-sm">{req.work_order_id || "—"}</span>
                         </td>
                         <td className="px-6 py-4">
-                          <span className="text-sm font-bold text-gray-900">{req.title}</span>
-                          <p className="text-xs text-gray-400">{req.requestor_name} &middot; {req.location || "—"}</p>
+                          <span className="text-sm font-bold text-gray-900">
+                            <Highlight highlighted={highlights[req.id]?.title} text={req.title} />
+                          </span>
+                          <p className="text-xs text-gray-400">{req.requestor_name} &middot; {getLabel("locations", req.location)}</p>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap hidden md:table-cell">
-                          <span className="text-sm text-gray-600 capitalize">{req.department}</span>
+                          <span className="text-sm text-gray-600">{getLabel("departments", req.department)}</span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2.5 py-1 rounded-full text-xs font-bold ${getPriorityBadge(req.priority)}`}>
-                            {req.priority}
-                          </span>
+                          <PriorityBadge priority={req.priority} emergency={isOpenEmergency(req)} />
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`px-2.5 py-1 rounded-full text-xs font-bold ${getStatusBadge(req.status)}`}>
                             {req.status.replace("_", " ")}
                           </span>
+                          {(req.status === "in_progress" || req.status === "paused") && <WorkTimer timer={req} className="ml-1.5" />}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap hidden lg:table-cell">
                           <div className="flex items-center gap-1.5 text-sm text-gray-500">
@@ -651,22 +648,35 @@ export const AdminDashboard = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right" onClick={(e) => e.stopPropagation()}>
                           <div className="flex items-center justify-end gap-1">
-                            {req.status === "pending" && (
-                              <>
-                                <ApprovalDialog request={req} onApprove={(newDate, dateChangeReason, checklist) => approveRequest(req.id, newDate, dateChangeReason, checklist)} />
-                                <button onClick={() => rejectRequest(req.id, "Rejected by admin")} className="px-3 py-1.5 rounded-lg bg-red-50 text-red-600 text-xs font-bold hover:bg-red-100 transition-colors">
-                                  Reject
-                                </button>
-                              </>
-                            )}
-                            {req.status === "approved" && (
-                              <button onClick={() => startWork(req.id)} className="px-3 py-1.5 rounded-lg bg-amber-50 text-amber-700 text-xs font-bold hover:bg-amber-100 transition-colors flex items-center gap-1">
-                                <span className="material-symbols-outlined text-[16px]">play_arrow</span> Start
-                              </button>
-                            )}
-                            {req.status === "in_progress" && (
-                              <CompleteWorkDialog request={req} onComplete={(hours, notes) => completeWork(req.id, hours, notes)} />
-                            )}
+                            {getActions(req.status).map(t => {
+                              switch (t.action) {
+                                case "approve":
+                                  return <ApprovalDialog key={t.action} request={req} onApprove={(newDate, dateChangeReason, checklist, assigneeIds) => approveRequest(req.id, newDate, dateChangeReason, checklist, assigneeIds)} />;
+                                case "reject":
+                                  return (
+                                    <button key={t.action} onClick={() => rejectRequest(req.id, "Rejected by admin")} className="px-3 py-1.5 rounded-lg bg-red-50 text-red-600 text-xs font-bold hover:bg-red-100 transition-colors">
+                                      {t.label}
+                                    </button>
+                                  );
+                                case "start":
+                                  return (
+                                    <button key={t.action} onClick={() => startWork(req.id)} className="px-3 py-1.5 rounded-lg bg-amber-50 text-amber-700 text-xs font-bold hover:bg-amber-100 transition-colors flex items-center gap-1">
+                                      <span className="material-symbols-outlined text-[16px]">play_arrow</span> Start
+                                    </button>
+                                  );
+                                case "complete":
+                                  return <CompleteWorkDialog key={t.action} request={req} onComplete={(hours, notes) => completeWork(req.id, hours, notes)} />;
+                                case "pause":
+                                case "resume":
+                                  return (
+                                    <button key={t.action} onClick={() => setPaused(req.id, t.action === "pause")} className="px-3 py-1.5 rounded-lg bg-gray-50 text-gray-600 text-xs font-bold hover:bg-gray-100 transition-colors flex items-center gap-1">
+                                      <span className="material-symbols-outlined text-[16px]">{t.action === "pause" ? "pause" : "play_arrow"}</span> {t.label}
+                                    </button>
+                                  );
+                                default:
+                                  return null;
+                              }
+                            })}
                             {req.status === "completed" && req.actual_hours && (
                               <span className="text-xs text-gray-400 font-semibold">{req.actual_hours}h</span>
                             )}
@@ -680,7 +690,7 @@ export const AdminDashboard = () => {
 
               {/* Expanded Row Detail */}
               {expandedRow && (() => {
-                const req = paginatedRequests.find(r => r.id === expandedRow);
+                const req = requests.find(r => r.id === expandedRow);
                 if (!req) return null;
                 return (
                   <div className="px-6 py-4 bg-gray-50 border-t border-gray-100">
@@ -700,20 +710,43 @@ export const AdminDashboard = () => {
                         <p className="text-gray-400 text-xs font-bold uppercase mb-1">Contact</p>
                         <p className="text-gray-700">{req.requestor_name}</p>
                         <p className="text-gray-500 text-xs">{req.requestor_email}</p>
+                        {getAssignees(req.id).length > 0 && (
+                          <p className="text-gray-500 text-xs mt-1">
+                            Assigned to {getAssignees(req.id).map(id => profilesById[id] ? getProfileLabel(profilesById[id]) : "Unknown").join(", ")}
+                          </p>
+                        )}
+                        {req.approved_by && (
+                          <p className="text-gray-500 text-xs mt-1">Approved by {req.approved_by}</p>
+                        )}
                         {req.completion_notes && (
                           <div className="mt-2 p-2 bg-green-50 rounded-lg border border-green-100">
-                            <p className="text-xs font-bold text-green-700">Completion Notes:</p>
+                            <p className="text-xs font-bold text-green-700">
+                              Completion Notes{req.completed_by ? ` (${req.completed_by})` : ""}:
+                            </p>
                             <p className="text-xs text-green-600">{req.completion_notes}</p>
                           </div>
                         )}
                         {req.rejected_reason && (
                           <div className="mt-2 p-2 bg-red-50 rounded-lg border border-red-100">
-                            <p className="text-xs font-bold text-red-700">Rejection Reason:</p>
+                            <p className="text-xs font-bold text-red-700">
+                              Rejection Reason{req.rejected_by ? ` (${req.rejected_by})` : ""}:
+                            </p>
                             <p className="text-xs text-red-600">{req.rejected_reason}</p>
                           </div>
                         )}
                       </div>
                     </div>
+                    <div className="mt-4">
+                      <p className="text-gray-400 text-xs font-bold uppercase mb-2">Attachments</p>
+                      <AttachmentGallery workRequestId={req.id} />
+                    </div>
+                    <div className="mt-4 max-w-xl">
+                      <p className="text-gray-400 text-xs font-bold uppercase mb-2 flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[14px]">lock</span>
+                        Internal Notes
+                      </p>
+                      <WorkRequestNotes workRequestId={req.id} profiles={profiles} assigneeIds={getAssignees(req.id)} />
+                    </div>
                   </div>
                 );
               })()}
@@ -721,31 +754,23 @@ export const AdminDashboard = () => {
               {/* Pagination */}
               <div className="p-4 bg-gray-50 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-4">
                 <p className="text-sm font-semibold text-gray-500">
-                  Showing <span className="text-gray-900">{(currentPage - 1) * itemsPerPage + 1}-{Math.min(currentPage * itemsPerPage, filteredRequests.length)}</span> of <span className="text-gray-900">{filteredRequests.length}</span> requests
+                  Showing <span className="text-gray-900">{pageIndex * itemsPerPage + 1}-{pageIndex * itemsPerPage + requests.length}</span> of <span className="text-gray-900">{total}</span> requests
                 </p>
-                {totalPages > 1 && (
+                {(hasPrevPage || hasNextPage) && (
                   <div className="flex items-center gap-1">
                     <button
-                      onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                      disabled={currentPage === 1}
+                      onClick={prevPage}
+                      disabled={!hasPrevPage}
                       className="p-2 text-gray-400 hover:bg-gray-200 rounded-lg disabled:opacity-30"
                     >
                       <span className="material-symbols-outlined">chevron_left</span>
                     </button>
-                    {Array.from({ length: Math.min(totalPages, 5) }, (_, i) => i + 1).map((page) => (
-                      <button
-                        key={page}
-                        onClick={() => setCurrentPage(page)}
-                        className={`w-8 h-8 flex items-center justify-center rounded-lg text-sm font-bold transition-colors ${
-                          currentPage === page ? "bg-primary text-white" : "hover:bg-gray-200 text-gray-600"
-                        }`}
-                      >
-                        {page}
-                      </button>
-                    ))}
+                    <span className="w-8 h-8 flex items-center justify-center rounded-lg text-sm font-bold bg-primary text-white">
+                      {pageIndex + 1}
+                    </span>
                     <button
-                      onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                      disabled={currentPage === totalPages}
+                      onClick={nextPage}
+                      disabled={!hasNextPage}
                       className="p-2 text-gray-400 hover:bg-gray-200 rounded-lg disabled:opacity-30"
                     >
                       <span className="material-symbols-outlined">chevron_right</span>
@@ -3,14 +3,32 @@ import {
   BarChart, Bar, AreaChart, Area, PieChart, Pie, Cell,
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
 } from "recharts";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { format, subDays, parseISO } from "date-fns";
+import { useLookups } from "@/hooks/use-lookups";
+import { cn } from "@/lib/utils";
+import { isResolutionLate, isResponseLate } from "@/lib/sla";
+import { PRIORITIES, getPriorityLabel } from "@/lib/priorities";
+import { formatCurrency } from "@/lib/costs";
 
 interface WorkVolumeData { date: string; requests: number; }
-interface DepartmentData { name: string; requests: number; percentage: number; }
+// Breakdowns are keyed by the stored lookup value; labels are applied at render
+interface BreakdownData { name: string; requests: number; percentage: number; }
 interface CompletionPerformanceData { week: string; onTime: number; late: number; early: number; }
 interface WeeklyCompletionData { week: string; avgHours: number; totalRequests: number; date: Date; }
+interface StaffCompletionData { name: string; completed: number; hours: number; }
+interface CostData { name: string; labor: number; materials: number; }
+interface SlaPriorityData {
+  priority: string;
+  responded: number; respondedOnTime: number;
+  resolved: number; resolvedOnTime: number;
+  openBreached: number; openAtRisk: number;
+}
+
+const SLA_PRIORITIES = [...PRIORITIES].reverse();
+
+const percentOf = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : null);
 
 const CHART_COLORS = {
   primary: "#3c83f6",
@@ -24,18 +42,53 @@ const CHART_COLORS = {
 
 const PIE_COLORS = [CHART_COLORS.primary, CHART_COLORS.purple, CHART_COLORS.orange, CHART_COLORS.green, CHART_COLORS.cyan, CHART_COLORS.red];
 
+type CostedRequest = { labor_cost: number | null; materials_cost: number };
+
+// Labor is only costed on completion; materials count as soon as they're logged
+const sumCostsBy = <T extends CostedRequest>(requests: T[], keyOf: (req: T) => string): CostData[] => {
+  const totals = new Map<string, CostData>();
+  requests.forEach(req => {
+    const labor = req.labor_cost || 0, materials = req.materials_cost || 0;
+    if (labor === 0 && materials === 0) return;
+    const name = keyOf(req);
+    const existing = totals.get(name) || { name, labor: 0, materials: 0 };
+    existing.labor += labor;
+    existing.materials += materials;
+    totals.set(name, existing);
+  });
+  return Array.from(totals.values()).map(c => ({ ...c, labor: Math.round(c.labor * 100) / 100, materials: Math.round(c.materials * 100) / 100 }));
+};
+
+const byTotalCost = (a: CostData, b: CostData) => (b.labor + b.materials) - (a.labor + a.materials);
+
+const countBy = (values: string[]): BreakdownData[] => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([name, requests]) => ({ name, requests, percentage: Math.round((requests / values.length) * 100) }))
+    .sort((a, b) => b.requests - a.requests);
+};
+
 export const AnalyticsPage = () => {
   const printRef = useRef<HTMLDivElement>(null);
   const [timeRange, setTimeRange] = useState("6months");
   const [workVolumeData, setWorkVolumeData] = useState<WorkVolumeData[]>([]);
-  const [departmentData, setDepartmentData] = useState<DepartmentData[]>([]);
+  const [departmentData, setDepartmentData] = useState<BreakdownData[]>([]);
+  const [categoryData, setCategoryData] = useState<BreakdownData[]>([]);
+  const [locationData, setLocationData] = useState<BreakdownData[]>([]);
   const [completionPerformanceData, setCompletionPerformanceData] = useState<CompletionPerformanceData[]>([]);
   const [weeklyCompletionData, setWeeklyCompletionData] = useState<WeeklyCompletionData[]>([]);
+  const [staffCompletionData, setStaffCompletionData] = useState<StaffCompletionData[]>([]);
+  const [slaData, setSlaData] = useState<SlaPriorityData[]>([]);
+  const [costByMonth, setCostByMonth] = useState<CostData[]>([]);
+  const [costByDepartment, setCostByDepartment] = useState<CostData[]>([]);
+  const [costByLocation, setCostByLocation] = useState<CostData[]>([]);
   const [totalRequests, setTotalRequests] = useState(0);
   const [avgCompletionTime, setAvgCompletionTime] = useState(0);
   const [onTimeRate, setOnTimeRate] = useState(0);
   const [mostActiveDept, setMostActiveDept] = useState({ name: '', count: 0 });
   const [loading, setLoading] = useState(true);
+  const { getLabel } = useLookups();
 
   useEffect(() => {
     const fetchAnalyticsData = async () => {
@@ -52,7 +105,8 @@ export const AnalyticsPage = () => {
 
         if (error) { console.error('Error fetching work requests:', error); return; }
         if (!requests || requests.length === 0) {
-          setWorkVolumeData([]); setDepartmentData([]); setCompletionPerformanceData([]); setWeeklyCompletionData([]);
+          setWorkVolumeData([]); setDepartmentData([]); setCategoryData([]); setLocationData([]); setCompletionPerformanceData([]); setWeeklyCompletionData([]); setStaffCompletionData([]); setSlaData([]);
+          setCostByMonth([]); setCostByDepartment([]); setCostByLocation([]);
           setTotalRequests(0); setAvgCompletionTime(0); setOnTimeRate(0); setMostActiveDept({ name: 'N/A', count: 0 });
           return;
         }
@@ -62,13 +116,11 @@ export const AnalyticsPage = () => {
         requests.forEach(req => { const date = format(parseISO(req.created_at), 'MMM d'); volumeMap.set(date, (volumeMap.get(date) || 0) + 1); });
         const volumeData = Array.from(volumeMap.entries()).map(([date, requests]) => ({ date, requests }));
 
-        // Department data
-        const deptMap = new Map<string, number>();
-        requests.forEach(req => { deptMap.set(req.department, (deptMap.get(req.department) || 0) + 1); });
+        // Department, category and location breakdowns
         const totalRequestsCount = requests.length;
-        const deptData = Array.from(deptMap.entries())
-          .map(([name, requests]) => ({ name, requests, percentage: Math.round((requests / totalRequestsCount) * 100) }))
-          .sort((a, b) => b.requests - a.requests);
+        const deptData = countBy(requests.map(req => req.department));
+        const catData = countBy(requests.map(req => req.category));
+        const locData = countBy(requests.map(req => req.location)).slice(0, 10);
 
         // Completion metrics
         const completedRequests = requests.filter(req => req.status === 'completed');
@@ -113,7 +165,52 @@ export const AnalyticsPage = () => {
             return { week, onTime: Math.round((data.onTime / total) * 100), late: Math.round((data.late / total) * 100), early: Math.round((data.early / total) * 100) };
           });
 
+        // Completions per staff member (keyed by user id so renamed profiles don't split)
+        const staffMap = new Map<string, StaffCompletionData>();
+        completedRequests.forEach(req => {
+          if (!req.completed_by_id && !req.completed_by) return;
+          const key = req.completed_by_id || req.completed_by;
+          const existing = staffMap.get(key) || { name: req.completed_by || 'Unknown', completed: 0, hours: 0 };
+          existing.completed += 1;
+          existing.hours += req.actual_hours || 0;
+          staffMap.set(key, existing);
+        });
+        const staffData = Array.from(staffMap.values())
+          .map(s => ({ ...s, hours: Math.round(s.hours * 10) / 10 }))
+          .sort((a, b) => b.completed - a.completed)
+          .slice(0, 10);
+
+        // SLA compliance per priority; rejected requests have no resolution target
+        const now = Date.now();
+        const slaRows = SLA_PRIORITIES.map(priority => {
+          const tracked = requests.filter(req => req.priority === priority && req.due_at && req.status !== 'rejected');
+          const responded = requests.filter(req => req.priority === priority && req.responded_at && req.response_due_at);
+          const resolved = tracked.filter(req => req.status === 'completed');
+          const open = tracked.filter(req => req.status !== 'completed');
+          return {
+            priority,
+            responded: responded.length,
+            respondedOnTime: responded.filter(req => !isResponseLate(req, now)).length,
+            resolved: resolved.length,
+            resolvedOnTime: resolved.filter(req => !isResolutionLate(req, now)).length,
+            openBreached: open.filter(req => req.sla_status === 'breached').length,
+            openAtRisk: open.filter(req => req.sla_status === 'at_risk').length,
+          };
+        }).filter(row => row.responded > 0 || row.resolved > 0 || row.openBreached > 0 || row.openAtRisk > 0);
+
+        // Spend, by the month the job was completed (or raised, while still open)
+        const monthData = sumCostsBy(
+          [...requests].sort((a, b) => (a.completed_at || a.created_at).localeCompare(b.completed_at || b.created_at)),
+          req => format(parseISO(req.completed_at || req.created_at), 'MMM yyyy')
+        );
+        const deptCostData = sumCostsBy(requests, req => req.department).sort(byTotalCost);
+        const locCostData = sumCostsBy(requests, req => req.location).sort(byTotalCost).slice(0, 10);
+
         setWorkVolumeData(volumeData); setDepartmentData(deptData);
+        setCostByMonth(monthData); setCostByDepartment(deptCostData); setCostByLocation(locCostData);
+        setSlaData(slaRows);
+        setCategoryData(catData); setLocationData(locData);
+        setStaffCompletionData(staffData);
         setCompletionPerformanceData(performanceData); setWeeklyCompletionData(weeklyData);
         setTotalRequests(totalRequestsCount);
         setAvgCompletionTime(completedWithHours > 0 ? totalActualHours / completedWithHours : 0);
@@ -128,6 +225,22 @@ export const AnalyticsPage = () => {
     fetchAnalyticsData();
   }, [timeRange]);
 
+  const departmentChartData = useMemo(() => departmentData.map(d => ({ ...d, name: getLabel("departments", d.name) })), [departmentData, getLabel]);
+  const categoryChartData = useMemo(() => categoryData.map(d => ({ ...d, name: getLabel("categories", d.name) })), [categoryData, getLabel]);
+  const locationChartData = useMemo(() => locationData.map(d => ({ ...d, name: getLabel("locations", d.name) })), [locationData, getLabel]);
+  const departmentCostChartData = useMemo(() => costByDepartment.map(d => ({ ...d, name: getLabel("departments", d.name) })), [costByDepartment, getLabel]);
+  const locationCostChartData = useMemo(() => costByLocation.map(d => ({ ...d, name: getLabel("locations", d.name) })), [costByLocation, getLabel]);
+
+  const costTotals = useMemo(() => costByMonth.reduce((acc, row) => ({
+    labor: acc.labor + row.labor, materials: acc.materials + row.materials,
+  }), { labor: 0, materials: 0 }), [costByMonth]);
+
+  const slaTotals = useMemo(() => slaData.reduce((acc, row) => ({
+    responded: acc.responded + row.responded, respondedOnTime: acc.respondedOnTime + row.respondedOnTime,
+    resolved: acc.resolved + row.resolved, resolvedOnTime: acc.resolvedOnTime + row.resolvedOnTime,
+    openBreached: acc.openBreached + row.openBreached, openAtRisk: acc.openAtRisk + row.openAtRisk,
+  }), { responded: 0, respondedOnTime: 0, resolved: 0, resolvedOnTime: 0, openBreached: 0, openAtRisk: 0 }), [slaData]);
+
   const tooltipStyle = {
     backgroundColor: "rgba(255, 255, 255, 0.95)",
     border: "1px solid #e5e7eb",
@@ -199,12 +312,77 @@ export const AnalyticsPage = () => {
           <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm">
             <span className="text-gray-500 text-sm font-medium uppercase tracking-wider">Top Department</span>
             <div className="flex items-end gap-2 mt-2">
-              <span className="text-2xl font-extrabold text-gray-900 capitalize">{loading ? "..." : mostActiveDept.name}</span>
+              <span className="text-2xl font-extrabold text-gray-900">{loading ? "..." : mostActiveDept.count > 0 ? getLabel("departments", mostActiveDept.name) : mostActiveDept.name}</span>
               {!loading && <span className="text-primary text-sm font-bold mb-0.5">{mostActiveDept.count} req</span>}
             </div>
           </div>
         </div>
 
+        {/* SLA compliance */}
+        <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm mb-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">SLA Compliance</h3>
+              <p className="text-sm text-gray-500">Response and resolution targets met, by priority.</p>
+            </div>
+            {!loading && (
+              <div className="flex flex-wrap gap-2">
+                {[
+                  { label: "Response", value: percentOf(slaTotals.respondedOnTime, slaTotals.responded) },
+                  { label: "Resolution", value: percentOf(slaTotals.resolvedOnTime, slaTotals.resolved) },
+                ].map(stat => (
+                  <span key={stat.label} className="px-3 py-1.5 rounded-lg bg-gray-50 border border-gray-100 text-sm">
+                    <span className="text-gray-500">{stat.label} </span>
+                    <span className={cn("font-extrabold", stat.value === null ? "text-gray-400" : stat.value >= 90 ? "text-green-600" : stat.value >= 75 ? "text-orange-500" : "text-red-600")}>
+                      {stat.value === null ? "—" : `${stat.value}%`}
+                    </span>
+                  </span>
+                ))}
+                <span className="px-3 py-1.5 rounded-lg bg-red-50 border border-red-100 text-sm font-bold text-red-600">{slaTotals.openBreached} breached</span>
+                <span className="px-3 py-1.5 rounded-lg bg-amber-50 border border-amber-100 text-sm font-bold text-amber-700">{slaTotals.openAtRisk} at risk</span>
+              </div>
+            )}
+          </div>
+          {loading ? (
+            <p className="text-gray-400 text-center py-8">Loading...</p>
+          ) : slaData.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">No data for this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-100 text-xs font-bold text-gray-400 uppercase">
+                    <th className="py-2 text-left">Priority</th>
+                    <th className="py-2 text-right">Responded on time</th>
+                    <th className="py-2 text-right">Resolved on time</th>
+                    <th className="py-2 text-right">Open &amp; breached</th>
+                    <th className="py-2 text-right">Open &amp; at risk</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {slaData.map(row => {
+                    const response = percentOf(row.respondedOnTime, row.responded);
+                    const resolution = percentOf(row.resolvedOnTime, row.resolved);
+                    return (
+                      <tr key={row.priority}>
+                        <td className="py-2.5 font-bold text-gray-900">{getPriorityLabel(row.priority)}</td>
+                        <td className="py-2.5 text-right text-gray-700">
+                          {response === null ? "—" : `${response}%`} <span className="text-xs text-gray-400">({row.respondedOnTime}/{row.responded})</span>
+                        </td>
+                        <td className="py-2.5 text-right text-gray-700">
+                          {resolution === null ? "—" : `${resolution}%`} <span className="text-xs text-gray-400">({row.resolvedOnTime}/{row.resolved})</span>
+                        </td>
+                        <td className={cn("py-2.5 text-right font-bold", row.openBreached > 0 ? "text-red-600" : "text-gray-400")}>{row.openBreached}</td>
+                        <td className={cn("py-2.5 text-right font-bold", row.openAtRisk > 0 ? "text-amber-600" : "text-gray-400")}>{row.openAtRisk}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
         {/* Charts Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           {/* Work Volume */}
@@ -241,15 +419,15 @@ export const AnalyticsPage = () => {
             <div className="h-[300px]">
               {loading ? (
                 <div className="flex items-center justify-center h-full"><p className="text-gray-400">Loading...</p></div>
-              ) : departmentData.length === 0 ? (
+              ) : departmentChartData.length === 0 ? (
                 <div className="flex items-center justify-center h-full"><p className="text-gray-400">No data available</p></div>
               ) : (
                 <ResponsiveContainer width="100%" height="100%">
                   <PieChart>
-                    <Pie data={departmentData} cx="50%" cy="50%" labelLine={false}
+                    <Pie data={departmentChartData} cx="50%" cy="50%" labelLine={false}
                       label={({ name, percentage }) => `${name} ${percentage}%`}
                       outerRadius={110} innerRadius={45} dataKey="requests" stroke="none">
-                      {departmentData.map((_entry, index) => (
+                      {departmentChartData.map((_entry, index) => (
                         <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
                       ))}
                     </Pie>
@@ -316,6 +494,132 @@ export const AnalyticsPage = () => {
             </div>
           </div>
         </div>
+
+        {/* Completions by staff */}
+        <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm mt-8">
+          <h3 className="text-lg font-bold text-gray-900 mb-6">Completed by Staff</h3>
+          <div className="h-[300px]">
+            {loading ? (
+              <div className="flex items-center justify-center h-full"><p className="text-gray-400">Loading...</p></div>
+            ) : staffCompletionData.length === 0 ? (
+              <div className="flex items-center justify-center h-full"><p className="text-gray-400">No completion data</p></div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={staffCompletionData} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f2f5" />
+                  <XAxis type="number" stroke="#9ca3af" fontSize={12} allowDecimals={false} />
+                  <YAxis type="category" dataKey="name" stroke="#9ca3af" fontSize={12} width={120} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend />
+                  <Bar dataKey="completed" name="Completed" fill={CHART_COLORS.primary} radius={[0, 4, 4, 0]} />
+                  <Bar dataKey="hours" name="Hours" fill={CHART_COLORS.teal} radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+
+        {/* Costs */}
+        <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm mt-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">Labor &amp; Materials Spend</h3>
+              <p className="text-sm text-gray-500">Labor is costed when a job is completed, at its assignees' hourly rates.</p>
+            </div>
+            {!loading && (
+              <div className="flex flex-wrap gap-2">
+                {[
+                  { label: "Total", value: costTotals.labor + costTotals.materials },
+                  { label: "Labor", value: costTotals.labor },
+                  { label: "Materials", value: costTotals.materials },
+                ].map(stat => (
+                  <span key={stat.label} className="px-3 py-1.5 rounded-lg bg-gray-50 border border-gray-100 text-sm">
+                    <span className="text-gray-500">{stat.label} </span>
+                    <span className="font-extrabold text-gray-900">{formatCurrency(stat.value)}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="h-[300px]">
+            {loading ? (
+              <div className="flex items-center justify-center h-full"><p className="text-gray-400">Loading...</p></div>
+            ) : costByMonth.length === 0 ? (
+              <div className="flex items-center justify-center h-full"><p className="text-gray-400">No costs recorded for this period</p></div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={costByMonth}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f2f5" />
+                  <XAxis dataKey="name" stroke="#9ca3af" fontSize={12} />
+                  <YAxis stroke="#9ca3af" fontSize={12} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(value) => formatCurrency(Number(value))} />
+                  <Legend />
+                  <Bar dataKey="labor" name="Labor" stackId="cost" fill={CHART_COLORS.primary} />
+                  <Bar dataKey="materials" name="Materials" stackId="cost" fill={CHART_COLORS.orange} radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+          {[
+            { title: "Spend by Department", data: departmentCostChartData },
+            { title: "Spend by Location", data: locationCostChartData },
+          ].map(chart => (
+            <div key={chart.title} className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+              <h3 className="text-lg font-bold text-gray-900 mb-6">{chart.title}</h3>
+              <div className="h-[300px]">
+                {loading ? (
+                  <div className="flex items-center justify-center h-full"><p className="text-gray-400">Loading...</p></div>
+                ) : chart.data.length === 0 ? (
+                  <div className="flex items-center justify-center h-full"><p className="text-gray-400">No costs recorded</p></div>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chart.data} layout="vertical" margin={{ left: 24 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f2f5" />
+                      <XAxis type="number" stroke="#9ca3af" fontSize={12} />
+                      <YAxis type="category" dataKey="name" stroke="#9ca3af" fontSize={12} width={120} />
+                      <Tooltip contentStyle={tooltipStyle} formatter={(value) => formatCurrency(Number(value))} />
+                      <Legend />
+                      <Bar dataKey="labor" name="Labor" stackId="cost" fill={CHART_COLORS.primary} />
+                      <Bar dataKey="materials" name="Materials" stackId="cost" fill={CHART_COLORS.orange} radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Category + location breakdowns */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+          {[
+            { title: "Requests by Category", data: categoryChartData, color: CHART_COLORS.purple },
+            { title: "Top Locations", data: locationChartData, color: CHART_COLORS.orange },
+          ].map(chart => (
+            <div key={chart.title} className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+              <h3 className="text-lg font-bold text-gray-900 mb-6">{chart.title}</h3>
+              <div className="h-[300px]">
+                {loading ? (
+                  <div className="flex items-center justify-center h-full"><p className="text-gray-400">Loading...</p></div>
+                ) : chart.data.length === 0 ? (
+                  <div className="flex items-center justify-center h-full"><p className="text-gray-400">No data available</p></div>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chart.data} layout="vertical" margin={{ left: 24 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f2f5" />
+                      <XAxis type="number" stroke="#9ca3af" fontSize={12} allowDecimals={false} />
+                      <YAxis type="category" dataKey="name" stroke="#9ca3af" fontSize={12} width={120} />
+                      <Tooltip contentStyle={tooltipStyle} />
+                      <Bar dataKey="requests" name="Requests" fill={chart.color} radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
       </div>
     </div>
   );
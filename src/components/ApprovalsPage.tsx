@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow, isPast, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { Button } from "@/components/ui/button";
+import { ApprovalStepList } from "@/components/approvals/ApprovalChain";
+import { ApprovalDecisionDialog } from "@/components/approvals/ApprovalDecisionDialog";
+import { ApprovalDecision, WorkRequestApproval, getOpenApproval, sortApprovals } from "@/lib/approvals";
+import { formatCurrency } from "@/lib/costs";
+import { AppRole, isApprover } from "@/lib/roles";
+
+type PendingRequest = {
+  id: string;
+  work_order_id: string | null;
+  title: string;
+  department: string;
+  estimated_cost: number | null;
+  requestor_name: string;
+  created_at: string | null;
+};
+
+type QueueItem = {
+  request: PendingRequest;
+  approvals: WorkRequestApproval[];
+  open: WorkRequestApproval;
+};
+
+type ApproverQueue = {
+  approverId: string | null;
+  approverName: string;
+  items: QueueItem[];
+};
+
+interface ApprovalsPageProps {
+  role: AppRole | null;
+}
+
+export const ApprovalsPage = ({ role }: ApprovalsPageProps) => {
+  const { getLabel } = useLookups();
+  const [rows, setRows] = useState<(WorkRequestApproval & { work_requests: PendingRequest })[]>([]);
+  const [myProfileId, setMyProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<{ item: QueueItem; decision: ApprovalDecision } | null>(null);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const isAdmin = role === "admin";
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchQueue = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const [queueResult, meResult] = await Promise.all([
+        supabase
+          .from("work_request_approvals")
+          .select("*, work_requests!inner(id, work_order_id, title, department, estimated_cost, requestor_name, created_at)")
+          .eq("work_requests.status", "pending"),
+        user
+          ? supabase.from("profiles").select("id").eq("user_id", user.id).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+      if (queueResult.error) throw queueResult.error;
+      setRows(queueResult.data || []);
+      setMyProfileId(meResult.data?.id ?? null);
+    } catch {
+      toast({ title: "Error", description: "Failed to load approvals", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchQueue(); }, [fetchQueue]);
+
+  // One queue per approver, with the signed-in user's own queue first
+  const queues = useMemo(() => {
+    const byRequest = new Map<string, { request: PendingRequest; approvals: WorkRequestApproval[] }>();
+    rows.forEach(({ work_requests, ...approval }) => {
+      const entry = byRequest.get(approval.work_request_id) ?? { request: work_requests, approvals: [] };
+      entry.approvals.push(approval);
+      byRequest.set(approval.work_request_id, entry);
+    });
+
+    const byApprover = new Map<string, ApproverQueue>();
+    byRequest.forEach(({ request, approvals }) => {
+      const open = getOpenApproval(approvals);
+      if (!open) return;
+      const key = open.approver_profile_id ?? "unknown";
+      const queue = byApprover.get(key) ?? { approverId: open.approver_profile_id, approverName: open.approver_name || "Unknown", items: [] };
+      queue.items.push({ request, approvals: sortApprovals(approvals), open });
+      byApprover.set(key, queue);
+    });
+
+    return [...byApprover.values()]
+      .map(q => ({ ...q, items: q.items.sort((a, b) => (a.request.created_at ?? "").localeCompare(b.request.created_at ?? "")) }))
+      .sort((a, b) =>
+        Number(b.approverId === myProfileId) - Number(a.approverId === myProfileId) || a.approverName.localeCompare(b.approverName)
+      );
+  }, [rows, myProfileId]);
+
+  const myCount = queues.find(q => q.approverId === myProfileId)?.items.length ?? 0;
+
+  // Replaces the emailed approve/reject links with fresh ones
+  const resendEmail = async (approval: WorkRequestApproval) => {
+    setResendingId(approval.id);
+    try {
+      const { error } = await supabase.rpc("resend_approval_request_email", { _approval_id: approval.id });
+      if (error) throw error;
+      toast({ title: "Email sent", description: `${approval.approver_name || "The approver"} has new approve and reject links.` });
+      await fetchQueue();
+    } catch (e: unknown) {
+      toast({ title: "Resend failed", description: e instanceof Error ? e.message : "Could not resend the email", variant: "destructive" });
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-extrabold text-gray-900">Approvals</h1>
+          <p className="text-gray-500 mt-1">
+            Requests waiting on a department head or budget sign-off, by approver.
+            {myCount > 0 && <span className="ml-2 text-amber-600 font-bold">{myCount} waiting on you</span>}
+          </p>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+        ) : queues.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm text-center py-16">
+            <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">approval</span>
+            <h3 className="font-extrabold text-gray-900 text-lg mb-1">Nothing waiting for approval</h3>
+            <p className="text-gray-400 text-sm">Requests with an approval chain show up here until every step has signed off.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {queues.map(queue => {
+              const mine = queue.approverId === myProfileId;
+              return (
+                <section key={queue.approverId ?? "unknown"}>
+                  <h2 className="text-sm font-extrabold text-gray-900 mb-3 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-[18px] text-gray-400">{mine ? "person" : "group"}</span>
+                    {mine ? "Waiting on you" : queue.approverName}
+                    <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-gray-100 text-gray-600">{queue.items.length}</span>
+                  </h2>
+                  <div className="space-y-3">
+                    {queue.items.map(item => {
+                      const { request, approvals, open } = item;
+                      const canDecide = mine || isAdmin;
+                      return (
+                        <div key={request.id} className="bg-white rounded-xl border border-gray-100 shadow-sm p-5 grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div className="md:col-span-2 min-w-0">
+                            <Link
+                              to={`/work-orders?q=${encodeURIComponent(request.work_order_id ?? request.title)}`}
+                              className="font-bold text-gray-900 hover:text-primary"
+                            >
+                              {request.work_order_id && <span className="font-mono text-xs text-primary mr-2">{request.work_order_id}</span>}
+                              {request.title}
+                            </Link>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {getLabel("departments", request.department)}
+                              {" · "}{request.estimated_cost != null ? `Est. ${formatCurrency(request.estimated_cost)}` : "No cost estimate"}
+                              {" · "}{request.requestor_name}
+                              {request.created_at && ` · ${formatDistanceToNow(parseISO(request.created_at), { addSuffix: true })}`}
+                            </p>
+                            <p className="text-sm text-gray-700 mt-3">
+                              Step {approvals.indexOf(open) + 1} of {approvals.length}: <strong>{open.label}</strong>
+                            </p>
+                            {isApprover(role) && (
+                              <p className="text-xs text-gray-400 mt-1 flex items-center gap-2">
+                                {!open.link_expires_at
+                                  ? "Not emailed"
+                                  : isPast(parseISO(open.link_expires_at))
+                                    ? "Email links expired"
+                                    : `Emailed · links expire ${format(parseISO(open.link_expires_at), "MMM d")}`}
+                                <button
+                                  onClick={() => resendEmail(open)}
+                                  disabled={resendingId === open.id}
+                                  className="font-bold text-primary hover:underline disabled:opacity-50"
+                                >
+                                  {open.link_expires_at ? "Resend" : "Send"}
+                                </button>
+                              </p>
+                            )}
+                            {canDecide && (
+                              <div className="flex items-center gap-2 mt-3">
+                                <Button size="sm" onClick={() => setDeciding({ item, decision: "approved" })} className="gap-1">
+                                  <span className="material-symbols-outlined text-[16px]">thumb_up</span>
+                                  Approve
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => setDeciding({ item, decision: "rejected" })} className="gap-1 text-red-600 hover:text-red-700">
+                                  <span className="material-symbols-outlined text-[16px]">thumb_down</span>
+                                  Reject
+                                </Button>
+                                {!mine && <span className="text-xs text-gray-400">Deciding for {open.approver_name || "the approver"}</span>}
+                              </div>
+                            )}
+                          </div>
+                          <ApprovalStepList approvals={approvals} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {deciding && (
+        <ApprovalDecisionDialog
+          approval={deciding.item.open}
+          workRequest={deciding.item.request}
+          decision={deciding.decision}
+          open
+          onClose={() => setDeciding(null)}
+          onDecided={() => { setDeciding(null); fetchQueue(); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { AssetDialog } from "@/components/assets/AssetDialog";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
+import {
+  Asset,
+  WARRANTY_STATUS_META,
+  describeAsset,
+  getAssetTypeIcon,
+  getAssetTypeLabel,
+  getLaborHours,
+  getWarrantyStatus,
+} from "@/lib/assets";
+import { AppRole, isApprover } from "@/lib/roles";
+import { formatCurrency, getTotalCost } from "@/lib/costs";
+import type { Database } from "@/integrations/supabase/types";
+
+type AssetWorkOrder = Pick<
+  Database["public"]["Tables"]["work_requests"]["Row"],
+  "id" | "work_order_id" | "title" | "status" | "priority" | "is_emergency" | "requested_date" | "created_at"
+  | "completed_at" | "completed_by" | "actual_hours" | "total_elapsed_seconds" | "materials_cost" | "labor_cost"
+>;
+
+const getStatusBadge = (status: string | null) => {
+  switch (status) {
+    case "pending": return "bg-amber-100 text-amber-700";
+    case "approved": return "bg-blue-100 text-blue-700";
+    case "in_progress": return "bg-amber-100 text-amber-700";
+    case "completed": return "bg-green-100 text-green-700";
+    case "rejected": return "bg-red-100 text-red-700";
+    default: return "bg-gray-100 text-gray-600";
+  }
+};
+
+const formatStatus = (status: string | null) =>
+  (status ?? "pending").split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+interface AssetDetailPageProps {
+  role: AppRole | null;
+}
+
+export const AssetDetailPage = ({ role }: AssetDetailPageProps) => {
+  const { id = "" } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const canEdit = isApprover(role);
+  const { getLabel } = useLookups();
+  const [asset, setAsset] = useState<Asset | null>(null);
+  const [workOrders, setWorkOrders] = useState<AssetWorkOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchAsset = useCallback(async () => {
+    try {
+      const [assetResult, ordersResult] = await Promise.all([
+        supabase.from("assets").select("*").eq("id", id).maybeSingle(),
+        supabase
+          .from("work_requests")
+          .select("id, work_order_id, title, status, priority, is_emergency, requested_date, created_at, completed_at, completed_by, actual_hours, total_elapsed_seconds, materials_cost, labor_cost")
+          .eq("asset_id", id)
+          .order("created_at", { ascending: false }),
+      ]);
+      if (assetResult.error) throw assetResult.error;
+      if (ordersResult.error) throw ordersResult.error;
+      setAsset(assetResult.data);
+      setWorkOrders(ordersResult.data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load asset", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => { fetchAsset(); }, [fetchAsset]);
+
+  const toggleArchived = async () => {
+    if (!asset) return;
+    setBusy(true);
+    try {
+      const { data, error } = await supabase
+        .from("assets")
+        .update({ archived_at: asset.archived_at ? null : new Date().toISOString() })
+        .eq("id", asset.id)
+        .select()
+        .single();
+      if (error) throw error;
+      setAsset(data);
+      toast({ title: asset.archived_at ? "Asset restored" : "Asset archived", description: asset.name });
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update asset", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-gray-400 text-sm py-24">Loading...</p>;
+  }
+
+  if (!asset) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center text-center px-4">
+        <div>
+          <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">inventory_2</span>
+          <h1 className="text-2xl font-extrabold text-gray-900 mb-2">Asset not found</h1>
+          <Link to="/assets" className="text-primary font-bold text-sm hover:underline">Back to assets</Link>
+        </div>
+      </div>
+    );
+  }
+
+  // ─── Summary ─────────────────────────────────────────────
+  const laborHours = workOrders.reduce((sum, wo) => sum + getLaborHours(wo), 0);
+  const totalCost = workOrders.reduce((sum, wo) => sum + getTotalCost(wo), 0);
+  const openCount = workOrders.filter(wo => wo.status !== "completed" && wo.status !== "rejected").length;
+  const lastCompleted = workOrders.find(wo => wo.completed_at)?.completed_at;
+  const warranty = getWarrantyStatus(asset.warranty_expires_on);
+
+  const details: { label: string; value: string }[] = [
+    { label: "Type", value: getAssetTypeLabel(asset.asset_type) },
+    { label: "Location", value: getLabel("locations", asset.location) },
+    { label: "Make", value: asset.make || "—" },
+    { label: "Model", value: asset.model || "—" },
+    { label: "Serial number", value: asset.serial_number || "—" },
+    { label: "Installed", value: asset.install_date ? format(parseISO(asset.install_date), "MMM d, yyyy") : "—" },
+    { label: "Warranty expires", value: asset.warranty_expires_on ? format(parseISO(asset.warranty_expires_on), "MMM d, yyyy") : "—" },
+  ];
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8">
+        <button onClick={() => navigate("/assets")} className="flex items-center gap-1 text-sm font-bold text-gray-500 hover:text-primary mb-4">
+          <span className="material-symbols-outlined text-[18px]">arrow_back</span>
+          Assets
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-8">
+          <div className="flex items-start gap-3">
+            <span className="material-symbols-outlined text-[28px] text-primary bg-primary/10 p-2 rounded-xl">{getAssetTypeIcon(asset.asset_type)}</span>
+            <div>
+              <h1 className="text-3xl font-extrabold text-gray-900 flex items-center gap-2">
+                {asset.name}
+                {asset.archived_at && <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-gray-100 text-gray-500">Archived</span>}
+              </h1>
+              <p className="text-gray-500 mt-1">
+                {getLabel("locations", asset.location)}{describeAsset(asset) && ` · ${describeAsset(asset)}`}
+              </p>
+              {warranty !== "none" && (
+                <span className={cn("inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-bold", WARRANTY_STATUS_META[warranty].className)}>
+                  {WARRANTY_STATUS_META[warranty].label}
+                </span>
+              )}
+            </div>
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2 shrink-0">
+              <Button variant="outline" onClick={toggleArchived} disabled={busy}>
+                {asset.archived_at ? "Restore" : "Archive"}
+              </Button>
+              <Button onClick={() => setEditing(true)} className="gap-1">
+                <span className="material-symbols-outlined text-[18px]">edit</span>
+                Edit
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* KPIs */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          {[
+            { label: "Work Orders", value: workOrders.length.toString(), icon: "assignment" },
+            { label: "Open", value: openCount.toString(), icon: "pending_actions" },
+            { label: "Labor Hours", value: `${laborHours.toFixed(1)}h`, icon: "schedule" },
+            { label: "Total Cost", value: formatCurrency(totalCost), icon: "payments" },
+            { label: "Last Serviced", value: lastCompleted ? format(parseISO(lastCompleted), "MMM d, yyyy") : "—", icon: "task_alt" },
+          ].map(kpi => (
+            <div key={kpi.label} className="bg-white rounded-xl border border-gray-100 shadow-sm p-4">
+              <div className="flex items-center gap-2 text-gray-400">
+                <span className="material-symbols-outlined text-[18px]">{kpi.icon}</span>
+                <span className="text-xs font-bold uppercase">{kpi.label}</span>
+              </div>
+              <p className="text-2xl font-extrabold text-gray-900 mt-2">{kpi.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Details */}
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-5 space-y-3 h-fit">
+            <h2 className="font-extrabold text-gray-900">Details</h2>
+            {details.map(d => (
+              <div key={d.label}>
+                <span className="text-xs font-bold text-gray-400 uppercase">{d.label}</span>
+                <p className="text-sm text-gray-900 mt-0.5">{d.value}</p>
+              </div>
+            ))}
+            {asset.notes && (
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase">Notes</span>
+                <p className="text-sm text-gray-700 mt-0.5 whitespace-pre-wrap">{asset.notes}</p>
+              </div>
+            )}
+          </div>
+
+          {/* History */}
+          <div className="md:col-span-2 bg-white rounded-xl border border-gray-100 shadow-sm">
+            <h2 className="font-extrabold text-gray-900 px-5 pt-5 pb-3">Work Order History</h2>
+            {workOrders.length === 0 ? (
+              <p className="text-sm text-gray-400 px-5 pb-8">No work orders have been raised against this asset yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-50">
+                {workOrders.map(wo => {
+                  const hours = getLaborHours(wo);
+                  const cost = getTotalCost(wo);
+                  return (
+                    <li key={wo.id}>
+                      <Link
+                        to={`/work-orders?q=${encodeURIComponent(wo.work_order_id ?? wo.title)}`}
+                        className="flex items-center gap-3 px-5 py-3 hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold text-gray-900 truncate">
+                            <span className="font-mono text-xs text-gray-400 mr-2">{wo.work_order_id}</span>
+                            {wo.title}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-0.5">
+                            Requested for {format(parseISO(wo.requested_date), "MMM d, yyyy")}
+                            {wo.completed_at && ` · completed ${format(parseISO(wo.completed_at), "MMM d, yyyy")}${wo.completed_by ? ` by ${wo.completed_by}` : ""}`}
+                          </p>
+                        </div>
+                        {hours > 0 && <span className="text-xs font-bold text-gray-600 shrink-0">{hours}h</span>}
+                        {cost > 0 && <span className="text-xs font-bold text-gray-600 shrink-0">{formatCurrency(cost)}</span>}
+                        <PriorityBadge priority={wo.priority} emergency={wo.is_emergency} />
+                        <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold shrink-0", getStatusBadge(wo.status))}>
+                          {formatStatus(wo.status)}
+                        </span>
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <AssetDialog
+          asset={asset}
+          open
+          onClose={() => setEditing(false)}
+          onSaved={saved => { setEditing(false); setAsset(saved); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useAssets } from "@/hooks/use-assets";
+import { useLookups } from "@/hooks/use-lookups";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssetDialog } from "@/components/assets/AssetDialog";
+import {
+  ASSET_TYPES,
+  ASSET_TYPE_META,
+  WARRANTY_STATUS_META,
+  describeAsset,
+  getAssetTypeIcon,
+  getAssetTypeLabel,
+  getWarrantyStatus,
+} from "@/lib/assets";
+import { AppRole, isApprover } from "@/lib/roles";
+
+interface AssetsPageProps {
+  role: AppRole | null;
+}
+
+export const AssetsPage = ({ role }: AssetsPageProps) => {
+  const navigate = useNavigate();
+  const canEdit = isApprover(role);
+  const { assets, loading, refresh } = useAssets();
+  const { locations, getLabel } = useLookups();
+  const [search, setSearch] = useState("");
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return assets.filter(a =>
+      (showArchived || !a.archived_at)
+      && (locationFilter === "all" || a.location === locationFilter)
+      && (typeFilter === "all" || a.asset_type === typeFilter)
+      && (!q || [a.name, a.make, a.model, a.serial_number].some(v => v?.toLowerCase().includes(q)))
+    );
+  }, [assets, search, locationFilter, typeFilter, showArchived]);
+
+  const warrantyAlerts = assets.filter(a => !a.archived_at && getWarrantyStatus(a.warranty_expires_on) === "expiring").length;
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-6xl mx-auto px-4 md:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">Assets</h1>
+            <p className="text-gray-500 mt-1">
+              Equipment we look after and its work order history.
+              {warrantyAlerts > 0 && (
+                <span className="ml-2 text-amber-600 font-bold">{warrantyAlerts} warrant{warrantyAlerts !== 1 ? "ies" : "y"} ending soon</span>
+              )}
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => setAdding(true)} className="gap-1">
+              <span className="material-symbols-outlined text-[18px]">add</span>
+              New Asset
+            </Button>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6 flex flex-col lg:flex-row items-start lg:items-center gap-3">
+          <div className="relative flex-1 w-full lg:w-auto">
+            <span className="material-symbols-outlined text-[20px] text-gray-400 absolute left-3 top-1/2 -translate-y-1/2">search</span>
+            <Input
+              placeholder="Search name, make, model or serial..."
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="pl-10 bg-gray-50 border-gray-200"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={locationFilter} onValueChange={setLocationFilter}>
+              <SelectTrigger className="w-44 bg-white border-gray-200"><SelectValue placeholder="Location" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Locations</SelectItem>
+                {locations.map(l => (
+                  <SelectItem key={l.value} value={l.value}>{l.name}{l.archived_at ? " (archived)" : ""}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-40 bg-white border-gray-200"><SelectValue placeholder="Type" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {ASSET_TYPES.map(t => <SelectItem key={t} value={t}>{ASSET_TYPE_META[t].label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm text-gray-600 px-2">
+              <Checkbox checked={showArchived} onCheckedChange={checked => setShowArchived(checked === true)} />
+              Show archived
+            </label>
+          </div>
+        </div>
+
+        {loading && assets.length === 0 ? (
+          <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+        ) : filtered.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm text-center py-16">
+            <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">inventory_2</span>
+            <h3 className="font-extrabold text-gray-900 text-lg mb-1">{assets.length === 0 ? "No assets yet" : "No matching assets"}</h3>
+            <p className="text-gray-400 text-sm">
+              {assets.length === 0 ? "Add boilers, HVAC units, AV gear and appliances to track their upkeep." : "Try a different search or filter."}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-100 text-left text-xs font-bold text-gray-400 uppercase">
+                  <th className="px-4 py-3">Asset</th>
+                  <th className="px-4 py-3 hidden md:table-cell">Location</th>
+                  <th className="px-4 py-3 hidden md:table-cell">Installed</th>
+                  <th className="px-4 py-3">Warranty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {filtered.map(asset => {
+                  const warranty = getWarrantyStatus(asset.warranty_expires_on);
+                  return (
+                    <tr
+                      key={asset.id}
+                      onClick={() => navigate(`/assets/${asset.id}`)}
+                      className={cn("cursor-pointer hover:bg-gray-50 transition-colors", asset.archived_at && "opacity-60")}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-3">
+                          <span className="material-symbols-outlined text-[20px] text-primary bg-primary/10 p-1.5 rounded-lg">{getAssetTypeIcon(asset.asset_type)}</span>
+                          <div className="min-w-0">
+                            <p className="font-bold text-gray-900 truncate">
+                              {asset.name}
+                              {asset.archived_at && <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold bg-gray-100 text-gray-500">Archived</span>}
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {getAssetTypeLabel(asset.asset_type)}{describeAsset(asset) && ` · ${describeAsset(asset)}`}
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 hidden md:table-cell">{getLabel("locations", asset.location)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 hidden md:table-cell">
+                        {asset.install_date ? format(parseISO(asset.install_date), "MMM yyyy") : "—"}
+                      </td>
+                      <td className="px-4 py-3">
+                        {warranty === "none" ? (
+                          <span className="text-sm text-gray-400">—</span>
+                        ) : (
+                          <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold whitespace-nowrap", WARRANTY_STATUS_META[warranty].className)}>
+                            {WARRANTY_STATUS_META[warranty].label}
+                            {warranty !== "expired" && ` · ${format(parseISO(asset.warranty_expires_on!), "MMM d, yyyy")}`}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {adding && (
+        <AssetDialog
+          asset={null}
+          open
+          onClose={() => setAdding(false)}
+          onSaved={asset => { setAdding(false); refresh(); navigate(`/assets/${asset.id}`); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -9,21 +9,41 @@ import {
 import { cn } from "@/lib/utils";
 import { WorkRequest } from "@/lib/calendar-utils";
 import { WorkRequestCard } from "@/components/calendar/WorkRequestCard";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
+import { getPriorityBadge, getPriorityBorder, getPriorityDot, isOpenEmergency, pinEmergencies } from "@/lib/priorities";
 import { CalendarFilters } from "@/components/calendar/CalendarFilters";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { AppRole, isApprover } from "@/lib/roles";
+import { useAssignees } from "@/hooks/use-assignees";
+import { useLookups } from "@/hooks/use-lookups";
+import { ASSIGNEE_FILTER_ALL } from "@/lib/assignees";
+import { DEFAULT_FILTERS, searchAllWorkRequests, toSearchArgs } from "@/lib/work-request-search";
+import { MaintenanceSchedule, ProjectedOccurrence, describeRecurrence, getProjectedOccurrences } from "@/lib/maintenance";
 
 const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const TIME_SLOTS = Array.from({ length: 13 }, (_, i) => i + 7); // 7 AM - 7 PM
+const OPEN_STATUSES = ["pending", "approved", "in_progress"] as const;
 
-export const CalendarPage = () => {
+interface CalendarPageProps {
+  role: AppRole | null;
+}
+
+export const CalendarPage = ({ role }: CalendarPageProps) => {
+  // Rescheduling writes to work_requests directly, which RLS limits to approvers
+  const canReschedule = isApprover(role);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [filterDepartment, setFilterDepartment] = useState("all");
   const [filterStatus, setFilterStatus] = useState("all");
+  const [filterAssignee, setFilterAssignee] = useState(ASSIGNEE_FILTER_ALL);
+  const { profiles, myProfileId } = useAssignees();
+  const { departments, getLabel } = useLookups();
   const [workRequests, setWorkRequests] = useState<WorkRequest[]>([]);
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [showProjected, setShowProjected] = useState(true);
   const [loading, setLoading] = useState(true);
   const [isDragMode, setIsDragMode] = useState(false);
   const [draggedItem, setDraggedItem] = useState<WorkRequest | null>(null);
@@ -36,35 +56,50 @@ export const CalendarPage = () => {
   const [pendingDateChanges, setPendingDateChanges] = useState<Array<{ id: string; oldDate: string; newDate: string; workOrderId: string }>>([]);
   const { toast } = useToast();
 
-  useEffect(() => { fetchWorkRequests(); }, []);
+  // Only the dates on screen are loaded, filtered on the server
+  const rangeStart = format(viewMode === 'month' ? startOfWeek(startOfMonth(currentDate)) : startOfWeek(currentDate), 'yyyy-MM-dd');
+  const rangeEnd = format(viewMode === 'month' ? endOfWeek(endOfMonth(currentDate)) : endOfWeek(currentDate), 'yyyy-MM-dd');
+  const searchArgs = useMemo(() => toSearchArgs({
+    ...DEFAULT_FILTERS, status: filterStatus, department: filterDepartment, assignee: filterAssignee,
+    sort: 'requested_date', asc: true,
+  }, myProfileId), [filterStatus, filterDepartment, filterAssignee, myProfileId]);
 
-  const fetchWorkRequests = async () => {
+  const fetchWorkRequests = useCallback(async () => {
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('work_requests')
-        .select('*')
-        .order('requested_date', { ascending: true });
-      if (error) {
-        console.error('Error fetching work requests:', error);
-        toast({ title: "Error", description: "Failed to fetch work requests", variant: "destructive" });
-        return;
-      }
-      setWorkRequests(data || []);
+      // Drag mode lists every open work order so any of them can be moved onto the calendar
+      const openStatuses = OPEN_STATUSES.filter(status => filterStatus === "all" || filterStatus === status);
+      const [inRange, open] = await Promise.all([
+        searchAllWorkRequests<WorkRequest>({ ...searchArgs, _from: rangeStart, _to: rangeEnd }),
+        isDragMode && openStatuses.length > 0
+          ? searchAllWorkRequests<WorkRequest>({ ...searchArgs, _statuses: [...openStatuses] })
+          : Promise.resolve([] as WorkRequest[]),
+      ]);
+      const byId = new Map([...inRange, ...open].map(request => [request.id, request]));
+      setWorkRequests(Array.from(byId.values()));
     } catch (error) {
       console.error('Error fetching work requests:', error);
-      toast({ title: "Error", description: "An unexpected error occurred", variant: "destructive" });
+      toast({ title: "Error", description: "Failed to fetch work requests", variant: "destructive" });
     } finally {
       setLoading(false);
     }
-  };
+  }, [searchArgs, rangeStart, rangeEnd, isDragMode, filterStatus, toast]);
+
+  useEffect(() => { fetchWorkRequests(); }, [fetchWorkRequests]);
+
+  // Projections are a nice-to-have; the calendar still works without them
+  useEffect(() => {
+    supabase
+      .from('maintenance_schedules')
+      .select('*')
+      .eq('is_active', true)
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching maintenance schedules:', error);
+        setSchedules(data || []);
+      });
+  }, []);
 
   // --- Filtering ---
-  const filteredRequests = workRequests.filter(request => {
-    const matchesDepartment = filterDepartment === "all" || request.department === filterDepartment;
-    const matchesStatus = filterStatus === "all" || request.status === filterStatus;
-    return matchesDepartment && matchesStatus;
-  });
+  const filteredRequests = pinEmergencies(workRequests);
 
   const getRequestsForDate = (date: Date) => {
     return filteredRequests.filter(request => {
@@ -98,26 +133,20 @@ export const CalendarPage = () => {
     return eachDayOfInterval({ start, end });
   };
 
-  // --- Priority helpers ---
-  const getPriorityBorderColor = (priority: string) => {
-    switch (priority) {
-      case "emergency": return "border-l-red-500";
-      case "high": return "border-l-orange-500";
-      case "medium": return "border-l-blue-500";
-      case "low": return "border-l-gray-400";
-      default: return "border-l-gray-400";
-    }
-  };
-
-  const getPriorityDotColor = (priority: string) => {
-    switch (priority) {
-      case "emergency": return "bg-red-500";
-      case "high": return "bg-orange-500";
-      case "medium": return "bg-blue-500";
-      case "low": return "bg-gray-400";
-      default: return "bg-gray-400";
-    }
-  };
+  // --- Projected maintenance ---
+  // Occurrences not yet turned into work orders. They have no status or
+  // assignees, so they only show while those filters are off.
+  const projectOccurrences = (from: Date, to: Date): ProjectedOccurrence[] =>
+    showProjected && filterStatus === "all" && filterAssignee === ASSIGNEE_FILTER_ALL
+      ? getProjectedOccurrences(
+          schedules.filter(schedule => filterDepartment === "all" || schedule.department === filterDepartment),
+          from, to
+        )
+      : [];
+
+  const visibleDates = viewMode === 'month' ? getMonthGridDates() : getCurrentWeekDates();
+  const projectedOccurrences = projectOccurrences(visibleDates[0], visibleDates[visibleDates.length - 1]);
+  const getProjectedForDate = (date: Date) => projectedOccurrences.filter(o => isSameDay(o.date, date));
 
   // --- Drag and drop ---
   const handleDragStart = (e: React.DragEvent, request: WorkRequest) => {
@@ -164,16 +193,6 @@ export const CalendarPage = () => {
         const { error } = await supabase.from('work_requests').update({ requested_date: update.requested_date, date_changed_reason: update.date_changed_reason }).eq('id', update.id);
         if (error) throw error;
       }
-      for (const change of pendingDateChanges) {
-        const workRequest = workRequests.find(req => req.id === change.id);
-        if (workRequest) {
-          try {
-            await supabase.functions.invoke('notify-date-change', {
-              body: { workOrderId: change.workOrderId, title: workRequest.title, oldDate: change.oldDate, newDate: change.newDate, reason: dateChangeReason.trim() || 'No reason provided', department: workRequest.department, requestorName: workRequest.requestor_name, requestorEmail: workRequest.requestor_email }
-            });
-          } catch (webhookError) { console.error(`Failed to send webhook for ${change.workOrderId}:`, webhookError); }
-        }
-      }
       setWorkRequests(prev => prev.map(request => { const nd = pendingChanges.get(request.id); return nd ? { ...request, requested_date: nd } : request; }));
       setPendingChanges(new Map()); setPendingDateChanges([]); setDateChangeReason("");
       toast({ title: "Changes saved", description: `${updates.length} work order${updates.length > 1 ? 's' : ''} updated successfully.` });
@@ -194,6 +213,7 @@ export const CalendarPage = () => {
   };
 
   const selectedDateRequests = selectedDate ? getRequestsForDate(selectedDate) : [];
+  const selectedDateProjected = selectedDate ? projectOccurrences(selectedDate, selectedDate) : [];
 
   // ============================
   // Event chip (reused in both views)
@@ -207,7 +227,7 @@ export const CalendarPage = () => {
         onClick={(e) => { if (isDragMode) e.stopPropagation(); }}
         className={cn(
           "w-full rounded-md border-l-[3px] border bg-white text-xs transition-all shadow-sm overflow-hidden",
-          getPriorityBorderColor(request.priority),
+          getPriorityBorder(request.priority),
           "border-gray-100",
           compact ? "px-1.5 py-1" : "p-2",
           isDragMode && "cursor-move hover:scale-[1.02] hover:shadow-md",
@@ -217,7 +237,7 @@ export const CalendarPage = () => {
       >
         <div className="flex items-center gap-1">
           {hasChanges && <span className="text-amber-500 font-bold">●</span>}
-          <span className={cn("w-1.5 h-1.5 rounded-full shrink-0", getPriorityDotColor(request.priority))} />
+          <span className={cn("w-1.5 h-1.5 rounded-full shrink-0", getPriorityDot(request.priority))} />
           <span className="font-extrabold truncate text-gray-900">{request.work_order_id || `WO-${request.id.slice(-4)}`}</span>
         </div>
         {!compact && (
@@ -227,6 +247,24 @@ export const CalendarPage = () => {
     );
   };
 
+  // ============================
+  // Projected maintenance chip — no work order yet, so not draggable
+  // ============================
+  const ProjectedChip = ({ occurrence, compact = false }: { occurrence: ProjectedOccurrence; compact?: boolean }) => (
+    <div
+      title={`${occurrence.schedule.title} · ${describeRecurrence(occurrence.schedule.frequency, occurrence.schedule.interval_count)} (projected)`}
+      className={cn(
+        "w-full rounded-md border border-dashed border-gray-300 bg-gray-50/80 text-xs text-gray-500 overflow-hidden",
+        compact ? "px-1.5 py-1" : "p-2"
+      )}
+    >
+      <div className="flex items-center gap-1">
+        <span className="material-symbols-outlined text-[12px] shrink-0">event_repeat</span>
+        <span className="font-bold truncate">{occurrence.schedule.title}</span>
+      </div>
+    </div>
+  );
+
   // ============================
   // MONTH VIEW — custom grid (no react-day-picker)
   // ============================
@@ -254,6 +292,8 @@ export const CalendarPage = () => {
             <div key={wi} className="flex-1 grid grid-cols-7 border-b border-gray-100 last:border-b-0 min-h-0">
               {week.map((date, di) => {
                 const dayRequests = getRequestsForDate(date);
+                const dayProjected = getProjectedForDate(date);
+                const dayTotal = dayRequests.length + dayProjected.length;
                 const isToday = isSameDay(date, new Date());
                 const isSelected = selectedDate && isSameDay(date, selectedDate);
                 const isCurrentMonth = isSameMonth(date, currentDate);
@@ -285,8 +325,8 @@ export const CalendarPage = () => {
                       )}>
                         {format(date, 'd')}
                       </span>
-                      {dayRequests.length > 3 && (
-                        <span className="text-[10px] font-bold text-gray-400">+{dayRequests.length - 3}</span>
+                      {dayTotal > 3 && (
+                        <span className="text-[10px] font-bold text-gray-400">+{dayTotal - 3}</span>
                       )}
                     </div>
 
@@ -295,6 +335,9 @@ export const CalendarPage = () => {
                       {dayRequests.slice(0, 3).map((request, idx) => (
                         <EventChip key={idx} request={request} compact={weeks.length > 5} />
                       ))}
+                      {dayProjected.slice(0, Math.max(0, 3 - dayRequests.length)).map(occurrence => (
+                        <ProjectedChip key={occurrence.schedule.id} occurrence={occurrence} compact={weeks.length > 5} />
+                      ))}
                     </div>
                   </div>
                 );
@@ -340,7 +383,7 @@ export const CalendarPage = () => {
                 {dayRequests.length > 0 && (
                   <div className="flex justify-center gap-0.5 mt-1">
                     {dayRequests.slice(0, 4).map((r, i) => (
-                      <span key={i} className={cn("w-1.5 h-1.5 rounded-full", getPriorityDotColor(r.priority))} />
+                      <span key={i} className={cn("w-1.5 h-1.5 rounded-full", getPriorityDot(r.priority))} />
                     ))}
                     {dayRequests.length > 4 && <span className="text-[9px] text-gray-400 ml-0.5">+{dayRequests.length - 4}</span>}
                   </div>
@@ -369,6 +412,8 @@ export const CalendarPage = () => {
                   // Show work requests at 9 AM slot (since they don't have times, we display them in the morning block)
                   const showRequests = hour === 9;
                   const dayRequests = showRequests ? getRequestsForDate(date) : [];
+                  const dayProjected = showRequests ? getProjectedForDate(date) : [];
+                  const dayTotal = dayRequests.length + dayProjected.length;
 
                   return (
                     <div
@@ -382,7 +427,7 @@ export const CalendarPage = () => {
                       onDrop={(e) => handleDrop(e, date)}
                       onClick={() => handleDayClick(date)}
                     >
-                      {dayRequests.length > 0 && (
+                      {dayTotal > 0 && (
                         <div className="absolute inset-0 p-0.5 overflow-hidden flex flex-col gap-0.5">
                           {dayRequests.slice(0, 3).map((request, idx) => (
                             <div
@@ -392,10 +437,9 @@ export const CalendarPage = () => {
                               onClick={(e) => { e.stopPropagation(); handleDayClick(date); }}
                               className={cn(
                                 "rounded px-1.5 py-0.5 text-[10px] font-bold truncate border-l-2 cursor-pointer",
-                                request.priority === "emergency" && "bg-red-50 text-red-800 border-l-red-500",
-                                request.priority === "high" && "bg-orange-50 text-orange-800 border-l-orange-500",
-                                request.priority === "medium" && "bg-blue-50 text-blue-800 border-l-blue-500",
-                                request.priority === "low" && "bg-gray-50 text-gray-700 border-l-gray-400",
+                                getPriorityBadge(request.priority),
+                                getPriorityBorder(request.priority),
+                                isOpenEmergency(request) && "bg-red-600 text-white",
                                 isDragMode && "cursor-move hover:shadow-sm",
                                 pendingChanges.has(request.id) && "ring-1 ring-amber-400"
                               )}
@@ -403,8 +447,17 @@ export const CalendarPage = () => {
                               {request.work_order_id || `WO-${request.id.slice(-4)}`} · {request.title}
                             </div>
                           ))}
-                          {dayRequests.length > 3 && (
-                            <div className="text-[10px] text-gray-400 font-bold text-center">+{dayRequests.length - 3} more</div>
+                          {dayProjected.slice(0, Math.max(0, 3 - dayRequests.length)).map(occurrence => (
+                            <div
+                              key={occurrence.schedule.id}
+                              className="rounded px-1.5 py-0.5 text-[10px] font-bold truncate border border-dashed border-gray-300 bg-gray-50 text-gray-500"
+                              title={`${occurrence.schedule.title} (projected)`}
+                            >
+                              {occurrence.schedule.title}
+                            </div>
+                          ))}
+                          {dayTotal > 3 && (
+                            <div className="text-[10px] text-gray-400 font-bold text-center">+{dayTotal - 3} more</div>
                           )}
                         </div>
                       )}
@@ -459,10 +512,7 @@ export const CalendarPage = () => {
                   onDragStart={(e) => handleDragStart(e, request)}
                   className={cn(
                     "p-3 rounded-xl border-2 cursor-move hover:shadow-md transition-all bg-white",
-                    request.priority === "emergency" && "border-red-300 bg-red-50",
-                    request.priority === "high" && "border-orange-300 bg-orange-50",
-                    request.priority === "medium" && "border-blue-300 bg-blue-50",
-                    request.priority === "low" && "border-gray-200 bg-gray-50",
+                    getPriorityBadge(request.priority),
                     hasChanges && "ring-2 ring-amber-400 ring-opacity-50",
                     draggedItem?.id === request.id && "opacity-50 scale-95"
                   )}
@@ -472,19 +522,11 @@ export const CalendarPage = () => {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
                         <span className="font-extrabold text-xs text-gray-900">{request.work_order_id || `WO-${request.id.slice(-4)}`}</span>
-                        <span className={cn(
-                          "px-1.5 py-0.5 text-xs font-bold rounded-full",
-                          request.priority === "emergency" && "bg-red-100 text-red-700",
-                          request.priority === "high" && "bg-orange-100 text-orange-700",
-                          request.priority === "medium" && "bg-blue-100 text-blue-700",
-                          request.priority === "low" && "bg-gray-100 text-gray-600"
-                        )}>
-                          {request.priority}
-                        </span>
+                        <PriorityBadge priority={request.priority} emergency={isOpenEmergency(request)} className="px-1.5 py-0.5" />
                       </div>
                       <h4 className="font-bold text-sm text-gray-900 mb-1 line-clamp-2">{request.title}</h4>
                       <div className="text-xs text-gray-500">
-                        <div className="capitalize">{request.department}</div>
+                        <div>{getLabel("departments", request.department)}</div>
                         <div className="flex items-center gap-1 mt-1">
                           <span className="material-symbols-outlined text-[14px]">calendar_today</span>
                           {format(parseISO(currentDateStr), 'MMM d')}
@@ -536,7 +578,10 @@ export const CalendarPage = () => {
           </div>
           <CalendarFilters
             filterDepartment={filterDepartment} setFilterDepartment={setFilterDepartment}
+            departments={departments}
             filterStatus={filterStatus} setFilterStatus={setFilterStatus}
+            filterAssignee={filterAssignee} setFilterAssignee={setFilterAssignee}
+            assignableProfiles={profiles}
             onRefresh={fetchWorkRequests} loading={loading}
           />
         </div>
@@ -548,16 +593,18 @@ export const CalendarPage = () => {
           {/* Navigation Bar */}
           <div className="flex items-center justify-between px-4 md:px-8 py-3 bg-white border-b border-gray-100 shrink-0">
             <div className="flex items-center gap-3">
-              <button
-                onClick={() => { setIsDragMode(!isDragMode); setSidebarOpen(!isDragMode); }}
-                className={cn(
-                  "flex items-center gap-2 px-3 py-2 text-sm font-bold rounded-lg transition-all",
-                  isDragMode ? "bg-primary text-white shadow-lg shadow-primary/20" : "bg-white text-gray-600 border border-gray-200 hover:bg-gray-50"
-                )}
-              >
-                <span className="material-symbols-outlined text-[18px]">{isDragMode ? "drag_indicator" : "open_with"}</span>
-                {isDragMode ? "Exit Drag Mode" : "Drag & Drop"}
-              </button>
+              {canReschedule && (
+                <button
+                  onClick={() => { setIsDragMode(!isDragMode); setSidebarOpen(!isDragMode); }}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-2 text-sm font-bold rounded-lg transition-all",
+                    isDragMode ? "bg-primary text-white shadow-lg shadow-primary/20" : "bg-white text-gray-600 border border-gray-200 hover:bg-gray-50"
+                  )}
+                >
+                  <span className="material-symbols-outlined text-[18px]">{isDragMode ? "drag_indicator" : "open_with"}</span>
+                  {isDragMode ? "Exit Drag Mode" : "Drag & Drop"}
+                </button>
+              )}
               {pendingChanges.size > 0 && (
                 <button onClick={handleSaveChanges} disabled={saving}
                   className="flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 shadow-lg shadow-green-600/20">
@@ -567,6 +614,19 @@ export const CalendarPage = () => {
                   }
                 </button>
               )}
+              {schedules.length > 0 && (
+                <button
+                  onClick={() => setShowProjected(!showProjected)}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-2 text-sm font-bold rounded-lg border transition-all",
+                    showProjected ? "bg-gray-100 text-gray-700 border-gray-200" : "bg-white text-gray-400 border-gray-200 hover:bg-gray-50"
+                  )}
+                  title="Show upcoming preventive maintenance that has no work order yet"
+                >
+                  <span className="material-symbols-outlined text-[18px]">event_repeat</span>
+                  {showProjected ? "Hide Maintenance" : "Show Maintenance"}
+                </button>
+              )}
               {isDragMode && (
                 <div className="hidden lg:flex items-center gap-2 text-xs text-gray-400 bg-gray-50 px-3 py-1.5 rounded-full border border-gray-100">
                   <span className="material-symbols-outlined text-[16px]">info</span>
@@ -619,10 +679,11 @@ export const CalendarPage = () => {
               </h3>
               <p className="text-sm text-gray-500 mt-1">
                 {selectedDateRequests.length} work request{selectedDateRequests.length !== 1 ? 's' : ''}
+                {selectedDateProjected.length > 0 && ` · ${selectedDateProjected.length} scheduled`}
               </p>
             </div>
             <div className="flex-1 overflow-y-auto p-4">
-              {selectedDateRequests.length === 0 ? (
+              {selectedDateRequests.length === 0 && selectedDateProjected.length === 0 ? (
                 <div className="text-center py-8">
                   <span className="material-symbols-outlined text-gray-300 text-4xl block mb-3">event_busy</span>
                   <p className="text-gray-400 text-sm">No work requests scheduled for this day</p>
@@ -632,6 +693,25 @@ export const CalendarPage = () => {
                   {selectedDateRequests.map(request => (
                     <WorkRequestCard key={request.id} request={request} onClick={() => {}} />
                   ))}
+                  {selectedDateProjected.length > 0 && (
+                    <div className="pt-2">
+                      <p className="text-xs font-bold text-gray-400 uppercase mb-2">Scheduled Maintenance</p>
+                      <div className="space-y-2">
+                        {selectedDateProjected.map(({ schedule }) => (
+                          <div key={schedule.id} className="p-3 rounded-xl border border-dashed border-gray-300 bg-gray-50">
+                            <div className="flex items-center gap-2">
+                              <span className="material-symbols-outlined text-[18px] text-gray-400">event_repeat</span>
+                              <h4 className="font-bold text-sm text-gray-900 truncate">{schedule.title}</h4>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {describeRecurrence(schedule.frequency, schedule.interval_count)} · {getLabel("locations", schedule.location)}
+                            </p>
+                            <p className="text-xs text-gray-400 mt-0.5">Work order created {schedule.lead_days} days ahead</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
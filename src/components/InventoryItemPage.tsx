@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { InventoryItemDialog } from "@/components/inventory/InventoryItemDialog";
+import { StockAdjustmentDialog } from "@/components/inventory/StockAdjustmentDialog";
+import { PurchaseTaskList } from "@/components/inventory/PurchaseTaskList";
+import {
+  InventoryAdjustment,
+  InventoryItem,
+  PurchaseTask,
+  describeStorage,
+  formatQuantity,
+  getAdjustmentReasonMeta,
+  isLowStock,
+  isPendingPurchase,
+} from "@/lib/inventory";
+import { formatCurrency } from "@/lib/costs";
+import { AppRole, isApprover } from "@/lib/roles";
+
+type LedgerEntry = InventoryAdjustment & {
+  work_requests: { work_order_id: string | null; title: string } | null;
+};
+
+interface InventoryItemPageProps {
+  role: AppRole | null;
+}
+
+export const InventoryItemPage = ({ role }: InventoryItemPageProps) => {
+  const { id = "" } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const canEdit = isApprover(role);
+  const { getLabel } = useLookups();
+  const [item, setItem] = useState<InventoryItem | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [tasks, setTasks] = useState<PurchaseTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [adjusting, setAdjusting] = useState(false);
+  const [receiving, setReceiving] = useState<PurchaseTask | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchItem = useCallback(async () => {
+    try {
+      const [itemResult, ledgerResult, tasksResult] = await Promise.all([
+        supabase.from("inventory_items").select("*").eq("id", id).maybeSingle(),
+        supabase
+          .from("inventory_adjustments")
+          .select("*, work_requests(work_order_id, title)")
+          .eq("item_id", id)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("inventory_purchase_tasks")
+          .select("*")
+          .eq("item_id", id)
+          .order("created_at", { ascending: false }),
+      ]);
+      if (itemResult.error) throw itemResult.error;
+      if (ledgerResult.error) throw ledgerResult.error;
+      if (tasksResult.error) throw tasksResult.error;
+      setItem(itemResult.data);
+      setLedger(ledgerResult.data || []);
+      setTasks(tasksResult.data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load inventory item", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => { fetchItem(); }, [fetchItem]);
+
+  const itemsById = useMemo(() => new Map(item ? [[item.id, item]] : []), [item]);
+
+  const toggleArchived = async () => {
+    if (!item) return;
+    setBusy(true);
+    try {
+      const { data, error } = await supabase
+        .from("inventory_items")
+        .update({ archived_at: item.archived_at ? null : new Date().toISOString() })
+        .eq("id", item.id)
+        .select()
+        .single();
+      if (error) throw error;
+      setItem(data);
+      toast({ title: item.archived_at ? "Item restored" : "Item archived", description: item.name });
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update item", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-gray-400 text-sm py-24">Loading...</p>;
+  }
+
+  if (!item) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center text-center px-4">
+        <div>
+          <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">shelves</span>
+          <h1 className="text-2xl font-extrabold text-gray-900 mb-2">Item not found</h1>
+          <Link to="/inventory" className="text-primary font-bold text-sm hover:underline">Back to inventory</Link>
+        </div>
+      </div>
+    );
+  }
+
+  // ─── Summary ─────────────────────────────────────────────
+  const low = isLowStock(item);
+  // Net of parts handed back when a material line was edited or removed
+  const used = ledger.reduce((sum, e) => sum + (e.reason === "consumed" || e.reason === "returned" ? -e.change : 0), 0);
+  const storage = describeStorage(item, v => getLabel("locations", v));
+
+  const details: { label: string; value: string }[] = [
+    { label: "SKU / part no.", value: item.sku || "—" },
+    { label: "Stored at", value: storage || "—" },
+    { label: "Unit cost", value: `${formatCurrency(item.unit_cost)} / ${item.unit}` },
+    { label: "Reorder below", value: item.reorder_threshold > 0 ? formatQuantity(item.reorder_threshold, item.unit) : "Never" },
+    { label: "Reorder quantity", value: item.reorder_quantity ? formatQuantity(item.reorder_quantity, item.unit) : "Top up to twice the reorder level" },
+    { label: "Preferred vendor", value: item.vendor || "—" },
+  ];
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8">
+        <button onClick={() => navigate("/inventory")} className="flex items-center gap-1 text-sm font-bold text-gray-500 hover:text-primary mb-4">
+          <span className="material-symbols-outlined text-[18px]">arrow_back</span>
+          Inventory
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900 flex items-center gap-2">
+              {item.name}
+              {item.archived_at && <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-gray-100 text-gray-500">Archived</span>}
+            </h1>
+            <p className="text-gray-500 mt-1">{storage || "No storage location recorded"}</p>
+            {low && (
+              <span className="inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-bold bg-amber-100 text-amber-700">Low stock</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {canEdit && (
+              <Button variant="outline" onClick={toggleArchived} disabled={busy}>
+                {item.archived_at ? "Restore" : "Archive"}
+              </Button>
+            )}
+            {canEdit && (
+              <Button variant="outline" onClick={() => setEditing(true)} className="gap-1">
+                <span className="material-symbols-outlined text-[18px]">edit</span>
+                Edit
+              </Button>
+            )}
+            <Button onClick={() => setAdjusting(true)} className="gap-1">
+              <span className="material-symbols-outlined text-[18px]">swap_vert</span>
+              Adjust Stock
+            </Button>
+          </div>
+        </div>
+
+        {/* KPIs */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {[
+            { label: "On Hand", value: formatQuantity(item.quantity_on_hand, item.unit), icon: "shelves" },
+            { label: "Stock Value", value: formatCurrency(item.quantity_on_hand * item.unit_cost), icon: "payments" },
+            { label: "Used on Jobs", value: formatQuantity(used, item.unit), icon: "handyman" },
+            { label: "Open Orders", value: tasks.filter(isPendingPurchase).length.toString(), icon: "shopping_cart" },
+          ].map(kpi => (
+            <div key={kpi.label} className="bg-white rounded-xl border border-gray-100 shadow-sm p-4">
+              <div className="flex items-center gap-2 text-gray-400">
+                <span className="material-symbols-outlined text-[18px]">{kpi.icon}</span>
+                <span className="text-xs font-bold uppercase">{kpi.label}</span>
+              </div>
+              <p className={cn("text-2xl font-extrabold mt-2", kpi.label === "On Hand" && low ? "text-amber-600" : "text-gray-900")}>{kpi.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Details */}
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-5 space-y-3 h-fit">
+            <h2 className="font-extrabold text-gray-900">Details</h2>
+            {details.map(d => (
+              <div key={d.label}>
+                <span className="text-xs font-bold text-gray-400 uppercase">{d.label}</span>
+                <p className="text-sm text-gray-900 mt-0.5">{d.value}</p>
+              </div>
+            ))}
+            {item.notes && (
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase">Notes</span>
+                <p className="text-sm text-gray-700 mt-0.5 whitespace-pre-wrap">{item.notes}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="md:col-span-2 space-y-6">
+            {/* Purchase tasks */}
+            {tasks.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-100 shadow-sm">
+                <h2 className="font-extrabold text-gray-900 px-5 pt-5 pb-3">Purchase Tasks</h2>
+                <PurchaseTaskList
+                  tasks={tasks}
+                  itemsById={itemsById}
+                  showItem={false}
+                  onReceive={setReceiving}
+                  onChanged={fetchItem}
+                />
+              </div>
+            )}
+
+            {/* Ledger */}
+            <div className="bg-white rounded-xl border border-gray-100 shadow-sm">
+              <h2 className="font-extrabold text-gray-900 px-5 pt-5 pb-3">Stock History</h2>
+              {ledger.length === 0 ? (
+                <p className="text-sm text-gray-400 px-5 pb-8">No stock has been logged for this item yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-50">
+                  {ledger.map(entry => {
+                    const meta = getAdjustmentReasonMeta(entry.reason);
+                    const workOrder = entry.work_requests;
+                    return (
+                      <li key={entry.id} className="flex items-center gap-3 px-5 py-3">
+                        <span className="material-symbols-outlined text-[18px] text-gray-400">{meta.icon}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold text-gray-900 truncate">
+                            {meta.label}
+                            {workOrder && (
+                              <Link
+                                to={`/work-orders?q=${encodeURIComponent(workOrder.work_order_id ?? workOrder.title)}`}
+                                className="ml-2 font-mono text-xs text-primary hover:underline"
+                              >
+                                {workOrder.work_order_id ?? workOrder.title}
+                              </Link>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-0.5 truncate">
+                            {format(parseISO(entry.created_at), "MMM d, yyyy h:mm a")}
+                            {entry.created_by_name && ` · ${entry.created_by_name}`}
+                            {entry.note && ` · ${entry.note}`}
+                          </p>
+                        </div>
+                        <span className={cn("text-sm font-bold tabular-nums shrink-0", entry.change > 0 ? "text-green-600" : entry.change < 0 ? "text-red-600" : "text-gray-400")}>
+                          {entry.change > 0 ? "+" : ""}{formatQuantity(entry.change)}
+                        </span>
+                        <span className="text-xs text-gray-400 tabular-nums w-20 text-right shrink-0">{formatQuantity(entry.quantity_after, item.unit)}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <InventoryItemDialog
+          item={item}
+          open
+          onClose={() => setEditing(false)}
+          onSaved={() => { setEditing(false); fetchItem(); }}
+        />
+      )}
+
+      {(adjusting || receiving) && (
+        <StockAdjustmentDialog
+          item={item}
+          purchaseTask={receiving}
+          open
+          onClose={() => { setAdjusting(false); setReceiving(null); }}
+          onSaved={() => { setAdjusting(false); setReceiving(null); fetchItem(); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { useInventory } from "@/hooks/use-inventory";
+import { useLookups } from "@/hooks/use-lookups";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InventoryItemDialog } from "@/components/inventory/InventoryItemDialog";
+import { StockAdjustmentDialog } from "@/components/inventory/StockAdjustmentDialog";
+import { PurchaseTaskList } from "@/components/inventory/PurchaseTaskList";
+import { PurchaseTask, describeStorage, formatQuantity, isLowStock } from "@/lib/inventory";
+import { formatCurrency } from "@/lib/costs";
+import { AppRole, isApprover } from "@/lib/roles";
+
+interface InventoryPageProps {
+  role: AppRole | null;
+}
+
+export const InventoryPage = ({ role }: InventoryPageProps) => {
+  const navigate = useNavigate();
+  const canEdit = isApprover(role);
+  const { items, itemsById, loading, refresh } = useInventory();
+  const { locations, getLabel } = useLookups();
+  const [tasks, setTasks] = useState<PurchaseTask[]>([]);
+  const [search, setSearch] = useState("");
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [lowOnly, setLowOnly] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [receiving, setReceiving] = useState<PurchaseTask | null>(null);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchTasks = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("inventory_purchase_tasks")
+      .select("*")
+      .in("status", ["open", "ordered"])
+      .order("created_at", { ascending: true });
+    if (error) {
+      toast({ title: "Error", description: "Failed to load purchase tasks", variant: "destructive" });
+    } else {
+      setTasks(data || []);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchTasks(); }, [fetchTasks]);
+
+  const refreshAll = () => { refresh(); fetchTasks(); };
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return items.filter(i =>
+      (showArchived || !i.archived_at)
+      && (locationFilter === "all" || i.location === locationFilter)
+      && (!lowOnly || isLowStock(i))
+      && (!q || [i.name, i.sku, i.bin, i.vendor].some(v => v?.toLowerCase().includes(q)))
+    );
+  }, [items, search, locationFilter, lowOnly, showArchived]);
+
+  const activeItems = items.filter(i => !i.archived_at);
+  const lowCount = activeItems.filter(isLowStock).length;
+  const stockValue = activeItems.reduce((sum, i) => sum + i.quantity_on_hand * i.unit_cost, 0);
+  const receivingItem = receiving ? itemsById.get(receiving.item_id) : undefined;
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-6xl mx-auto px-4 md:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">Inventory</h1>
+            <p className="text-gray-500 mt-1">
+              Parts and supplies on hand, worth {formatCurrency(stockValue)}.
+              {lowCount > 0 && <span className="ml-2 text-amber-600 font-bold">{lowCount} running low</span>}
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => setAdding(true)} className="gap-1">
+              <span className="material-symbols-outlined text-[18px]">add</span>
+              New Item
+            </Button>
+          )}
+        </div>
+
+        {/* Reorder queue */}
+        {tasks.length > 0 && (
+          <div className="bg-white rounded-xl border border-amber-200 shadow-sm mb-6 overflow-hidden">
+            <h2 className="flex items-center gap-2 font-extrabold text-gray-900 px-5 pt-4 pb-2">
+              <span className="material-symbols-outlined text-[20px] text-amber-600">shopping_cart</span>
+              To Reorder
+              <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-amber-100 text-amber-700">{tasks.length}</span>
+            </h2>
+            <PurchaseTaskList tasks={tasks} itemsById={itemsById} onReceive={setReceiving} onChanged={fetchTasks} />
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6 flex flex-col lg:flex-row items-start lg:items-center gap-3">
+          <div className="relative flex-1 w-full lg:w-auto">
+            <span className="material-symbols-outlined text-[20px] text-gray-400 absolute left-3 top-1/2 -translate-y-1/2">search</span>
+            <Input
+              placeholder="Search name, SKU, bin or vendor..."
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="pl-10 bg-gray-50 border-gray-200"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={locationFilter} onValueChange={setLocationFilter}>
+              <SelectTrigger className="w-44 bg-white border-gray-200"><SelectValue placeholder="Stored at" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Locations</SelectItem>
+                {locations.map(l => (
+                  <SelectItem key={l.value} value={l.value}>{l.name}{l.archived_at ? " (archived)" : ""}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm text-gray-600 px-2">
+              <Checkbox checked={lowOnly} onCheckedChange={checked => setLowOnly(checked === true)} />
+              Low stock
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 px-2">
+              <Checkbox checked={showArchived} onCheckedChange={checked => setShowArchived(checked === true)} />
+              Show archived
+            </label>
+          </div>
+        </div>
+
+        {loading && items.length === 0 ? (
+          <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+        ) : filtered.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm text-center py-16">
+            <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">shelves</span>
+            <h3 className="font-extrabold text-gray-900 text-lg mb-1">{items.length === 0 ? "No items yet" : "No matching items"}</h3>
+            <p className="text-gray-400 text-sm">
+              {items.length === 0 ? "Add filters, bulbs, fuses and other supplies to track stock." : "Try a different search or filter."}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-100 text-left text-xs font-bold text-gray-400 uppercase">
+                  <th className="px-4 py-3">Item</th>
+                  <th className="px-4 py-3 hidden md:table-cell">Stored at</th>
+                  <th className="px-4 py-3 text-right">On hand</th>
+                  <th className="px-4 py-3 text-right hidden md:table-cell">Reorder below</th>
+                  <th className="px-4 py-3 text-right hidden md:table-cell">Unit cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {filtered.map(item => {
+                  const low = isLowStock(item);
+                  return (
+                    <tr
+                      key={item.id}
+                      onClick={() => navigate(`/inventory/${item.id}`)}
+                      className={cn("cursor-pointer hover:bg-gray-50 transition-colors", item.archived_at && "opacity-60")}
+                    >
+                      <td className="px-4 py-3">
+                        <p className="font-bold text-gray-900 truncate">
+                          {item.name}
+                          {item.archived_at && <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold bg-gray-100 text-gray-500">Archived</span>}
+                        </p>
+                        {item.sku && <p className="text-xs text-gray-500 font-mono truncate">{item.sku}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 hidden md:table-cell">
+                        {describeStorage(item, v => getLabel("locations", v)) || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <span className={cn("text-sm font-bold whitespace-nowrap", low ? "text-amber-600" : "text-gray-900")}>
+                          {low && <span className="material-symbols-outlined text-[16px] align-text-bottom mr-1">warning</span>}
+                          {formatQuantity(item.quantity_on_hand, item.unit)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-500 hidden md:table-cell">
+                        {item.reorder_threshold > 0 ? formatQuantity(item.reorder_threshold) : "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-700 hidden md:table-cell">{formatCurrency(item.unit_cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {adding && (
+        <InventoryItemDialog
+          item={null}
+          open
+          onClose={() => setAdding(false)}
+          onSaved={item => { setAdding(false); refresh(); navigate(`/inventory/${item.id}`); }}
+        />
+      )}
+
+      {receiving && receivingItem && (
+        <StockAdjustmentDialog
+          item={receivingItem}
+          purchaseTask={receiving}
+          open
+          onClose={() => setReceiving(null)}
+          onSaved={() => { setReceiving(null); refreshAll(); }}
+        />
+      )}
+    </div>
+  );
+};
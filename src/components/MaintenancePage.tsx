@@ -0,0 +1,435 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FREQUENCY_OPTIONS, Frequency, MaintenanceSchedule, describeRecurrence } from "@/lib/maintenance";
+import { PRIORITIES, PRIORITY_META, getPriorityLabel } from "@/lib/priorities";
+
+type ChecklistItem = { id: string; text: string; completed: boolean };
+
+type ScheduleForm = {
+  title: string;
+  description: string;
+  department: string;
+  location: string;
+  category: string;
+  priority: MaintenanceSchedule["priority"];
+  estimated_hours: string;
+  requestor_name: string;
+  requestor_email: string;
+  frequency: Frequency;
+  interval_count: number;
+  starts_on: string;
+  ends_on: string;
+  lead_days: number;
+  checklist: ChecklistItem[];
+};
+
+
+const emptyForm = (): ScheduleForm => ({
+  title: "", description: "", department: "facilities", location: "", category: "General",
+  priority: "medium", estimated_hours: "", requestor_name: "", requestor_email: "",
+  frequency: "monthly", interval_count: 1, starts_on: format(new Date(), "yyyy-MM-dd"), ends_on: "",
+  lead_days: 14, checklist: [],
+});
+
+const toForm = (s: MaintenanceSchedule): ScheduleForm => ({
+  title: s.title, description: s.description, department: s.department, location: s.location,
+  category: s.category, priority: s.priority, estimated_hours: s.estimated_hours?.toString() ?? "",
+  requestor_name: s.requestor_name, requestor_email: s.requestor_email,
+  frequency: s.frequency as Frequency, interval_count: s.interval_count, starts_on: s.starts_on,
+  ends_on: s.ends_on ?? "", lead_days: s.lead_days,
+  checklist: Array.isArray(s.checklist) ? s.checklist as ChecklistItem[] : [],
+});
+
+export const MaintenancePage = () => {
+  const { active, getLabel } = useLookups();
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<MaintenanceSchedule | "new" | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("maintenance_schedules")
+        .select("*")
+        .order("is_active", { ascending: false })
+        .order("next_due_on", { ascending: true });
+      if (error) throw error;
+      setSchedules(data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load maintenance schedules", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchSchedules(); }, [fetchSchedules]);
+
+  // ─── Actions ─────────────────────────────────────────────
+  const generate = async (schedule: MaintenanceSchedule) => {
+    setBusyId(schedule.id);
+    try {
+      const { data, error } = await supabase.rpc("generate_maintenance_work_orders", { _schedule_id: schedule.id });
+      if (error) throw error;
+      toast({
+        title: data ? "Work orders created" : "Nothing due yet",
+        description: data
+          ? `${data} work order${data !== 1 ? "s" : ""} created for ${schedule.title}.`
+          : `No occurrences of ${schedule.title} fall within the next ${schedule.lead_days} days.`,
+      });
+      await fetchSchedules();
+    } catch (e: unknown) {
+      toast({ title: "Generation failed", description: e instanceof Error ? e.message : "Could not create work orders", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleActive = async (schedule: MaintenanceSchedule) => {
+    setBusyId(schedule.id);
+    try {
+      const { error } = await supabase.from("maintenance_schedules").update({ is_active: !schedule.is_active }).eq("id", schedule.id);
+      if (error) throw error;
+      setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, is_active: !s.is_active } : s));
+      toast({ title: schedule.is_active ? "Schedule paused" : "Schedule resumed", description: schedule.title });
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update schedule", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (schedule: MaintenanceSchedule) => {
+    if (!window.confirm(`Delete "${schedule.title}"? Work orders it already created are kept.`)) return;
+    setBusyId(schedule.id);
+    try {
+      const { error } = await supabase.from("maintenance_schedules").delete().eq("id", schedule.id);
+      if (error) throw error;
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+      toast({ title: "Schedule deleted", description: schedule.title });
+    } catch (e: unknown) {
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : "Could not delete schedule", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // SCHEDULE DIALOG
+  // ═══════════════════════════════════════════════════════════
+  const ScheduleDialog = () => {
+    const existing = editing && editing !== "new" ? editing : null;
+    const [form, setForm] = useState<ScheduleForm>(() => existing ? toForm(existing) : emptyForm());
+    const [newItemText, setNewItemText] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+
+    // New schedules default to the signed-in user as the requestor
+    useEffect(() => {
+      if (existing) return;
+      let cancelled = false;
+      Promise.all([supabase.auth.getUser(), supabase.rpc("current_actor_name")]).then(([{ data: { user } }, { data: name }]) => {
+        if (cancelled) return;
+        setForm(prev => ({
+          ...prev,
+          requestor_email: prev.requestor_email || user?.email || "",
+          requestor_name: prev.requestor_name || name || "",
+        }));
+      });
+      return () => { cancelled = true; };
+    }, [existing]);
+
+    if (!editing) return null;
+
+    const set = <K extends keyof ScheduleForm>(key: K, value: ScheduleForm[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+    const addChecklistItem = () => {
+      if (!newItemText.trim()) return;
+      set("checklist", [...form.checklist, { id: crypto.randomUUID(), text: newItemText.trim(), completed: false }]);
+      setNewItemText("");
+    };
+
+    const valid = form.title.trim() && form.location && form.department && form.requestor_name.trim()
+      && form.requestor_email.trim() && form.starts_on && form.interval_count > 0
+      && (!form.ends_on || form.ends_on >= form.starts_on);
+
+    const handleSubmit = async () => {
+      setSubmitting(true);
+      const payload = {
+        title: form.title.trim(),
+        description: form.description.trim(),
+        department: form.department,
+        location: form.location,
+        category: form.category,
+        priority: form.priority,
+        estimated_hours: form.estimated_hours ? parseFloat(form.estimated_hours) : null,
+        requestor_name: form.requestor_name.trim(),
+        requestor_email: form.requestor_email.trim(),
+        frequency: form.frequency,
+        interval_count: form.interval_count,
+        starts_on: form.starts_on,
+        ends_on: form.ends_on || null,
+        lead_days: form.lead_days,
+        checklist: form.checklist,
+      };
+      try {
+        if (existing) {
+          const { error } = await supabase.from("maintenance_schedules").update(payload).eq("id", existing.id);
+          if (error) throw error;
+        } else {
+          const { data: { user } } = await supabase.auth.getUser();
+          const { error } = await supabase.from("maintenance_schedules").insert({ ...payload, created_by: user?.id ?? null });
+          if (error) throw error;
+        }
+        toast({ title: existing ? "Schedule updated" : "Schedule created", description: payload.title });
+        setEditing(null);
+        fetchSchedules();
+      } catch (e: unknown) {
+        toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not save schedule", variant: "destructive" });
+      } finally {
+        setSubmitting(false);
+      }
+    };
+
+    return (
+      <Dialog open={!!editing} onOpenChange={() => setEditing(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{existing ? "Edit Maintenance Schedule" : "New Maintenance Schedule"}</DialogTitle>
+            <DialogDescription>Work orders are created automatically ahead of each due date.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Title</Label>
+              <Input placeholder="e.g. Replace HVAC filters" value={form.title} onChange={e => set("title", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea value={form.description} onChange={e => set("description", e.target.value)} className="min-h-[70px]" />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select value={form.department} onValueChange={v => set("department", v)}>
+                  <SelectTrigger><SelectValue placeholder="Department" /></SelectTrigger>
+                  <SelectContent>
+                    {active("departments").map(d => <SelectItem key={d.value} value={d.value}>{d.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <Select value={form.location} onValueChange={v => set("location", v)}>
+                  <SelectTrigger><SelectValue placeholder="Location" /></SelectTrigger>
+                  <SelectContent>
+                    {active("locations").map(l => <SelectItem key={l.value} value={l.value}>{l.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={v => set("category", v)}>
+                  <SelectTrigger><SelectValue placeholder="Category" /></SelectTrigger>
+                  <SelectContent>
+                    {active("categories").map(c => <SelectItem key={c.value} value={c.value}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={form.priority} onValueChange={v => set("priority", v as ScheduleForm["priority"])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PRIORITIES.map(p => <SelectItem key={p} value={p}>{PRIORITY_META[p].label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Recurrence */}
+            <div className="p-3 bg-gray-50 border border-gray-100 rounded-lg space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-2">
+                  <Label>Repeats</Label>
+                  <Select value={form.frequency} onValueChange={v => set("frequency", v as Frequency)}>
+                    <SelectTrigger className="bg-white"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {FREQUENCY_OPTIONS.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Every</Label>
+                  <Input type="number" min="1" value={form.interval_count} onChange={e => set("interval_count", parseInt(e.target.value, 10) || 0)} className="bg-white" />
+                </div>
+                <div className="space-y-2">
+                  <Label>First due</Label>
+                  <Input type="date" value={form.starts_on} onChange={e => set("starts_on", e.target.value)} className="bg-white" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Ends (optional)</Label>
+                  <Input type="date" value={form.ends_on} onChange={e => set("ends_on", e.target.value)} className="bg-white" />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                <span className="font-bold text-gray-900">{form.interval_count > 0 ? describeRecurrence(form.frequency, form.interval_count) : "—"}</span>
+                <span>· create work orders</span>
+                <Input type="number" min="0" max="365" value={form.lead_days} onChange={e => set("lead_days", parseInt(e.target.value, 10) || 0)} className="w-20 h-8 bg-white" />
+                <span>days ahead</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Requestor name</Label>
+                <Input value={form.requestor_name} onChange={e => set("requestor_name", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Requestor email</Label>
+                <Input type="email" value={form.requestor_email} onChange={e => set("requestor_email", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Est. hours</Label>
+                <Input type="number" step="0.25" min="0" value={form.estimated_hours} onChange={e => set("estimated_hours", e.target.value)} />
+              </div>
+            </div>
+
+            {/* Checklist */}
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add checklist item..."
+                  value={newItemText}
+                  onChange={e => setNewItemText(e.target.value)}
+                  onKeyDown={e => { if (e.key === "Enter") { e.preventDefault(); addChecklistItem(); } }}
+                />
+                <Button type="button" variant="outline" size="sm" onClick={addChecklistItem} className="shrink-0">
+                  <span className="material-symbols-outlined text-[18px]">add</span>
+                </Button>
+              </div>
+              {form.checklist.length > 0 && (
+                <div className="space-y-1 p-2 bg-gray-50 rounded-lg border border-gray-100">
+                  {form.checklist.map(item => (
+                    <div key={item.id} className="flex items-center gap-2 text-sm">
+                      <span className="material-symbols-outlined text-[18px] text-gray-400">check_box_outline_blank</span>
+                      <span className="flex-1">{item.text}</span>
+                      <button onClick={() => set("checklist", form.checklist.filter(i => i.id !== item.id))} className="text-gray-400 hover:text-red-500">
+                        <span className="material-symbols-outlined text-[16px]">close</span>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={submitting || !valid}>
+              {submitting ? "Saving..." : existing ? "Save Changes" : "Create Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">Preventive Maintenance</h1>
+            <p className="text-gray-500 mt-1">Recurring jobs that create their own work orders.</p>
+          </div>
+          <Button onClick={() => setEditing("new")} className="gap-1">
+            <span className="material-symbols-outlined text-[18px]">add</span>
+            New Schedule
+          </Button>
+        </div>
+
+        {loading && schedules.length === 0 ? (
+          <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+        ) : schedules.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm text-center py-16">
+            <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">event_repeat</span>
+            <h3 className="font-extrabold text-gray-900 text-lg mb-1">No schedules yet</h3>
+            <p className="text-gray-400 text-sm">Add filter changes, extinguisher checks and other recurring work.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className={cn("bg-white rounded-xl border border-gray-100 shadow-sm p-4", !schedule.is_active && "opacity-60")}>
+                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="material-symbols-outlined text-[18px] text-primary">event_repeat</span>
+                      <h3 className="font-bold text-gray-900 truncate">{schedule.title}</h3>
+                      {!schedule.is_active && <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-gray-100 text-gray-500">Paused</span>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-gray-500">
+                      <span className="font-bold text-gray-700">{describeRecurrence(schedule.frequency, schedule.interval_count)}</span>
+                      <span className="flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[14px] text-gray-400">location_on</span>{getLabel("locations", schedule.location)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[14px] text-gray-400">groups</span>{getLabel("departments", schedule.department)}
+                      </span>
+                      <span>{getPriorityLabel(schedule.priority)}</span>
+                      {schedule.next_due_on && (!schedule.ends_on || schedule.next_due_on <= schedule.ends_on) ? (
+                        <span>Next due {format(parseISO(schedule.next_due_on), "EEE, MMM d, yyyy")}</span>
+                      ) : (
+                        <span>Ended</span>
+                      )}
+                      {schedule.last_generated_on && <span>Last created for {format(parseISO(schedule.last_generated_on), "MMM d")}</span>}
+                    </div>
+                    {schedule.last_error && (
+                      <p className="mt-2 text-xs font-bold text-red-600 flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[14px]">error</span>
+                        {schedule.last_error}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => generate(schedule)} disabled={busyId === schedule.id || !schedule.is_active}>
+                      Create Due Now
+                    </Button>
+                    <button onClick={() => setEditing(schedule)} className="p-1.5 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg" title="Edit">
+                      <span className="material-symbols-outlined text-[18px]">edit</span>
+                    </button>
+                    <button onClick={() => toggleActive(schedule)} disabled={busyId === schedule.id} className="p-1.5 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg" title={schedule.is_active ? "Pause" : "Resume"}>
+                      <span className="material-symbols-outlined text-[18px]">{schedule.is_active ? "pause_circle" : "play_circle"}</span>
+                    </button>
+                    <button onClick={() => remove(schedule)} disabled={busyId === schedule.id} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-gray-100 rounded-lg" title="Delete">
+                      <span className="material-symbols-outlined text-[18px]">delete</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ScheduleDialog />
+    </div>
+  );
+};
@@ -0,0 +1,334 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { WorkRequestTimeline } from "@/components/timeline/WorkRequestTimeline";
+import { AppRole } from "@/lib/roles";
+import { useStatusTransitions } from "@/hooks/use-status-transitions";
+import { useLookups } from "@/hooks/use-lookups";
+import { WorkTimer } from "@/components/timer/WorkTimer";
+import { TimeEntryLog } from "@/components/timer/TimeEntryLog";
+import { CostSummary } from "@/components/costs/CostSummary";
+import { MaterialsEditor } from "@/components/costs/MaterialsEditor";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
+import { isOpenEmergency, pinEmergencies } from "@/lib/priorities";
+import { applyTimerTransition, formatDuration, getElapsedSeconds, secondsToHours } from "@/lib/work-timer";
+
+type WorkRequest = Database["public"]["Tables"]["work_requests"]["Row"];
+
+// Groups in display order; rejected jobs are left off entirely
+const STATUS_GROUPS = [
+  { status: "in_progress", label: "In Progress", icon: "play_circle", color: "text-blue-600 bg-blue-100" },
+  { status: "paused", label: "Paused", icon: "pause_circle", color: "text-gray-600 bg-gray-100" },
+  { status: "approved", label: "Ready to Start", icon: "check_circle", color: "text-green-600 bg-green-100" },
+  { status: "pending", label: "Awaiting Approval", icon: "pending", color: "text-amber-600 bg-amber-100" },
+  { status: "completed", label: "Completed", icon: "task_alt", color: "text-green-700 bg-green-50" },
+] as const;
+
+const ACTION_STYLES: Record<string, string> = {
+  start: "bg-blue-50 text-blue-700 hover:bg-blue-100 border-blue-200",
+  complete: "bg-green-50 text-green-700 hover:bg-green-100 border-green-200",
+  pause: "bg-gray-50 text-gray-600 hover:bg-gray-100 border-gray-200",
+  resume: "bg-blue-50 text-blue-700 hover:bg-blue-100 border-blue-200",
+};
+
+interface MyWorkPageProps {
+  role: AppRole | null;
+}
+
+export const MyWorkPage = ({ role }: MyWorkPageProps) => {
+  const { getActions } = useStatusTransitions(role);
+  const { getLabel } = useLookups();
+  const [jobs, setJobs] = useState<WorkRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [completeTarget, setCompleteTarget] = useState<WorkRequest | null>(null);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles").select("id").eq("user_id", user.id).maybeSingle();
+      if (profileError) throw profileError;
+      if (!profile) {
+        setJobs([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("work_request_assignees")
+        .select("work_requests(*)")
+        .eq("profile_id", profile.id);
+      if (error) throw error;
+
+      const assigned = (data || [])
+        .map((row) => row.work_requests)
+        .filter((r): r is WorkRequest => !!r)
+        .sort((a, b) => a.requested_date.localeCompare(b.requested_date));
+      setJobs(assigned);
+    } catch {
+      toast({ title: "Error", description: "Failed to load your work", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchJobs(); }, [fetchJobs]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("my_work_changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "work_request_assignees" }, () => { fetchJobs(); })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "work_requests" }, (payload) => {
+        setJobs(prev => prev.map(j => j.id === (payload.new as WorkRequest).id ? payload.new as WorkRequest : j));
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [fetchJobs]);
+
+  // ─── Actions ─────────────────────────────────────────────
+  const moveTo = async (job: WorkRequest, status: WorkRequest["status"], title: string) => {
+    try {
+      const { error } = await supabase.rpc("update_work_request_status", { _request_id: job.id, _status: status });
+      if (error) throw error;
+      setJobs(prev => prev.map(j => j.id === job.id ? { ...j, ...applyTimerTransition(j, j.status, status), status } : j));
+      toast({ title, description: `${job.work_order_id || job.title}` });
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update work order", variant: "destructive" });
+    }
+  };
+
+  const runAction = (action: string, job: WorkRequest) => {
+    switch (action) {
+      case "start": moveTo(job, "in_progress", "Work Started"); break;
+      case "pause": moveTo(job, "paused", "Paused"); break;
+      case "resume": moveTo(job, "in_progress", "Resumed"); break;
+      case "complete": setCompleteTarget(job); break;
+    }
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // COMPLETE DIALOG
+  // ═══════════════════════════════════════════════════════════
+  const CompleteDialog = () => {
+    const recordedSeconds = completeTarget ? getElapsedSeconds(completeTarget) : 0;
+    const [hours, setHours] = useState(recordedSeconds > 0 ? secondsToHours(recordedSeconds) : completeTarget?.estimated_hours || 1);
+    const [notes, setNotes] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+
+    if (!completeTarget) return null;
+
+    const handleSubmit = async () => {
+      setSubmitting(true);
+      try {
+        const { error } = await supabase.rpc("complete_work", {
+          started_id: completeTarget.id,
+          actual_hours_worked: hours, notes: notes.trim() || null
+        });
+        if (error) throw error;
+        setJobs(prev => prev.map(j => j.id === completeTarget.id ? {
+          ...j, ...applyTimerTransition(j, j.status, "completed"), status: "completed" as const, completed_at: new Date().toISOString(),
+          actual_hours: hours, completion_notes: notes.trim() || null
+        } : j));
+        toast({ title: "Completed", description: `${completeTarget.work_order_id || completeTarget.title} marked as complete.` });
+        setCompleteTarget(null);
+      } catch (e: unknown) {
+        toast({ title: "Completion failed", description: e instanceof Error ? e.message : "Failed to complete work order", variant: "destructive" });
+      } finally { setSubmitting(false); }
+    };
+
+    return (
+      <Dialog open={!!completeTarget} onOpenChange={() => setCompleteTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Complete Work Order</DialogTitle>
+            <DialogDescription>{completeTarget.work_order_id} · {completeTarget.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Hours Worked</Label>
+            <Input type="number" step="0.25" min="0.25" value={hours} onChange={e => setHours(parseFloat(e.target.value) || 0)} className="w-28" />
+            {recordedSeconds > 0 && (
+              <p className="text-xs text-blue-700">{formatDuration(recordedSeconds)} recorded by the timer</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Costs</Label>
+            <CostSummary workRequestId={completeTarget.id} hours={hours} />
+          </div>
+          <div className="space-y-2">
+            <Label>Notes (optional)</Label>
+            <Textarea placeholder="What was done?" value={notes} onChange={e => setNotes(e.target.value)} className="min-h-[80px]" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompleteTarget(null)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={submitting || hours <= 0} className="bg-green-600 hover:bg-green-700 text-white">
+              {submitting ? "Completing..." : "Mark as Complete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  if (loading && jobs.length === 0) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-3 animate-pulse">
+            <span className="material-symbols-outlined text-primary">engineering</span>
+          </div>
+          <p className="text-gray-500 text-sm">Loading your work...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const openCount = jobs.filter(j => !["completed", "rejected"].includes(j.status)).length;
+
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">My Work</h1>
+            <p className="text-gray-500 mt-1">
+              {openCount} open job{openCount !== 1 ? "s" : ""} assigned to you.
+            </p>
+          </div>
+          <button onClick={fetchJobs} className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 shadow-sm">
+            <span className={cn("material-symbols-outlined text-[18px]", loading && "animate-spin")}>refresh</span>
+            Refresh
+          </button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm text-center py-16">
+            <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">engineering</span>
+            <h3 className="font-extrabold text-gray-900 text-lg mb-1">Nothing assigned yet</h3>
+            <p className="text-gray-400 text-sm">Jobs assigned to you will show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {STATUS_GROUPS.map(group => {
+              const groupJobs = pinEmergencies(jobs.filter(j => j.status === group.status));
+              if (groupJobs.length === 0) return null;
+              return (
+                <section key={group.status}>
+                  <div className="flex items-center gap-2 mb-3">
+                    <span className={cn("size-7 rounded-full flex items-center justify-center", group.color)}>
+                      <span className="material-symbols-outlined text-[16px]">{group.icon}</span>
+                    </span>
+                    <h2 className="text-sm font-extrabold text-gray-900 uppercase tracking-wide">{group.label}</h2>
+                    <span className="text-xs font-bold text-gray-400">{groupJobs.length}</span>
+                  </div>
+                  <div className="space-y-2">
+                    {groupJobs.map(job => {
+                      const actions = getActions(job.status).filter(t => !t.requires_approver);
+                      return (
+                        <div key={job.id} className="bg-white rounded-xl border border-gray-100 shadow-sm">
+                          <div
+                            onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                            className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 cursor-pointer hover:bg-gray-50/60"
+                          >
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="font-extrabold text-xs text-gray-500">{job.work_order_id || `WO-${job.id.slice(-4)}`}</span>
+                                <PriorityBadge priority={job.priority} emergency={isOpenEmergency(job)} className="px-2 py-0.5 text-[10px]" />
+                              </div>
+                              <h3 className="font-bold text-sm text-gray-900 truncate mt-0.5">{job.title}</h3>
+                              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-gray-500">
+                                <span className="flex items-center gap-1">
+                                  <span className="material-symbols-outlined text-[14px] text-gray-400">location_on</span>{getLabel("locations", job.location)}
+                                </span>
+                                <span className="flex items-center gap-1">
+                                  <span className="material-symbols-outlined text-[14px] text-gray-400">calendar_today</span>
+                                  {format(parseISO(job.requested_date), "EEE, MMM d")}
+                                </span>
+                                {job.estimated_hours && <span>est. {job.estimated_hours}h</span>}
+                                {(job.status === "in_progress" || job.status === "paused") && <WorkTimer timer={job} />}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-1.5 shrink-0">
+                              {actions.map(t => (
+                                <button
+                                  key={t.action}
+                                  onClick={(e) => { e.stopPropagation(); runAction(t.action, job); }}
+                                  className={cn("px-3 py-1.5 text-xs font-bold rounded-lg border transition-all", ACTION_STYLES[t.action] || ACTION_STYLES.pause)}
+                                >
+                                  {t.label}
+                                </button>
+                              ))}
+                              {job.status === "completed" && job.actual_hours && (
+                                <span className="text-xs font-bold text-green-600">{job.actual_hours}h</span>
+                              )}
+                            </div>
+                          </div>
+                          {expandedId === job.id && (
+                            <div className="border-t border-gray-100 p-4 grid grid-cols-1 md:grid-cols-2 gap-6 bg-gray-50/50">
+                              <div className="space-y-3">
+                                <div>
+                                  <span className="text-xs font-bold text-gray-400 uppercase">Description</span>
+                                  <p className="text-sm text-gray-700 mt-1">{job.description || "No description provided."}</p>
+                                </div>
+                                <div>
+                                  <span className="text-xs font-bold text-gray-400 uppercase">Requestor</span>
+                                  <p className="text-sm text-gray-900 mt-0.5">{job.requestor_name}</p>
+                                  {job.requestor_phone && <p className="text-xs text-gray-500">{job.requestor_phone}</p>}
+                                </div>
+                                {job.status !== "pending" && (
+                                  <div>
+                                    <span className="text-xs font-bold text-gray-400 uppercase">Time Log</span>
+                                    <div className="mt-2">
+                                      <TimeEntryLog workRequestId={job.id} />
+                                    </div>
+                                  </div>
+                                )}
+                                {job.status !== "pending" && (
+                                  <div>
+                                    <span className="text-xs font-bold text-gray-400 uppercase">Parts & Materials</span>
+                                    <div className="mt-2">
+                                      <MaterialsEditor workRequestId={job.id} editable={job.status !== "completed" && job.status !== "rejected"} />
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                              <div>
+                                <span className="text-xs font-bold text-gray-400 uppercase">History</span>
+                                <div className="mt-3">
+                                  <WorkRequestTimeline workRequestId={job.id} />
+                                </div>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CompleteDialog />
+    </div>
+  );
+};
+
+export default MyWorkPage;
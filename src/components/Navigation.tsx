@@ -1,21 +1,39 @@
 import { Button } from "@/components/ui/button";
 import { useLocation, useNavigate } from "react-router-dom";
+import { AppRole, canAccessRoute, getHomeRoute } from "@/lib/roles";
 
 interface NavigationProps {
   isLoggedIn: boolean;
+  role: AppRole | null;
   onLogout: () => void;
 }
 
-export const Navigation = ({ isLoggedIn, onLogout }: NavigationProps) => {
+const navItems = [
+  { path: "/admin",       label: "Dashboard",   icon: "dashboard"      },
+  { path: "/work-orders", label: "Work Orders", icon: "assignment"     },
+  { path: "/approvals",   label: "Approvals",   icon: "approval"       },
+  { path: "/my-work",     label: "My Work",     icon: "engineering"    },
+  { path: "/analytics",   label: "Analytics",   icon: "bar_chart"      },
+  { path: "/calendar",    label: "Calendar",    icon: "calendar_month" },
+  { path: "/maintenance", label: "Maintenance", icon: "event_repeat"   },
+  { path: "/assets",      label: "Assets",      icon: "inventory_2"    },
+  { path: "/inventory",   label: "Inventory",   icon: "shelves"        },
+  { path: "/vendors",     label: "Vendors",     icon: "handshake"      },
+  { path: "/tasks",       label: "Tasks",       icon: "checklist"      },
+  { path: "/settings",    label: "Settings",    icon: "settings"       },
+];
+
+export const Navigation = ({ isLoggedIn, role, onLogout }: NavigationProps) => {
   const location = useLocation();
   const navigate = useNavigate();
+  const visibleItems = navItems.filter((item) => canAccessRoute(role, item.path));
 
   // Admin navigation
   if (isLoggedIn) {
     return (
       <nav className="sticky top-0 z-50 h-[72px] w-full bg-white border-b border-gray-100 px-4 md:px-8 flex items-center justify-between shadow-sm">
         {/* Left: Logo */}
-        <div className="flex items-center gap-3 cursor-pointer" onClick={() => navigate("/admin")}>
+        <div className="flex items-center gap-3 cursor-pointer" onClick={() => navigate(getHomeRoute(role))}>
           <div className="bg-primary text-white p-1.5 rounded-lg flex items-center justify-center">
             <span className="material-symbols-outlined text-[24px]">church</span>
           </div>
@@ -24,46 +42,17 @@ export const Navigation = ({ isLoggedIn, onLogout }: NavigationProps) => {
 
         {/* Center: Nav links (desktop) */}
         <div className="hidden md:flex items-center gap-10 h-full">
-          <button
-            onClick={() => navigate("/admin")}
-            className={`text-sm font-semibold transition-colors duration-200 ${
-              location.pathname === "/admin" ? "nav-link-active" : "text-gray-500 hover:text-primary"
-            }`}
-          >
-            Dashboard
-          </button>
-          <button
-            onClick={() => navigate("/work-orders")}
-            className={`text-sm font-semibold transition-colors duration-200 ${
-              location.pathname === "/work-orders" ? "nav-link-active" : "text-gray-500 hover:text-primary"
-            }`}
-          >
-            Work Orders
-          </button>
-          <button
-            onClick={() => navigate("/analytics")}
-            className={`text-sm font-semibold transition-colors duration-200 ${
-              location.pathname === "/analytics" ? "nav-link-active" : "text-gray-500 hover:text-primary"
-            }`}
-          >
-            Analytics
-          </button>
-          <button
-            onClick={() => navigate("/calendar")}
-            className={`text-sm font-semibold transition-colors duration-200 ${
-              location.pathname === "/calendar" ? "nav-link-active" : "text-gray-500 hover:text-primary"
-            }`}
-          >
-            Calendar
-          </button>
-          <button
-            onClick={() => navigate("/tasks")}
-            className={`text-sm font-semibold transition-colors duration-200 ${
-              location.pathname === "/tasks" ? "nav-link-active" : "text-gray-500 hover:text-primary"
-            }`}
-          >
-            Tasks
-          </button>
+          {visibleItems.map((item) => (
+            <button
+              key={item.path}
+              onClick={() => navigate(item.path)}
+              className={`text-sm font-semibold transition-colors duration-200 ${
+                location.pathname === item.path ? "nav-link-active" : "text-gray-500 hover:text-primary"
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
         </div>
 
         {/* Right: Actions */}
@@ -80,21 +69,17 @@ export const Navigation = ({ isLoggedIn, onLogout }: NavigationProps) => {
 
           {/* Mobile nav icons */}
           <div className="flex md:hidden items-center gap-1">
-            <Button size="sm" variant={location.pathname === "/admin" ? "default" : "ghost"} onClick={() => navigate("/admin")} className="h-9 w-9 p-0">
-              <span className="material-symbols-outlined text-[20px]">dashboard</span>
-            </Button>
-            <Button size="sm" variant={location.pathname === "/work-orders" ? "default" : "ghost"} onClick={() => navigate("/work-orders")} className="h-9 w-9 p-0">
-              <span className="material-symbols-outlined text-[20px]">assignment</span>
-            </Button>
-            <Button size="sm" variant={location.pathname === "/analytics" ? "default" : "ghost"} onClick={() => navigate("/analytics")} className="h-9 w-9 p-0">
-              <span className="material-symbols-outlined text-[20px]">bar_chart</span>
-            </Button>
-            <Button size="sm" variant={location.pathname === "/calendar" ? "default" : "ghost"} onClick={() => navigate("/calendar")} className="h-9 w-9 p-0">
-              <span className="material-symbols-outlined text-[20px]">calendar_month</span>
-            </Button>
-            <Button size="sm" variant={location.pathname === "/tasks" ? "default" : "ghost"} onClick={() => navigate("/tasks")} className="h-9 w-9 p-0">
-              <span className="material-symbols-outlined text-[20px]">checklist</span>
-            </Button>
+            {visibleItems.map((item) => (
+              <Button
+                key={item.path}
+                size="sm"
+                variant={location.pathname === item.path ? "default" : "ghost"}
+                onClick={() => navigate(item.path)}
+                className="h-9 w-9 p-0"
+              >
+                <span className="material-symbols-outlined text-[20px]">{item.icon}</span>
+              </Button>
+            ))}
           </div>
 
           <button
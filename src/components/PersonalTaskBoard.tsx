@@ -10,34 +10,26 @@ import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
+import { PRIORITIES, PRIORITY_META, Priority } from "@/lib/priorities";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
 
 interface PersonalTask {
   id: string;
   title: string;
   description: string | null;
-  priority: "low" | "medium" | "high" | "urgent";
+  priority: Priority;
   status: "todo" | "in_progress" | "completed";
   created_at: string;
   updated_at: string;
 }
 
-const getPriorityBadge = (priority: string) => {
-  switch (priority) {
-    case "urgent": return "bg-red-50 text-red-600 border border-red-200";
-    case "high": return "bg-orange-50 text-orange-600 border border-orange-200";
-    case "medium": return "bg-blue-50 text-blue-600 border border-blue-200";
-    case "low": return "bg-gray-50 text-gray-500 border border-gray-200";
-    default: return "bg-gray-50 text-gray-500 border border-gray-200";
-  }
-};
-
 export const PersonalTaskBoard = () => {
   const [tasks, setTasks] = useState<PersonalTask[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<PersonalTask | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [formData, setFormData] = useState<{ title: string; description: string; priority: "low" | "medium" | "high" | "urgent" }>({
+  const [formData, setFormData] = useState<{ title: string; description: string; priority: Priority }>({
     title: "", description: "", priority: "medium"
   });
   const { toast } = useToast();
@@ -136,7 +128,7 @@ export const PersonalTaskBoard = () => {
       </div>
       {task.description && <p className="text-xs text-gray-500 mb-3 line-clamp-2">{task.description}</p>}
       <div className="flex items-center justify-between">
-        <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold", getPriorityBadge(task.priority))}>{task.priority}</span>
+        <PriorityBadge priority={task.priority} className="px-2 py-0.5" />
         <div className="flex gap-1">
           {task.status === "todo" && (
             <button onClick={() => updateTaskStatus(task.id, "in_progress")} className="px-2.5 py-1 bg-amber-50 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-100 flex items-center gap-1">
@@ -193,11 +185,10 @@ export const PersonalTaskBoard = () => {
                 <div><Label htmlFor="title">Title</Label><Input id="title" value={formData.title} onChange={e => setFormData(prev => ({ ...prev, title: e.target.value }))} placeholder="Enter task title" required /></div>
                 <div><Label htmlFor="description">Description</Label><Textarea id="description" value={formData.description} onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))} placeholder="Optional description" rows={3} /></div>
                 <div><Label htmlFor="priority">Priority</Label>
-                  <Select value={formData.priority} onValueChange={value => setFormData(prev => ({ ...prev, priority: value as "low" | "medium" | "high" | "urgent" }))}>
+                  <Select value={formData.priority} onValueChange={value => setFormData(prev => ({ ...prev, priority: value as Priority }))}>
                     <SelectTrigger><SelectValue placeholder="Select priority" /></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="low">Low</SelectItem><SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="high">High</SelectItem><SelectItem value="urgent">Urgent</SelectItem>
+                      {PRIORITIES.map(p => <SelectItem key={p} value={p}>{PRIORITY_META[p].label}</SelectItem>)}
                     </SelectContent>
                   </Select>
                 </div>
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { LOOKUP_KINDS, LookupEntry, LookupKind, isActiveEntry, toLookupValue } from "@/lib/lookups";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { SlaTargetsEditor } from "@/components/sla/SlaTargetsEditor";
+import { EmailTemplatesEditor } from "@/components/email/EmailTemplatesEditor";
+import { WebhookSubscriptions } from "@/components/webhooks/WebhookSubscriptions";
+import { WebhookDeliveryLog } from "@/components/webhooks/WebhookDeliveryLog";
+import { OnCallRoster } from "@/components/emergency/OnCallRoster";
+import { LaborRatesEditor } from "@/components/costs/LaborRatesEditor";
+import { ApprovalChainEditor } from "@/components/approvals/ApprovalChainEditor";
+
+type Section = "lookups" | "sla" | "on_call" | "approvals" | "labor" | "emails" | "webhooks";
+
+const SECTION_TABS: { section: Exclude<Section, "lookups">; label: string; icon: string }[] = [
+  { section: "sla", label: "SLA Targets", icon: "timer" },
+  { section: "on_call", label: "On-call", icon: "e911_emergency" },
+  { section: "approvals", label: "Approval Chains", icon: "account_tree" },
+  { section: "labor", label: "Labor Rates", icon: "payments" },
+  { section: "emails", label: "Emails", icon: "mail" },
+  { section: "webhooks", label: "Webhooks", icon: "webhook" },
+];
+
+export const SettingsPage = () => {
+  const lookups = useLookups();
+  const { refresh, loading } = lookups;
+  const [kind, setKind] = useState<LookupKind>("departments");
+  const [section, setSection] = useState<Section>("lookups");
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const meta = LOOKUP_KINDS.find(k => k.kind === kind)!;
+  const entries = lookups[kind];
+  const activeEntries = entries.filter(isActiveEntry);
+  const archivedEntries = entries.filter(e => !isActiveEntry(e));
+
+  const switchKind = (next: LookupKind) => {
+    setKind(next);
+    setSection("lookups");
+    setNewName("");
+    setEditingId(null);
+  };
+
+  // ─── Mutations ───────────────────────────────────────────
+  const run = async (action: () => PromiseLike<{ error: Error | null }>, title: string, description: string) => {
+    setSaving(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      await refresh();
+      toast({ title, description });
+      return true;
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : `Could not update ${meta.singular}`, variant: "destructive" });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim().replace(/\s+/g, " ");
+    if (!name) return;
+    const value = toLookupValue(name);
+    if (entries.some(e => e.value === value || e.name.toLowerCase() === name.toLowerCase())) {
+      toast({ title: "Already exists", description: `A ${meta.singular} named "${name}" already exists. Restore or rename it instead.`, variant: "destructive" });
+      return;
+    }
+    const sortOrder = activeEntries.reduce((max, e) => Math.max(max, e.sort_order), 0) + 1;
+    const ok = await run(
+      () => supabase.from(kind).insert({ value, name, sort_order: sortOrder }),
+      "Added", `${name} is now available.`
+    );
+    if (ok) setNewName("");
+  };
+
+  const handleRename = async (entry: LookupEntry) => {
+    const name = editName.trim().replace(/\s+/g, " ");
+    if (!name || name === entry.name) {
+      setEditingId(null);
+      return;
+    }
+    const ok = await run(
+      () => supabase.from(kind).update({ name }).eq("id", entry.id),
+      "Renamed", `${entry.name} is now ${name}. Existing requests show the new name.`
+    );
+    if (ok) setEditingId(null);
+  };
+
+  const setArchived = (entry: LookupEntry, archived: boolean) => run(
+    () => supabase.from(kind).update({ archived_at: archived ? new Date().toISOString() : null }).eq("id", entry.id),
+    archived ? "Archived" : "Restored",
+    archived ? `${entry.name} can no longer be picked on new requests.` : `${entry.name} can be picked again.`
+  );
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  const renderRow = (entry: LookupEntry) => {
+    const archived = !isActiveEntry(entry);
+    const editing = editingId === entry.id;
+    return (
+      <div key={entry.id} className="flex items-center gap-3 px-4 py-3">
+        {editing ? (
+          <Input
+            autoFocus
+            value={editName}
+            onChange={e => setEditName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === "Enter") handleRename(entry);
+              if (e.key === "Escape") setEditingId(null);
+            }}
+            className="h-9 max-w-sm"
+          />
+        ) : (
+          <div className="flex-1 min-w-0">
+            <p className={cn("text-sm font-bold truncate", archived ? "text-gray-400" : "text-gray-900")}>{entry.name}</p>
+            {entry.value !== entry.name && <p className="text-xs text-gray-400 truncate">{entry.value}</p>}
+          </div>
+        )}
+        <div className="flex items-center gap-1.5 ml-auto shrink-0">
+          {editing ? (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={saving}>Cancel</Button>
+              <Button size="sm" onClick={() => handleRename(entry)} disabled={saving || !editName.trim()}>Save</Button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => { setEditingId(entry.id); setEditName(entry.name); }}
+                disabled={saving}
+                className="p-1.5 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg"
+                title="Rename"
+              >
+                <span className="material-symbols-outlined text-[18px]">edit</span>
+              </button>
+              <button
+                onClick={() => setArchived(entry, !archived)}
+                disabled={saving}
+                className="p-1.5 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg"
+                title={archived ? "Restore" : "Archive"}
+              >
+                <span className="material-symbols-outlined text-[18px]">{archived ? "unarchive" : "archive"}</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-extrabold text-gray-900">Settings</h1>
+          <p className="text-gray-500 mt-1">Manage the lists used by the request form, filters and reports, response targets, requestor emails and outbound webhooks.</p>
+        </div>
+
+        <div className="flex items-center gap-2 mb-6 overflow-x-auto">
+          {LOOKUP_KINDS.map(k => (
+            <button
+              key={k.kind}
+              onClick={() => switchKind(k.kind)}
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold border transition-all whitespace-nowrap",
+                section === "lookups" && kind === k.kind ? "bg-primary text-white border-primary shadow-sm" : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+              )}
+            >
+              <span className="material-symbols-outlined text-[18px]">{k.icon}</span>
+              {k.label}
+              <span className={cn("text-xs", section === "lookups" && kind === k.kind ? "text-white/80" : "text-gray-400")}>
+                {lookups[k.kind].filter(isActiveEntry).length}
+              </span>
+            </button>
+          ))}
+          {SECTION_TABS.map(tab => (
+            <button
+              key={tab.section}
+              onClick={() => setSection(tab.section)}
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold border transition-all whitespace-nowrap",
+                section === tab.section ? "bg-primary text-white border-primary shadow-sm" : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+              )}
+            >
+              <span className="material-symbols-outlined text-[18px]">{tab.icon}</span>
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {section === "sla" ? <SlaTargetsEditor /> : section === "on_call" ? <OnCallRoster /> : section === "approvals" ? <ApprovalChainEditor /> : section === "labor" ? <LaborRatesEditor /> : section === "emails" ? <EmailTemplatesEditor /> : section === "webhooks" ? (
+          <div className="space-y-6">
+            <WebhookSubscriptions />
+            <WebhookDeliveryLog />
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6">
+              <form
+                onSubmit={e => { e.preventDefault(); handleAdd(); }}
+                className="flex flex-col sm:flex-row gap-2"
+              >
+                <Input
+                  placeholder={`New ${meta.singular} name`}
+                  value={newName}
+                  onChange={e => setNewName(e.target.value)}
+                  className="h-10"
+                />
+                <Button type="submit" disabled={saving || !newName.trim()} className="h-10 shrink-0">
+                  <span className="material-symbols-outlined text-[18px] mr-1">add</span>
+                  Add {meta.singular}
+                </Button>
+              </form>
+            </div>
+
+            {loading ? (
+              <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+            ) : (
+              <div className="space-y-6">
+                <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+                  <h2 className="px-4 py-3 border-b border-gray-100 text-xs font-bold text-gray-400 uppercase">Active</h2>
+                  {activeEntries.length === 0 ? (
+                    <p className="px-4 py-6 text-sm text-gray-400">No active {meta.label.toLowerCase()}. Add one above.</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">{activeEntries.map(renderRow)}</div>
+                  )}
+                </section>
+
+                {archivedEntries.length > 0 && (
+                  <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+                    <div className="px-4 py-3 border-b border-gray-100">
+                      <h2 className="text-xs font-bold text-gray-400 uppercase">Archived</h2>
+                      <p className="text-xs text-gray-400 mt-0.5">Kept for existing requests and reports; hidden from new requests.</p>
+                    </div>
+                    <div className="divide-y divide-gray-100">{archivedEntries.map(renderRow)}</div>
+                  </section>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -191,7 +191,7 @@ export const SuccessCelebration = ({
               className="text-gray-600 text-sm leading-relaxed mb-2"
             >
               Our facilities team will review your request shortly.
-              Save your work order ID above to track status anytime.
+              Bookmark the status page or use the link in your confirmation email to track it anytime.
             </motion.p>
 
             {requestorEmail && (
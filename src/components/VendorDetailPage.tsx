@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { VendorDialog } from "@/components/vendors/VendorDialog";
+import { formatCurrency } from "@/lib/costs";
+import {
+  INSURANCE_STATUS_META,
+  Vendor,
+  VendorJob,
+  describeRates,
+  getInsuranceStatus,
+  getTradeIcon,
+  getTradeLabel,
+  getVendorPerformance,
+  isVendorJobOnTime,
+} from "@/lib/vendors";
+import { AppRole, isApprover } from "@/lib/roles";
+
+type VendorJobRow = VendorJob & {
+  id: string;
+  work_order_id: string | null;
+  title: string;
+  vendor_assigned_at: string | null;
+};
+
+const getStatusBadge = (status: string | null) => {
+  switch (status) {
+    case "pending": return "bg-amber-100 text-amber-700";
+    case "approved": return "bg-blue-100 text-blue-700";
+    case "in_progress": return "bg-amber-100 text-amber-700";
+    case "completed": return "bg-green-100 text-green-700";
+    case "rejected": return "bg-red-100 text-red-700";
+    default: return "bg-gray-100 text-gray-600";
+  }
+};
+
+const formatStatus = (status: string | null) =>
+  (status ?? "pending").split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+interface VendorDetailPageProps {
+  role: AppRole | null;
+}
+
+export const VendorDetailPage = ({ role }: VendorDetailPageProps) => {
+  const { id = "" } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const canEdit = isApprover(role);
+  const [vendor, setVendor] = useState<Vendor | null>(null);
+  const [jobs, setJobs] = useState<VendorJobRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchVendor = useCallback(async () => {
+    try {
+      const [vendorResult, jobsResult] = await Promise.all([
+        supabase.from("vendors").select("*").eq("id", id).maybeSingle(),
+        supabase
+          .from("work_requests")
+          .select("id, work_order_id, title, status, completed_at, vendor_quote, vendor_expected_date, vendor_invoice_amount, vendor_assigned_at")
+          .eq("vendor_id", id)
+          .order("vendor_assigned_at", { ascending: false, nullsFirst: false }),
+      ]);
+      if (vendorResult.error) throw vendorResult.error;
+      if (jobsResult.error) throw jobsResult.error;
+      setVendor(vendorResult.data);
+      setJobs(jobsResult.data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load vendor", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => { fetchVendor(); }, [fetchVendor]);
+
+  const toggleArchived = async () => {
+    if (!vendor) return;
+    setBusy(true);
+    try {
+      const { data, error } = await supabase
+        .from("vendors")
+        .update({ archived_at: vendor.archived_at ? null : new Date().toISOString() })
+        .eq("id", vendor.id)
+        .select()
+        .single();
+      if (error) throw error;
+      setVendor(data);
+      toast({ title: vendor.archived_at ? "Vendor restored" : "Vendor archived", description: vendor.name });
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update vendor", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-gray-400 text-sm py-24">Loading...</p>;
+  }
+
+  if (!vendor) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center text-center px-4">
+        <div>
+          <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">handshake</span>
+          <h1 className="text-2xl font-extrabold text-gray-900 mb-2">Vendor not found</h1>
+          <Link to="/vendors" className="text-primary font-bold text-sm hover:underline">Back to vendors</Link>
+        </div>
+      </div>
+    );
+  }
+
+  // ─── Summary ─────────────────────────────────────────────
+  const stats = getVendorPerformance(jobs);
+  const insurance = getInsuranceStatus(vendor.insurance_expires_on);
+
+  const details: { label: string; value: string; href?: string }[] = [
+    { label: "Trade", value: getTradeLabel(vendor.trade) },
+    { label: "Contact", value: vendor.contact_name || "—" },
+    { label: "Phone", value: vendor.phone || "—", href: vendor.phone ? `tel:${vendor.phone}` : undefined },
+    { label: "Email", value: vendor.email || "—", href: vendor.email ? `mailto:${vendor.email}` : undefined },
+    { label: "Website", value: vendor.website || "—", href: vendor.website || undefined },
+    {
+      label: "Insurance expires",
+      value: vendor.insurance_expires_on ? format(parseISO(vendor.insurance_expires_on), "MMM d, yyyy") : "No certificate on file",
+    },
+    { label: "Rates", value: [describeRates(vendor), vendor.rate_notes].filter(Boolean).join(" · ") || "—" },
+  ];
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8">
+        <button onClick={() => navigate("/vendors")} className="flex items-center gap-1 text-sm font-bold text-gray-500 hover:text-primary mb-4">
+          <span className="material-symbols-outlined text-[18px]">arrow_back</span>
+          Vendors
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-8">
+          <div className="flex items-start gap-4">
+            <span className="material-symbols-outlined text-[28px] text-primary bg-primary/10 p-2.5 rounded-xl">{getTradeIcon(vendor.trade)}</span>
+            <div>
+              <h1 className="text-3xl font-extrabold text-gray-900 flex items-center gap-2">
+                {vendor.name}
+                {vendor.archived_at && <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-gray-100 text-gray-500">Archived</span>}
+              </h1>
+              <p className="text-gray-500 mt-1">{getTradeLabel(vendor.trade)}</p>
+              <span className={cn("inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-bold", INSURANCE_STATUS_META[insurance].className)}>
+                {INSURANCE_STATUS_META[insurance].label}
+              </span>
+            </div>
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2 shrink-0">
+              <Button variant="outline" onClick={toggleArchived} disabled={busy}>
+                {vendor.archived_at ? "Restore" : "Archive"}
+              </Button>
+              <Button onClick={() => setEditing(true)} className="gap-1">
+                <span className="material-symbols-outlined text-[18px]">edit</span>
+                Edit
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* KPIs */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          {[
+            { label: "Jobs", value: stats.jobs.toString(), icon: "assignment" },
+            { label: "Open", value: stats.open.toString(), icon: "pending_actions" },
+            { label: "On Time", value: stats.onTimeRate != null ? `${stats.onTimeRate}%` : "—", icon: "schedule" },
+            { label: "Average Cost", value: stats.averageCost != null ? formatCurrency(stats.averageCost) : "—", icon: "request_quote" },
+            { label: "Total Spend", value: formatCurrency(stats.totalCost), icon: "payments" },
+          ].map(kpi => (
+            <div key={kpi.label} className="bg-white rounded-xl border border-gray-100 shadow-sm p-4">
+              <div className="flex items-center gap-2 text-gray-400">
+                <span className="material-symbols-outlined text-[18px]">{kpi.icon}</span>
+                <span className="text-xs font-bold uppercase">{kpi.label}</span>
+              </div>
+              <p className="text-2xl font-extrabold text-gray-900 mt-2">{kpi.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Details */}
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-5 space-y-3 h-fit">
+            <h2 className="font-extrabold text-gray-900">Details</h2>
+            {details.map(d => (
+              <div key={d.label}>
+                <span className="text-xs font-bold text-gray-400 uppercase">{d.label}</span>
+                {d.href ? (
+                  <a href={d.href} target={d.label === "Website" ? "_blank" : undefined} rel="noreferrer" className="block text-sm text-primary hover:underline mt-0.5 truncate">
+                    {d.value}
+                  </a>
+                ) : (
+                  <p className="text-sm text-gray-900 mt-0.5">{d.value}</p>
+                )}
+              </div>
+            ))}
+            {vendor.notes && (
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase">Notes</span>
+                <p className="text-sm text-gray-700 mt-0.5 whitespace-pre-wrap">{vendor.notes}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Job history */}
+          <div className="md:col-span-2 bg-white rounded-xl border border-gray-100 shadow-sm">
+            <h2 className="font-extrabold text-gray-900 px-5 pt-5 pb-3">Job History</h2>
+            {jobs.length === 0 ? (
+              <p className="text-sm text-gray-400 px-5 pb-8">No work orders have been handed to this vendor yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-50">
+                {jobs.map(job => {
+                  const late = job.status === "completed" && job.vendor_expected_date && !isVendorJobOnTime(job);
+                  return (
+                    <li key={job.id}>
+                      <Link
+                        to={`/work-orders?q=${encodeURIComponent(job.work_order_id ?? job.title)}`}
+                        className="flex items-center gap-3 px-5 py-3 hover:bg-gray-50 transition-colors"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold text-gray-900 truncate">
+                            {job.work_order_id && <span className="font-mono text-xs text-primary mr-2">{job.work_order_id}</span>}
+                            {job.title}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-0.5 truncate">
+                            {job.vendor_assigned_at && `Assigned ${format(parseISO(job.vendor_assigned_at), "MMM d, yyyy")}`}
+                            {job.vendor_expected_date && ` · Due ${format(parseISO(job.vendor_expected_date), "MMM d")}`}
+                            {job.completed_at && ` · Done ${format(parseISO(job.completed_at), "MMM d")}`}
+                            {job.vendor_quote != null && ` · Quote ${formatCurrency(job.vendor_quote)}`}
+                            {job.vendor_invoice_amount != null && ` · Invoice ${formatCurrency(job.vendor_invoice_amount)}`}
+                          </p>
+                        </div>
+                        {job.status === "completed" && job.vendor_expected_date && (
+                          <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold shrink-0", late ? "bg-red-100 text-red-700" : "bg-green-100 text-green-700")}>
+                            {late ? "Late" : "On time"}
+                          </span>
+                        )}
+                        <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold shrink-0", getStatusBadge(job.status))}>
+                          {formatStatus(job.status)}
+                        </span>
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <VendorDialog
+          vendor={vendor}
+          open
+          onClose={() => setEditing(false)}
+          onSaved={saved => { setEditing(false); setVendor(saved); }}
+        />
+      )}
+    </div>
+  );
+};
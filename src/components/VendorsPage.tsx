@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { useVendors } from "@/hooks/use-vendors";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VendorDialog } from "@/components/vendors/VendorDialog";
+import {
+  INSURANCE_STATUS_META,
+  VENDOR_TRADES,
+  VENDOR_TRADE_META,
+  VendorJob,
+  describeRates,
+  getInsuranceStatus,
+  getTradeIcon,
+  getTradeLabel,
+  getVendorPerformance,
+} from "@/lib/vendors";
+import { AppRole, isApprover } from "@/lib/roles";
+
+type VendorJobRow = VendorJob & { vendor_id: string | null };
+
+interface VendorsPageProps {
+  role: AppRole | null;
+}
+
+export const VendorsPage = ({ role }: VendorsPageProps) => {
+  const navigate = useNavigate();
+  const canEdit = isApprover(role);
+  const { vendors, loading, refresh } = useVendors();
+  const [jobs, setJobs] = useState<VendorJobRow[]>([]);
+  const [search, setSearch] = useState("");
+  const [tradeFilter, setTradeFilter] = useState("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from("work_requests")
+      .select("vendor_id, status, completed_at, vendor_quote, vendor_expected_date, vendor_invoice_amount")
+      .not("vendor_id", "is", null)
+      .then(({ data, error }) => {
+        if (error) console.error("Error loading vendor jobs:", error);
+        else setJobs(data || []);
+      });
+  }, []);
+
+  const performance = useMemo(() => {
+    const byVendor = new Map<string, VendorJobRow[]>();
+    jobs.forEach(j => {
+      if (!j.vendor_id) return;
+      byVendor.set(j.vendor_id, [...(byVendor.get(j.vendor_id) ?? []), j]);
+    });
+    return new Map([...byVendor].map(([id, list]) => [id, getVendorPerformance(list)]));
+  }, [jobs]);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return vendors.filter(v =>
+      (showArchived || !v.archived_at)
+      && (tradeFilter === "all" || v.trade === tradeFilter)
+      && (!q || [v.name, v.contact_name, v.email, v.phone].some(f => f?.toLowerCase().includes(q)))
+    );
+  }, [vendors, search, tradeFilter, showArchived]);
+
+  const insuranceAlerts = vendors.filter(v => !v.archived_at && ["expiring", "expired"].includes(getInsuranceStatus(v.insurance_expires_on))).length;
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-[calc(100vh-73px)] bg-[#f5f7f8]">
+      <div className="max-w-6xl mx-auto px-4 md:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">Vendors</h1>
+            <p className="text-gray-500 mt-1">
+              Outside contractors we hand work to, and how they've done.
+              {insuranceAlerts > 0 && (
+                <span className="ml-2 text-amber-600 font-bold">{insuranceAlerts} insurance certificate{insuranceAlerts !== 1 ? "s" : ""} to chase</span>
+              )}
+            </p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => setAdding(true)} className="gap-1">
+              <span className="material-symbols-outlined text-[18px]">add</span>
+              New Vendor
+            </Button>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6 flex flex-col lg:flex-row items-start lg:items-center gap-3">
+          <div className="relative flex-1 w-full lg:w-auto">
+            <span className="material-symbols-outlined text-[20px] text-gray-400 absolute left-3 top-1/2 -translate-y-1/2">search</span>
+            <Input
+              placeholder="Search name, contact, email or phone..."
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="pl-10 bg-gray-50 border-gray-200"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={tradeFilter} onValueChange={setTradeFilter}>
+              <SelectTrigger className="w-48 bg-white border-gray-200"><SelectValue placeholder="Trade" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Trades</SelectItem>
+                {VENDOR_TRADES.map(t => <SelectItem key={t} value={t}>{VENDOR_TRADE_META[t].label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm text-gray-600 px-2">
+              <Checkbox checked={showArchived} onCheckedChange={checked => setShowArchived(checked === true)} />
+              Show archived
+            </label>
+          </div>
+        </div>
+
+        {loading && vendors.length === 0 ? (
+          <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+        ) : filtered.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm text-center py-16">
+            <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">handshake</span>
+            <h3 className="font-extrabold text-gray-900 text-lg mb-1">{vendors.length === 0 ? "No vendors yet" : "No matching vendors"}</h3>
+            <p className="text-gray-400 text-sm">
+              {vendors.length === 0 ? "Add the plumbers, electricians and other contractors you call on." : "Try a different search or filter."}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-100 text-left text-xs font-bold text-gray-400 uppercase">
+                  <th className="px-4 py-3">Vendor</th>
+                  <th className="px-4 py-3 hidden md:table-cell">Contact</th>
+                  <th className="px-4 py-3 hidden md:table-cell">Jobs</th>
+                  <th className="px-4 py-3 hidden md:table-cell">On Time</th>
+                  <th className="px-4 py-3">Insurance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {filtered.map(vendor => {
+                  const insurance = getInsuranceStatus(vendor.insurance_expires_on);
+                  const stats = performance.get(vendor.id);
+                  const rates = describeRates(vendor);
+                  return (
+                    <tr
+                      key={vendor.id}
+                      onClick={() => navigate(`/vendors/${vendor.id}`)}
+                      className={cn("cursor-pointer hover:bg-gray-50 transition-colors", vendor.archived_at && "opacity-60")}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-3">
+                          <span className="material-symbols-outlined text-[20px] text-primary bg-primary/10 p-1.5 rounded-lg">{getTradeIcon(vendor.trade)}</span>
+                          <div className="min-w-0">
+                            <p className="font-bold text-gray-900 truncate">
+                              {vendor.name}
+                              {vendor.archived_at && <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold bg-gray-100 text-gray-500">Archived</span>}
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {getTradeLabel(vendor.trade)}{rates && ` · ${rates}`}
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 hidden md:table-cell">
+                        <p className="truncate">{vendor.contact_name || "—"}</p>
+                        {vendor.phone && <p className="text-xs text-gray-500">{vendor.phone}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 hidden md:table-cell">
+                        {stats ? `${stats.jobs}${stats.open > 0 ? ` (${stats.open} open)` : ""}` : "0"}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 hidden md:table-cell">
+                        {stats?.onTimeRate != null ? `${stats.onTimeRate}%` : "—"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold whitespace-nowrap", INSURANCE_STATUS_META[insurance].className)}>
+                          {INSURANCE_STATUS_META[insurance].label}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {adding && (
+        <VendorDialog
+          vendor={null}
+          open
+          onClose={() => setAdding(false)}
+          onSaved={vendor => { setAdding(false); refresh(); navigate(`/vendors/${vendor.id}`); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format, parseISO, formatDistanceToNow } from "date-fns";
@@ -10,6 +11,56 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AttachmentGallery } from "@/components/attachments/AttachmentGallery";
+import { WorkRequestTimeline } from "@/components/timeline/WorkRequestTimeline";
+import { MessageThread } from "@/components/messages/MessageThread";
+import { WorkRequestNotes } from "@/components/notes/WorkRequestNotes";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
+import { PRIORITIES, PRIORITY_FILTER_EMERGENCY, PRIORITY_META, isOpenEmergency } from "@/lib/priorities";
+import { WorkTimer } from "@/components/timer/WorkTimer";
+import { TimeEntryLog } from "@/components/timer/TimeEntryLog";
+import { useLookups } from "@/hooks/use-lookups";
+import { LookupKind } from "@/lib/lookups";
+import { applyTimerTransition, formatDuration, getElapsedSeconds, secondsToHours } from "@/lib/work-timer";
+import { AppRole, isApprover, isStaff } from "@/lib/roles";
+import { useStatusTransitions } from "@/hooks/use-status-transitions";
+import { useAssignees } from "@/hooks/use-assignees";
+import { SlaBadge } from "@/components/sla/SlaBadge";
+import { SLA_FILTER_ATTENTION, isResolutionLate, isResponseLate } from "@/lib/sla";
+import { AssigneePicker } from "@/components/assignees/AssigneePicker";
+import { AssigneeAvatars } from "@/components/assignees/AssigneeAvatars";
+import {
+  ASSIGNEE_FILTER_ALL,
+  ASSIGNEE_FILTER_ME,
+  ASSIGNEE_FILTER_UNASSIGNED,
+  getProfileLabel,
+} from "@/lib/assignees";
+import { Highlight } from "@/components/search/Highlight";
+import { useWorkRequestFilters } from "@/hooks/use-work-request-filters";
+import { useWorkRequestSearch } from "@/hooks/use-work-request-search";
+import { useWorkRequestStats } from "@/hooks/use-work-request-stats";
+import {
+  DATE_RANGE_OPTIONS,
+  DateRangePreset,
+  SORT_OPTIONS,
+  WorkRequestSort,
+  hasHighlight,
+  searchAllWorkRequests,
+  toSearchArgs,
+} from "@/lib/work-request-search";
+import { BULK_ACTIONS, BULK_LIMIT, BulkAction, BulkActionInput, runBulkAction } from "@/lib/work-request-bulk";
+import { BulkActionDialog, BulkFailuresDialog } from "@/components/bulk/BulkActionDialog";
+import { SavedViewTabs } from "@/components/views/SavedViewTabs";
+import { useAssets } from "@/hooks/use-assets";
+import { getAssetTypeIcon } from "@/lib/assets";
+import { formatCurrency, getTotalCost } from "@/lib/costs";
+import { CostSummary } from "@/components/costs/CostSummary";
+import { MaterialsEditor } from "@/components/costs/MaterialsEditor";
+import { useVendors } from "@/hooks/use-vendors";
+import { getTradeIcon } from "@/lib/vendors";
+import { VendorAssignDialog } from "@/components/vendors/VendorAssignDialog";
+import { ApprovalChain } from "@/components/approvals/ApprovalChain";
 
 // ─── Types ───────────────────────────────────────────────────
 type WorkRequest = {
@@ -45,27 +96,26 @@ type WorkRequest = {
   timer_started_at?: string;
   timer_paused_at?: string;
   total_elapsed_seconds?: number;
+  response_due_at?: string;
+  due_at?: string;
+  responded_at?: string;
+  sla_status?: string;
+  sla_breached_at?: string;
+  is_emergency?: boolean;
+  asset_id?: string | null;
+  materials_cost?: number;
+  labor_rate?: number | null;
+  labor_cost?: number | null;
+  estimated_cost?: number | null;
+  vendor_id?: string | null;
+  vendor_quote?: number | null;
+  vendor_expected_date?: string | null;
+  vendor_invoice_amount?: number | null;
 };
 
 type ChecklistItem = { id: string; text: string; completed: boolean };
 
 // ─── Helpers ─────────────────────────────────────────────────
-const getPriorityBadge = (priority: string) => {
-  switch (priority) {
-    case "urgent":
-    case "emergency":
-      return "border-2 border-red-500/20 text-red-600 bg-red-50";
-    case "high":
-      return "border-2 border-red-500/20 text-red-600 bg-red-50";
-    case "medium":
-      return "border-2 border-orange-500/20 text-orange-600 bg-orange-50";
-    case "low":
-      return "border-2 border-cyan-500/20 text-cyan-600 bg-cyan-50";
-    default:
-      return "border-2 border-gray-200 text-gray-600 bg-gray-50";
-  }
-};
-
 const getStatusBadge = (status: string) => {
   switch (status) {
     case "pending": return "bg-amber-100 text-amber-700";
@@ -102,13 +152,13 @@ const getStatusBorderColor = (status: string) => {
   }
 };
 
-const exportCSV = (requests: WorkRequest[]) => {
+const exportCSV = (requests: WorkRequest[], getLabel: (kind: LookupKind, value: string) => string) => {
   const headers = ["Work Order", "Title", "Requestor", "Department", "Priority", "Status", "Requested Date", "Submitted Date"];
   const rows = requests.map(r => [
     r.work_order_id || `WO-${r.id.slice(-4)}`,
     `"${r.title.replace(/"/g, '""')}"`,
     `"${r.requestor_name}"`,
-    r.department,
+    `"${getLabel("departments", r.department)}"`,
     r.priority,
     r.status,
     r.requested_date,
@@ -127,89 +177,169 @@ const exportCSV = (requests: WorkRequest[]) => {
 // ─── ITEMS_PER_PAGE ──────────────────────────────────────────
 const ITEMS_PER_PAGE = 10;
 
+// Button styling per transition action (see work_status_transitions)
+const ACTION_STYLES: Record<string, string> = {
+  approve: "bg-green-50 text-green-700 hover:bg-green-100 border-green-200",
+  reject: "bg-red-50 text-red-600 hover:bg-red-100 border-red-200",
+  start: "bg-blue-50 text-blue-700 hover:bg-blue-100 border-blue-200",
+  complete: "bg-green-50 text-green-700 hover:bg-green-100 border-green-200",
+  pause: "bg-gray-50 text-gray-600 hover:bg-gray-100 border-gray-200",
+  resume: "bg-blue-50 text-blue-700 hover:bg-blue-100 border-blue-200",
+};
+
 // ═════════════════════════════════════════════════════════════
 // MAIN COMPONENT
 // ═════════════════════════════════════════════════════════════
-export const WorkOrderManagement = () => {
-  const [requests, setRequests] = useState<WorkRequest[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [priorityFilter, setPriorityFilter] = useState("all");
-  const [viewMode, setViewMode] = useState<"table" | "card">("table");
-  const [page, setPage] = useState(1);
+interface WorkOrderManagementProps {
+  role: AppRole | null;
+}
+
+export const WorkOrderManagement = ({ role }: WorkOrderManagementProps) => {
+  const canApprove = isApprover(role);
+  const { getActions } = useStatusTransitions(role);
+  const { profiles, profilesById, myProfileId, getAssignees, saveAssignees } = useAssignees();
+  const { departments, getLabel } = useLookups();
+  const { assetsById, activeAt } = useAssets();
+  const { vendorsById, activeVendors } = useVendors();
+  const { filters, searchParams, updateFilters, clearFilters, applyFilterParams, searchInput, setSearchInput } = useWorkRequestFilters();
+  const searchArgs = useMemo(() => toSearchArgs(filters, myProfileId), [filters, myProfileId]);
+  const {
+    rows: requests, setRows: setRequests, highlights, total, loading, error: searchError,
+    pageIndex, hasNextPage, hasPrevPage, nextPage, prevPage, refresh,
+  } = useWorkRequestSearch<WorkRequest>(searchArgs, ITEMS_PER_PAGE);
+  const { stats } = useWorkRequestStats();
+  const [exporting, setExporting] = useState(false);
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
 
   // Dialog states
   const [approveTarget, setApproveTarget] = useState<WorkRequest | null>(null);
   const [rejectTarget, setRejectTarget] = useState<WorkRequest | null>(null);
   const [completeTarget, setCompleteTarget] = useState<WorkRequest | null>(null);
+  const [vendorTarget, setVendorTarget] = useState<WorkRequest | null>(null);
 
   const { toast } = useToast();
 
-  // ─── Fetch ───────────────────────────────────────────────
-  const fetchRequests = useCallback(async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from("work_requests")
-        .select("*")
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      setRequests((data || []) as WorkRequest[]);
-    } catch {
-      toast({ title: "Error", description: "Failed to load work orders", variant: "destructive" });
-    } finally {
-      setLoading(false);
-    }
-  }, [toast]);
+  // Display name the server records as the actor, used for optimistic updates
+  const [actorName, setActorName] = useState<string | null>(null);
+  useEffect(() => {
+    supabase.rpc("current_actor_name").then(({ data }) => setActorName(data ?? null));
+  }, []);
 
-  useEffect(() => { fetchRequests(); }, [fetchRequests]);
+  useEffect(() => {
+    if (searchError) toast({ title: "Error", description: "Failed to load work orders", variant: "destructive" });
+  }, [searchError, toast]);
+
+  // ─── Stats ───────────────────────────────────────────────
+  const pendingCount = stats.pending;
+  const activeCount = stats.in_progress;
+  const highPriorityCount = stats.open_high_priority;
+  const completedCount = stats.completed;
+  const breachedCount = stats.open_breached;
+  const completionRate = stats.total > 0 ? Math.round((completedCount / stats.total) * 100) : 0;
+
+  // ─── Selection + Bulk Actions ────────────────────────────
+  // Selection survives paging; "all matching" stands for every result of the current search
+  const [selected, setSelected] = useState<Map<string, WorkRequest>>(new Map());
+  const [allMatching, setAllMatching] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkFailures, setBulkFailures] = useState<{ label: string; message: string }[]>([]);
 
-  // ─── Realtime ────────────────────────────────────────────
   useEffect(() => {
-    const channel = supabase
-      .channel("work_requests_changes")
-      .on("postgres_changes", { event: "*", schema: "public", table: "work_requests" }, (payload) => {
-        if (payload.eventType === "INSERT") {
-          setRequests(prev => [payload.new as WorkRequest, ...prev]);
-        } else if (payload.eventType === "UPDATE") {
-          setRequests(prev => prev.map(r => r.id === (payload.new as WorkRequest).id ? payload.new as WorkRequest : r));
-        } else if (payload.eventType === "DELETE") {
-          setRequests(prev => prev.filter(r => r.id !== (payload.old as { id: string }).id));
-        }
-      })
-      .subscribe();
-    return () => { supabase.removeChannel(channel); };
-  }, []);
+    setSelected(new Map());
+    setAllMatching(false);
+  }, [searchArgs]);
+
+  const selectedCount = allMatching ? total : selected.size;
+  const pageSelected = requests.length > 0 && requests.every(r => selected.has(r.id));
+
+  const toggleSelected = (req: WorkRequest) => {
+    setAllMatching(false);
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(req.id)) next.delete(req.id);
+      else next.set(req.id, req);
+      return next;
+    });
+  };
 
-  // ─── Filtering + Pagination ──────────────────────────────
-  const filtered = useMemo(() => {
-    return requests.filter(r => {
-      const matchesSearch = !search || [r.title, r.requestor_name, r.department, r.work_order_id || ""].some(f => f.toLowerCase().includes(search.toLowerCase()));
-      const matchesStatus = statusFilter === "all" || r.status === statusFilter;
-      const matchesPriority = priorityFilter === "all" || r.priority === priorityFilter;
-      return matchesSearch && matchesStatus && matchesPriority;
+  const togglePageSelected = () => {
+    setAllMatching(false);
+    setSelected(prev => {
+      const next = new Map(prev);
+      requests.forEach(r => { if (pageSelected) next.delete(r.id); else next.set(r.id, r); });
+      return next;
     });
-  }, [requests, search, statusFilter, priorityFilter]);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Map());
+    setAllMatching(false);
+  };
 
-  const totalPages = Math.max(1, Math.ceil(filtered.length / ITEMS_PER_PAGE));
-  const paginated = filtered.slice((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE);
-  const pendingCount = requests.filter(r => r.status === "pending").length;
-  const activeCount = requests.filter(r => r.status === "in_progress").length;
-  const highPriorityCount = requests.filter(r => ["high", "urgent", "emergency"].includes(r.priority) && !["completed", "rejected"].includes(r.status)).length;
-  const completedCount = requests.filter(r => r.status === "completed").length;
-  const completionRate = requests.length > 0 ? Math.round((completedCount / requests.length) * 100) : 0;
+  const resolveSelection = async () =>
+    allMatching ? searchAllWorkRequests<WorkRequest>(searchArgs) : Array.from(selected.values());
+
+  const handleBulkExport = async () => {
+    setBulkBusy(true);
+    try {
+      exportCSV(await resolveSelection(), getLabel);
+    } catch (e: unknown) {
+      toast({ title: "Export failed", description: e instanceof Error ? e.message : "Could not export work orders", variant: "destructive" });
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkAction = async (input: BulkActionInput) => {
+    if (!bulkAction) return;
+    setBulkBusy(true);
+    try {
+      const targets = await resolveSelection();
+      if (targets.length > BULK_LIMIT) {
+        throw new Error(`Bulk actions are limited to ${BULK_LIMIT} work orders at a time. Narrow the search and try again.`);
+      }
+      const results = await runBulkAction(targets.map(r => r.id), bulkAction, input);
+      const byId = new Map(targets.map(r => [r.id, r]));
+      const failed = results.filter(r => !r.succeeded);
+      const succeeded = results.length - failed.length;
+
+      // Failed rows stay selected for another go
+      setSelected(new Map(failed.filter(f => byId.has(f.request_id)).map(f => [f.request_id, byId.get(f.request_id)!])));
+      setAllMatching(false);
+      setBulkAction(null);
+      setBulkFailures(failed.map(f => {
+        const req = byId.get(f.request_id);
+        return { label: req ? req.work_order_id || req.title : f.request_id, message: f.message };
+      }));
+      if (succeeded > 0) {
+        toast({ title: "Bulk update done", description: `${succeeded} work order${succeeded !== 1 ? "s" : ""} updated.` });
+      }
+      refresh();
+    } catch (e: unknown) {
+      toast({ title: "Bulk update failed", description: e instanceof Error ? e.message : "Could not update work orders", variant: "destructive" });
+    } finally {
+      setBulkBusy(false);
+    }
+  };
 
-  // Reset page on filter change
-  useEffect(() => { setPage(1); }, [search, statusFilter, priorityFilter]);
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      exportCSV(await searchAllWorkRequests<WorkRequest>(searchArgs), getLabel);
+    } catch (e: unknown) {
+      toast({ title: "Export failed", description: e instanceof Error ? e.message : "Could not export work orders", variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
 
   // ─── Actions ─────────────────────────────────────────────
   const handlePause = async (req: WorkRequest) => {
     try {
       const { error } = await supabase.rpc("update_work_request_status", { _request_id: req.id, _status: "paused" });
       if (error) throw error;
-      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, status: "paused" as const } : r));
+      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, ...applyTimerTransition(r, r.status, "paused"), status: "paused" as const } : r));
       toast({ title: "Paused", description: `${req.work_order_id || req.title} has been paused.` });
     } catch (e: unknown) {
       toast({ title: "Failed to pause", description: e instanceof Error ? e.message : "Could not pause work order", variant: "destructive" });
@@ -220,35 +350,58 @@ export const WorkOrderManagement = () => {
     try {
       const { error } = await supabase.rpc("update_work_request_status", { _request_id: req.id, _status: "in_progress" });
       if (error) throw error;
-      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, status: "in_progress" as const } : r));
+      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, ...applyTimerTransition(r, r.status, "in_progress"), status: "in_progress" as const } : r));
       toast({ title: "Resumed", description: `${req.work_order_id || req.title} is back in progress.` });
     } catch (e: unknown) {
       toast({ title: "Failed to resume", description: e instanceof Error ? e.message : "Could not resume work order", variant: "destructive" });
     }
   };
 
+  const handleAssign = async (req: WorkRequest, profileIds: string[]) => {
+    try {
+      await saveAssignees(req.id, profileIds);
+    } catch (e: unknown) {
+      toast({ title: "Failed to assign", description: e instanceof Error ? e.message : "Could not update assignees", variant: "destructive" });
+    }
+  };
+
+  const handleAssetChange = async (req: WorkRequest, assetId: string | null) => {
+    try {
+      const { error } = await supabase.from("work_requests").update({ asset_id: assetId }).eq("id", req.id);
+      if (error) throw error;
+      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, asset_id: assetId } : r));
+    } catch (e: unknown) {
+      toast({ title: "Failed to link equipment", description: e instanceof Error ? e.message : "Could not update the work order", variant: "destructive" });
+    }
+  };
+
+  // Re-plans the approval chain while the request is pending
+  const handleEstimatedCostChange = async (req: WorkRequest, value: string) => {
+    const estimatedCost = value.trim() ? parseFloat(value) : null;
+    if (estimatedCost === (req.estimated_cost ?? null) || (estimatedCost !== null && !(estimatedCost >= 0))) return;
+    try {
+      const { error } = await supabase.rpc("set_work_request_estimated_cost", { _request_id: req.id, _estimated_cost: estimatedCost });
+      if (error) throw error;
+      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, estimated_cost: estimatedCost } : r));
+    } catch (e: unknown) {
+      toast({ title: "Failed to save estimate", description: e instanceof Error ? e.message : "Could not update the work order", variant: "destructive" });
+    }
+  };
+
   const handleStartWork = async (req: WorkRequest) => {
     try {
-      const { error } = await supabase.rpc("start_work", { approved_id: req.id, started_by_user: "Admin" });
+      const { error } = await supabase.rpc("start_work", { approved_id: req.id });
       if (error) throw error;
-      setRequests(prev => prev.map(r => r.id === req.id ? { ...r, status: "in_progress" as const, started_at: new Date().toISOString(), started_by: "Admin" } : r));
+      setRequests(prev => prev.map(r => r.id === req.id ? {
+        ...r, ...applyTimerTransition(r, r.status, "in_progress"),
+        status: "in_progress" as const, started_at: new Date().toISOString(), started_by: actorName
+      } : r));
       toast({ title: "Work Started", description: `${req.work_order_id || req.title} is now in progress.` });
     } catch (e: unknown) {
       toast({ title: "Failed to start work", description: e instanceof Error ? e.message : "Could not start work", variant: "destructive" });
     }
   };
 
-  // ─── Page numbers for pagination ─────────────────────────
-  const getPageNumbers = () => {
-    const pages: number[] = [];
-    const maxVisible = 5;
-    let start = Math.max(1, page - Math.floor(maxVisible / 2));
-    const end = Math.min(totalPages, start + maxVisible - 1);
-    start = Math.max(1, end - maxVisible + 1);
-    for (let i = start; i <= end; i++) pages.push(i);
-    return pages;
-  };
-
   // ═══════════════════════════════════════════════════════════
   // APPROVAL DIALOG
   // ═══════════════════════════════════════════════════════════
@@ -257,6 +410,7 @@ export const WorkOrderManagement = () => {
     const [dateReason, setDateReason] = useState("");
     const [checklistItems, setChecklistItems] = useState<ChecklistItem[]>([]);
     const [newItemText, setNewItemText] = useState("");
+    const [assigneeIds, setAssigneeIds] = useState<string[]>(approveTarget ? getAssignees(approveTarget.id) : []);
     const [submitting, setSubmitting] = useState(false);
 
     useEffect(() => {
@@ -265,6 +419,7 @@ export const WorkOrderManagement = () => {
         setDateReason("");
         setChecklistItems([]);
         setNewItemText("");
+        setAssigneeIds(getAssignees(approveTarget.id));
       }
     }, []);
 
@@ -285,28 +440,37 @@ export const WorkOrderManagement = () => {
       }
       setSubmitting(true);
       try {
+        // Reschedule before approving so a request with an approval chain keeps to it
         if (dateChanged) {
           const { error } = await supabase.rpc("update_work_request_status", {
-            _request_id: approveTarget.id, _status: "approved", _user_name: "Admin",
+            _request_id: approveTarget.id, _status: approveTarget.status,
             _reason: dateReason.trim(), _new_requested_date: newDate
           });
           if (error) throw error;
-        } else {
-          const { error } = await supabase.rpc("approve_work_request", {
-            _request_id: approveTarget.id, _approved_by_user: "Admin"
-          });
-          if (error) throw error;
         }
+        const { error } = await supabase.rpc("approve_work_request", { _request_id: approveTarget.id });
+        if (error) throw error;
+        // Stays pending when this only signed off one step of the chain
+        const { data: approved } = await supabase
+          .from("work_requests").select("status, approved_by, approved_at").eq("id", approveTarget.id).maybeSingle();
+        const status = approved?.status ?? "approved";
         // Save checklist if items exist
         if (checklistItems.length > 0) {
           await supabase.from("work_requests").update({ approval_checklist: checklistItems }).eq("id", approveTarget.id);
         }
+        if (assigneeIds.join() !== getAssignees(approveTarget.id).join()) {
+          await saveAssignees(approveTarget.id, assigneeIds);
+        }
         setRequests(prev => prev.map(r => r.id === approveTarget.id ? {
-          ...r, status: "approved" as const, approved_by: "Admin", approved_at: new Date().toISOString(),
+          ...r, status,
+          approved_by: approved ? approved.approved_by : actorName,
+          approved_at: approved ? approved.approved_at : new Date().toISOString(),
           requested_date: dateChanged ? newDate : r.requested_date,
           approval_checklist: checklistItems.length > 0 ? checklistItems : r.approval_checklist
         } : r));
-        toast({ title: "Approved", description: `${approveTarget.work_order_id || approveTarget.title} has been approved.` });
+        toast(status === "approved"
+          ? { title: "Approved", description: `${approveTarget.work_order_id || approveTarget.title} has been approved.` }
+          : { title: "Step approved", description: `${approveTarget.work_order_id || approveTarget.title} moves on to the next approver.` });
         setApproveTarget(null);
       } catch (e: unknown) {
         toast({ title: "Approval failed", description: e instanceof Error ? e.message : "Failed to approve work order", variant: "destructive" });
@@ -329,9 +493,7 @@ export const WorkOrderManagement = () => {
               <span className="mx-2 text-gray-300">·</span>
               <span className="text-sm text-gray-600 truncate">{approveTarget.title}</span>
             </div>
-            <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold", getPriorityBadge(approveTarget.priority))}>
-              {approveTarget.priority}
-            </span>
+            <PriorityBadge priority={approveTarget.priority} className="px-2 py-0.5" />
           </div>
 
           {/* Date */}
@@ -349,6 +511,12 @@ export const WorkOrderManagement = () => {
             )}
           </div>
 
+          {/* Assignees */}
+          <div className="space-y-2">
+            <Label>Assign To (optional)</Label>
+            <AssigneePicker profiles={profiles} value={assigneeIds} onChange={setAssigneeIds} />
+          </div>
+
           {/* Checklist */}
           <div className="space-y-2">
             <Label>Approval Checklist (optional)</Label>
@@ -410,10 +578,10 @@ export const WorkOrderManagement = () => {
       setSubmitting(true);
       try {
         const { error } = await supabase.rpc("update_work_request_status", {
-          _request_id: rejectTarget.id, _status: "rejected", _user_name: "Admin", _reason: reason.trim()
+          _request_id: rejectTarget.id, _status: "rejected", _reason: reason.trim()
         });
         if (error) throw error;
-        setRequests(prev => prev.map(r => r.id === rejectTarget.id ? { ...r, status: "rejected" as const, rejected_by: "Admin", rejected_at: new Date().toISOString(), rejected_reason: reason.trim() } : r));
+        setRequests(prev => prev.map(r => r.id === rejectTarget.id ? { ...r, status: "rejected" as const, rejected_by: actorName, rejected_at: new Date().toISOString(), rejected_reason: reason.trim() } : r));
         toast({ title: "Rejected", description: `${rejectTarget.work_order_id || rejectTarget.title} has been rejected.` });
         setRejectTarget(null);
       } catch (e: unknown) {
@@ -477,15 +645,15 @@ export const WorkOrderManagement = () => {
   // COMPLETE DIALOG
   // ═══════════════════════════════════════════════════════════
   const CompleteWorkDialog = () => {
-    const [hours, setHours] = useState(completeTarget?.estimated_hours || 1);
+    // Pre-fill from the timer; fall back to the estimate when nothing was recorded
+    const recordedSeconds = completeTarget ? getElapsedSeconds(completeTarget) : 0;
+    const initialHours = recordedSeconds > 0 ? secondsToHours(recordedSeconds) : completeTarget?.estimated_hours || 1;
+    const [hours, setHours] = useState(initialHours);
     const [notes, setNotes] = useState("");
     const [submitting, setSubmitting] = useState(false);
 
     useEffect(() => {
-      if (completeTarget) {
-        setHours(completeTarget.estimated_hours || 1);
-        setNotes("");
-      }
+      if (completeTarget) setNotes("");
     }, []);
 
     if (!completeTarget) return null;
@@ -503,14 +671,17 @@ export const WorkOrderManagement = () => {
       setSubmitting(true);
       try {
         const { error } = await supabase.rpc("complete_work", {
-          started_id: completeTarget.id, completed_by_user: "Admin",
+          started_id: completeTarget.id,
           actual_hours_worked: hours, notes: notes.trim() || null
         });
         if (error) throw error;
+        // Labor cost is worked out by the server at completion
+        const { data: costs } = await supabase.from("work_requests")
+          .select("materials_cost, labor_rate, labor_cost").eq("id", completeTarget.id).maybeSingle();
         setRequests(prev => prev.map(r => r.id === completeTarget.id ? {
-          ...r, status: "completed" as const, completed_by: "Admin",
+          ...r, ...applyTimerTransition(r, r.status, "completed"), status: "completed" as const, completed_by: actorName,
           completed_at: new Date().toISOString(), actual_hours: hours,
-          completion_notes: notes.trim() || null
+          completion_notes: notes.trim() || null, ...costs
         } : r));
         toast({ title: "Completed", description: `${completeTarget.work_order_id || completeTarget.title} marked as complete.` });
         setCompleteTarget(null);
@@ -551,6 +722,12 @@ export const WorkOrderManagement = () => {
                 <span className="text-xs text-gray-400">est. {completeTarget.estimated_hours}h</span>
               )}
             </div>
+            {recordedSeconds > 0 && (
+              <div className="flex items-center gap-2 text-xs text-blue-700">
+                <span className="material-symbols-outlined text-[16px]">timer</span>
+                {formatDuration(recordedSeconds)} recorded by the timer
+              </div>
+            )}
             {hoursDiff > 2 && completeTarget.estimated_hours && (
               <div className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 p-2 rounded-lg border border-amber-200">
                 <span className="material-symbols-outlined text-[16px]">info</span>
@@ -559,6 +736,12 @@ export const WorkOrderManagement = () => {
             )}
           </div>
 
+          {/* Costs */}
+          <div className="space-y-2">
+            <Label>Costs</Label>
+            <CostSummary workRequestId={completeTarget.id} hours={hours} />
+          </div>
+
           {/* Checklist progress */}
           {checklist.length > 0 && (
             <div className="space-y-2">
@@ -596,42 +779,39 @@ export const WorkOrderManagement = () => {
   // ═══════════════════════════════════════════════════════════
   // ACTION BUTTONS
   // ═══════════════════════════════════════════════════════════
+  const runAction = (action: string, req: WorkRequest) => {
+    switch (action) {
+      case "approve": setApproveTarget(req); break;
+      case "reject": setRejectTarget(req); break;
+      case "start": handleStartWork(req); break;
+      case "complete": setCompleteTarget(req); break;
+      case "pause": handlePause(req); break;
+      case "resume": handleResume(req); break;
+    }
+  };
+
   const ActionButtons = ({ req }: { req: WorkRequest }) => {
+    const actions = getActions(req.status);
+
+    if (actions.length > 0) {
+      return (
+        <div className="flex items-center gap-1.5">
+          {actions.map(t => (
+            <button
+              key={t.action}
+              onClick={(e) => { e.stopPropagation(); runAction(t.action, req); }}
+              className={cn("px-3 py-1.5 text-xs font-bold rounded-lg border transition-all", ACTION_STYLES[t.action] || ACTION_STYLES.pause)}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
     switch (req.status) {
       case "pending":
-        return (
-          <div className="flex items-center gap-1.5">
-            <button onClick={(e) => { e.stopPropagation(); setApproveTarget(req); }} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-green-50 text-green-700 hover:bg-green-100 border border-green-200 transition-all">
-              Approve
-            </button>
-            <button onClick={(e) => { e.stopPropagation(); setRejectTarget(req); }} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-red-50 text-red-600 hover:bg-red-100 border border-red-200 transition-all">
-              Reject
-            </button>
-          </div>
-        );
-      case "approved":
-        return (
-          <button onClick={(e) => { e.stopPropagation(); handleStartWork(req); }} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200 transition-all">
-            Start Work
-          </button>
-        );
-      case "in_progress":
-        return (
-          <div className="flex items-center gap-1.5">
-            <button onClick={(e) => { e.stopPropagation(); setCompleteTarget(req); }} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-green-50 text-green-700 hover:bg-green-100 border border-green-200 transition-all">
-              Complete
-            </button>
-            <button onClick={(e) => { e.stopPropagation(); handlePause(req); }} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-gray-50 text-gray-600 hover:bg-gray-100 border border-gray-200 transition-all">
-              Pause
-            </button>
-          </div>
-        );
-      case "paused":
-        return (
-          <button onClick={(e) => { e.stopPropagation(); handleResume(req); }} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200 transition-all">
-            Resume
-          </button>
-        );
+        return canApprove ? null : <span className="text-xs font-bold text-gray-400">Awaiting approval</span>;
       case "completed":
         return (
           <span className="text-xs font-bold text-green-600">{req.actual_hours ? `${req.actual_hours}h` : "Done"}</span>
@@ -652,12 +832,80 @@ export const WorkOrderManagement = () => {
     }
   };
 
+  // ═══════════════════════════════════════════════════════════
+  // EQUIPMENT
+  // ═══════════════════════════════════════════════════════════
+  const EquipmentField = ({ req }: { req: WorkRequest }) => {
+    const asset = req.asset_id ? assetsById.get(req.asset_id) : undefined;
+    const options = activeAt(req.location);
+    const editable = canApprove && req.status !== "completed" && req.status !== "rejected" && (options.length > 0 || !!asset);
+    return (
+      <div>
+        <span className="text-xs font-bold text-gray-400 uppercase">Equipment</span>
+        {editable ? (
+          <Select value={req.asset_id ?? "none"} onValueChange={v => handleAssetChange(req, v === "none" ? null : v)}>
+            <SelectTrigger className="h-8 mt-0.5 bg-white text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {asset && !options.includes(asset) && <SelectItem value={asset.id}>{asset.name} (archived)</SelectItem>}
+              {options.map(a => <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-sm text-gray-900 mt-0.5">{asset ? asset.name : "—"}</p>
+        )}
+        {asset && (
+          <Link to={`/assets/${asset.id}`} className="text-xs font-bold text-primary hover:underline flex items-center gap-1 mt-1">
+            <span className="material-symbols-outlined text-[14px]">{getAssetTypeIcon(asset.asset_type)}</span>
+            Asset history
+          </Link>
+        )}
+      </div>
+    );
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // VENDOR
+  // ═══════════════════════════════════════════════════════════
+  const VendorField = ({ req }: { req: WorkRequest }) => {
+    const vendor = req.vendor_id ? vendorsById.get(req.vendor_id) : undefined;
+    const editable = canApprove && req.status !== "rejected" && (req.status !== "completed" || !!vendor);
+    if (!vendor && !editable) return null;
+    return (
+      <div>
+        <span className="text-xs font-bold text-gray-400 uppercase">Vendor</span>
+        {vendor ? (
+          <>
+            <Link to={`/vendors/${vendor.id}`} className="text-sm font-bold text-primary hover:underline flex items-center gap-1 mt-0.5">
+              <span className="material-symbols-outlined text-[16px]">{getTradeIcon(vendor.trade)}</span>
+              {vendor.name}
+            </Link>
+            <p className="text-xs text-gray-500">
+              {[
+                req.vendor_quote != null && `Quote ${formatCurrency(req.vendor_quote)}`,
+                req.vendor_expected_date && `Due ${format(parseISO(req.vendor_expected_date), "MMM d")}`,
+                req.vendor_invoice_amount != null && `Invoiced ${formatCurrency(req.vendor_invoice_amount)}`,
+              ].filter(Boolean).join(" · ")}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-900 mt-0.5">In-house</p>
+        )}
+        {editable && (
+          <button onClick={() => setVendorTarget(req)} className="text-xs font-bold text-primary hover:underline mt-1">
+            {vendor ? "Edit vendor terms" : "Assign to vendor"}
+          </button>
+        )}
+      </div>
+    );
+  };
+
   // ═══════════════════════════════════════════════════════════
   // EXPANDED ROW
   // ═══════════════════════════════════════════════════════════
   const ExpandedRowDetail = ({ req }: { req: WorkRequest }) => (
     <tr>
-      <td colSpan={7} className="p-0">
+      <td colSpan={8} className="p-0">
         <div className="bg-gray-50 border-t border-gray-100 p-5 animate-in fade-in slide-in-from-top-1 duration-200">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {/* Description */}
@@ -669,12 +917,13 @@ export const WorkOrderManagement = () => {
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                 <div>
                   <span className="text-xs font-bold text-gray-400 uppercase">Category</span>
-                  <p className="text-sm text-gray-900 mt-0.5 capitalize">{req.category}</p>
+                  <p className="text-sm text-gray-900 mt-0.5">{getLabel("categories", req.category)}</p>
                 </div>
                 <div>
                   <span className="text-xs font-bold text-gray-400 uppercase">Location</span>
-                  <p className="text-sm text-gray-900 mt-0.5">{req.location}</p>
+                  <p className="text-sm text-gray-900 mt-0.5">{getLabel("locations", req.location)}</p>
                 </div>
+                <EquipmentField req={req} />
                 <div>
                   <span className="text-xs font-bold text-gray-400 uppercase">Requested Date</span>
                   <p className="text-sm text-gray-900 mt-0.5">{format(parseISO(req.requested_date), "MMM d, yyyy")}</p>
@@ -686,6 +935,41 @@ export const WorkOrderManagement = () => {
                   <span className="text-xs font-bold text-gray-400 uppercase">Est. Hours</span>
                   <p className="text-sm text-gray-900 mt-0.5">{req.estimated_hours ? `${req.estimated_hours}h` : "—"}</p>
                 </div>
+                <div>
+                  <span className="text-xs font-bold text-gray-400 uppercase">Est. Cost</span>
+                  {canApprove && (req.status === "pending" || req.status === "approved") ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="—"
+                      defaultValue={req.estimated_cost ?? ""}
+                      onBlur={e => handleEstimatedCostChange(req, e.target.value)}
+                      onKeyDown={e => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                      className="h-8 mt-0.5 bg-white text-sm"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-900 mt-0.5">{req.estimated_cost != null ? formatCurrency(req.estimated_cost) : "—"}</p>
+                  )}
+                </div>
+                {req.response_due_at && (
+                  <div>
+                    <span className="text-xs font-bold text-gray-400 uppercase">Response Due</span>
+                    <p className={cn("text-sm mt-0.5", isResponseLate(req) ? "text-red-600 font-bold" : "text-gray-900")}>
+                      {format(parseISO(req.response_due_at), "MMM d, h:mm a")}
+                    </p>
+                    {req.responded_at && <p className="text-xs text-gray-500">Responded {format(parseISO(req.responded_at), "MMM d, h:mm a")}</p>}
+                  </div>
+                )}
+                {req.due_at && (
+                  <div>
+                    <span className="text-xs font-bold text-gray-400 uppercase">Resolution Due</span>
+                    <p className={cn("text-sm mt-0.5", req.status !== "rejected" && isResolutionLate(req) ? "text-red-600 font-bold" : "text-gray-900")}>
+                      {format(parseISO(req.due_at), "MMM d, h:mm a")}
+                    </p>
+                    <SlaBadge request={req} show={["on_track", "at_risk", "breached", "met"]} className="mt-1" />
+                  </div>
+                )}
               </div>
             </div>
             {/* Contact */}
@@ -696,6 +980,77 @@ export const WorkOrderManagement = () => {
                 <p className="text-xs text-gray-500">{req.requestor_email}</p>
                 {req.requestor_phone && <p className="text-xs text-gray-500">{req.requestor_phone}</p>}
               </div>
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase">Assigned To</span>
+                <p className="text-sm text-gray-900 mt-0.5">
+                  {getAssignees(req.id).map(id => profilesById[id] ? getProfileLabel(profilesById[id]) : "Unknown").join(", ") || "Unassigned"}
+                </p>
+              </div>
+              <VendorField req={req} />
+              <ApprovalChain workRequestId={req.id} />
+              {req.approved_by && (
+                <div>
+                  <span className="text-xs font-bold text-gray-400 uppercase">Approved By</span>
+                  <p className="text-sm text-gray-900 mt-0.5">{req.approved_by}</p>
+                  {req.approved_at && <p className="text-xs text-gray-500">{format(parseISO(req.approved_at), "MMM d, yyyy")}</p>}
+                </div>
+              )}
+              {req.started_by && (
+                <div>
+                  <span className="text-xs font-bold text-gray-400 uppercase">Started By</span>
+                  <p className="text-sm text-gray-900 mt-0.5">{req.started_by}</p>
+                  {req.started_at && <p className="text-xs text-gray-500">{format(parseISO(req.started_at), "MMM d, yyyy")}</p>}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Attachments + history */}
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2 space-y-4">
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase">Attachments</span>
+                <div className="mt-2">
+                  <AttachmentGallery workRequestId={req.id} />
+                </div>
+              </div>
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1">
+                  <span className="material-symbols-outlined text-[14px]">lock</span>
+                  Internal Notes
+                </span>
+                <div className="mt-2 max-w-xl">
+                  <WorkRequestNotes workRequestId={req.id} profiles={profiles} assigneeIds={getAssignees(req.id)} />
+                </div>
+              </div>
+              <div>
+                <span className="text-xs font-bold text-gray-400 uppercase">Messages</span>
+                <div className="mt-2 max-w-xl">
+                  <MessageThread workRequestId={req.id} />
+                </div>
+              </div>
+              {req.status !== "pending" && req.status !== "rejected" && (
+                <div>
+                  <span className="text-xs font-bold text-gray-400 uppercase">Time Log</span>
+                  <div className="mt-2 max-w-md">
+                    <TimeEntryLog workRequestId={req.id} />
+                  </div>
+                </div>
+              )}
+              {req.status !== "pending" && req.status !== "rejected" && (
+                <div>
+                  <span className="text-xs font-bold text-gray-400 uppercase">Parts & Materials</span>
+                  <div className="mt-2 max-w-xl">
+                    <MaterialsEditor workRequestId={req.id} editable={canApprove || req.status !== "completed"} />
+                  </div>
+                </div>
+              )}
+            </div>
+            <div>
+              <span className="text-xs font-bold text-gray-400 uppercase">History</span>
+              <div className="mt-3">
+                <WorkRequestTimeline workRequestId={req.id} />
+              </div>
             </div>
           </div>
 
@@ -708,6 +1063,9 @@ export const WorkOrderManagement = () => {
               </div>
               <div className="text-sm text-gray-700">
                 {req.actual_hours && <span className="mr-4">Actual hours: <strong>{req.actual_hours}h</strong></span>}
+                {req.labor_cost != null && <span className="mr-4">Labor: <strong>{formatCurrency(req.labor_cost)}</strong></span>}
+                {!!req.materials_cost && <span className="mr-4">Materials: <strong>{formatCurrency(req.materials_cost)}</strong></span>}
+                {(req.labor_cost != null || !!req.materials_cost) && <span>Total cost: <strong>{formatCurrency(getTotalCost(req))}</strong></span>}
                 {req.completion_notes && <p className="mt-1 text-gray-600">{req.completion_notes}</p>}
               </div>
             </div>
@@ -753,6 +1111,7 @@ export const WorkOrderManagement = () => {
     <>
       {Array.from({ length: 8 }).map((_, i) => (
         <tr key={i} className="animate-pulse">
+          <td className="pl-4 py-3 w-8"><div className="h-4 w-4 bg-gray-200 rounded" /></td>
           <td className="px-4 py-3"><div className="h-4 bg-gray-200 rounded w-20" /></td>
           <td className="px-4 py-3"><div className="h-4 bg-gray-200 rounded w-40" /><div className="h-3 bg-gray-100 rounded w-24 mt-1" /></td>
           <td className="px-4 py-3 hidden md:table-cell"><div className="h-4 bg-gray-200 rounded w-20" /></td>
@@ -765,6 +1124,44 @@ export const WorkOrderManagement = () => {
     </>
   );
 
+  // Search matches outside the title: a description snippet, or a hint for internal notes
+  const MatchContext = ({ req }: { req: WorkRequest }) => {
+    const highlight = highlights[req.id];
+    if (!highlight) return null;
+    const inDescription = hasHighlight(highlight.description);
+    if (!inDescription && !highlight.notes) return null;
+    return (
+      <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+        {inDescription
+          ? <Highlight highlighted={highlight.description} text={req.description} />
+          : <span className="inline-flex items-center gap-1 italic"><span className="material-symbols-outlined text-[12px]">lock</span>Matched in internal notes</span>}
+      </p>
+    );
+  };
+
+  const Pager = ({ className }: { className?: string }) => {
+    if (loading || (!hasPrevPage && !hasNextPage)) return null;
+    const first = pageIndex * ITEMS_PER_PAGE + 1;
+    return (
+      <div className={cn("flex items-center justify-between", className)}>
+        <span className="text-xs text-gray-400 font-bold">
+          {first}–{first + requests.length - 1} of {total} requests
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={prevPage} disabled={!hasPrevPage}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-30">
+            <span className="material-symbols-outlined text-[20px]">chevron_left</span>
+          </button>
+          <span className="w-8 h-8 rounded-lg text-xs font-bold bg-primary text-white flex items-center justify-center">{pageIndex + 1}</span>
+          <button onClick={nextPage} disabled={!hasNextPage}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-30">
+            <span className="material-symbols-outlined text-[20px]">chevron_right</span>
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   // ═══════════════════════════════════════════════════════════
   // RENDER
   // ═══════════════════════════════════════════════════════════
@@ -784,7 +1181,7 @@ export const WorkOrderManagement = () => {
             <p className="text-gray-500 mt-1">Review, approve, and track all facility work requests.</p>
           </div>
           <div className="flex items-center gap-3">
-            <button onClick={fetchRequests} className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 shadow-sm">
+            <button onClick={() => refresh()} className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 shadow-sm">
               <span className={cn("material-symbols-outlined text-[18px]", loading && "animate-spin")}>refresh</span>
               Refresh
             </button>
@@ -846,6 +1243,8 @@ export const WorkOrderManagement = () => {
           </div>
         </div>
 
+        <SavedViewTabs params={searchParams} onApply={applyFilterParams} canShare={isStaff(role)} />
+
         {/* Search & Filters */}
         <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6">
           <div className="flex flex-col lg:flex-row items-start lg:items-center gap-3">
@@ -854,14 +1253,14 @@ export const WorkOrderManagement = () => {
               <span className="material-symbols-outlined text-[20px] text-gray-400 absolute left-3 top-1/2 -translate-y-1/2">search</span>
               <Input
                 placeholder="Search work orders..."
-                value={search}
-                onChange={e => setSearch(e.target.value)}
+                value={searchInput}
+                onChange={e => setSearchInput(e.target.value)}
                 className="pl-10 bg-gray-50 border-gray-200"
               />
             </div>
             {/* Filters */}
             <div className="flex flex-wrap items-center gap-2">
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={filters.status} onValueChange={v => updateFilters({ status: v })}>
                 <SelectTrigger className="w-40 bg-white border-gray-200">
                   <SelectValue placeholder="Status" />
                 </SelectTrigger>
@@ -875,48 +1274,173 @@ export const WorkOrderManagement = () => {
                   <SelectItem value="rejected">Rejected</SelectItem>
                 </SelectContent>
               </Select>
-              <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+              <Select value={filters.priority} onValueChange={v => updateFilters({ priority: v })}>
                 <SelectTrigger className="w-36 bg-white border-gray-200">
                   <SelectValue placeholder="Priority" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Priorities</SelectItem>
-                  <SelectItem value="emergency">Emergency</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value={PRIORITY_FILTER_EMERGENCY}>Emergencies</SelectItem>
+                  {[...PRIORITIES].reverse().map(p => (
+                    <SelectItem key={p} value={p}>{PRIORITY_META[p].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.department} onValueChange={v => updateFilters({ department: v })}>
+                <SelectTrigger className="w-40 bg-white border-gray-200">
+                  <SelectValue placeholder="Department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Departments</SelectItem>
+                  {departments.map(d => (
+                    <SelectItem key={d.value} value={d.value}>
+                      {d.name}{d.archived_at ? " (archived)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.assignee} onValueChange={v => updateFilters({ assignee: v })}>
+                <SelectTrigger className="w-44 bg-white border-gray-200">
+                  <SelectValue placeholder="Assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ASSIGNEE_FILTER_ALL}>All Assignees</SelectItem>
+                  <SelectItem value={ASSIGNEE_FILTER_ME}>Assigned to Me</SelectItem>
+                  <SelectItem value={ASSIGNEE_FILTER_UNASSIGNED}>Unassigned</SelectItem>
+                  {profiles.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{getProfileLabel(p)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.sla} onValueChange={v => updateFilters({ sla: v })}>
+                <SelectTrigger className="w-40 bg-white border-gray-200">
+                  <SelectValue placeholder="SLA" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any SLA Status</SelectItem>
+                  <SelectItem value={SLA_FILTER_ATTENTION}>Needs Attention</SelectItem>
+                  <SelectItem value="breached">Breached</SelectItem>
+                  <SelectItem value="at_risk">At Risk</SelectItem>
+                  <SelectItem value="on_track">On Track</SelectItem>
+                  <SelectItem value="met">Met SLA</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.when} onValueChange={v => updateFilters({ when: v as DateRangePreset })}>
+                <SelectTrigger className="w-36 bg-white border-gray-200">
+                  <SelectValue placeholder="Requested" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_RANGE_OPTIONS.map(o => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={filters.sort} onValueChange={v => updateFilters({ sort: v as WorkRequestSort })}>
+                <SelectTrigger className="w-40 bg-white border-gray-200">
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map(o => (
+                    <SelectItem key={o.value} value={o.value}>Sort: {o.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <button
+                onClick={() => updateFilters({ asc: !filters.asc })}
+                title={filters.asc ? "Ascending" : "Descending"}
+                className="p-2 text-gray-500 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
+              >
+                <span className="material-symbols-outlined text-[18px] block">{filters.asc ? "arrow_upward" : "arrow_downward"}</span>
+              </button>
 
               {/* View toggle */}
               <div className="flex bg-gray-100 rounded-lg p-0.5">
-                <button onClick={() => setViewMode("table")} className={cn("p-1.5 rounded-md transition-all", viewMode === "table" ? "bg-white shadow-sm text-gray-900" : "text-gray-400 hover:text-gray-600")}>
+                <button onClick={() => updateFilters({ view: "table" })} className={cn("p-1.5 rounded-md transition-all", filters.view === "table" ? "bg-white shadow-sm text-gray-900" : "text-gray-400 hover:text-gray-600")}>
                   <span className="material-symbols-outlined text-[20px]">table_rows</span>
                 </button>
-                <button onClick={() => setViewMode("card")} className={cn("p-1.5 rounded-md transition-all", viewMode === "card" ? "bg-white shadow-sm text-gray-900" : "text-gray-400 hover:text-gray-600")}>
+                <button onClick={() => updateFilters({ view: "card" })} className={cn("p-1.5 rounded-md transition-all", filters.view === "card" ? "bg-white shadow-sm text-gray-900" : "text-gray-400 hover:text-gray-600")}>
                   <span className="material-symbols-outlined text-[20px]">grid_view</span>
                 </button>
               </div>
 
               {/* Export */}
-              <button onClick={() => exportCSV(filtered)} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50">
+              <button onClick={handleExport} disabled={exporting} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50">
                 <span className="material-symbols-outlined text-[18px]">download</span>
-                Export
+                {exporting ? "Exporting..." : "Export"}
               </button>
             </div>
           </div>
           <div className="mt-3 text-xs text-gray-400 font-bold">
-            Showing {filtered.length} work order{filtered.length !== 1 ? "s" : ""} · {pendingCount} pending
+            {total} work order{total !== 1 ? "s" : ""} found · {pendingCount} pending
+            {breachedCount > 0 && (
+              <button onClick={() => updateFilters({ sla: "breached" })} className="ml-1 text-red-600 hover:underline">
+                · {breachedCount} past SLA
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Bulk actions */}
+        {selectedCount > 0 && (
+          <div className="bg-white rounded-xl border border-primary/20 shadow-sm px-4 py-3 mb-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-extrabold text-gray-900 mr-2">{selectedCount} selected</span>
+              {canApprove && BULK_ACTIONS.map(a => (
+                <button
+                  key={a.action}
+                  onClick={() => setBulkAction(a.action)}
+                  disabled={bulkBusy}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <span className="material-symbols-outlined text-[16px]">{a.icon}</span>
+                  {a.label}
+                </button>
+              ))}
+              <button
+                onClick={handleBulkExport}
+                disabled={bulkBusy}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <span className="material-symbols-outlined text-[16px]">download</span>
+                Export
+              </button>
+              <button onClick={clearSelection} className="ml-auto text-xs font-bold text-gray-400 hover:text-gray-600">
+                Clear selection
+              </button>
+            </div>
+            {pageSelected && !allMatching && total > requests.length && (
+              <p className="text-xs text-gray-500 mt-2">
+                All {requests.length} on this page are selected.{" "}
+                <button onClick={() => setAllMatching(true)} className="font-bold text-primary hover:underline">
+                  Select all {total} matching work orders
+                </button>
+              </p>
+            )}
+            {allMatching && (
+              <p className="text-xs text-gray-500 mt-2">
+                All {total} work orders matching this search are selected.
+                {total > BULK_LIMIT && <span className="text-amber-600"> Bulk updates take up to {BULK_LIMIT} at a time; export works on all.</span>}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* TABLE VIEW */}
-        {viewMode === "table" && (
+        {filters.view === "table" && (
           <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead>
                   <tr className="bg-gray-50/80 border-b border-gray-100">
+                    <th className="pl-4 py-3 w-8">
+                      <Checkbox
+                        checked={pageSelected}
+                        onCheckedChange={togglePageSelected}
+                        disabled={loading || requests.length === 0}
+                        aria-label="Select all on this page"
+                      />
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase">Work Order</th>
                     <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase">Title / Requestor</th>
                     <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase hidden md:table-cell">Dept</th>
@@ -927,10 +1451,10 @@ export const WorkOrderManagement = () => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-50">
-                  {loading ? <SkeletonRows /> : paginated.length === 0 ? (
+                  {loading ? <SkeletonRows /> : requests.length === 0 ? (
                     <tr>
-                      <td colSpan={7}>
-                        {requests.length === 0 ? (
+                      <td colSpan={8}>
+                        {stats.total === 0 ? (
                           <div className="text-center py-16">
                             <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">church</span>
                             <h3 className="font-extrabold text-gray-900 text-lg mb-1">All caught up!</h3>
@@ -941,7 +1465,7 @@ export const WorkOrderManagement = () => {
                             <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">search_off</span>
                             <h3 className="font-extrabold text-gray-900 text-lg mb-1">No work orders found</h3>
                             <p className="text-gray-400 text-sm mb-4">Try adjusting your search or filters.</p>
-                            <button onClick={() => { setSearch(""); setStatusFilter("all"); setPriorityFilter("all"); }}
+                            <button onClick={clearFilters}
                               className="px-4 py-2 text-sm font-bold text-primary bg-primary/10 rounded-lg hover:bg-primary/20">
                               Clear Filters
                             </button>
@@ -949,45 +1473,60 @@ export const WorkOrderManagement = () => {
                         )}
                       </td>
                     </tr>
-                  ) : paginated.map(req => (
+                  ) : requests.map(req => (
                     <>
                       <tr
                         key={req.id}
                         onClick={() => setExpandedRow(expandedRow === req.id ? null : req.id)}
                         className={cn(
                           "cursor-pointer transition-colors hover:bg-gray-50/80",
-                          expandedRow === req.id && "bg-gray-50/50"
+                          expandedRow === req.id && "bg-gray-50/50",
+                          isOpenEmergency(req) && "bg-red-50/60 hover:bg-red-50",
+                          selected.has(req.id) && "bg-primary/5"
                         )}
                       >
+                        <td className="pl-4 py-3 w-8" onClick={e => e.stopPropagation()}>
+                          <Checkbox checked={selected.has(req.id)} onCheckedChange={() => toggleSelected(req)} aria-label="Select work order" />
+                        </td>
                         <td className="px-4 py-3">
                           <span className="font-extrabold text-xs text-gray-900">{req.work_order_id || `WO-${req.id.slice(-4)}`}</span>
                         </td>
                         <td className="px-4 py-3">
-                          <div className="font-bold text-sm text-gray-900 truncate max-w-[240px]">{req.title}</div>
-                          <div className="text-xs text-gray-400">{req.requestor_name}</div>
+                          <div className="font-bold text-sm text-gray-900 truncate max-w-[240px]">
+                            <Highlight highlighted={highlights[req.id]?.title} text={req.title} />
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-gray-400">{req.requestor_name}</span>
+                            <AssigneeAvatars profileIds={getAssignees(req.id)} profilesById={profilesById} />
+                          </div>
+                          <MatchContext req={req} />
                         </td>
                         <td className="px-4 py-3 hidden md:table-cell">
-                          <span className="text-sm text-gray-600 capitalize">{req.department}</span>
+                          <span className="text-sm text-gray-600">{getLabel("departments", req.department)}</span>
                         </td>
                         <td className="px-4 py-3 hidden md:table-cell">
-                          <span className={cn("px-2.5 py-1 rounded-full text-xs font-bold inline-flex items-center gap-1", getPriorityBadge(req.priority))}>
-                            {(req.priority === "urgent" || req.priority === "emergency") && (
-                              <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
-                            )}
-                            {req.priority}
-                          </span>
+                          <PriorityBadge priority={req.priority} emergency={isOpenEmergency(req)} />
                         </td>
                         <td className="px-4 py-3">
-                          <span className={cn("px-2.5 py-1 rounded-full text-xs font-bold inline-flex items-center gap-1", getStatusBadge(req.status))}>
-                            <span className="material-symbols-outlined text-[14px]">{getStatusIcon(req.status)}</span>
-                            {req.status.replace("_", " ")}
-                          </span>
+                          <div className="flex flex-wrap items-center gap-1.5">
+                            <span className={cn("px-2.5 py-1 rounded-full text-xs font-bold inline-flex items-center gap-1", getStatusBadge(req.status))}>
+                              <span className="material-symbols-outlined text-[14px]">{getStatusIcon(req.status)}</span>
+                              {req.status.replace("_", " ")}
+                            </span>
+                            {(req.status === "in_progress" || req.status === "paused") && <WorkTimer timer={req} />}
+                            <SlaBadge request={req} />
+                          </div>
                         </td>
                         <td className="px-4 py-3 hidden md:table-cell">
                           <span className="text-sm text-gray-600">{format(parseISO(req.requested_date), "MMM d")}</span>
                         </td>
                         <td className="px-4 py-3 text-right">
-                          <ActionButtons req={req} />
+                          <div className="flex items-center justify-end gap-1.5">
+                            <ActionButtons req={req} />
+                            {canApprove && !["completed", "rejected"].includes(req.status) && (
+                              <AssigneePicker compact profiles={profiles} value={getAssignees(req.id)} onChange={ids => handleAssign(req, ids)} />
+                            )}
+                          </div>
                         </td>
                       </tr>
                       {expandedRow === req.id && <ExpandedRowDetail key={`exp-${req.id}`} req={req} />}
@@ -998,36 +1537,12 @@ export const WorkOrderManagement = () => {
             </div>
 
             {/* Pagination */}
-            {!loading && filtered.length > ITEMS_PER_PAGE && (
-              <div className="flex items-center justify-between px-4 py-3 border-t border-gray-100">
-                <span className="text-xs text-gray-400 font-bold">
-                  {(page - 1) * ITEMS_PER_PAGE + 1}–{Math.min(page * ITEMS_PER_PAGE, filtered.length)} of {filtered.length} requests
-                </span>
-                <div className="flex items-center gap-1">
-                  <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1}
-                    className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-30">
-                    <span className="material-symbols-outlined text-[20px]">chevron_left</span>
-                  </button>
-                  {getPageNumbers().map(pn => (
-                    <button key={pn} onClick={() => setPage(pn)}
-                      className={cn("w-8 h-8 rounded-lg text-xs font-bold transition-all",
-                        pn === page ? "bg-primary text-white" : "text-gray-500 hover:bg-gray-50"
-                      )}>
-                      {pn}
-                    </button>
-                  ))}
-                  <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages}
-                    className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-30">
-                    <span className="material-symbols-outlined text-[20px]">chevron_right</span>
-                  </button>
-                </div>
-              </div>
-            )}
+            <Pager className="px-4 py-3 border-t border-gray-100" />
           </div>
         )}
 
         {/* CARD VIEW */}
-        {viewMode === "card" && (
+        {filters.view === "card" && (
           <>
             {loading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -1043,9 +1558,9 @@ export const WorkOrderManagement = () => {
                   </div>
                 ))}
               </div>
-            ) : paginated.length === 0 ? (
+            ) : requests.length === 0 ? (
               <div className="bg-white rounded-xl border border-gray-100 shadow-sm">
-                {requests.length === 0 ? (
+                {stats.total === 0 ? (
                   <div className="text-center py-16">
                     <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">church</span>
                     <h3 className="font-extrabold text-gray-900 text-lg mb-1">All caught up!</h3>
@@ -1056,7 +1571,7 @@ export const WorkOrderManagement = () => {
                     <span className="material-symbols-outlined text-gray-300 text-5xl block mb-3">search_off</span>
                     <h3 className="font-extrabold text-gray-900 text-lg mb-1">No work orders found</h3>
                     <p className="text-gray-400 text-sm mb-4">Try adjusting your search or filters.</p>
-                    <button onClick={() => { setSearch(""); setStatusFilter("all"); setPriorityFilter("all"); }}
+                    <button onClick={clearFilters}
                       className="px-4 py-2 text-sm font-bold text-primary bg-primary/10 rounded-lg hover:bg-primary/20">
                       Clear Filters
                     </button>
@@ -1065,7 +1580,7 @@ export const WorkOrderManagement = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {paginated.map(req => {
+                {requests.map(req => {
                   const checklist = Array.isArray(req.approval_checklist) ? req.approval_checklist as ChecklistItem[] : [];
                   const checklistProgress = checklist.length > 0 ? (checklist.filter(i => i.completed).length / checklist.length) * 100 : 0;
 
@@ -1080,19 +1595,23 @@ export const WorkOrderManagement = () => {
                       {/* Header */}
                       <div className="flex items-start justify-between mb-3">
                         <div className="min-w-0">
-                          <span className="font-extrabold text-xs text-gray-500">{req.work_order_id || `WO-${req.id.slice(-4)}`}</span>
-                          <h3 className="font-bold text-sm text-gray-900 truncate mt-0.5">{req.title}</h3>
+                          <label className="flex items-center gap-2">
+                            <Checkbox checked={selected.has(req.id)} onCheckedChange={() => toggleSelected(req)} />
+                            <span className="font-extrabold text-xs text-gray-500">{req.work_order_id || `WO-${req.id.slice(-4)}`}</span>
+                          </label>
+                          <h3 className="font-bold text-sm text-gray-900 truncate mt-0.5">
+                            <Highlight highlighted={highlights[req.id]?.title} text={req.title} />
+                          </h3>
                           <p className="text-xs text-gray-400 mt-0.5">{req.requestor_name}</p>
+                          <MatchContext req={req} />
                         </div>
                         <div className="flex flex-col items-end gap-1 shrink-0 ml-2">
-                          <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold inline-flex items-center gap-1", getPriorityBadge(req.priority))}>
-                            {(req.priority === "urgent" || req.priority === "emergency") && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />}
-                            {req.priority}
-                          </span>
+                          <PriorityBadge priority={req.priority} emergency={isOpenEmergency(req)} className="px-2 py-0.5" />
                           <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold inline-flex items-center gap-1", getStatusBadge(req.status))}>
                             <span className="material-symbols-outlined text-[12px]">{getStatusIcon(req.status)}</span>
                             {req.status.replace("_", " ")}
                           </span>
+                          <SlaBadge request={req} />
                         </div>
                       </div>
 
@@ -1100,11 +1619,11 @@ export const WorkOrderManagement = () => {
                       <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-xs mb-3">
                         <div className="flex items-center gap-1 text-gray-500">
                           <span className="material-symbols-outlined text-[14px] text-gray-400">groups</span>
-                          <span className="capitalize truncate">{req.department}</span>
+                          <span className="truncate">{getLabel("departments", req.department)}</span>
                         </div>
                         <div className="flex items-center gap-1 text-gray-500">
                           <span className="material-symbols-outlined text-[14px] text-gray-400">location_on</span>
-                          <span className="truncate">{req.location}</span>
+                          <span className="truncate">{getLabel("locations", req.location)}</span>
                         </div>
                         <div className="flex items-center gap-1 text-gray-500">
                           <span className="material-symbols-outlined text-[14px] text-gray-400">calendar_today</span>
@@ -1112,10 +1631,16 @@ export const WorkOrderManagement = () => {
                         </div>
                         <div className="flex items-center gap-1 text-gray-500">
                           <span className="material-symbols-outlined text-[14px] text-gray-400">category</span>
-                          <span className="capitalize truncate">{req.category}</span>
+                          <span className="truncate">{getLabel("categories", req.category)}</span>
                         </div>
                       </div>
 
+                      {(req.status === "in_progress" || req.status === "paused") && (
+                        <div className="mb-3">
+                          <WorkTimer timer={req} />
+                        </div>
+                      )}
+
                       {/* Checklist progress bar */}
                       {checklist.length > 0 && req.status === "in_progress" && (
                         <div className="mb-3">
@@ -1131,7 +1656,10 @@ export const WorkOrderManagement = () => {
 
                       {/* Footer */}
                       <div className="flex items-center justify-between pt-3 border-t border-gray-50">
-                        <span className="text-xs text-gray-400">{formatDistanceToNow(parseISO(req.created_at), { addSuffix: true })}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-gray-400">{formatDistanceToNow(parseISO(req.created_at), { addSuffix: true })}</span>
+                          <AssigneeAvatars profileIds={getAssignees(req.id)} profilesById={profilesById} />
+                        </div>
                         <ActionButtons req={req} />
                       </div>
                     </div>
@@ -1141,31 +1669,7 @@ export const WorkOrderManagement = () => {
             )}
 
             {/* Card Pagination */}
-            {!loading && filtered.length > ITEMS_PER_PAGE && (
-              <div className="flex items-center justify-between mt-6">
-                <span className="text-xs text-gray-400 font-bold">
-                  {(page - 1) * ITEMS_PER_PAGE + 1}–{Math.min(page * ITEMS_PER_PAGE, filtered.length)} of {filtered.length} requests
-                </span>
-                <div className="flex items-center gap-1">
-                  <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1}
-                    className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-30">
-                    <span className="material-symbols-outlined text-[20px]">chevron_left</span>
-                  </button>
-                  {getPageNumbers().map(pn => (
-                    <button key={pn} onClick={() => setPage(pn)}
-                      className={cn("w-8 h-8 rounded-lg text-xs font-bold transition-all",
-                        pn === page ? "bg-primary text-white" : "text-gray-500 hover:bg-gray-50"
-                      )}>
-                      {pn}
-                    </button>
-                  ))}
-                  <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages}
-                    className="p-1.5 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-50 disabled:opacity-30">
-                    <span className="material-symbols-outlined text-[20px]">chevron_right</span>
-                  </button>
-                </div>
-              </div>
-            )}
+            <Pager className="mt-6" />
           </>
         )}
       </div>
@@ -1174,6 +1678,28 @@ export const WorkOrderManagement = () => {
       <ApprovalDialog />
       <RejectDialog />
       <CompleteWorkDialog />
+      {vendorTarget && (
+        <VendorAssignDialog
+          workRequest={vendorTarget}
+          vendors={activeVendors}
+          vendorsById={vendorsById}
+          open
+          onClose={() => setVendorTarget(null)}
+          onSaved={assignment => {
+            setRequests(prev => prev.map(r => r.id === vendorTarget.id ? { ...r, ...assignment } : r));
+            setVendorTarget(null);
+          }}
+        />
+      )}
+      <BulkActionDialog
+        action={bulkAction}
+        count={selectedCount}
+        profiles={profiles}
+        busy={bulkBusy}
+        onCancel={() => setBulkAction(null)}
+        onConfirm={handleBulkAction}
+      />
+      <BulkFailuresDialog failures={bulkFailures} onClose={() => setBulkFailures([])} />
     </div>
   );
 };
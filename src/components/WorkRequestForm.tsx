@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence, useAnimation } from "framer-motion";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { SuccessCelebration } from "@/components/SuccessCelebration";
+import { AttachmentDropzone } from "@/components/attachments/AttachmentDropzone";
+import { uploadWorkRequestAttachments } from "@/lib/attachments";
+import { useLookups } from "@/hooks/use-lookups";
+import { useSlaTargets } from "@/hooks/use-sla-targets";
+import { formatTargetHours } from "@/lib/sla";
+import { Priority } from "@/lib/priorities";
+import { LocationAsset, getAssetTypeIcon } from "@/lib/assets";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   stepVariants,
   staggerContainer,
@@ -25,18 +33,22 @@ import { useFormStepTransition } from "@/lib/animations";
 // Data
 // ─────────────────────────────────────────────────────────────
 
-const departments = [
-  "Worship", "Events", "Kids", "Admin",
-  "Outreach", "Youth", "Facilities", "IT/Tech", "Other",
-];
-
-const locations = [
-  "Main Sanctuary", "Fellowship Hall", "Youth Room",
-  "Kitchen", "Office Wing", "Parking Lot",
-  "Exterior Grounds", "Nursery", "Gym", "Other",
-];
-
-const priorityOptions = [
+// Departments, locations and categories come from the database (useLookups)
+const DEFAULT_CATEGORY = "General";
+
+// One card per priority_level value, lowest first
+const priorityOptions: {
+  value: Priority;
+  label: string;
+  description: string;
+  response: string;
+  icon: string;
+  borderColor: string;
+  bgColor: string;
+  textColor: string;
+  iconBg: string;
+  glowColor: string;
+}[] = [
   {
     value: "low",
     label: "Low Priority",
@@ -55,6 +67,18 @@ const priorityOptions = [
     description: "Needs attention within 2–3 days.",
     response: "Response: 48 hours",
     icon: "flag",
+    borderColor: "#3b82f6",
+    bgColor: "rgb(239 246 255 / 0.5)",
+    textColor: "text-[#3b82f6]",
+    iconBg: "bg-blue-100",
+    glowColor: "#3b82f6",
+  },
+  {
+    value: "high",
+    label: "High Priority",
+    description: "Critical failure affecting work.",
+    response: "Response: 24 hours",
+    icon: "warning",
     borderColor: "#f97316",
     bgColor: "rgb(255 247 237 / 0.5)",
     textColor: "text-[#f97316]",
@@ -62,11 +86,11 @@ const priorityOptions = [
     glowColor: "#f97316",
   },
   {
-    value: "high",
-    label: "High Priority",
-    description: "Safety hazard or critical failure.",
+    value: "urgent",
+    label: "Urgent Priority",
+    description: "Safety hazard or can't wait past today.",
     response: "Response: ASAP",
-    icon: "warning",
+    icon: "priority_high",
     borderColor: "#ef4444",
     bgColor: "rgb(254 242 242 / 0.5)",
     textColor: "text-[#ef4444]",
@@ -166,11 +190,13 @@ const StepDot = ({
 
 interface PriorityCardProps {
   opt: (typeof priorityOptions)[number];
+  /** Configured response target; the built-in text is used until it loads */
+  response?: string;
   selected: boolean;
   onSelect: (value: string) => void;
 }
 
-const PriorityCard = ({ opt, selected, onSelect }: PriorityCardProps) => {
+const PriorityCard = ({ opt, response, selected, onSelect }: PriorityCardProps) => {
   const [ripples, setRipples] = useState<{ id: number; x: number; y: number }[]>([]);
   const [iconAnimate, setIconAnimate] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
@@ -257,13 +283,6 @@ const PriorityCard = ({ opt, selected, onSelect }: PriorityCardProps) => {
         )}
       </AnimatePresence>
 
-      {/* Urgent badge for high */}
-      {opt.value === "high" && (
-        <div className="absolute top-0 right-0 bg-[#ef4444] text-white text-[10px] font-bold px-2.5 py-0.5 rounded-bl-lg rounded-tr-xl">
-          URGENT
-        </div>
-      )}
-
       {/* Icon */}
       <motion.div
         animate={iconAnimate ? "animate" : "initial"}
@@ -276,7 +295,7 @@ const PriorityCard = ({ opt, selected, onSelect }: PriorityCardProps) => {
       <h3 className="text-base font-bold text-gray-900 mb-1">{opt.label}</h3>
       <p className="text-sm text-gray-500 mb-3 flex-grow">{opt.description}</p>
       <span className={`text-xs font-bold ${opt.textColor} uppercase`}>
-        {opt.response}
+        {response ?? opt.response}
       </span>
     </motion.div>
   );
@@ -291,12 +310,16 @@ export const WorkRequestForm = () => {
   const { toast } = useToast();
   const { direction, setDirection } = useFormStepTransition();
   const submitControls = useAnimation();
+  const { active, getLabel } = useLookups();
+  const { targetsByPriority } = useSlaTargets();
 
   const [currentStep, setCurrentStep] = useState(0);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [workOrderId, setWorkOrderId] = useState("");
+  const [accessToken, setAccessToken] = useState("");
   const [descCharCount, setDescCharCount] = useState(0);
+  const [attachments, setAttachments] = useState<File[]>([]);
 
   // Field-level shake refs
   const titleControls    = useAnimation();
@@ -307,22 +330,52 @@ export const WorkRequestForm = () => {
   const nameControls     = useAnimation();
   const emailControls    = useAnimation();
 
+  const [isEmergency, setIsEmergency] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
     location: "",
+    assetId: "",
     department: "",
+    category: DEFAULT_CATEGORY,
     description: "",
-    priority: "medium",
+    priority: "medium" as Priority,
     requestedDate: "",
     name: "",
     email: "",
   });
 
+  // Equipment at the chosen location, for the optional "which equipment?" picker
+  const [locationAssets, setLocationAssets] = useState<LocationAsset[]>([]);
+  useEffect(() => {
+    setLocationAssets([]);
+    if (!formData.location) return;
+    let cancelled = false;
+    supabase.rpc("get_location_assets", { _location: formData.location }).then(({ data }) => {
+      if (!cancelled) setLocationAssets(data || []);
+    });
+    return () => { cancelled = true; };
+  }, [formData.location]);
+  const selectedAsset = locationAssets.find((a) => a.id === formData.assetId);
+
+  const selectedPriority = priorityOptions.find((o) => o.value === formData.priority) ?? priorityOptions[1];
+
   const handleInputChange = (field: string, value: string) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
+    // Equipment belongs to one location, so a new location clears the pick
+    setFormData((prev) => ({ ...prev, [field]: value, ...(field === "location" ? { assetId: "" } : {}) }));
     if (field === "description") setDescCharCount(value.length);
   };
 
+  // An emergency is always urgent; picking a lower priority withdraws it
+  const handleEmergencyChange = (checked: boolean) => {
+    setIsEmergency(checked);
+    if (checked) handleInputChange("priority", "urgent");
+  };
+
+  const handlePriorityChange = (value: string) => {
+    handleInputChange("priority", value);
+    if (value !== "urgent") setIsEmergency(false);
+  };
+
   const shake = (controls: ReturnType<typeof useAnimation>) =>
     controls.start({ x: [0, -10, 10, -8, 8, -4, 4, 0], transition: { duration: 0.4 } });
 
@@ -368,20 +421,21 @@ export const WorkRequestForm = () => {
     submitControls.start("loading");
 
     try {
+      // Submitted through an RPC because anonymous users can't read work_requests back
       const { data, error } = await supabase
-        .from("work_requests")
-        .insert({
-          requestor_name:  formData.name,
-          requestor_email: formData.email,
-          location:        formData.location,
-          department:      formData.department.toLowerCase(),
-          title:           formData.title,
-          description:     formData.description,
-          priority:        formData.priority as "low" | "medium" | "high" | "emergency",
-          requested_date:  formData.requestedDate,
-          category:        "General",
+        .rpc("submit_work_request", {
+          _requestor_name:  formData.name,
+          _requestor_email: formData.email,
+          _location:        formData.location,
+          _department:      formData.department,
+          _title:           formData.title,
+          _description:     formData.description,
+          _priority:        formData.priority,
+          _requested_date:  formData.requestedDate,
+          _category:        formData.category,
+          _is_emergency:    isEmergency,
+          _asset_id:        formData.assetId || undefined,
         })
-        .select("work_order_id")
         .single();
 
       if (error) {
@@ -394,7 +448,19 @@ export const WorkRequestForm = () => {
         return;
       }
 
+      if (data && attachments.length > 0) {
+        const failed = await uploadWorkRequestAttachments(data.id, attachments);
+        if (failed.length > 0) {
+          toast({
+            title: "Some attachments failed to upload",
+            description: `Your request was submitted, but these files were not attached: ${failed.join(", ")}`,
+            variant: "destructive",
+          });
+        }
+      }
+
       setWorkOrderId(data?.work_order_id || "");
+      setAccessToken(data?.access_token || "");
       setIsSubmitted(true);
     } catch {
       toast({ title: "Error", description: "An unexpected error occurred.", variant: "destructive" });
@@ -410,15 +476,17 @@ export const WorkRequestForm = () => {
       <SuccessCelebration
         workOrderId={workOrderId}
         requestorEmail={formData.email}
-        onViewStatus={() => navigate("/")}
+        onViewStatus={() => navigate(accessToken ? `/status/${accessToken}` : "/")}
         onSubmitAnother={() => {
           setIsSubmitted(false);
           setCurrentStep(0);
           setFormData({
-            title: "", location: "", department: "", description: "",
+            title: "", location: "", assetId: "", department: "", category: DEFAULT_CATEGORY, description: "",
             priority: "medium", requestedDate: "", name: "", email: "",
           });
+          setIsEmergency(false);
           setDescCharCount(0);
+          setAttachments([]);
         }}
       />
     );
@@ -520,8 +588,8 @@ export const WorkRequestForm = () => {
                           className="w-full appearance-none rounded-lg border border-gray-200 bg-white px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary pr-10"
                         >
                           <option value="">Select location</option>
-                          {locations.map((loc) => (
-                            <option key={loc} value={loc}>{loc}</option>
+                          {active("locations").map((loc) => (
+                            <option key={loc.value} value={loc.value}>{loc.name}</option>
                           ))}
                         </select>
                         <span className="material-symbols-outlined absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
@@ -541,8 +609,8 @@ export const WorkRequestForm = () => {
                           className="w-full appearance-none rounded-lg border border-gray-200 bg-white px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary pr-10"
                         >
                           <option value="">Select department</option>
-                          {departments.map((dept) => (
-                            <option key={dept} value={dept}>{dept}</option>
+                          {active("departments").map((dept) => (
+                            <option key={dept.value} value={dept.value}>{dept.name}</option>
                           ))}
                         </select>
                         <span className="material-symbols-outlined absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
@@ -552,6 +620,51 @@ export const WorkRequestForm = () => {
                     </div>
                   </motion.div>
 
+                  {/* Equipment */}
+                  {locationAssets.length > 0 && (
+                    <motion.div variants={staggerItem} initial="initial" animate="animate" className="flex flex-col gap-1.5">
+                      <label className="text-gray-900 text-sm font-bold uppercase tracking-wider">
+                        Which Equipment?
+                      </label>
+                      <div className="relative">
+                        <select
+                          value={formData.assetId}
+                          onChange={(e) => handleInputChange("assetId", e.target.value)}
+                          className="w-full appearance-none rounded-lg border border-gray-200 bg-white px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary pr-10"
+                        >
+                          <option value="">Not sure / not equipment</option>
+                          {locationAssets.map((asset) => (
+                            <option key={asset.id} value={asset.id}>{asset.name}</option>
+                          ))}
+                        </select>
+                        <span className="material-symbols-outlined absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
+                          expand_more
+                        </span>
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {/* Category */}
+                  <motion.div variants={staggerItem} className="flex flex-col gap-1.5">
+                    <label className="text-gray-900 text-sm font-bold uppercase tracking-wider">
+                      Type of Work
+                    </label>
+                    <div className="relative">
+                      <select
+                        value={formData.category}
+                        onChange={(e) => handleInputChange("category", e.target.value)}
+                        className="w-full appearance-none rounded-lg border border-gray-200 bg-white px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary pr-10"
+                      >
+                        {active("categories").map((cat) => (
+                          <option key={cat.value} value={cat.value}>{cat.name}</option>
+                        ))}
+                      </select>
+                      <span className="material-symbols-outlined absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
+                        expand_more
+                      </span>
+                    </div>
+                  </motion.div>
+
                   {/* Description */}
                   <motion.div variants={staggerItem} className="flex flex-col gap-1.5">
                     <label className="text-gray-900 text-sm font-bold uppercase tracking-wider">
@@ -576,6 +689,14 @@ export const WorkRequestForm = () => {
                       </motion.span>
                     </div>
                   </motion.div>
+
+                  {/* Attachments */}
+                  <motion.div variants={staggerItem} className="flex flex-col gap-1.5">
+                    <label className="text-gray-900 text-sm font-bold uppercase tracking-wider">
+                      Photos / Files
+                    </label>
+                    <AttachmentDropzone files={attachments} onChange={setAttachments} />
+                  </motion.div>
                 </motion.div>
               )}
 
@@ -599,18 +720,42 @@ export const WorkRequestForm = () => {
                     variants={staggerContainer}
                     initial="initial"
                     animate="animate"
-                    className="grid grid-cols-1 md:grid-cols-3 gap-4"
+                    className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4"
                   >
                     {priorityOptions.map((opt) => (
                       <motion.div key={opt.value} variants={staggerItem} className="h-full">
                         <PriorityCard
                           opt={opt}
+                          response={targetsByPriority[opt.value] && `Response: ${formatTargetHours(targetsByPriority[opt.value].response_hours)}`}
                           selected={formData.priority === opt.value}
-                          onSelect={(val) => handleInputChange("priority", val)}
+                          onSelect={handlePriorityChange}
                         />
                       </motion.div>
                     ))}
                   </motion.div>
+
+                  {/* Emergency escalation */}
+                  <label
+                    className={`flex items-start gap-3 p-4 rounded-xl border-2 cursor-pointer transition-colors ${
+                      isEmergency ? "border-red-500 bg-red-50" : "border-gray-200 bg-white hover:border-red-200"
+                    }`}
+                  >
+                    <Checkbox
+                      checked={isEmergency}
+                      onCheckedChange={(checked) => handleEmergencyChange(checked === true)}
+                      className="mt-0.5 border-red-500 data-[state=checked]:bg-red-600 data-[state=checked]:border-red-600"
+                    />
+                    <div>
+                      <p className="text-sm font-bold text-red-700 flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[18px]">e911_emergency</span>
+                        This is an emergency
+                      </p>
+                      <p className="text-xs text-gray-600 mt-0.5">
+                        Flooding, gas smell, exposed wiring or anything unsafe right now. Emergencies skip the approval
+                        queue and alert the on-call team immediately.
+                      </p>
+                    </div>
+                  </label>
                 </div>
               )}
 
@@ -728,12 +873,28 @@ export const WorkRequestForm = () => {
                     <div className="pt-2 flex flex-wrap items-center gap-4 text-sm text-gray-500">
                       <span className="flex items-center gap-1">
                         <span className="material-symbols-outlined text-gray-400 text-[18px]">location_on</span>
-                        {formData.location}
+                        {getLabel("locations", formData.location)}
                       </span>
+                      {selectedAsset && (
+                        <span className="flex items-center gap-1">
+                          <span className="material-symbols-outlined text-gray-400 text-[18px]">{getAssetTypeIcon(selectedAsset.asset_type)}</span>
+                          {selectedAsset.name}
+                        </span>
+                      )}
                       <span className="flex items-center gap-1">
                         <span className="material-symbols-outlined text-gray-400 text-[18px]">business</span>
-                        {formData.department}
+                        {getLabel("departments", formData.department)}
                       </span>
+                      <span className="flex items-center gap-1">
+                        <span className="material-symbols-outlined text-gray-400 text-[18px]">category</span>
+                        {getLabel("categories", formData.category)}
+                      </span>
+                      {attachments.length > 0 && (
+                        <span className="flex items-center gap-1">
+                          <span className="material-symbols-outlined text-gray-400 text-[18px]">attach_file</span>
+                          {attachments.length} {attachments.length === 1 ? "file" : "files"}
+                        </span>
+                      )}
                     </div>
                   </motion.div>
 
@@ -741,14 +902,7 @@ export const WorkRequestForm = () => {
                   <motion.div
                     variants={staggerItem}
                     className={`bg-white rounded-xl p-5 shadow-sm border border-gray-100 border-l-4`}
-                    style={{
-                      borderLeftColor:
-                        formData.priority === "high"
-                          ? "#ef4444"
-                          : formData.priority === "medium"
-                          ? "#f97316"
-                          : "#06b6d4",
-                    }}
+                    style={{ borderLeftColor: selectedPriority.borderColor }}
                   >
                     <div className="flex justify-between items-start mb-2">
                       <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">
@@ -762,82 +916,25 @@ export const WorkRequestForm = () => {
                       </button>
                     </div>
                     <div className="flex items-center gap-3">
-                      <div
-                        className={`p-2.5 rounded-xl ${
-                          formData.priority === "high"
-                            ? "bg-red-50"
-                            : formData.priority === "medium"
-                            ? "bg-orange-50"
-                            : "bg-cyan-50"
-                        }`}
-                      >
-                        <span
-                          className={`material-symbols-outlined text-3xl ${
-                            formData.priority === "high"
-                              ? "text-[#ef4444]"
-                              : formData.priority === "medium"
-                              ? "text-[#f97316]"
-                              : "text-[#06b6d4]"
-                          }`}
-                        >
-                          {formData.priority === "high"
-                            ? "warning"
-                            : formData.priority === "medium"
-                            ? "flag"
-                            : "schedule"}
+                      <div className={`p-2.5 rounded-xl ${selectedPriority.iconBg}`}>
+                        <span className={`material-symbols-outlined text-3xl ${selectedPriority.textColor}`}>
+                          {isEmergency ? "e911_emergency" : selectedPriority.icon}
                         </span>
                       </div>
                       <div>
-                        <p className="text-base font-bold text-gray-900 capitalize">
-                          {formData.priority} Priority
+                        <p className="text-base font-bold text-gray-900">
+                          {isEmergency ? "Emergency" : selectedPriority.label}
                         </p>
                         <p className="text-gray-500 text-xs">
-                          {formData.priority === "high"
-                            ? "Response: ASAP"
-                            : formData.priority === "medium"
-                            ? "Estimated response: 24–48 Hours"
-                            : "Estimated response: 1 Week"}
+                          {isEmergency
+                            ? "Skips approval · the on-call team is alerted on submit"
+                            : targetsByPriority[selectedPriority.value]
+                            ? `Response: ${formatTargetHours(targetsByPriority[selectedPriority.value].response_hours)}`
+                            : selectedPriority.response}
                         </p>
                       </div>
                     </div>
                   </motion.div>
-
-                  {/* Schedule & contact */}
-                  <motion.div
-                    variants={staggerItem}
-                    className="bg-white rounded-xl p-5 shadow-sm border border-gray-100"
-                  >
-                    <div className="flex justify-between items-start mb-2">
-                      <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-1.5">
-                        <span className="material-symbols-outlined text-[16px]">calendar_today</span>
-                        Schedule & Contact
-                      </h3>
-                      <button
-                        onClick={() => { setDirection("backward"); setCurrentStep(2); }}
-                        className="text-primary font-bold text-sm flex items-center gap-1 hover:underline"
-                      >
-                        <span className="material-symbols-outlined text-[16px]">edit</span> Edit
-                      </button>
-                    </div>
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
-                      <div>
-                        <p className="text-gray-400 text-xs font-semibold mb-0.5">Requested Date</p>
-                        <p className="text-gray-900 font-semibold">
-                          {formData.requestedDate
-                            ? format(new Date(formData.requestedDate + "T12:00:00"), "PPP")
-                            : "—"}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-gray-400 text-xs font-semibold mb-0.5">Contact Name</p>
-                        <p className="text-gray-900 font-semibold">{formData.name}</p>
-                      </div>
-                      <div className="sm:col-span-2">
-                        <p className="text-gray-400 text-xs font-semibold mb-0.5">Email</p>
-                        <p className="text-gray-900 font-semibold">{formData.email}</p>
-                      </div>
-                    </div>
-                  </motion.div>
                 </motion.div>
               )}
             </motion.div>
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { APPROVAL_DECISION_META, WorkRequestApproval, getApprovalState, getOpenApproval, sortApprovals } from "@/lib/approvals";
+
+interface ApprovalStepListProps {
+  approvals: WorkRequestApproval[];
+}
+
+/** Each step of a request's approval chain with who decided it, when, and their comment. */
+export const ApprovalStepList = ({ approvals }: ApprovalStepListProps) => {
+  const open = getOpenApproval(approvals);
+  return (
+    <ol className="space-y-2">
+      {sortApprovals(approvals).map(step => {
+        const state = getApprovalState(step, open);
+        const meta = APPROVAL_DECISION_META[state];
+        // An admin standing in, or a manager rejecting outside the chain
+        const stoodIn = step.decided_by_name && step.decided_by_name !== step.approver_name;
+        return (
+          <li key={step.id} className="flex items-start gap-2 text-xs">
+            <span className={cn("material-symbols-outlined text-[16px]", meta.className)}>{meta.icon}</span>
+            <div className="min-w-0">
+              <p className="text-gray-900">
+                <span className="font-bold">{step.label}</span>
+                <span className="text-gray-500"> · {step.approver_name || "Unknown"}</span>
+              </p>
+              <p className={cn("font-bold", meta.className)}>
+                {meta.label}
+                {step.decided_at && (
+                  <span className="font-normal text-gray-400">
+                    {" "}{format(parseISO(step.decided_at), "MMM d, h:mm a")}
+                    {stoodIn && ` by ${step.decided_by_name}`}
+                  </span>
+                )}
+              </p>
+              {step.comment && <p className="text-gray-600 mt-0.5 whitespace-pre-wrap">“{step.comment}”</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+interface ApprovalChainProps {
+  workRequestId: string;
+}
+
+/** The approval chain of one work request; renders nothing when it has none. */
+export const ApprovalChain = ({ workRequestId }: ApprovalChainProps) => {
+  const [approvals, setApprovals] = useState<WorkRequestApproval[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from("work_request_approvals")
+      .select("*")
+      .eq("work_request_id", workRequestId)
+      .then(({ data, error }) => {
+        if (!cancelled) setApprovals(error || !data ? [] : data);
+      });
+
+    return () => { cancelled = true; };
+  }, [workRequestId]);
+
+  if (approvals.length === 0) return null;
+
+  return (
+    <div>
+      <span className="text-xs font-bold text-gray-400 uppercase">Approval Chain</span>
+      <div className="mt-2">
+        <ApprovalStepList approvals={approvals} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignees } from "@/hooks/use-assignees";
+import { useLookups } from "@/hooks/use-lookups";
+import { isActiveEntry } from "@/lib/lookups";
+import { getProfileLabel } from "@/lib/assignees";
+import { ApprovalChainStep, describeCostBand } from "@/lib/approvals";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const ALL_DEPARTMENTS = "all";
+
+// Volunteers can be assigned work but don't sign off on spending
+const APPROVER_ROLES = ["admin", "manager", "employee"];
+
+const EMPTY_FORM = { department: ALL_DEPARTMENTS, stepOrder: "1", label: "", approverId: "", minCost: "" };
+
+export const ApprovalChainEditor = () => {
+  const { profiles, profilesById, loading: profilesLoading } = useAssignees();
+  const { departments, getLabel } = useLookups();
+  const [steps, setSteps] = useState<ApprovalChainStep[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchSteps = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("approval_chain_steps")
+        .select("*")
+        .order("step_order")
+        .order("min_estimated_cost");
+      if (error) throw error;
+      setSteps(data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load approval chains", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchSteps(); }, [fetchSteps]);
+
+  // "All departments" first, then each department that has steps of its own
+  const chains = useMemo(() => {
+    const byDepartment = new Map<string, ApprovalChainStep[]>();
+    steps.forEach(s => {
+      const key = s.department ?? ALL_DEPARTMENTS;
+      byDepartment.set(key, [...(byDepartment.get(key) ?? []), s]);
+    });
+    return [...byDepartment].sort(([a], [b]) =>
+      a === ALL_DEPARTMENTS ? -1 : b === ALL_DEPARTMENTS ? 1 : getLabel("departments", a).localeCompare(getLabel("departments", b))
+    );
+  }, [steps, getLabel]);
+
+  const approvers = profiles.filter(p => APPROVER_ROLES.includes(p.role));
+  const stepOrder = parseInt(form.stepOrder, 10);
+  const minCost = form.minCost.trim() ? parseFloat(form.minCost) : 0;
+  const valid = form.label.trim() && form.approverId && stepOrder > 0 && minCost >= 0;
+
+  const addStep = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("approval_chain_steps").insert({
+        department: form.department === ALL_DEPARTMENTS ? null : form.department,
+        step_order: stepOrder,
+        label: form.label.trim(),
+        approver_profile_id: form.approverId,
+        min_estimated_cost: minCost,
+      });
+      if (error) throw error;
+      setForm(EMPTY_FORM);
+      await fetchSteps();
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not add the step", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeStep = async (step: ApprovalChainStep) => {
+    setBusyId(step.id);
+    try {
+      const { error } = await supabase.from("approval_chain_steps").delete().eq("id", step.id);
+      if (error) throw error;
+      await fetchSteps();
+    } catch (e: unknown) {
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : "Could not remove the step", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || profilesLoading) {
+    return <p className="text-center text-gray-400 text-sm py-12">Loading...</p>;
+  }
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <h2 className="text-xs font-bold text-gray-400 uppercase">Approval chains</h2>
+        <p className="text-xs text-gray-400 mt-0.5">
+          Who signs off on new requests, in order. A request goes through every step for its department and for all
+          departments whose cost band its estimate reaches. Requests no step applies to need one approval from an admin or manager.
+        </p>
+      </div>
+
+      {chains.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm py-8">No approval chains yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {chains.map(([department, chain]) => (
+            <div key={department} className="px-4 py-3">
+              <h3 className="text-sm font-extrabold text-gray-900 mb-2">
+                {department === ALL_DEPARTMENTS ? "All departments" : getLabel("departments", department)}
+              </h3>
+              <ul className="space-y-1.5">
+                {chain.map(step => {
+                  const approver = profilesById[step.approver_profile_id];
+                  return (
+                    <li key={step.id} className="flex items-center gap-3 text-sm">
+                      <span className="w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-bold flex items-center justify-center shrink-0">
+                        {step.step_order}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-gray-900 truncate">{step.label}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {approver ? getProfileLabel(approver) : "Unknown"} · {describeCostBand(step.min_estimated_cost)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => removeStep(step)}
+                        disabled={busyId === step.id}
+                        className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                        title="Remove step"
+                      >
+                        <span className="material-symbols-outlined text-[18px]">delete</span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add */}
+      <div className="px-4 py-3 border-t border-gray-100 grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+        <Select value={form.department} onValueChange={v => setForm(f => ({ ...f, department: v }))}>
+          <SelectTrigger className="h-9 col-span-2 md:col-span-1"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+            {departments.filter(isActiveEntry).map(d => <SelectItem key={d.value} value={d.value}>{d.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="1"
+          step="1"
+          placeholder="Step"
+          value={form.stepOrder}
+          onChange={e => setForm(f => ({ ...f, stepOrder: e.target.value }))}
+          className="h-9"
+        />
+        <Input
+          placeholder="e.g. Department head"
+          value={form.label}
+          onChange={e => setForm(f => ({ ...f, label: e.target.value }))}
+          className="h-9"
+        />
+        <Select value={form.approverId} onValueChange={v => setForm(f => ({ ...f, approverId: v }))}>
+          <SelectTrigger className="h-9"><SelectValue placeholder="Approver" /></SelectTrigger>
+          <SelectContent>
+            {approvers.map(p => <SelectItem key={p.id} value={p.id}>{getProfileLabel(p)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="From $ (any)"
+          value={form.minCost}
+          onChange={e => setForm(f => ({ ...f, minCost: e.target.value }))}
+          className="h-9"
+        />
+        <Button size="sm" onClick={addStep} disabled={saving || !valid} className="gap-1">
+          <span className="material-symbols-outlined text-[18px]">add</span>
+          Add Step
+        </Button>
+      </div>
+    </section>
+  );
+};
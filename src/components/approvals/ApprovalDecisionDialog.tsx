@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ApprovalDecision, WorkRequestApproval } from "@/lib/approvals";
+import type { Database } from "@/integrations/supabase/types";
+
+type WorkStatus = Database["public"]["Enums"]["work_status"];
+
+interface ApprovalDecisionDialogProps {
+  approval: WorkRequestApproval;
+  workRequest: { work_order_id: string | null; title: string };
+  decision: ApprovalDecision;
+  open: boolean;
+  onClose: () => void;
+  /** Called with the request's status afterwards: still pending while later steps remain */
+  onDecided: (status: WorkStatus) => void;
+}
+
+export const ApprovalDecisionDialog = ({ approval, workRequest, decision, open, onClose, onDecided }: ApprovalDecisionDialogProps) => {
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const rejecting = decision === "rejected";
+  const label = workRequest.work_order_id || workRequest.title;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc("decide_work_request_approval", {
+        _approval_id: approval.id,
+        _decision: decision,
+        _comment: comment.trim() || undefined,
+      });
+      if (error) throw error;
+      toast({
+        title: rejecting ? "Rejected" : data === "approved" ? "Approved" : "Step approved",
+        description: rejecting
+          ? `${label} has been rejected.`
+          : data === "approved" ? `${label} is fully approved.` : `${label} moves on to the next approver.`,
+      });
+      onDecided(data);
+    } catch (e: unknown) {
+      toast({ title: "Decision failed", description: e instanceof Error ? e.message : "Could not record the decision", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{rejecting ? "Reject" : "Approve"} as {approval.label}</DialogTitle>
+          <DialogDescription>{label}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>{rejecting ? "Reason" : "Comment (optional)"}</Label>
+          <Textarea
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            placeholder={rejecting ? "Why this can't go ahead..." : "Conditions, budget code, anything the next approver should know..."}
+            className="min-h-[90px]"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || (rejecting && !comment.trim())}
+            variant={rejecting ? "destructive" : "default"}
+          >
+            {submitting ? "Saving..." : rejecting ? "Reject" : "Approve"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ASSET_TYPES, ASSET_TYPE_META, Asset, AssetType } from "@/lib/assets";
+
+type AssetForm = {
+  name: string;
+  asset_type: AssetType;
+  location: string;
+  make: string;
+  model: string;
+  serial_number: string;
+  install_date: string;
+  warranty_expires_on: string;
+  notes: string;
+};
+
+const toForm = (asset: Asset | null): AssetForm => ({
+  name: asset?.name ?? "",
+  asset_type: (asset?.asset_type as AssetType) ?? "other",
+  location: asset?.location ?? "",
+  make: asset?.make ?? "",
+  model: asset?.model ?? "",
+  serial_number: asset?.serial_number ?? "",
+  install_date: asset?.install_date ?? "",
+  warranty_expires_on: asset?.warranty_expires_on ?? "",
+  notes: asset?.notes ?? "",
+});
+
+interface AssetDialogProps {
+  /** The asset to edit, or null to add one */
+  asset: Asset | null;
+  open: boolean;
+  onClose: () => void;
+  onSaved: (asset: Asset) => void;
+}
+
+export const AssetDialog = ({ asset, open, onClose, onSaved }: AssetDialogProps) => {
+  const { active, getLabel } = useLookups();
+  const [form, setForm] = useState<AssetForm>(() => toForm(asset));
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const set = <K extends keyof AssetForm>(key: K, value: AssetForm[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const valid = form.name.trim() && form.location
+    && (!form.install_date || !form.warranty_expires_on || form.warranty_expires_on >= form.install_date);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const payload = {
+      name: form.name.trim(),
+      asset_type: form.asset_type,
+      location: form.location,
+      make: form.make.trim() || null,
+      model: form.model.trim() || null,
+      serial_number: form.serial_number.trim() || null,
+      install_date: form.install_date || null,
+      warranty_expires_on: form.warranty_expires_on || null,
+      notes: form.notes.trim(),
+    };
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = asset
+        ? await supabase.from("assets").update(payload).eq("id", asset.id).select().single()
+        : await supabase.from("assets").insert({ ...payload, created_by: user?.id ?? null }).select().single();
+      if (error) throw error;
+      toast({ title: asset ? "Asset updated" : "Asset added", description: payload.name });
+      onSaved(data);
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not save asset", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Keep an archived location selectable for an asset already there
+  const locations = active("locations");
+  const showCurrentLocation = !!asset && !locations.some(l => l.value === asset.location);
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{asset ? "Edit Asset" : "New Asset"}</DialogTitle>
+          <DialogDescription>Equipment work orders can be raised against.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input placeholder="e.g. Sanctuary rooftop unit 2" value={form.name} onChange={e => set("name", e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.asset_type} onValueChange={v => set("asset_type", v as AssetType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ASSET_TYPES.map(t => <SelectItem key={t} value={t}>{ASSET_TYPE_META[t].label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={form.location} onValueChange={v => set("location", v)}>
+                <SelectTrigger><SelectValue placeholder="Location" /></SelectTrigger>
+                <SelectContent>
+                  {showCurrentLocation && (
+                    <SelectItem value={asset.location}>{getLabel("locations", asset.location)} (archived)</SelectItem>
+                  )}
+                  {locations.map(l => <SelectItem key={l.value} value={l.value}>{l.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Make</Label>
+              <Input value={form.make} onChange={e => set("make", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Model</Label>
+              <Input value={form.model} onChange={e => set("model", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Serial number</Label>
+              <Input value={form.serial_number} onChange={e => set("serial_number", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Installed</Label>
+              <Input type="date" value={form.install_date} onChange={e => set("install_date", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Warranty expires</Label>
+              <Input type="date" value={form.warranty_expires_on} onChange={e => set("warranty_expires_on", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={form.notes}
+              onChange={e => set("notes", e.target.value)}
+              placeholder="Service contacts, filter sizes, where the manual is..."
+              className="min-h-[70px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !valid}>
+            {submitting ? "Saving..." : asset ? "Save Changes" : "Add Asset"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
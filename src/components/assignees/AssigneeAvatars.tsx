@@ -0,0 +1,46 @@
+import { cn } from "@/lib/utils";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AssignableProfile, getInitials, getProfileLabel } from "@/lib/assignees";
+
+interface AssigneeAvatarsProps {
+  profileIds: string[];
+  profilesById: Record<string, AssignableProfile>;
+  max?: number;
+  className?: string;
+}
+
+export const AssigneeAvatars = ({ profileIds, profilesById, max = 3, className }: AssigneeAvatarsProps) => {
+  if (profileIds.length === 0) return null;
+
+  const labels = profileIds.map((id) => (profilesById[id] ? getProfileLabel(profilesById[id]) : "Unknown"));
+  const visible = labels.slice(0, max);
+  const overflow = labels.length - visible.length;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className={cn("flex items-center -space-x-1.5", className)}>
+          {visible.map((label, i) => (
+            <span
+              key={profileIds[i]}
+              className={cn(
+                "size-6 rounded-full ring-2 ring-white flex items-center justify-center text-[10px] font-bold",
+                profilesById[profileIds[i]]?.role === "volunteer" ? "bg-purple-100 text-purple-700" : "bg-primary/10 text-primary"
+              )}
+            >
+              {getInitials(label)}
+            </span>
+          ))}
+          {overflow > 0 && (
+            <span className="size-6 rounded-full ring-2 ring-white bg-gray-100 text-gray-600 flex items-center justify-center text-[10px] font-bold">
+              +{overflow}
+            </span>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="text-sm">{labels.join(", ")}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AssignableProfile, getInitials, getProfileLabel } from "@/lib/assignees";
+
+interface AssigneePickerProps {
+  profiles: AssignableProfile[];
+  value: string[];
+  onChange: (profileIds: string[]) => void;
+  disabled?: boolean;
+  /** Compact icon trigger for table rows instead of the full-width field. */
+  compact?: boolean;
+}
+
+export const AssigneePicker = ({ profiles, value, onChange, disabled, compact }: AssigneePickerProps) => {
+  const [query, setQuery] = useState("");
+
+  const visible = profiles.filter((p) =>
+    !query || getProfileLabel(p).toLowerCase().includes(query.toLowerCase()) || (p.email || "").toLowerCase().includes(query.toLowerCase())
+  );
+  const selectedLabels = profiles.filter((p) => value.includes(p.id)).map(getProfileLabel);
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter((v) => v !== id) : [...value, id]);
+  };
+
+  return (
+    <Popover onOpenChange={(open) => { if (!open) setQuery(""); }}>
+      <PopoverTrigger asChild disabled={disabled}>
+        {compact ? (
+          <button
+            onClick={(e) => e.stopPropagation()}
+            title="Assign"
+            className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:text-primary hover:bg-gray-50 disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined text-[18px]">person_add</span>
+          </button>
+        ) : (
+          <button className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+            <span className="material-symbols-outlined text-[18px] text-gray-400">group_add</span>
+            <span className={cn("flex-1 truncate", selectedLabels.length === 0 && "text-gray-400")}>
+              {selectedLabels.length > 0 ? selectedLabels.join(", ") : "Unassigned"}
+            </span>
+            <span className="material-symbols-outlined text-[18px] text-gray-400">expand_more</span>
+          </button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2" onClick={(e) => e.stopPropagation()}>
+        <Input
+          placeholder="Search people..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="h-8 mb-2 text-sm"
+        />
+        <div className="max-h-64 overflow-y-auto space-y-0.5">
+          {visible.length === 0 && <p className="px-2 py-3 text-xs text-gray-400 text-center">No matching people</p>}
+          {visible.map((p) => {
+            const label = getProfileLabel(p);
+            return (
+              <label
+                key={p.id}
+                className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-gray-50 cursor-pointer"
+              >
+                <Checkbox checked={value.includes(p.id)} onCheckedChange={() => toggle(p.id)} />
+                <span className="size-6 rounded-full bg-primary/10 text-primary flex items-center justify-center text-[10px] font-bold shrink-0">
+                  {getInitials(label)}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-semibold text-gray-900 truncate">{label}</span>
+                  {p.email && p.email !== label && <span className="block text-xs text-gray-400 truncate">{p.email}</span>}
+                </span>
+                <span className="text-[10px] font-bold uppercase text-gray-400">{p.role}</span>
+              </label>
+            );
+          })}
+        </div>
+        {value.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="w-full mt-2 pt-2 border-t border-gray-100 text-xs font-bold text-gray-500 hover:text-red-600"
+          >
+            Clear assignees
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,126 @@
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+import { dragOverState, fileChipSlideIn } from "@/lib/animations";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachment,
+} from "@/lib/attachments";
+
+interface AttachmentDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export const AttachmentDropzone = ({ files, onChange, disabled }: AttachmentDropzoneProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const addFiles = (incoming: FileList | null) => {
+    if (!incoming || disabled) return;
+
+    const accepted: File[] = [];
+    for (const file of Array.from(incoming)) {
+      const error = validateAttachment(file);
+      if (error) {
+        toast({ title: "File not added", description: error, variant: "destructive" });
+        continue;
+      }
+      accepted.push(file);
+    }
+
+    const next = [...files, ...accepted];
+    if (next.length > MAX_ATTACHMENTS) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files per request.`,
+        variant: "destructive",
+      });
+    }
+    onChange(next.slice(0, MAX_ATTACHMENTS));
+  };
+
+  const removeFile = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <motion.div
+        variants={dragOverState}
+        initial="rest"
+        animate={isDragOver ? "dragOver" : "rest"}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragOver(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={`flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed px-4 py-6 text-center ${
+          disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"
+        }`}
+      >
+        <span className="material-symbols-outlined text-3xl text-gray-400">add_photo_alternate</span>
+        <p className="text-sm font-semibold text-gray-700">
+          Drag photos here or <span className="text-primary">browse</span>
+        </p>
+        <p className="text-xs text-gray-400">
+          Images or PDF, up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each · max {MAX_ATTACHMENTS} files
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+          className="hidden"
+          disabled={disabled}
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+      </motion.div>
+
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          <AnimatePresence>
+            {files.map((file, i) => (
+              <motion.li
+                key={`${file.name}-${file.lastModified}-${i}`}
+                variants={fileChipSlideIn}
+                initial="initial"
+                animate="animate"
+                exit="exit"
+                layout
+                className="flex items-center gap-2 rounded-full border border-gray-200 bg-gray-50 pl-3 pr-1.5 py-1 text-xs"
+              >
+                <span className="material-symbols-outlined text-[16px] text-gray-500">
+                  {isImageAttachment(file.type) ? "image" : "picture_as_pdf"}
+                </span>
+                <span className="max-w-[160px] truncate font-medium text-gray-700">{file.name}</span>
+                <span className="text-gray-400">{formatFileSize(file.size)}</span>
+                <button
+                  type="button"
+                  onClick={() => removeFile(i)}
+                  disabled={disabled}
+                  className="flex items-center justify-center rounded-full p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-600"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <span className="material-symbols-outlined text-[16px]">close</span>
+                </button>
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+    </div>
+  );
+};
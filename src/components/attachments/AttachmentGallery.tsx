@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ATTACHMENT_BUCKET,
+  WorkRequestAttachment,
+  formatFileSize,
+  isImageAttachment,
+} from "@/lib/attachments";
+
+// Signed URLs are short-lived; the gallery re-signs on every mount
+const SIGNED_URL_TTL_SECONDS = 60 * 10;
+
+interface AttachmentGalleryProps {
+  workRequestId: string;
+}
+
+export const AttachmentGallery = ({ workRequestId }: AttachmentGalleryProps) => {
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<WorkRequestAttachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("work_request_attachments")
+        .select("*")
+        .eq("work_request_id", workRequestId)
+        .order("created_at", { ascending: true });
+
+      if (cancelled) return;
+      if (error || !data) {
+        setAttachments([]);
+        setLoading(false);
+        return;
+      }
+      setAttachments(data);
+
+      const imagePaths = data.filter((a) => isImageAttachment(a.content_type)).map((a) => a.storage_path);
+      if (imagePaths.length > 0) {
+        const { data: signed } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .createSignedUrls(imagePaths, SIGNED_URL_TTL_SECONDS);
+        if (!cancelled && signed) {
+          const urls: Record<string, string> = {};
+          signed.forEach((s) => { if (s.path && s.signedUrl) urls[s.path] = s.signedUrl; });
+          setThumbnails(urls);
+        }
+      }
+      if (!cancelled) setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [workRequestId]);
+
+  const handleOpen = async (attachment: WorkRequestAttachment) => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(attachment.storage_path, SIGNED_URL_TTL_SECONDS, { download: attachment.file_name });
+    if (error || !data) {
+      toast({ title: "Error", description: "Could not open attachment", variant: "destructive" });
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener,noreferrer");
+  };
+
+  if (loading) {
+    return <p className="text-xs text-gray-400">Loading attachments...</p>;
+  }
+
+  if (attachments.length === 0) {
+    return <p className="text-xs text-gray-400">No attachments</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {attachments.map((a) => (
+        <button
+          key={a.id}
+          type="button"
+          onClick={() => handleOpen(a)}
+          title={`${a.file_name} (${formatFileSize(a.size_bytes)})`}
+          className="group flex w-24 flex-col items-center gap-1 text-left"
+        >
+          <div className="flex h-20 w-24 items-center justify-center overflow-hidden rounded-lg border border-gray-200 bg-gray-50 group-hover:border-primary transition-colors">
+            {thumbnails[a.storage_path] ? (
+              <img
+                src={thumbnails[a.storage_path]}
+                alt={a.file_name}
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <span className="material-symbols-outlined text-3xl text-gray-400">
+                {isImageAttachment(a.content_type) ? "image" : "picture_as_pdf"}
+              </span>
+            )}
+          </div>
+          <span className="w-full truncate text-[11px] text-gray-600">{a.file_name}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssigneePicker } from "@/components/assignees/AssigneePicker";
+import { AssignableProfile } from "@/lib/assignees";
+import { PRIORITIES, PRIORITY_META, Priority } from "@/lib/priorities";
+import { BULK_ACTIONS, BulkAction, BulkActionInput } from "@/lib/work-request-bulk";
+
+interface BulkActionDialogProps {
+  action: BulkAction | null;
+  count: number;
+  profiles: AssignableProfile[];
+  busy: boolean;
+  onCancel: () => void;
+  onConfirm: (input: BulkActionInput) => void;
+}
+
+const DESCRIPTIONS: Record<BulkAction, string> = {
+  approve: "Each selected work order is approved as it stands.",
+  reject: "The reason is shared by every rejection and emailed to each requestor.",
+  reschedule: "Every selected work order moves to the same date. Closed ones stay put and are listed afterwards.",
+  priority: "Every selected work order gets the same priority.",
+  assign: "Replaces the current assignees on every selected work order.",
+};
+
+export const BulkActionDialog = ({ action, count, profiles, busy, onCancel, onConfirm }: BulkActionDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [requestedDate, setRequestedDate] = useState("");
+  const [priority, setPriority] = useState<Priority>("medium");
+  const [profileIds, setProfileIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setReason("");
+    setRequestedDate("");
+    setPriority("medium");
+    setProfileIds([]);
+  }, [action]);
+
+  if (!action) return null;
+  const label = BULK_ACTIONS.find(a => a.action === action)?.label ?? action;
+
+  const ready =
+    ((action !== "reject" && action !== "reschedule") || !!reason.trim()) &&
+    (action !== "reschedule" || !!requestedDate);
+
+  const handleConfirm = () => {
+    if (!ready) return;
+    onConfirm({ reason: reason.trim() || undefined, requestedDate: requestedDate || undefined, priority, profileIds });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open && !busy) onCancel(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{label} {count} work order{count !== 1 ? "s" : ""}</DialogTitle>
+          <DialogDescription>{DESCRIPTIONS[action]}</DialogDescription>
+        </DialogHeader>
+
+        {action === "reschedule" && (
+          <div className="space-y-2">
+            <Label>New Date</Label>
+            <Input type="date" value={requestedDate} onChange={e => setRequestedDate(e.target.value)} />
+          </div>
+        )}
+        {(action === "reject" || action === "reschedule") && (
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder={action === "reject" ? "Why are these being rejected?" : "Why are these being moved?"}
+              className="min-h-[80px]"
+            />
+          </div>
+        )}
+        {action === "priority" && (
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select value={priority} onValueChange={v => setPriority(v as Priority)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {[...PRIORITIES].reverse().map(p => (
+                  <SelectItem key={p} value={p}>{PRIORITY_META[p].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {action === "assign" && (
+          <div className="space-y-2">
+            <Label>Assignees</Label>
+            <AssigneePicker profiles={profiles} value={profileIds} onChange={setProfileIds} />
+            {profileIds.length === 0 && <p className="text-xs text-amber-600">Nobody picked: this unassigns every selected work order.</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={busy}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={busy || !ready} variant={action === "reject" ? "destructive" : "default"}>
+            {busy ? "Working..." : label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface BulkFailuresDialogProps {
+  failures: { label: string; message: string }[];
+  onClose: () => void;
+}
+
+export const BulkFailuresDialog = ({ failures, onClose }: BulkFailuresDialogProps) => (
+  <Dialog open={failures.length > 0} onOpenChange={open => { if (!open) onClose(); }}>
+    <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>{failures.length} work order{failures.length !== 1 ? "s" : ""} not updated</DialogTitle>
+        <DialogDescription>The rest went through. These are still selected so you can retry or act on them one by one.</DialogDescription>
+      </DialogHeader>
+      <ul className="divide-y divide-gray-100 text-sm">
+        {failures.map((f, i) => (
+          <li key={i} className="py-2">
+            <span className="font-extrabold text-gray-900">{f.label}</span>
+            <p className="text-red-600 text-xs mt-0.5">{f.message}</p>
+          </li>
+        ))}
+      </ul>
+      <DialogFooter>
+        <Button onClick={onClose}>Close</Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
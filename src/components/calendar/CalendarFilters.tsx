@@ -1,10 +1,24 @@
+import { cn } from "@/lib/utils";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ASSIGNEE_FILTER_ALL,
+  ASSIGNEE_FILTER_ME,
+  ASSIGNEE_FILTER_UNASSIGNED,
+  AssignableProfile,
+  getProfileLabel,
+} from "@/lib/assignees";
+import { LookupEntry } from "@/lib/lookups";
+import { PRIORITIES, PRIORITY_META } from "@/lib/priorities";
 
 interface CalendarFiltersProps {
   filterDepartment: string;
   setFilterDepartment: (value: string) => void;
+  departments: LookupEntry[];
   filterStatus: string;
   setFilterStatus: (value: string) => void;
+  filterAssignee: string;
+  setFilterAssignee: (value: string) => void;
+  assignableProfiles: AssignableProfile[];
   onRefresh: () => void;
   loading: boolean;
 }
@@ -12,8 +26,12 @@ interface CalendarFiltersProps {
 export const CalendarFilters = ({
   filterDepartment,
   setFilterDepartment,
+  departments,
   filterStatus,
   setFilterStatus,
+  filterAssignee,
+  setFilterAssignee,
+  assignableProfiles,
   onRefresh,
   loading
 }: CalendarFiltersProps) => {
@@ -27,11 +45,11 @@ export const CalendarFilters = ({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Departments</SelectItem>
-            <SelectItem value="worship">Worship</SelectItem>
-            <SelectItem value="events">Events</SelectItem>
-            <SelectItem value="kids">Kids</SelectItem>
-            <SelectItem value="admin">Admin</SelectItem>
-            <SelectItem value="outreach">Outreach</SelectItem>
+            {departments.map(d => (
+              <SelectItem key={d.value} value={d.value}>
+                {d.name}{d.archived_at ? " (archived)" : ""}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
@@ -51,24 +69,29 @@ export const CalendarFilters = ({
           </SelectContent>
         </Select>
 
+        <Select value={filterAssignee} onValueChange={setFilterAssignee}>
+          <SelectTrigger className="w-48 bg-white border-gray-200">
+            <span className="material-symbols-outlined text-[16px] text-gray-400 mr-2">person</span>
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ASSIGNEE_FILTER_ALL}>All Assignees</SelectItem>
+            <SelectItem value={ASSIGNEE_FILTER_ME}>Assigned to Me</SelectItem>
+            <SelectItem value={ASSIGNEE_FILTER_UNASSIGNED}>Unassigned</SelectItem>
+            {assignableProfiles.map(p => (
+              <SelectItem key={p.id} value={p.id}>{getProfileLabel(p)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {/* Priority Legend */}
         <div className="hidden lg:flex items-center gap-4 ml-4 text-xs text-gray-500">
-          <div className="flex items-center gap-1.5">
-            <div className="w-2.5 h-2.5 rounded-full bg-red-500"></div>
-            <span>Emergency</span>
-          </div>
-          <div className="flex items-center gap-1.5">
-            <div className="w-2.5 h-2.5 rounded-full bg-orange-500"></div>
-            <span>High</span>
-          </div>
-          <div className="flex items-center gap-1.5">
-            <div className="w-2.5 h-2.5 rounded-full bg-blue-500"></div>
-            <span>Medium</span>
-          </div>
-          <div className="flex items-center gap-1.5">
-            <div className="w-2.5 h-2.5 rounded-full bg-gray-400"></div>
-            <span>Low</span>
-          </div>
+          {[...PRIORITIES].reverse().map(p => (
+            <div key={p} className="flex items-center gap-1.5">
+              <div className={cn("w-2.5 h-2.5 rounded-full", PRIORITY_META[p].dot)}></div>
+              <span>{PRIORITY_META[p].label}</span>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -1,5 +1,8 @@
 import { cn } from "@/lib/utils";
-import { getPriorityColor, getStatusColor, getStatusIcon, WorkRequest } from "@/lib/calendar-utils";
+import { getStatusColor, getStatusIcon, WorkRequest } from "@/lib/calendar-utils";
+import { useLookups } from "@/hooks/use-lookups";
+import { isOpenEmergency } from "@/lib/priorities";
+import { PriorityBadge } from "@/components/priority/PriorityBadge";
 
 interface WorkRequestCardProps {
   request: WorkRequest;
@@ -15,6 +18,7 @@ export const WorkRequestCard = ({
   onClick
 }: WorkRequestCardProps) => {
   const statusIcon = getStatusIcon(request.status);
+  const { getLabel } = useLookups();
 
   if (variant === 'compact') {
     return (
@@ -28,9 +32,7 @@ export const WorkRequestCard = ({
         <div className="space-y-2">
           <div className="flex items-start justify-between gap-2">
             <h3 className="font-bold text-sm text-gray-900 leading-tight line-clamp-2">{request.title}</h3>
-            <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold border shrink-0", getPriorityColor(request.priority))}>
-              {request.priority}
-            </span>
+            <PriorityBadge priority={request.priority} emergency={isOpenEmergency(request)} className="px-2 py-0.5 shrink-0" />
           </div>
 
           <div className="flex items-center gap-2 text-xs text-gray-500">
@@ -39,12 +41,12 @@ export const WorkRequestCard = ({
               <span className="capitalize">{request.status.replace('_', ' ')}</span>
             </div>
             <span>·</span>
-            <span className="capitalize">{request.department}</span>
+            <span>{getLabel("departments", request.department)}</span>
           </div>
 
           <div className="flex items-center gap-1 text-xs text-gray-400">
             <span className="material-symbols-outlined text-[14px]">location_on</span>
-            <span className="truncate">{request.location}</span>
+            <span className="truncate">{getLabel("locations", request.location)}</span>
           </div>
         </div>
       </div>
@@ -62,9 +64,7 @@ export const WorkRequestCard = ({
           </div>
 
           <div className="flex gap-2 shrink-0">
-            <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold border", getPriorityColor(request.priority))}>
-              {request.priority}
-            </span>
+            <PriorityBadge priority={request.priority} emergency={isOpenEmergency(request)} className="px-2 py-0.5" />
             <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold border flex items-center gap-1", getStatusColor(request.status))}>
               <span className="material-symbols-outlined text-[14px]">{statusIcon}</span>
               <span className="capitalize">{request.status.replace('_', ' ')}</span>
@@ -82,19 +82,19 @@ export const WorkRequestCard = ({
 
           <div className="space-y-1">
             <p className="text-xs font-bold text-gray-400 uppercase">Department</p>
-            <p className="capitalize text-gray-900">{request.department}</p>
+            <p className="text-gray-900">{getLabel("departments", request.department)}</p>
           </div>
 
           <div className="space-y-1">
             <p className="text-xs font-bold text-gray-400 uppercase">Category</p>
-            <p className="text-gray-900">{request.category}</p>
+            <p className="text-gray-900">{getLabel("categories", request.category)}</p>
           </div>
 
           <div className="space-y-1">
             <p className="text-xs font-bold text-gray-400 uppercase">Location</p>
             <div className="flex items-center gap-1 text-gray-900">
               <span className="material-symbols-outlined text-[16px] text-gray-400">location_on</span>
-              <span>{request.location}</span>
+              <span>{getLabel("locations", request.location)}</span>
             </div>
           </div>
 
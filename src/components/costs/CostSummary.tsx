@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useWorkRequestMaterials } from "@/hooks/use-work-request-materials";
+import { formatCurrency, getLineTotal, sumMaterials } from "@/lib/costs";
+
+interface CostSummaryProps {
+  workRequestId: string;
+  /** Hours about to be recorded; labor is costed from these at the current rate */
+  hours: number;
+}
+
+/** Materials and estimated labor for the completion dialogs. */
+export const CostSummary = ({ workRequestId, hours }: CostSummaryProps) => {
+  const { lines, loading } = useWorkRequestMaterials(workRequestId);
+  const [laborRate, setLaborRate] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    supabase.rpc("work_request_labor_rate", { _request_id: workRequestId }).then(({ data }) => {
+      if (!cancelled) setLaborRate(data ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [workRequestId]);
+
+  if (loading) {
+    return <p className="text-xs text-gray-400">Loading costs...</p>;
+  }
+
+  const materials = sumMaterials(lines);
+  const labor = laborRate !== null && hours > 0 ? Math.round(hours * laborRate * 100) / 100 : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="p-3 bg-gray-50 border border-gray-100 rounded-lg space-y-1.5 text-xs">
+        {lines.length === 0 ? (
+          <p className="text-gray-400">No materials recorded</p>
+        ) : (
+          lines.map(line => (
+            <div key={line.id} className="flex items-center gap-2">
+              <span className="text-gray-700 truncate">{line.description}</span>
+              <span className="text-gray-400 whitespace-nowrap">{line.quantity} × {formatCurrency(line.unit_cost)}</span>
+              <span className="ml-auto font-bold text-gray-900 tabular-nums">{formatCurrency(getLineTotal(line))}</span>
+            </div>
+          ))
+        )}
+        <div className="flex items-center justify-between pt-1.5 border-t border-gray-200">
+          <span className="text-gray-500">Materials</span>
+          <span className="font-bold text-gray-900 tabular-nums">{formatCurrency(materials)}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-gray-500">
+            Labor{labor !== null && ` · ${hours}h × ${formatCurrency(laborRate)}/h`}
+          </span>
+          <span className="font-bold text-gray-900 tabular-nums">{labor !== null ? formatCurrency(labor) : "No rate on file"}</span>
+        </div>
+        <div className="flex items-center justify-between pt-1.5 border-t border-gray-200 text-sm">
+          <span className="font-bold text-gray-900">Total</span>
+          <span className="font-extrabold text-gray-900 tabular-nums">{formatCurrency(materials + (labor ?? 0))}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignees } from "@/hooks/use-assignees";
+import { getProfileLabel } from "@/lib/assignees";
+import { Input } from "@/components/ui/input";
+
+export const LaborRatesEditor = () => {
+  const { profiles, loading: profilesLoading } = useAssignees();
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.from("staff_labor_rates").select("profile_id, hourly_rate");
+      if (error) throw error;
+      const byProfile = Object.fromEntries((data || []).map(r => [r.profile_id, String(r.hourly_rate)]));
+      setRates(byProfile);
+      setSaved(byProfile);
+    } catch {
+      toast({ title: "Error", description: "Failed to load labor rates", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchRates(); }, [fetchRates]);
+
+  // Saved on blur; clearing the field removes the rate
+  const save = async (profileId: string) => {
+    const value = (rates[profileId] ?? "").trim();
+    if (value === (saved[profileId] ?? "")) return;
+    const rate = parseFloat(value);
+    if (value && !(rate >= 0)) {
+      setRates(prev => ({ ...prev, [profileId]: saved[profileId] ?? "" }));
+      return;
+    }
+
+    setBusyId(profileId);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = value
+        ? await supabase.from("staff_labor_rates").upsert({ profile_id: profileId, hourly_rate: rate, updated_by: user?.id ?? null })
+        : await supabase.from("staff_labor_rates").delete().eq("profile_id", profileId);
+      if (error) throw error;
+      await fetchRates();
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not save the labor rate", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || profilesLoading) {
+    return <p className="text-center text-gray-400 text-sm py-12">Loading...</p>;
+  }
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <h2 className="text-xs font-bold text-gray-400 uppercase">Labor rates</h2>
+        <p className="text-xs text-gray-400 mt-0.5">
+          Hourly cost per person. A job's labor cost is its actual hours at the combined rate of its assignees, fixed when it is completed.
+        </p>
+      </div>
+      {profiles.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm py-8">No staff profiles yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {profiles.map(p => (
+            <li key={p.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-gray-900 truncate">{getProfileLabel(p)}</p>
+                <p className="text-xs text-gray-400 truncate capitalize">{p.role}</p>
+              </div>
+              <div className="flex items-center gap-1.5 text-sm text-gray-500">
+                $
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="—"
+                  value={rates[p.id] ?? ""}
+                  disabled={busyId === p.id}
+                  onChange={e => setRates(prev => ({ ...prev, [p.id]: e.target.value }))}
+                  onBlur={() => save(p.id)}
+                  onKeyDown={e => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                  className="h-8 w-24 text-right"
+                />
+                <span className="text-xs text-gray-400">/ hr</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { MaterialInput, useWorkRequestMaterials } from "@/hooks/use-work-request-materials";
+import { useInventory } from "@/hooks/use-inventory";
+import { formatCurrency, getLineTotal, sumMaterials } from "@/lib/costs";
+import { formatQuantity } from "@/lib/inventory";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface MaterialsEditorProps {
+  workRequestId: string;
+  /** Open jobs for workers, any job for approvers; the server checks the same */
+  editable: boolean;
+}
+
+type LineForm = { description: string; quantity: string; unit_cost: string; vendor: string; inventory_item_id: string | null };
+
+const EMPTY_FORM: LineForm = { description: "", quantity: "1", unit_cost: "", vendor: "", inventory_item_id: null };
+
+const NOT_STOCKED = "none";
+
+const toInput = (form: LineForm): MaterialInput | null => {
+  const quantity = parseFloat(form.quantity);
+  const unitCost = parseFloat(form.unit_cost || "0");
+  if (!form.description.trim() || !(quantity > 0) || !(unitCost >= 0)) return null;
+  return {
+    description: form.description.trim(),
+    quantity,
+    unit_cost: unitCost,
+    vendor: form.vendor.trim() || null,
+    inventory_item_id: form.inventory_item_id,
+  };
+};
+
+export const MaterialsEditor = ({ workRequestId, editable }: MaterialsEditorProps) => {
+  const { lines, loading, addLine, updateLine, removeLine } = useWorkRequestMaterials(workRequestId);
+  const { activeItems, itemsById, refresh: refreshStock } = useInventory();
+  const [form, setForm] = useState<LineForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<LineForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      refreshStock();
+      return true;
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not update materials", variant: "destructive" });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const input = toInput(form);
+    if (!input) return;
+    if (await run(() => addLine(input))) setForm(EMPTY_FORM);
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    const input = toInput(editForm);
+    if (!input) return;
+    if (await run(() => updateLine(id, input))) setEditingId(null);
+  };
+
+  if (loading) {
+    return <p className="text-xs text-gray-400">Loading materials...</p>;
+  }
+
+  // Picking from stock fills in the line; the server takes it off the shelf
+  const pickStock = (itemId: string) => {
+    const item = itemsById.get(itemId);
+    setForm(item
+      ? { ...form, inventory_item_id: item.id, description: item.name, unit_cost: String(item.unit_cost), vendor: item.vendor ?? "" }
+      : { ...EMPTY_FORM, quantity: form.quantity });
+  };
+
+  const pickedItem = form.inventory_item_id ? itemsById.get(form.inventory_item_id) : undefined;
+
+  const renderInputs = (value: LineForm, onChange: (next: LineForm) => void) => (
+    <>
+      <Input placeholder="Part or material" value={value.description} onChange={e => onChange({ ...value, description: e.target.value })} className="h-8 text-xs flex-1 min-w-[140px] bg-white" />
+      <Input type="number" min="0" step="any" placeholder="Qty" value={value.quantity} onChange={e => onChange({ ...value, quantity: e.target.value })} className="h-8 text-xs w-16 bg-white" />
+      <Input type="number" min="0" step="0.01" placeholder="Unit $" value={value.unit_cost} onChange={e => onChange({ ...value, unit_cost: e.target.value })} className="h-8 text-xs w-20 bg-white" />
+      <Input placeholder="Vendor" value={value.vendor} onChange={e => onChange({ ...value, vendor: e.target.value })} className="h-8 text-xs w-28 bg-white" />
+    </>
+  );
+
+  return (
+    <div className="space-y-1.5">
+      {lines.length === 0 && !editable && <p className="text-xs text-gray-400">No materials recorded</p>}
+
+      {lines.map(line => editingId === line.id ? (
+        <div key={line.id} className="flex flex-wrap items-center gap-1.5">
+          {renderInputs(editForm, setEditForm)}
+          <Button size="sm" className="h-8" onClick={() => handleSaveEdit(line.id)} disabled={saving || !toInput(editForm)}>Save</Button>
+          <Button size="sm" variant="ghost" className="h-8" onClick={() => setEditingId(null)}>Cancel</Button>
+        </div>
+      ) : (
+        <div key={line.id} className="group flex items-center gap-2 text-xs">
+          <span className="material-symbols-outlined text-[14px] text-gray-400" title={line.inventory_item_id ? "From stock" : undefined}>
+            {line.inventory_item_id ? "shelves" : "inventory_2"}
+          </span>
+          <span className="text-gray-900 font-bold truncate">{line.description}</span>
+          <span className="text-gray-500 whitespace-nowrap">{line.quantity} × {formatCurrency(line.unit_cost)}</span>
+          {line.vendor && <span className="text-gray-400 truncate">· {line.vendor}</span>}
+          <span className="ml-auto font-bold text-gray-900 tabular-nums">{formatCurrency(getLineTotal(line))}</span>
+          {editable && (
+            <span className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => {
+                  setEditingId(line.id);
+                  setEditForm({ description: line.description, quantity: String(line.quantity), unit_cost: String(line.unit_cost), vendor: line.vendor ?? "", inventory_item_id: line.inventory_item_id });
+                }}
+                className="p-0.5 text-gray-400 hover:text-primary"
+                title="Edit"
+              >
+                <span className="material-symbols-outlined text-[14px]">edit</span>
+              </button>
+              <button onClick={() => run(() => removeLine(line.id))} disabled={saving} className="p-0.5 text-gray-400 hover:text-red-500" title="Remove">
+                <span className="material-symbols-outlined text-[14px]">close</span>
+              </button>
+            </span>
+          )}
+        </div>
+      ))}
+
+      {lines.length > 0 && (
+        <div className="flex items-center justify-between pt-1.5 border-t border-gray-200 text-xs">
+          <span className="font-bold text-gray-400 uppercase">Materials</span>
+          <span className="font-bold text-gray-900 tabular-nums">{formatCurrency(sumMaterials(lines))}</span>
+        </div>
+      )}
+
+      {editable && editingId === null && (
+        <form onSubmit={e => { e.preventDefault(); handleAdd(); }} className="space-y-1 pt-1">
+          <div className="flex flex-wrap items-center gap-1.5">
+            {activeItems.length > 0 && (
+              <Select value={form.inventory_item_id ?? NOT_STOCKED} onValueChange={pickStock}>
+                <SelectTrigger className="h-8 text-xs w-36 bg-white"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_STOCKED}>Not from stock</SelectItem>
+                  {activeItems.map(item => (
+                    <SelectItem key={item.id} value={item.id} disabled={item.quantity_on_hand <= 0}>
+                      {item.name} ({formatQuantity(item.quantity_on_hand)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {renderInputs(form, setForm)}
+            <Button type="submit" size="sm" variant="outline" className="h-8" disabled={saving || !toInput(form)}>
+              <span className="material-symbols-outlined text-[16px]">add</span>
+            </Button>
+          </div>
+          {pickedItem && (
+            <p className="text-[11px] text-gray-400">
+              {formatQuantity(pickedItem.quantity_on_hand, pickedItem.unit)} in stock; adding this line takes it off the shelf
+            </p>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
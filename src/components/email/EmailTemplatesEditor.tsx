@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  EMAIL_EVENTS, EMAIL_PLACEHOLDERS, EmailEvent, EmailTemplate, SAMPLE_CONTEXT, findUnknownPlaceholders, renderTemplate,
+} from "@/lib/email-templates";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+type Draft = Pick<EmailTemplate, "subject" | "body" | "is_enabled">;
+
+export const EmailTemplatesEditor = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [event, setEvent] = useState<EmailEvent>("submitted");
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.from("email_templates").select("*");
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load email templates", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchTemplates(); }, [fetchTemplates]);
+
+  const template = templates.find(t => t.event === event);
+
+  useEffect(() => {
+    setDraft(template ? { subject: template.subject, body: template.body, is_enabled: template.is_enabled } : null);
+  }, [template]);
+
+  const meta = EMAIL_EVENTS.find(e => e.value === event)!;
+  const dirty = !!template && !!draft && (
+    draft.subject !== template.subject || draft.body !== template.body || draft.is_enabled !== template.is_enabled
+  );
+  const unknown = draft ? findUnknownPlaceholders(`${draft.subject}\n${draft.body}`) : [];
+
+  // Inserts at the cursor in the body, or appends when it isn't focused
+  const insertPlaceholder = (key: string) => {
+    if (!draft) return;
+    const token = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("email_templates").update(draft).eq("event", event);
+      if (error) throw error;
+      await fetchTemplates();
+      toast({ title: "Template saved", description: `${meta.label} emails use the new template.` });
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not update email template", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && templates.length === 0) {
+    return <p className="text-center text-gray-400 text-sm py-12">Loading...</p>;
+  }
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <nav className="md:w-48 shrink-0 bg-white rounded-xl border border-gray-100 shadow-sm p-2 h-fit">
+        {EMAIL_EVENTS.map(e => {
+          const enabled = templates.find(t => t.event === e.value)?.is_enabled;
+          return (
+            <button
+              key={e.value}
+              onClick={() => setEvent(e.value)}
+              className={cn(
+                "w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm font-bold text-left",
+                event === e.value ? "bg-primary/10 text-primary" : "text-gray-600 hover:bg-gray-50"
+              )}
+            >
+              {e.label}
+              {!enabled && <span className="text-[10px] font-bold text-gray-400 uppercase">Off</span>}
+            </button>
+          );
+        })}
+      </nav>
+
+      {draft && (
+        <div className="flex-1 min-w-0 space-y-6">
+          <section className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 space-y-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h2 className="font-bold text-gray-900">{meta.label}</h2>
+                <p className="text-xs text-gray-400 mt-0.5">{meta.description}</p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-600 shrink-0">
+                Send
+                <Switch checked={draft.is_enabled} onCheckedChange={checked => setDraft({ ...draft, is_enabled: checked })} />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Input value={draft.subject} onChange={e => setDraft({ ...draft, subject: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Body</Label>
+              <Textarea
+                ref={bodyRef}
+                value={draft.body}
+                onChange={e => setDraft({ ...draft, body: e.target.value })}
+                className="min-h-[200px] font-mono text-sm"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-bold text-gray-400 uppercase">Placeholders</p>
+              <div className="flex flex-wrap gap-1">
+                {EMAIL_PLACEHOLDERS.map(p => (
+                  <button
+                    key={p.key}
+                    onClick={() => insertPlaceholder(p.key)}
+                    title={p.description}
+                    className="px-2 py-0.5 rounded-full text-[11px] font-mono bg-gray-100 text-gray-600 hover:bg-primary/10 hover:text-primary"
+                  >
+                    {`{{${p.key}}}`}
+                  </button>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-xs font-bold text-amber-600 flex items-center gap-1">
+                  <span className="material-symbols-outlined text-[14px]">warning</span>
+                  Unknown placeholders render empty: {unknown.map(k => `{{${k}}}`).join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => template && setDraft({ subject: template.subject, body: template.body, is_enabled: template.is_enabled })}
+                disabled={!dirty || saving}
+              >
+                Discard
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={!dirty || saving || !draft.subject.trim() || !draft.body.trim()}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <h2 className="text-xs font-bold text-gray-400 uppercase">Preview</h2>
+              <p className="text-xs text-gray-400 mt-0.5">With sample request details.</p>
+            </div>
+            <div className="p-4 space-y-3">
+              <p className="text-sm"><span className="text-gray-400">Subject: </span><span className="font-bold text-gray-900">{renderTemplate(draft.subject, SAMPLE_CONTEXT)}</span></p>
+              <div className="text-sm text-gray-700 whitespace-pre-wrap">{renderTemplate(draft.body, SAMPLE_CONTEXT)}</div>
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignees } from "@/hooks/use-assignees";
+import { getProfileLabel } from "@/lib/assignees";
+import { Switch } from "@/components/ui/switch";
+
+export const OnCallRoster = () => {
+  const { profiles, loading: profilesLoading } = useAssignees();
+  const [onCall, setOnCall] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchRoster = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.from("on_call_staff").select("profile_id");
+      if (error) throw error;
+      setOnCall(new Set((data || []).map(r => r.profile_id)));
+    } catch {
+      toast({ title: "Error", description: "Failed to load the on-call roster", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchRoster(); }, [fetchRoster]);
+
+  const toggle = async (profileId: string, checked: boolean) => {
+    setBusyId(profileId);
+    try {
+      const { error } = checked
+        ? await supabase.from("on_call_staff").insert({ profile_id: profileId })
+        : await supabase.from("on_call_staff").delete().eq("profile_id", profileId);
+      if (error) throw error;
+      await fetchRoster();
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update the roster", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || profilesLoading) {
+    return <p className="text-center text-gray-400 text-sm py-12">Loading...</p>;
+  }
+
+  // Volunteers only see their own jobs, so they can't take emergencies
+  const staff = profiles.filter(p => p.role !== "volunteer");
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <h2 className="text-xs font-bold text-gray-400 uppercase">On-call roster</h2>
+        <p className="text-xs text-gray-400 mt-0.5">
+          Emailed the moment an emergency is submitted. With nobody on call, admins and managers are alerted instead.
+        </p>
+      </div>
+      {staff.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm py-8">No staff profiles yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {staff.map(p => (
+            <li key={p.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-gray-900 truncate">{getProfileLabel(p)}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {p.email || "No email on file"} · <span className="capitalize">{p.role}</span>
+                </p>
+              </div>
+              <Switch
+                checked={onCall.has(p.id)}
+                disabled={busyId === p.id || !p.email}
+                onCheckedChange={checked => toggle(p.id, checked)}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLookups } from "@/hooks/use-lookups";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InventoryItem } from "@/lib/inventory";
+
+const NO_LOCATION = "none";
+
+type ItemForm = {
+  name: string;
+  sku: string;
+  unit: string;
+  location: string;
+  bin: string;
+  reorder_threshold: string;
+  reorder_quantity: string;
+  unit_cost: string;
+  vendor: string;
+  notes: string;
+  opening_stock: string;
+};
+
+const toForm = (item: InventoryItem | null): ItemForm => ({
+  name: item?.name ?? "",
+  sku: item?.sku ?? "",
+  unit: item?.unit ?? "each",
+  location: item?.location ?? NO_LOCATION,
+  bin: item?.bin ?? "",
+  reorder_threshold: item ? String(item.reorder_threshold) : "0",
+  reorder_quantity: item?.reorder_quantity != null ? String(item.reorder_quantity) : "",
+  unit_cost: item ? String(item.unit_cost) : "",
+  vendor: item?.vendor ?? "",
+  notes: item?.notes ?? "",
+  opening_stock: "",
+});
+
+const isNonNegative = (value: string) => !value || parseFloat(value) >= 0;
+
+interface InventoryItemDialogProps {
+  /** The item to edit, or null to add one */
+  item: InventoryItem | null;
+  open: boolean;
+  onClose: () => void;
+  onSaved: (item: InventoryItem) => void;
+}
+
+export const InventoryItemDialog = ({ item, open, onClose, onSaved }: InventoryItemDialogProps) => {
+  const { active, getLabel } = useLookups();
+  const [form, setForm] = useState<ItemForm>(() => toForm(item));
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const set = <K extends keyof ItemForm>(key: K, value: ItemForm[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const valid = form.name.trim() && form.unit.trim()
+    && isNonNegative(form.reorder_threshold) && isNonNegative(form.unit_cost) && isNonNegative(form.opening_stock)
+    && (!form.reorder_quantity || parseFloat(form.reorder_quantity) > 0);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const payload = {
+      name: form.name.trim(),
+      sku: form.sku.trim() || null,
+      unit: form.unit.trim(),
+      location: form.location === NO_LOCATION ? null : form.location,
+      bin: form.bin.trim() || null,
+      reorder_threshold: parseFloat(form.reorder_threshold) || 0,
+      reorder_quantity: form.reorder_quantity ? parseFloat(form.reorder_quantity) : null,
+      unit_cost: parseFloat(form.unit_cost) || 0,
+      vendor: form.vendor.trim() || null,
+      notes: form.notes.trim(),
+    };
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = item
+        ? await supabase.from("inventory_items").update(payload).eq("id", item.id).select().single()
+        : await supabase.from("inventory_items").insert({ ...payload, created_by: user?.id ?? null }).select().single();
+      if (error) throw error;
+
+      // New items start at zero; the opening stock goes through the ledger like any count
+      const openingStock = parseFloat(form.opening_stock);
+      if (!item && openingStock > 0) {
+        const { error: countError } = await supabase
+          .from("inventory_adjustments")
+          .insert({ item_id: data.id, reason: "count", quantity_after: openingStock, note: "Opening stock" });
+        if (countError) throw countError;
+      }
+
+      toast({ title: item ? "Item updated" : "Item added", description: payload.name });
+      onSaved(data);
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not save item", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Keep an archived location selectable for an item already stored there
+  const locations = active("locations");
+  const showCurrentLocation = !!item?.location && !locations.some(l => l.value === item.location);
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item ? "Edit Item" : "New Item"}</DialogTitle>
+          <DialogDescription>A part or supply we keep on the shelf.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2 col-span-2">
+              <Label>Name</Label>
+              <Input placeholder="e.g. 20x25x1 furnace filter" value={form.name} onChange={e => set("name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>SKU / part no.</Label>
+              <Input value={form.sku} onChange={e => set("sku", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Stored at</Label>
+              <Select value={form.location} onValueChange={v => set("location", v)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOCATION}>Not set</SelectItem>
+                  {showCurrentLocation && (
+                    <SelectItem value={item.location!}>{getLabel("locations", item.location!)} (archived)</SelectItem>
+                  )}
+                  {locations.map(l => <SelectItem key={l.value} value={l.value}>{l.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Shelf / bin</Label>
+              <Input placeholder="e.g. Closet B, shelf 2" value={form.bin} onChange={e => set("bin", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Input placeholder="each, box, ft" value={form.unit} onChange={e => set("unit", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Unit cost ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.unit_cost} onChange={e => set("unit_cost", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Reorder below</Label>
+              <Input type="number" min="0" step="any" value={form.reorder_threshold} onChange={e => set("reorder_threshold", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Reorder qty</Label>
+              <Input type="number" min="0" step="any" placeholder="Auto" value={form.reorder_quantity} onChange={e => set("reorder_quantity", e.target.value)} />
+            </div>
+          </div>
+
+          <div className={item ? "" : "grid grid-cols-2 gap-3"}>
+            <div className="space-y-2">
+              <Label>Preferred vendor</Label>
+              <Input value={form.vendor} onChange={e => set("vendor", e.target.value)} />
+            </div>
+            {!item && (
+              <div className="space-y-2">
+                <Label>Opening stock</Label>
+                <Input type="number" min="0" step="any" placeholder="0" value={form.opening_stock} onChange={e => set("opening_stock", e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={form.notes}
+              onChange={e => set("notes", e.target.value)}
+              placeholder="Which equipment it fits, substitutes, ordering details..."
+              className="min-h-[70px]"
+            />
+          </div>
+          <p className="text-xs text-gray-400">
+            A purchase task is raised when stock falls below the reorder level. Leave it at 0 to never reorder.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !valid}>
+            {submitting ? "Saving..." : item ? "Save Changes" : "Add Item"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
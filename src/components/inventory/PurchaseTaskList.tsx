@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  InventoryItem,
+  PURCHASE_TASK_STATUS_META,
+  PurchaseTask,
+  PurchaseTaskStatus,
+  formatQuantity,
+  isPendingPurchase,
+} from "@/lib/inventory";
+
+interface PurchaseTaskListProps {
+  tasks: PurchaseTask[];
+  itemsById: Map<string, InventoryItem>;
+  /** Hide the item name and link, on an item's own page */
+  showItem?: boolean;
+  onReceive: (task: PurchaseTask) => void;
+  onChanged: () => void;
+}
+
+export const PurchaseTaskList = ({ tasks, itemsById, showItem = true, onReceive, onChanged }: PurchaseTaskListProps) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const setStatus = async (task: PurchaseTask, status: Extract<PurchaseTaskStatus, "ordered" | "cancelled">) => {
+    setBusyId(task.id);
+    try {
+      const { error } = await supabase.from("inventory_purchase_tasks").update({ status }).eq("id", task.id);
+      if (error) throw error;
+      onChanged();
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update the purchase task", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ul className="divide-y divide-gray-50">
+      {tasks.map(task => {
+        const item = itemsById.get(task.item_id);
+        const meta = PURCHASE_TASK_STATUS_META[task.status as PurchaseTaskStatus] ?? PURCHASE_TASK_STATUS_META.open;
+        const pending = isPendingPurchase(task);
+        return (
+          <li key={task.id} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 px-5 py-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-gray-900 truncate">
+                {showItem && item ? (
+                  <Link to={`/inventory/${item.id}`} className="hover:text-primary">{item.name}</Link>
+                ) : (
+                  `Order ${formatQuantity(task.quantity, item?.unit)}`
+                )}
+                {showItem && <span className="ml-2 font-normal text-gray-500">order {formatQuantity(task.quantity, item?.unit)}</span>}
+              </p>
+              <p className="text-xs text-gray-500 mt-0.5">
+                Raised {format(parseISO(task.created_at), "MMM d, yyyy")} at {formatQuantity(task.stock_at_alert, item?.unit)} on hand
+                {item?.vendor && ` · ${item.vendor}`}
+                {task.ordered_at && ` · ordered ${format(parseISO(task.ordered_at), "MMM d")}${task.ordered_by_name ? ` by ${task.ordered_by_name}` : ""}`}
+                {task.closed_at && ` · ${meta.label.toLowerCase()} ${format(parseISO(task.closed_at), "MMM d")}${task.closed_by_name ? ` by ${task.closed_by_name}` : ""}`}
+              </p>
+            </div>
+            <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold shrink-0 self-start sm:self-auto", meta.className)}>{meta.label}</span>
+            {pending && (
+              <div className="flex items-center gap-1.5 shrink-0">
+                {task.status === "open" && (
+                  <button
+                    onClick={() => setStatus(task, "ordered")}
+                    disabled={busyId === task.id}
+                    className="px-3 py-1.5 text-xs font-bold rounded-lg border border-blue-200 text-blue-700 bg-blue-50 hover:bg-blue-100 transition-all"
+                  >
+                    Mark ordered
+                  </button>
+                )}
+                <button
+                  onClick={() => onReceive(task)}
+                  disabled={busyId === task.id || !item}
+                  className="px-3 py-1.5 text-xs font-bold rounded-lg border border-green-200 text-green-700 bg-green-50 hover:bg-green-100 transition-all"
+                >
+                  Receive
+                </button>
+                <button
+                  onClick={() => setStatus(task, "cancelled")}
+                  disabled={busyId === task.id}
+                  className="p-1.5 text-gray-400 hover:text-red-500"
+                  title="Cancel"
+                >
+                  <span className="material-symbols-outlined text-[16px]">close</span>
+                </button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  ADJUSTMENT_REASON_META,
+  AdjustmentReason,
+  InventoryItem,
+  MANUAL_ADJUSTMENT_REASONS,
+  PurchaseTask,
+  formatQuantity,
+} from "@/lib/inventory";
+
+const QUANTITY_LABELS: Partial<Record<AdjustmentReason, string>> = {
+  received: "Quantity received",
+  count: "Quantity on the shelf",
+  correction: "Change (negative to remove)",
+};
+
+interface StockAdjustmentDialogProps {
+  item: InventoryItem;
+  /** Logging a delivery against this task closes it */
+  purchaseTask?: PurchaseTask | null;
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const StockAdjustmentDialog = ({ item, purchaseTask, open, onClose, onSaved }: StockAdjustmentDialogProps) => {
+  const [reason, setReason] = useState<AdjustmentReason>("received");
+  const [quantity, setQuantity] = useState(purchaseTask ? String(purchaseTask.quantity) : "");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const value = parseFloat(quantity);
+  const after = reason === "count" ? value : item.quantity_on_hand + (value || 0);
+  const valid = !isNaN(value) && (reason === "correction" ? value !== 0 : reason === "count" ? value >= 0 : value > 0) && after >= 0;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from("inventory_adjustments").insert({
+        item_id: item.id,
+        reason,
+        ...(reason === "count" ? { quantity_after: value } : { change: value }),
+        purchase_task_id: reason === "received" ? purchaseTask?.id ?? null : null,
+        note: note.trim() || null,
+      });
+      if (error) throw error;
+      toast({ title: "Stock updated", description: `${item.name}: ${formatQuantity(after, item.unit)} on hand` });
+      onSaved();
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update stock", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{purchaseTask ? "Receive Delivery" : "Adjust Stock"}</DialogTitle>
+          <DialogDescription>
+            {item.name} · {formatQuantity(item.quantity_on_hand, item.unit)} on hand
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!purchaseTask && (
+            <div className="grid grid-cols-3 gap-2">
+              {MANUAL_ADJUSTMENT_REASONS.map(r => (
+                <button
+                  key={r}
+                  type="button"
+                  onClick={() => setReason(r)}
+                  className={cn(
+                    "flex flex-col items-center gap-1 p-3 rounded-lg border text-xs font-bold transition-all",
+                    reason === r ? "border-primary bg-primary/5 text-primary" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                  )}
+                >
+                  <span className="material-symbols-outlined text-[20px]">{ADJUSTMENT_REASON_META[r].icon}</span>
+                  {ADJUSTMENT_REASON_META[r].label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{QUANTITY_LABELS[reason]}</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" step="any" value={quantity} onChange={e => setQuantity(e.target.value)} className="w-32" autoFocus />
+              <span className="text-sm text-gray-500">{item.unit}</span>
+            </div>
+            {!isNaN(value) && (
+              <p className={cn("text-xs", after < 0 ? "text-red-600" : "text-gray-500")}>
+                {after < 0 ? "That's more than is on hand" : `${formatQuantity(after, item.unit)} on hand afterwards`}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Note (optional)</Label>
+            <Textarea
+              placeholder={reason === "received" ? "Supplier, invoice or PO number..." : "Why the change?"}
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              className="min-h-[60px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !valid}>
+            {submitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface Message {
+  id: string;
+  author_type: string;
+  author_name: string | null;
+  body: string;
+  created_at: string;
+}
+
+interface MessageThreadProps {
+  workRequestId: string;
+  /** When set, the thread is read and posted as the requestor through the status-link RPCs. */
+  accessToken?: string;
+}
+
+const MAX_LENGTH = 4000;
+
+export const MessageThread = ({ workRequestId, accessToken }: MessageThreadProps) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const viewerType = accessToken ? "requestor" : "staff";
+
+  // Realtime and the post response can both deliver the same message
+  const addMessage = useCallback((message: Message) => {
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = accessToken
+        ? await supabase.rpc("get_work_request_messages_by_token", { _token: accessToken })
+        : await supabase
+            .from("work_request_messages")
+            .select("id, author_type, author_name, body, created_at")
+            .eq("work_request_id", workRequestId)
+            .order("created_at", { ascending: true });
+
+      if (cancelled) return;
+      setMessages(error || !data ? [] : data);
+      setLoading(false);
+    };
+
+    load();
+
+    // Anonymous visitors can't receive postgres_changes through RLS, so the
+    // database also broadcasts each message on a topic keyed by the token
+    const channel = accessToken
+      ? supabase
+          .channel(`work_request_messages:${accessToken}`)
+          .on("broadcast", { event: "message" }, ({ payload }) => addMessage(payload as Message))
+          .subscribe()
+      : supabase
+          .channel(`work_request_messages_${workRequestId}`)
+          .on(
+            "postgres_changes",
+            { event: "INSERT", schema: "public", table: "work_request_messages", filter: `work_request_id=eq.${workRequestId}` },
+            ({ new: row }) => addMessage(row as Message)
+          )
+          .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [workRequestId, accessToken, addMessage]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    setSending(true);
+    try {
+      if (accessToken) {
+        const { error } = await supabase.rpc("post_work_request_message_by_token", { _token: accessToken, _body: body });
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from("work_request_messages")
+          .insert({ work_request_id: workRequestId, author_type: "staff", body })
+          .select("id, author_type, author_name, body, created_at")
+          .single();
+        if (error) throw error;
+        addMessage(data);
+      }
+      setDraft("");
+    } catch (e: unknown) {
+      toast({ title: "Message not sent", description: e instanceof Error ? e.message : "Could not post the message", variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div ref={listRef} className="max-h-80 overflow-y-auto space-y-3 pr-1">
+        {loading ? (
+          <p className="text-xs text-gray-400">Loading messages...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-xs text-gray-400">
+            {accessToken ? "No messages yet. Questions about your request? Ask here." : "No messages yet"}
+          </p>
+        ) : (
+          messages.map((message) => {
+            const mine = message.author_type === viewerType;
+            return (
+              <div key={message.id} className={cn("flex flex-col", mine ? "items-end" : "items-start")}>
+                <div
+                  className={cn(
+                    "max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words",
+                    mine ? "bg-primary text-white" : "bg-white border border-gray-100 text-gray-700"
+                  )}
+                >
+                  {message.body}
+                </div>
+                <p className="mt-0.5 text-[11px] text-gray-400">
+                  {message.author_name || (message.author_type === "staff" ? "Facilities" : "Requestor")}
+                  {!accessToken && message.author_type === "requestor" && " (requestor)"}
+                  {" · "}
+                  {format(parseISO(message.created_at), "MMM d, h:mm a")}
+                </p>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSend();
+          }}
+          placeholder={accessToken ? "Write a message to the facilities team..." : "Write a message to the requestor..."}
+          maxLength={MAX_LENGTH}
+          className="min-h-[60px] text-sm bg-white"
+        />
+        <Button size="sm" onClick={handleSend} disabled={sending || !draft.trim()}>
+          <span className="material-symbols-outlined text-[18px]">send</span>
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AssignableProfile, getProfileLabel } from "@/lib/assignees";
+import {
+  WorkRequestNote, WorkRequestNoteRevision, canReadNotes, filterMentionCandidates, getMentionQuery, resolveMentions, splitMentions,
+} from "@/lib/notes";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface WorkRequestNotesProps {
+  workRequestId: string;
+  /** People who can be @mentioned; empty for volunteers. */
+  profiles: AssignableProfile[];
+  /** The request's assignees, who can be mentioned alongside staff. */
+  assigneeIds: string[];
+}
+
+export const WorkRequestNotes = ({ workRequestId, profiles, assigneeIds }: WorkRequestNotesProps) => {
+  const [notes, setNotes] = useState<WorkRequestNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<WorkRequestNoteRevision[]>([]);
+  const { toast } = useToast();
+
+  const profilesById = useMemo(
+    () => Object.fromEntries(profiles.map((p) => [p.id, p])) as Record<string, AssignableProfile>,
+    [profiles]
+  );
+  const mentionable = useMemo(() => profiles.filter((p) => canReadNotes(p, assigneeIds)), [profiles, assigneeIds]);
+
+  const fetchNotes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("work_request_notes")
+      .select("*")
+      .eq("work_request_id", workRequestId)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error loading notes:", error);
+      return;
+    }
+    setNotes(data || []);
+  }, [workRequestId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([fetchNotes(), supabase.auth.getUser()]).then(([, { data }]) => {
+      if (cancelled) return;
+      setUserId(data.user?.id ?? null);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [fetchNotes]);
+
+  const saveNote = async (body: string, mentions: string[], noteId?: string) => {
+    try {
+      const { error } = noteId
+        ? await supabase.from("work_request_notes").update({ body, mentions }).eq("id", noteId)
+        : await supabase.from("work_request_notes").insert({ work_request_id: workRequestId, body, mentions });
+      if (error) throw error;
+      setEditingId(null);
+      if (noteId === historyId) setHistoryId(null);
+      await fetchNotes();
+      return true;
+    } catch (e: unknown) {
+      toast({ title: "Note not saved", description: e instanceof Error ? e.message : "Could not save the note", variant: "destructive" });
+      return false;
+    }
+  };
+
+  const toggleHistory = async (noteId: string) => {
+    if (historyId === noteId) {
+      setHistoryId(null);
+      return;
+    }
+    const { data, error } = await supabase
+      .from("work_request_note_revisions")
+      .select("*")
+      .eq("note_id", noteId)
+      .order("edited_at", { ascending: false });
+    if (error) {
+      toast({ title: "Error", description: "Failed to load note history", variant: "destructive" });
+      return;
+    }
+    setRevisions(data || []);
+    setHistoryId(noteId);
+  };
+
+  const renderBody = (body: string, mentions: string[]) =>
+    splitMentions(body, mentions.map((id) => (profilesById[id] ? getProfileLabel(profilesById[id]) : ""))).map((part, i) =>
+      part.mention
+        ? <span key={i} className="font-bold text-primary">{part.text}</span>
+        : <span key={i}>{part.text}</span>
+    );
+
+  // ─── Composer ─────────────────────────────────────────────────────────────
+
+  const NoteComposer = ({ initialBody = "", initialMentions = [], noteId, onCancel }: {
+    initialBody?: string;
+    initialMentions?: string[];
+    noteId?: string;
+    onCancel?: () => void;
+  }) => {
+    const [body, setBody] = useState(initialBody);
+    const [picked, setPicked] = useState<string[]>(initialMentions);
+    const [cursor, setCursor] = useState(0);
+    const [saving, setSaving] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const mentionQuery = getMentionQuery(body, cursor);
+    const candidates = mentionQuery ? filterMentionCandidates(mentionable, mentionQuery.query) : [];
+
+    const pickMention = (profile: AssignableProfile) => {
+      if (!mentionQuery) return;
+      const token = `@${getProfileLabel(profile)} `;
+      const next = body.slice(0, mentionQuery.start) + token + body.slice(cursor);
+      const position = mentionQuery.start + token.length;
+      setBody(next);
+      setPicked((prev) => [...prev, profile.id]);
+      setCursor(position);
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(position, position);
+      });
+    };
+
+    const handleSubmit = async () => {
+      if (!body.trim()) return;
+      setSaving(true);
+      const saved = await saveNote(body, resolveMentions(body, picked, profilesById), noteId);
+      setSaving(false);
+      if (saved && !noteId) {
+        setBody("");
+        setPicked([]);
+      }
+    };
+
+    return (
+      <div className="space-y-2">
+        <div className="relative">
+          <Textarea
+            ref={textareaRef}
+            value={body}
+            onChange={(e) => { setBody(e.target.value); setCursor(e.target.selectionStart); }}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+            placeholder="Add an internal note. Type @ to mention someone."
+            maxLength={4000}
+            className="min-h-[60px] text-sm bg-white"
+          />
+          {candidates.length > 0 && (
+            <div className="absolute left-0 top-full z-10 mt-1 w-64 rounded-lg border border-gray-100 bg-white py-1 shadow-lg">
+              {candidates.map((p) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onMouseDown={(e) => { e.preventDefault(); pickMention(p); }}
+                  className="w-full px-3 py-1.5 text-left text-sm hover:bg-primary/5"
+                >
+                  <span className="font-semibold text-gray-900">{getProfileLabel(p)}</span>
+                  {p.name && p.email && <span className="ml-1 text-xs text-gray-400">{p.email}</span>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          {onCancel && <Button variant="outline" size="sm" onClick={onCancel} disabled={saving}>Cancel</Button>}
+          <Button size="sm" onClick={handleSubmit} disabled={saving || !body.trim()}>
+            {saving ? "Saving..." : noteId ? "Save" : "Add Note"}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  // ═══ RENDER
+
+  if (loading) {
+    return <p className="text-xs text-gray-400">Loading notes...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {notes.length === 0 && <p className="text-xs text-gray-400">No internal notes yet</p>}
+      {notes.map((note) => {
+        const edited = note.updated_at !== note.created_at;
+        return (
+          <div key={note.id} className="rounded-lg border border-amber-100 bg-amber-50/60 px-3 py-2">
+            {editingId === note.id ? (
+              <NoteComposer
+                initialBody={note.body}
+                initialMentions={note.mentions}
+                noteId={note.id}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{renderBody(note.body, note.mentions)}</p>
+                <div className="mt-1 flex items-center gap-2 text-[11px] text-gray-400">
+                  <span>{note.author_name || "Unknown"} · {format(parseISO(note.created_at), "MMM d, h:mm a")}</span>
+                  {edited && (
+                    <button onClick={() => toggleHistory(note.id)} className="hover:text-gray-600 hover:underline">
+                      edited {format(parseISO(note.updated_at), "MMM d, h:mm a")}
+                    </button>
+                  )}
+                  {note.author_id === userId && (
+                    <button onClick={() => setEditingId(note.id)} className="ml-auto font-bold hover:text-primary">Edit</button>
+                  )}
+                </div>
+                {historyId === note.id && (
+                  <ol className="mt-2 space-y-2 border-t border-amber-100 pt-2">
+                    {revisions.map((revision) => (
+                      <li key={revision.id} className="text-xs text-gray-500">
+                        <p className="font-semibold">Before {format(parseISO(revision.edited_at), "MMM d, h:mm a")}</p>
+                        <p className="whitespace-pre-wrap break-words line-through decoration-gray-300">
+                          {renderBody(revision.body, revision.mentions)}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+      <NoteComposer />
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { cn } from "@/lib/utils";
+import { getPriorityBadge, getPriorityLabel } from "@/lib/priorities";
+
+interface PriorityBadgeProps {
+  priority: string;
+  /** Shows the emergency tag instead of the plain priority */
+  emergency?: boolean | null;
+  className?: string;
+}
+
+export const PriorityBadge = ({ priority, emergency, className }: PriorityBadgeProps) =>
+  emergency ? (
+    <span className={cn("px-2.5 py-1 rounded-full text-xs font-bold border inline-flex items-center gap-1 whitespace-nowrap bg-red-600 text-white border-red-600", className)}>
+      <span className="material-symbols-outlined text-[14px]">e911_emergency</span>
+      Emergency
+    </span>
+  ) : (
+    <span className={cn("px-2.5 py-1 rounded-full text-xs font-bold border inline-flex items-center gap-1 whitespace-nowrap", getPriorityBadge(priority), className)}>
+      {priority === "urgent" && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />}
+      {getPriorityLabel(priority)}
+    </span>
+  );
@@ -0,0 +1,21 @@
+import { splitHighlights } from "@/lib/work-request-search";
+
+interface HighlightProps {
+  /** Text from search_work_requests(), with matches marked */
+  highlighted?: string | null;
+  /** Shown as-is when there is nothing highlighted */
+  text: string;
+}
+
+export const Highlight = ({ highlighted, text }: HighlightProps) => {
+  if (!highlighted) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(highlighted).map((part, i) =>
+        part.match
+          ? <mark key={i} className="bg-yellow-100 text-inherit rounded-sm px-0.5">{part.text}</mark>
+          : <span key={i}>{part.text}</span>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,39 @@
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { SLA_STATUS_META, SlaFields, SlaStatus, describeDeadline, isSlaStatus } from "@/lib/sla";
+
+interface SlaBadgeProps {
+  request: SlaFields;
+  /** Statuses to render; by default only the ones that need attention */
+  show?: SlaStatus[];
+  className?: string;
+}
+
+export const SlaBadge = ({ request, show = ["at_risk", "breached"], className }: SlaBadgeProps) => {
+  const status = request.sla_status;
+  if (!isSlaStatus(status) || !show.includes(status)) return null;
+
+  const meta = SLA_STATUS_META[status];
+  const deadline = describeDeadline(request);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={cn("px-2 py-0.5 rounded-full text-[11px] font-bold inline-flex items-center gap-1 whitespace-nowrap", meta.className, className)}>
+          <span className="material-symbols-outlined text-[13px]">{meta.icon}</span>
+          {meta.label}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="space-y-0.5 text-xs">
+          {deadline && <p className="font-bold">{deadline}</p>}
+          {request.response_due_at && (
+            <p>Response by {format(parseISO(request.response_due_at), "MMM d, h:mm a")}{request.responded_at ? " · done" : ""}</p>
+          )}
+          {request.due_at && <p>Resolution by {format(parseISO(request.due_at), "MMM d, h:mm a")}</p>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
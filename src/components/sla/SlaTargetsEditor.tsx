@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useSlaTargets } from "@/hooks/use-sla-targets";
+import { SlaTarget, formatTargetHours } from "@/lib/sla";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+type Draft = Pick<SlaTarget, "response_hours" | "resolution_hours" | "at_risk_percent">;
+
+const isValidDraft = (d: Draft) =>
+  d.response_hours > 0 && d.resolution_hours >= d.response_hours && d.at_risk_percent >= 1 && d.at_risk_percent <= 99;
+
+export const SlaTargetsEditor = () => {
+  const { targets, loading, refresh } = useSlaTargets();
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingPriority, setSavingPriority] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(targets.map(t => [t.priority, {
+      response_hours: t.response_hours, resolution_hours: t.resolution_hours, at_risk_percent: t.at_risk_percent
+    }])));
+  }, [targets]);
+
+  const updateDraft = (priority: string, field: keyof Draft, value: string) => {
+    setDrafts(prev => ({ ...prev, [priority]: { ...prev[priority], [field]: parseInt(value, 10) || 0 } }));
+  };
+
+  const handleSave = async (target: SlaTarget) => {
+    const draft = drafts[target.priority];
+    setSavingPriority(target.priority);
+    try {
+      const { error } = await supabase.from("sla_targets").update(draft).eq("priority", target.priority);
+      if (error) throw error;
+      await refresh();
+      toast({ title: "SLA updated", description: `New ${target.priority} priority requests use the updated targets.` });
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not update SLA target", variant: "destructive" });
+    } finally {
+      setSavingPriority(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-gray-400 text-sm py-12">Loading...</p>;
+  }
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <h2 className="text-xs font-bold text-gray-400 uppercase">Targets per priority</h2>
+        <p className="text-xs text-gray-400 mt-0.5">
+          Hours from submission. Changes apply to new requests and to requests whose priority changes.
+        </p>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {targets.map(target => {
+          const draft = drafts[target.priority];
+          if (!draft) return null;
+          const dirty = draft.response_hours !== target.response_hours
+            || draft.resolution_hours !== target.resolution_hours
+            || draft.at_risk_percent !== target.at_risk_percent;
+          return (
+            <div key={target.priority} className="flex flex-col md:flex-row md:items-end gap-3 px-4 py-4">
+              <div className="md:w-28">
+                <p className="text-sm font-bold text-gray-900 capitalize">{target.priority}</p>
+                <p className="text-xs text-gray-400">Respond in {formatTargetHours(target.response_hours)}</p>
+              </div>
+              <label className="text-xs font-bold text-gray-400 uppercase">
+                Response (h)
+                <Input type="number" min="1" value={draft.response_hours} onChange={e => updateDraft(target.priority, "response_hours", e.target.value)} className="h-9 w-28 mt-1" />
+              </label>
+              <label className="text-xs font-bold text-gray-400 uppercase">
+                Resolution (h)
+                <Input type="number" min="1" value={draft.resolution_hours} onChange={e => updateDraft(target.priority, "resolution_hours", e.target.value)} className="h-9 w-28 mt-1" />
+              </label>
+              <label className="text-xs font-bold text-gray-400 uppercase">
+                At risk at (%)
+                <Input type="number" min="1" max="99" value={draft.at_risk_percent} onChange={e => updateDraft(target.priority, "at_risk_percent", e.target.value)} className="h-9 w-28 mt-1" />
+              </label>
+              <Button
+                size="sm"
+                onClick={() => handleSave(target)}
+                disabled={!dirty || !isValidDraft(draft) || savingPriority === target.priority}
+                className="md:ml-auto"
+              >
+                {savingPriority === target.priority ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
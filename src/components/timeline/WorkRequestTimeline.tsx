@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { WorkRequestEvent, describeEvent, getEventColor, getEventIcon } from "@/lib/work-request-events";
+
+interface WorkRequestTimelineProps {
+  workRequestId: string;
+  /** When set, history is read through the public status-link RPC instead of the table. */
+  accessToken?: string;
+}
+
+export const WorkRequestTimeline = ({ workRequestId, accessToken }: WorkRequestTimelineProps) => {
+  const [events, setEvents] = useState<WorkRequestEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = accessToken
+        ? await supabase.rpc("get_work_request_events_by_token", { _token: accessToken })
+        : await supabase
+            .from("work_request_events")
+            .select("id, event_type, old_value, new_value, reason, actor_name, created_at")
+            .eq("work_request_id", workRequestId)
+            .order("created_at", { ascending: true });
+
+      if (cancelled) return;
+      setEvents(error || !data ? [] : data);
+      setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [workRequestId, accessToken]);
+
+  if (loading) {
+    return <p className="text-xs text-gray-400">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-xs text-gray-400">No history yet</p>;
+  }
+
+  return (
+    <ol className="relative ml-3 border-l border-gray-200">
+      {events.map((event) => (
+        <li key={event.id} className="mb-4 ml-5 last:mb-0">
+          <span
+            className={cn(
+              "absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white",
+              getEventColor(event)
+            )}
+          >
+            <span className="material-symbols-outlined text-[14px]">{getEventIcon(event)}</span>
+          </span>
+          <p className="text-sm font-semibold text-gray-900">{describeEvent(event)}</p>
+          <p className="text-xs text-gray-500">
+            {format(parseISO(event.created_at), "MMM d, yyyy 'at' h:mm a")}
+            {event.actor_name && <> · {event.actor_name}</>}
+          </p>
+          {event.reason && <p className="mt-1 text-xs text-gray-600 italic">"{event.reason}"</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
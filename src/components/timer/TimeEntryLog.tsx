@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { WorkTimeEntry, formatDuration } from "@/lib/work-timer";
+
+interface TimeEntryLogProps {
+  workRequestId: string;
+}
+
+export const TimeEntryLog = ({ workRequestId }: TimeEntryLogProps) => {
+  const [entries, setEntries] = useState<WorkTimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("work_time_entries")
+        .select("*")
+        .eq("work_request_id", workRequestId)
+        .order("started_at", { ascending: true });
+
+      if (cancelled) return;
+      setEntries(error || !data ? [] : data);
+      setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [workRequestId]);
+
+  if (loading) {
+    return <p className="text-xs text-gray-400">Loading time log...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-400">No time recorded yet</p>;
+  }
+
+  const total = entries.reduce((sum, e) => sum + (e.duration_seconds || 0), 0);
+
+  return (
+    <div className="space-y-1.5">
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-center gap-2 text-xs">
+          <span className="material-symbols-outlined text-[14px] text-gray-400">
+            {entry.ended_at ? "timer_off" : "timer"}
+          </span>
+          <span className="text-gray-700">
+            {format(parseISO(entry.started_at), "MMM d, h:mm a")}
+            {entry.ended_at ? ` – ${format(parseISO(entry.ended_at), "h:mm a")}` : " – running"}
+          </span>
+          {entry.actor_name && <span className="text-gray-400 truncate">· {entry.actor_name}</span>}
+          <span className="ml-auto font-bold text-gray-900 tabular-nums">
+            {entry.duration_seconds != null ? formatDuration(entry.duration_seconds) : ""}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-1.5 border-t border-gray-200 text-xs">
+        <span className="font-bold text-gray-400 uppercase">Logged</span>
+        <span className="font-bold text-gray-900 tabular-nums">{formatDuration(total)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { TimerFields, formatTimer, getElapsedSeconds } from "@/lib/work-timer";
+
+interface WorkTimerProps {
+  timer: TimerFields;
+  className?: string;
+}
+
+/** Ticking elapsed-time badge; static when the timer is paused. */
+export const WorkTimer = ({ timer, className }: WorkTimerProps) => {
+  const [now, setNow] = useState(Date.now());
+  const running = !!timer.is_timer_active;
+
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const seconds = getElapsedSeconds(timer, now);
+  if (!running && seconds === 0) return null;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-bold tabular-nums",
+        running ? "bg-blue-50 text-blue-700" : "bg-gray-100 text-gray-500",
+        className
+      )}
+    >
+      <span className={cn("material-symbols-outlined text-[14px]", running && "animate-pulse")}>
+        {running ? "timer" : "timer_pause"}
+      </span>
+      {formatTimer(seconds)}
+    </span>
+  );
+};
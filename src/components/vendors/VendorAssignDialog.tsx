@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { INSURANCE_STATUS_META, Vendor, describeRates, getInsuranceStatus, getTradeLabel } from "@/lib/vendors";
+
+export type VendorAssignment = {
+  vendor_id: string | null;
+  vendor_quote: number | null;
+  vendor_expected_date: string | null;
+  vendor_invoice_amount: number | null;
+};
+
+const toAmount = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+interface VendorAssignDialogProps {
+  workRequest: { id: string; work_order_id?: string; title: string } & Partial<VendorAssignment>;
+  /** Vendors that can take new work; the current one is kept even if since archived */
+  vendors: Vendor[];
+  vendorsById: Map<string, Vendor>;
+  open: boolean;
+  onClose: () => void;
+  onSaved: (assignment: VendorAssignment) => void;
+}
+
+export const VendorAssignDialog = ({ workRequest, vendors, vendorsById, open, onClose, onSaved }: VendorAssignDialogProps) => {
+  const [vendorId, setVendorId] = useState(workRequest.vendor_id ?? "");
+  const [quote, setQuote] = useState(workRequest.vendor_quote != null ? String(workRequest.vendor_quote) : "");
+  const [expectedDate, setExpectedDate] = useState(workRequest.vendor_expected_date ?? "");
+  const [invoice, setInvoice] = useState(workRequest.vendor_invoice_amount != null ? String(workRequest.vendor_invoice_amount) : "");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const current = workRequest.vendor_id ? vendorsById.get(workRequest.vendor_id) : undefined;
+  const selected = vendorId ? vendorsById.get(vendorId) : undefined;
+  const insurance = selected ? getInsuranceStatus(selected.insurance_expires_on) : "none";
+  const quoteAmount = toAmount(quote);
+  const invoiceAmount = toAmount(invoice);
+  const valid = !!vendorId && (quoteAmount === null || quoteAmount >= 0) && (invoiceAmount === null || invoiceAmount >= 0);
+
+  const save = async (assignment: VendorAssignment) => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from("work_requests").update(assignment).eq("id", workRequest.id);
+      if (error) throw error;
+      toast({
+        title: assignment.vendor_id ? "Vendor assigned" : "Vendor removed",
+        description: workRequest.work_order_id || workRequest.title,
+      });
+      onSaved(assignment);
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not update the work order", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{current ? "Vendor Assignment" : "Assign to Vendor"}</DialogTitle>
+          <DialogDescription>
+            Hand {workRequest.work_order_id || "this work order"} to an outside contractor and record what they quoted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Vendor</Label>
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger><SelectValue placeholder="Choose a vendor" /></SelectTrigger>
+              <SelectContent>
+                {current && current.archived_at && <SelectItem value={current.id}>{current.name} (archived)</SelectItem>}
+                {vendors.map(v => (
+                  <SelectItem key={v.id} value={v.id}>{v.name} · {getTradeLabel(v.trade)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && describeRates(selected) && <p className="text-xs text-gray-500">{describeRates(selected)}</p>}
+            {(insurance === "expired" || insurance === "expiring") && (
+              <p className={cn("text-xs font-bold px-2 py-1 rounded", INSURANCE_STATUS_META[insurance].className)}>
+                {INSURANCE_STATUS_META[insurance].label} {format(parseISO(selected!.insurance_expires_on!), "MMM d, yyyy")}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Quote ($)</Label>
+              <Input type="number" min="0" step="0.01" value={quote} onChange={e => setQuote(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Expected completion</Label>
+              <Input type="date" value={expectedDate} onChange={e => setExpectedDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Invoiced amount ($)</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Once the invoice arrives"
+              value={invoice}
+              onChange={e => setInvoice(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          {current ? (
+            <Button
+              variant="ghost"
+              className="text-red-600 hover:text-red-700"
+              disabled={submitting}
+              onClick={() => save({ vendor_id: null, vendor_quote: null, vendor_expected_date: null, vendor_invoice_amount: null })}
+            >
+              Take Back
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              disabled={submitting || !valid}
+              onClick={() => save({
+                vendor_id: vendorId,
+                vendor_quote: quoteAmount,
+                vendor_expected_date: expectedDate || null,
+                vendor_invoice_amount: invoiceAmount,
+              })}
+            >
+              {submitting ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { VENDOR_TRADES, VENDOR_TRADE_META, Vendor, VendorTrade } from "@/lib/vendors";
+
+type VendorForm = {
+  name: string;
+  trade: VendorTrade;
+  contact_name: string;
+  phone: string;
+  email: string;
+  website: string;
+  insurance_expires_on: string;
+  hourly_rate: string;
+  call_out_fee: string;
+  rate_notes: string;
+  notes: string;
+};
+
+const toForm = (vendor: Vendor | null): VendorForm => ({
+  name: vendor?.name ?? "",
+  trade: (vendor?.trade as VendorTrade) ?? "general",
+  contact_name: vendor?.contact_name ?? "",
+  phone: vendor?.phone ?? "",
+  email: vendor?.email ?? "",
+  website: vendor?.website ?? "",
+  insurance_expires_on: vendor?.insurance_expires_on ?? "",
+  hourly_rate: vendor?.hourly_rate != null ? String(vendor.hourly_rate) : "",
+  call_out_fee: vendor?.call_out_fee != null ? String(vendor.call_out_fee) : "",
+  rate_notes: vendor?.rate_notes ?? "",
+  notes: vendor?.notes ?? "",
+});
+
+const toAmount = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+interface VendorDialogProps {
+  /** The vendor to edit, or null to add one */
+  vendor: Vendor | null;
+  open: boolean;
+  onClose: () => void;
+  onSaved: (vendor: Vendor) => void;
+}
+
+export const VendorDialog = ({ vendor, open, onClose, onSaved }: VendorDialogProps) => {
+  const [form, setForm] = useState<VendorForm>(() => toForm(vendor));
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const set = <K extends keyof VendorForm>(key: K, value: VendorForm[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+  const hourlyRate = toAmount(form.hourly_rate);
+  const callOutFee = toAmount(form.call_out_fee);
+  const valid = form.name.trim() && (hourlyRate === null || hourlyRate >= 0) && (callOutFee === null || callOutFee >= 0);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const payload = {
+      name: form.name.trim(),
+      trade: form.trade,
+      contact_name: form.contact_name.trim() || null,
+      phone: form.phone.trim() || null,
+      email: form.email.trim() || null,
+      website: form.website.trim() || null,
+      insurance_expires_on: form.insurance_expires_on || null,
+      hourly_rate: hourlyRate,
+      call_out_fee: callOutFee,
+      rate_notes: form.rate_notes.trim() || null,
+      notes: form.notes.trim(),
+    };
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = vendor
+        ? await supabase.from("vendors").update(payload).eq("id", vendor.id).select().single()
+        : await supabase.from("vendors").insert({ ...payload, created_by: user?.id ?? null }).select().single();
+      if (error) throw error;
+      toast({ title: vendor ? "Vendor updated" : "Vendor added", description: payload.name });
+      onSaved(data);
+    } catch (e: unknown) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not save vendor", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{vendor ? "Edit Vendor" : "New Vendor"}</DialogTitle>
+          <DialogDescription>An outside contractor work orders can be handed to.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2 col-span-2">
+              <Label>Company name</Label>
+              <Input placeholder="e.g. Northside Plumbing" value={form.name} onChange={e => set("name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Trade</Label>
+              <Select value={form.trade} onValueChange={v => set("trade", v as VendorTrade)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {VENDOR_TRADES.map(t => <SelectItem key={t} value={t}>{VENDOR_TRADE_META[t].label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <Input value={form.contact_name} onChange={e => set("contact_name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Phone</Label>
+              <Input type="tel" value={form.phone} onChange={e => set("phone", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input type="email" value={form.email} onChange={e => set("email", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Website</Label>
+              <Input placeholder="https://" value={form.website} onChange={e => set("website", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Insurance certificate expires</Label>
+              <Input type="date" value={form.insurance_expires_on} onChange={e => set("insurance_expires_on", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Hourly rate ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.hourly_rate} onChange={e => set("hourly_rate", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Call-out fee ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.call_out_fee} onChange={e => set("call_out_fee", e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2 md:col-span-1">
+              <Label>Rate notes</Label>
+              <Input placeholder="e.g. 1.5× after hours" value={form.rate_notes} onChange={e => set("rate_notes", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={form.notes}
+              onChange={e => set("notes", e.target.value)}
+              placeholder="Licence numbers, payment terms, who to ask for..."
+              className="min-h-[70px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !valid}>
+            {submitting ? "Saving..." : vendor ? "Save Changes" : "Add Vendor"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
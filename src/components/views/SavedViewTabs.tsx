@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { WorkOrderView, useSavedViews } from "@/hooks/use-saved-views";
+import { canonicalFilterParams, hasFilterParams } from "@/lib/work-request-search";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SavedViewTabsProps {
+  /** The page's current query params */
+  params: URLSearchParams;
+  onApply: (params: URLSearchParams) => void;
+  /** Staff can share views; volunteers only keep their own */
+  canShare: boolean;
+}
+
+const viewParams = (view: WorkOrderView) =>
+  canonicalFilterParams(new URLSearchParams(view.filters as Record<string, string>));
+
+export const SavedViewTabs = ({ params, onApply, canShare }: SavedViewTabsProps) => {
+  const { views, defaultViewId, userId, loading, saveView, updateView, deleteView, setDefaultView } = useSavedViews();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const appliedDefault = useRef(false);
+  const { toast } = useToast();
+
+  const current = canonicalFilterParams(params);
+  const currentKey = current.toString();
+  const activeView = views.find(v => viewParams(v).toString() === currentKey);
+
+  // The pinned view opens when the page is visited without any filters in the URL
+  useEffect(() => {
+    if (loading || appliedDefault.current) return;
+    appliedDefault.current = true;
+    const pinned = views.find(v => v.id === defaultViewId);
+    if (pinned && !hasFilterParams(params)) onApply(viewParams(pinned));
+  }, [loading, views, defaultViewId, params, onApply]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (e: unknown) {
+      toast({ title: failure, description: e instanceof Error ? e.message : "Please try again", variant: "destructive" });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    await run(async () => {
+      await saveView(name, Object.fromEntries(current), canShare && shared);
+      toast({ title: "View saved", description: `"${name.trim()}" is now a tab.` });
+      setSaveOpen(false);
+      setName("");
+      setShared(false);
+    }, "View not saved");
+    setSaving(false);
+  };
+
+  const copyLink = (view: WorkOrderView) =>
+    run(async () => {
+      const query = viewParams(view).toString();
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}${query ? `?${query}` : ""}`);
+      toast({ title: "Link copied", description: "Anyone on the team can open it to see the same filters." });
+    }, "Could not copy the link");
+
+  return (
+    <div className="flex items-center gap-1 mb-4 overflow-x-auto pb-1">
+      <button
+        onClick={() => onApply(new URLSearchParams())}
+        className={cn(
+          "px-3 py-1.5 rounded-lg text-sm font-bold whitespace-nowrap transition-colors",
+          !activeView && currentKey === "" ? "bg-white text-gray-900 shadow-sm border border-gray-200" : "text-gray-500 hover:text-gray-900 hover:bg-white/60"
+        )}
+      >
+        All Work Orders
+      </button>
+
+      {views.map(view => {
+        const mine = view.owner_id === userId;
+        const active = activeView?.id === view.id;
+        return (
+          <div
+            key={view.id}
+            className={cn(
+              "flex items-center rounded-lg whitespace-nowrap transition-colors",
+              active ? "bg-white shadow-sm border border-gray-200" : "hover:bg-white/60"
+            )}
+          >
+            <button
+              onClick={() => onApply(viewParams(view))}
+              className={cn("flex items-center gap-1 pl-3 pr-1 py-1.5 text-sm font-bold", active ? "text-gray-900" : "text-gray-500 hover:text-gray-900")}
+            >
+              {view.id === defaultViewId && <span className="material-symbols-outlined text-[14px] text-amber-500" title="Your default">push_pin</span>}
+              {view.name}
+              {view.is_shared && <span className="material-symbols-outlined text-[14px] text-gray-400" title={mine ? "Shared with the team" : "Shared by a teammate"}>group</span>}
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="p-1 mr-1 rounded text-gray-400 hover:text-gray-600">
+                  <span className="material-symbols-outlined text-[16px] block">more_vert</span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {view.id === defaultViewId ? (
+                  <DropdownMenuItem onClick={() => run(() => setDefaultView(null), "Could not unpin the view")}>
+                    <span className="material-symbols-outlined text-[16px] mr-2">keep_off</span> Unpin default
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem onClick={() => run(() => setDefaultView(view.id), "Could not pin the view")}>
+                    <span className="material-symbols-outlined text-[16px] mr-2">push_pin</span> Pin as my default
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => copyLink(view)}>
+                  <span className="material-symbols-outlined text-[16px] mr-2">link</span> Copy link
+                </DropdownMenuItem>
+                {mine && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      disabled={active}
+                      onClick={() => run(() => updateView(view.id, { filters: Object.fromEntries(current) }), "Could not update the view")}
+                    >
+                      <span className="material-symbols-outlined text-[16px] mr-2">save</span> Save current filters here
+                    </DropdownMenuItem>
+                    {canShare && (
+                      <DropdownMenuItem onClick={() => run(() => updateView(view.id, { is_shared: !view.is_shared }), "Could not update the view")}>
+                        <span className="material-symbols-outlined text-[16px] mr-2">{view.is_shared ? "person" : "group"}</span>
+                        {view.is_shared ? "Stop sharing" : "Share with the team"}
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => run(() => deleteView(view.id), "Could not delete the view")} className="text-red-600">
+                      <span className="material-symbols-outlined text-[16px] mr-2">delete</span> Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        );
+      })}
+
+      {!activeView && currentKey !== "" && (
+        <button
+          onClick={() => setSaveOpen(true)}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-bold text-primary hover:bg-primary/10 whitespace-nowrap"
+        >
+          <span className="material-symbols-outlined text-[18px]">bookmark_add</span>
+          Save view
+        </button>
+      )}
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Keeps the current search, filters, sort and layout as a tab.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === "Enter") handleSave(); }}
+              placeholder="e.g. My urgent open"
+              maxLength={60}
+              autoFocus
+            />
+          </div>
+          {canShare && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox checked={shared} onCheckedChange={checked => setShared(checked === true)} />
+              Share with the team
+            </label>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>{saving ? "Saving..." : "Save View"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { DELIVERY_STATUS_META, DeliveryStatus, WebhookDelivery, getEventLabel } from "@/lib/webhooks";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type DeliveryRow = WebhookDelivery & { webhook_subscriptions: { name: string } | null };
+
+const PAGE_SIZE = 50;
+
+const getWorkOrderId = (payload: WebhookDelivery["payload"]) => {
+  const request = (payload as { work_request?: { work_order_id?: string } } | null)?.work_request;
+  return request?.work_order_id ?? null;
+};
+
+export const WebhookDeliveryLog = () => {
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<DeliveryStatus | "all">("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from("webhook_deliveries")
+        .select("*, webhook_subscriptions(name)")
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE);
+      if (filterStatus !== "all") query = query.eq("status", filterStatus);
+      const { data, error } = await query;
+      if (error) throw error;
+      setDeliveries((data || []) as DeliveryRow[]);
+    } catch {
+      toast({ title: "Error", description: "Failed to load webhook deliveries", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus, toast]);
+
+  useEffect(() => { fetchDeliveries(); }, [fetchDeliveries]);
+
+  const replay = async (delivery: DeliveryRow) => {
+    setReplayingId(delivery.id);
+    try {
+      const { error } = await supabase.rpc("replay_webhook_delivery", { _delivery_id: delivery.id });
+      if (error) throw error;
+      toast({ title: "Replay queued", description: `${getEventLabel(delivery.event_type)} sent again to ${delivery.webhook_subscriptions?.name ?? "the endpoint"}.` });
+      await fetchDeliveries();
+    } catch (e: unknown) {
+      toast({ title: "Replay failed", description: e instanceof Error ? e.message : "Could not replay delivery", variant: "destructive" });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-100">
+        <div>
+          <h2 className="text-xs font-bold text-gray-400 uppercase">Delivery log</h2>
+          <p className="text-xs text-gray-400 mt-0.5">Latest {PAGE_SIZE} deliveries. Failed attempts retry automatically with backoff.</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Select value={filterStatus} onValueChange={v => setFilterStatus(v as DeliveryStatus | "all")}>
+            <SelectTrigger className="h-9 w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {(Object.keys(DELIVERY_STATUS_META) as DeliveryStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{DELIVERY_STATUS_META[status].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button onClick={fetchDeliveries} disabled={loading} className="p-2 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg" title="Refresh">
+            <span className={cn("material-symbols-outlined text-[18px]", loading && "animate-spin")}>refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {loading && deliveries.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+      ) : deliveries.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-400">No deliveries {filterStatus === "all" ? "yet" : "with this status"}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-bold text-gray-400 uppercase border-b border-gray-100">
+                <th className="px-4 py-2">Status</th>
+                <th className="px-4 py-2">Event</th>
+                <th className="px-4 py-2">Webhook</th>
+                <th className="px-4 py-2">Response</th>
+                <th className="px-4 py-2">Attempts</th>
+                <th className="px-4 py-2">Created</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {deliveries.map(delivery => {
+                const meta = DELIVERY_STATUS_META[delivery.status as DeliveryStatus] ?? DELIVERY_STATUS_META.pending;
+                const expanded = expandedId === delivery.id;
+                const workOrderId = getWorkOrderId(delivery.payload);
+                return (
+                  <Fragment key={delivery.id}>
+                    <tr onClick={() => setExpandedId(expanded ? null : delivery.id)} className="cursor-pointer hover:bg-gray-50">
+                      <td className="px-4 py-2.5">
+                        <span className={cn("px-2 py-0.5 rounded-full text-[11px] font-bold inline-flex items-center gap-1 whitespace-nowrap", meta.className)}>
+                          <span className="material-symbols-outlined text-[13px]">{meta.icon}</span>
+                          {meta.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2.5">
+                        <p className="font-bold text-gray-900 whitespace-nowrap">{getEventLabel(delivery.event_type)}</p>
+                        {workOrderId && <p className="text-xs text-gray-400">{workOrderId}</p>}
+                      </td>
+                      <td className="px-4 py-2.5 text-gray-600 truncate max-w-[12rem]">{delivery.webhook_subscriptions?.name ?? "—"}</td>
+                      <td className="px-4 py-2.5 text-gray-600 whitespace-nowrap">
+                        {delivery.response_status ?? (delivery.last_error ? <span className="text-red-600">{delivery.last_error}</span> : "—")}
+                      </td>
+                      <td className="px-4 py-2.5 text-gray-600">{delivery.attempts}/{delivery.max_attempts}</td>
+                      <td className="px-4 py-2.5 text-gray-500 whitespace-nowrap" title={format(parseISO(delivery.created_at), "PPpp")}>
+                        {formatDistanceToNow(parseISO(delivery.created_at), { addSuffix: true })}
+                      </td>
+                      <td className="px-4 py-2.5 text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={e => { e.stopPropagation(); replay(delivery); }}
+                          disabled={replayingId === delivery.id || delivery.status === "sending"}
+                        >
+                          Replay
+                        </Button>
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-gray-50/60">
+                        <td colSpan={7} className="px-4 py-3 space-y-3">
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                            <span>Delivery {delivery.id}</span>
+                            {delivery.replay_of && <span>Replay of {delivery.replay_of}</span>}
+                            {delivery.last_attempt_at && <span>Last attempt {format(parseISO(delivery.last_attempt_at), "MMM d, h:mm:ss a")}</span>}
+                            {delivery.status === "pending" && <span>Next attempt {format(parseISO(delivery.next_attempt_at), "MMM d, h:mm a")}</span>}
+                            {delivery.delivered_at && <span>Delivered {format(parseISO(delivery.delivered_at), "MMM d, h:mm:ss a")}</span>}
+                          </div>
+                          {delivery.last_error && delivery.response_status && (
+                            <p className="text-xs font-bold text-red-600">{delivery.last_error}</p>
+                          )}
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                            <div>
+                              <p className="text-xs font-bold text-gray-400 uppercase mb-1">Payload</p>
+                              <pre className="text-xs bg-white border border-gray-100 rounded-lg p-3 overflow-auto max-h-64">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                            </div>
+                            <div>
+                              <p className="text-xs font-bold text-gray-400 uppercase mb-1">Response body</p>
+                              <pre className="text-xs bg-white border border-gray-100 rounded-lg p-3 overflow-auto max-h-64 whitespace-pre-wrap">{delivery.response_body || "—"}</pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
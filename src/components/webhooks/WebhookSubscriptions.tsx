@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { WEBHOOK_EVENTS, WebhookEvent, WebhookSubscription, generateWebhookSecret, getEventLabel } from "@/lib/webhooks";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+type SubscriptionForm = { name: string; url: string; event_types: WebhookEvent[] };
+
+const isValidUrl = (url: string) => /^https?:\/\/\S+$/.test(url.trim());
+
+export const WebhookSubscriptions = () => {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<WebhookSubscription | "new" | null>(null);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // ─── Fetch ───────────────────────────────────────────────
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.from("webhook_subscriptions").select("*").order("created_at");
+      if (error) throw error;
+      setSubscriptions(data || []);
+    } catch {
+      toast({ title: "Error", description: "Failed to load webhooks", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => { fetchSubscriptions(); }, [fetchSubscriptions]);
+
+  // ─── Actions ─────────────────────────────────────────────
+  const update = async (subscription: WebhookSubscription, changes: Partial<WebhookSubscription>, title: string) => {
+    setBusyId(subscription.id);
+    try {
+      const { error } = await supabase.from("webhook_subscriptions").update(changes).eq("id", subscription.id);
+      if (error) throw error;
+      setSubscriptions(prev => prev.map(s => s.id === subscription.id ? { ...s, ...changes } : s));
+      toast({ title, description: subscription.name });
+    } catch (e: unknown) {
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Could not update webhook", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const rotateSecret = (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Generate a new secret for "${subscription.name}"? The receiver must be updated before it can verify new deliveries.`)) return;
+    setRevealedId(subscription.id);
+    update(subscription, { secret: generateWebhookSecret() }, "Secret rotated");
+  };
+
+  const copySecret = async (subscription: WebhookSubscription) => {
+    await navigator.clipboard.writeText(subscription.secret);
+    toast({ title: "Copied", description: "Signing secret copied to the clipboard." });
+  };
+
+  const remove = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Delete "${subscription.name}"? Its delivery log is deleted with it.`)) return;
+    setBusyId(subscription.id);
+    try {
+      const { error } = await supabase.from("webhook_subscriptions").delete().eq("id", subscription.id);
+      if (error) throw error;
+      setSubscriptions(prev => prev.filter(s => s.id !== subscription.id));
+      toast({ title: "Webhook deleted", description: subscription.name });
+    } catch (e: unknown) {
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : "Could not delete webhook", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // SUBSCRIPTION DIALOG
+  // ═══════════════════════════════════════════════════════════
+  const SubscriptionDialog = () => {
+    const existing = editing && editing !== "new" ? editing : null;
+    const [form, setForm] = useState<SubscriptionForm>(() => existing
+      ? { name: existing.name, url: existing.url, event_types: existing.event_types as WebhookEvent[] }
+      : { name: "", url: "", event_types: ["created", "approved", "date_changed", "completed"] });
+    const [submitting, setSubmitting] = useState(false);
+
+    if (!editing) return null;
+
+    const toggleEvent = (event: WebhookEvent) => setForm(prev => ({
+      ...prev,
+      event_types: prev.event_types.includes(event) ? prev.event_types.filter(e => e !== event) : [...prev.event_types, event],
+    }));
+
+    const valid = form.name.trim() && isValidUrl(form.url) && form.event_types.length > 0;
+
+    const handleSubmit = async () => {
+      setSubmitting(true);
+      const payload = { name: form.name.trim(), url: form.url.trim(), event_types: form.event_types };
+      try {
+        if (existing) {
+          const { error } = await supabase.from("webhook_subscriptions").update(payload).eq("id", existing.id);
+          if (error) throw error;
+        } else {
+          const { data: { user } } = await supabase.auth.getUser();
+          const { error } = await supabase.from("webhook_subscriptions").insert({ ...payload, created_by: user?.id ?? null });
+          if (error) throw error;
+        }
+        toast({ title: existing ? "Webhook updated" : "Webhook added", description: payload.name });
+        setEditing(null);
+        fetchSubscriptions();
+      } catch (e: unknown) {
+        toast({ title: "Save failed", description: e instanceof Error ? e.message : "Could not save webhook", variant: "destructive" });
+      } finally {
+        setSubmitting(false);
+      }
+    };
+
+    return (
+      <Dialog open={!!editing} onOpenChange={() => setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{existing ? "Edit Webhook" : "New Webhook"}</DialogTitle>
+            <DialogDescription>Each event is POSTed as JSON and signed with the webhook's secret.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input placeholder="e.g. n8n notifications" value={form.name} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Endpoint URL</Label>
+              <Input placeholder="https://" value={form.url} onChange={e => setForm(prev => ({ ...prev, url: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="space-y-2 p-3 bg-gray-50 border border-gray-100 rounded-lg">
+                {WEBHOOK_EVENTS.map(event => (
+                  <label key={event.value} className="flex items-start gap-2 cursor-pointer">
+                    <Checkbox checked={form.event_types.includes(event.value)} onCheckedChange={() => toggleEvent(event.value)} className="mt-0.5" />
+                    <span>
+                      <span className="block text-sm font-bold text-gray-900">{event.label}</span>
+                      <span className="block text-xs text-gray-500">{event.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={submitting || !valid}>
+              {submitting ? "Saving..." : existing ? "Save Changes" : "Add Webhook"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-100">
+        <div>
+          <h2 className="text-xs font-bold text-gray-400 uppercase">Endpoints</h2>
+          <p className="text-xs text-gray-400 mt-0.5">
+            Verify the X-Webhook-Signature header: HMAC-SHA256 of "timestamp.body" with the secret.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setEditing("new")} className="gap-1 shrink-0">
+          <span className="material-symbols-outlined text-[18px]">add</span>
+          Add Webhook
+        </Button>
+      </div>
+
+      {loading && subscriptions.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm py-12">Loading...</p>
+      ) : subscriptions.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-400">No webhooks yet. Add one to send request events to another system.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {subscriptions.map(subscription => (
+            <div key={subscription.id} className={cn("px-4 py-4 space-y-2", !subscription.is_active && "opacity-60")}>
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-sm font-bold text-gray-900 truncate">{subscription.name}</h3>
+                    {!subscription.is_active && <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-gray-100 text-gray-500">Paused</span>}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate font-mono">{subscription.url}</p>
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <button onClick={() => setEditing(subscription)} className="p-1.5 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg" title="Edit">
+                    <span className="material-symbols-outlined text-[18px]">edit</span>
+                  </button>
+                  <button
+                    onClick={() => update(subscription, { is_active: !subscription.is_active }, subscription.is_active ? "Webhook paused" : "Webhook resumed")}
+                    disabled={busyId === subscription.id}
+                    className="p-1.5 text-gray-400 hover:text-primary hover:bg-gray-100 rounded-lg"
+                    title={subscription.is_active ? "Pause" : "Resume"}
+                  >
+                    <span className="material-symbols-outlined text-[18px]">{subscription.is_active ? "pause_circle" : "play_circle"}</span>
+                  </button>
+                  <button onClick={() => remove(subscription)} disabled={busyId === subscription.id} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-gray-100 rounded-lg" title="Delete">
+                    <span className="material-symbols-outlined text-[18px]">delete</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {subscription.event_types.map(event => (
+                  <span key={event} className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-primary/10 text-primary">{getEventLabel(event)}</span>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-bold text-gray-400 uppercase">Secret</span>
+                <code className="px-2 py-1 rounded bg-gray-50 border border-gray-100 text-gray-700 truncate max-w-[16rem] md:max-w-md">
+                  {revealedId === subscription.id ? subscription.secret : "•".repeat(24)}
+                </code>
+                <button
+                  onClick={() => setRevealedId(revealedId === subscription.id ? null : subscription.id)}
+                  className="p-1 text-gray-400 hover:text-primary rounded"
+                  title={revealedId === subscription.id ? "Hide" : "Reveal"}
+                >
+                  <span className="material-symbols-outlined text-[16px]">{revealedId === subscription.id ? "visibility_off" : "visibility"}</span>
+                </button>
+                <button onClick={() => copySecret(subscription)} className="p-1 text-gray-400 hover:text-primary rounded" title="Copy">
+                  <span className="material-symbols-outlined text-[16px]">content_copy</span>
+                </button>
+                <button onClick={() => rotateSecret(subscription)} disabled={busyId === subscription.id} className="p-1 text-gray-400 hover:text-primary rounded" title="Rotate secret">
+                  <span className="material-symbols-outlined text-[16px]">autorenew</span>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SubscriptionDialog />
+    </section>
+  );
+};
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Asset } from "@/lib/assets";
+
+/**
+ * The asset registry, archived assets included so old work orders still
+ * show their equipment. Staff only; the public form uses get_location_assets.
+ */
+export const useAssets = () => {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.from("assets").select("*").order("name");
+    if (error) {
+      console.error("Error loading assets:", error);
+    } else {
+      setAssets(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const assetsById = useMemo(() => new Map(assets.map((a) => [a.id, a])), [assets]);
+
+  /** Assets that can be picked for a request at `location`. */
+  const activeAt = useCallback(
+    (location: string) => assets.filter((a) => a.location === location && !a.archived_at),
+    [assets]
+  );
+
+  return { assets, assetsById, activeAt, loading, refresh };
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { AssignableProfile, groupAssignees } from "@/lib/assignees";
+
+/**
+ * Work request assignments plus the people who can be assigned. RLS limits
+ * volunteers to their own assignments, and `profiles` is empty for them.
+ */
+export const useAssignees = () => {
+  const [profiles, setProfiles] = useState<AssignableProfile[]>([]);
+  const [assignees, setAssignees] = useState<Record<string, string[]>>({});
+  const [myProfileId, setMyProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAssignees = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("work_request_assignees")
+      .select("work_request_id, profile_id");
+    if (error) {
+      console.error("Error loading assignees:", error);
+      return;
+    }
+    setAssignees(groupAssignees(data || []));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      const [profilesResult, meResult] = await Promise.all([
+        supabase.rpc("get_assignable_profiles"),
+        user
+          ? supabase.from("profiles").select("id").eq("user_id", user.id).maybeSingle()
+          : Promise.resolve({ data: null }),
+        fetchAssignees(),
+      ]);
+      if (cancelled) return;
+      setProfiles(profilesResult.data || []);
+      setMyProfileId(meResult.data?.id ?? null);
+      setLoading(false);
+    };
+
+    load();
+
+    const channel = supabase
+      .channel("work_request_assignees_changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "work_request_assignees" }, () => { fetchAssignees(); })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [fetchAssignees]);
+
+  const profilesById = useMemo(
+    () => Object.fromEntries(profiles.map((p) => [p.id, p])) as Record<string, AssignableProfile>,
+    [profiles]
+  );
+
+  const getAssignees = useCallback((requestId: string) => assignees[requestId] || [], [assignees]);
+
+  /** Replaces the assignees of a request. Throws the RPC error on failure. */
+  const saveAssignees = useCallback(async (requestId: string, profileIds: string[]) => {
+    const { error } = await supabase.rpc("set_work_request_assignees", {
+      _request_id: requestId,
+      _profile_ids: profileIds,
+    });
+    if (error) throw error;
+    setAssignees((prev) => ({ ...prev, [requestId]: profileIds }));
+  }, []);
+
+  return { profiles, profilesById, myProfileId, loading, getAssignees, saveAssignees, refetch: fetchAssignees };
+};
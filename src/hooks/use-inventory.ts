@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { InventoryItem } from "@/lib/inventory";
+
+/**
+ * The stock list, archived items included so old material lines still
+ * resolve. Readable by everyone who can log parts on a job.
+ */
+export const useInventory = () => {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.from("inventory_items").select("*").order("name");
+    if (error) {
+      console.error("Error loading inventory:", error);
+    } else {
+      setItems(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const itemsById = useMemo(() => new Map(items.map((i) => [i.id, i])), [items]);
+  const activeItems = useMemo(() => items.filter((i) => !i.archived_at), [items]);
+
+  return { items, itemsById, activeItems, loading, refresh };
+};
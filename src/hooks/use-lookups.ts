@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { LookupEntry, LookupKind, isActiveEntry } from "@/lib/lookups";
+
+type LookupLists = Record<LookupKind, LookupEntry[]>;
+
+const EMPTY: LookupLists = { departments: [], locations: [], categories: [] };
+
+// Shared across pages; the settings screen calls refresh() after edits
+let lookupsRequest: Promise<LookupLists> | null = null;
+const listeners = new Set<(lists: LookupLists) => void>();
+
+const fetchKind = async (kind: LookupKind) => {
+  const { data, error } = await supabase.from(kind).select("*").order("sort_order").order("name");
+  if (error) throw error;
+  return data || [];
+};
+
+const loadLookups = (force = false) => {
+  if (!lookupsRequest || force) {
+    lookupsRequest = Promise.all([fetchKind("departments"), fetchKind("locations"), fetchKind("categories")])
+      .then(([departments, locations, categories]) => {
+        const lists = { departments, locations, categories };
+        listeners.forEach((listener) => listener(lists));
+        return lists;
+      })
+      .catch((e) => {
+        lookupsRequest = null;
+        throw e;
+      });
+  }
+  return lookupsRequest;
+};
+
+/**
+ * Departments, locations and categories from the database. Lists include
+ * archived entries so old requests still get a label; use `active()` for
+ * pickers on new or edited requests.
+ */
+export const useLookups = () => {
+  const [lists, setLists] = useState<LookupLists>(EMPTY);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const listener = (next: LookupLists) => { if (!cancelled) setLists(next); };
+    listeners.add(listener);
+    loadLookups()
+      .then(listener)
+      .catch((e) => console.error("Error loading lookups:", e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const labels = useMemo(() => {
+    const map = {} as Record<LookupKind, Map<string, string>>;
+    (Object.keys(lists) as LookupKind[]).forEach((kind) => {
+      map[kind] = new Map(lists[kind].map((e) => [e.value, e.name]));
+    });
+    return map;
+  }, [lists]);
+
+  /** Display label for a stored value, falling back to the value itself. */
+  const getLabel = useCallback(
+    (kind: LookupKind, value: string | null | undefined) => (value ? labels[kind].get(value) ?? value : "—"),
+    [labels]
+  );
+
+  const active = useCallback((kind: LookupKind) => lists[kind].filter(isActiveEntry), [lists]);
+
+  const refresh = useCallback(() => loadLookups(true), []);
+
+  return { ...lists, loading, getLabel, active, refresh };
+};
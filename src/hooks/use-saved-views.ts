@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type WorkOrderView = Database["public"]["Tables"]["work_order_views"]["Row"];
+
+/**
+ * The user's saved work order views plus the ones staff have shared, and
+ * which of them is pinned as the user's default.
+ */
+export const useSavedViews = () => {
+  const [views, setViews] = useState<WorkOrderView[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchViews = useCallback(async () => {
+    const [viewsResult, defaultResult] = await Promise.all([
+      supabase.from("work_order_views").select("*").order("created_at", { ascending: true }),
+      supabase.from("work_order_view_defaults").select("view_id").maybeSingle(),
+    ]);
+    if (viewsResult.error) {
+      console.error("Error loading saved views:", viewsResult.error);
+      return;
+    }
+    setViews(viewsResult.data || []);
+    setDefaultViewId(defaultResult.data?.view_id ?? null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchViews(), supabase.auth.getUser()]).then(([, { data }]) => {
+      if (cancelled) return;
+      setUserId(data.user?.id ?? null);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [fetchViews]);
+
+  const saveView = async (name: string, filters: Record<string, string>, isShared: boolean) => {
+    const { data, error } = await supabase
+      .from("work_order_views")
+      .insert({ name: name.trim(), filters, is_shared: isShared })
+      .select()
+      .single();
+    if (error) throw error;
+    await fetchViews();
+    return data;
+  };
+
+  const updateView = async (id: string, changes: Database["public"]["Tables"]["work_order_views"]["Update"]) => {
+    const { error } = await supabase.from("work_order_views").update(changes).eq("id", id);
+    if (error) throw error;
+    await fetchViews();
+  };
+
+  const deleteView = async (id: string) => {
+    const { error } = await supabase.from("work_order_views").delete().eq("id", id);
+    if (error) throw error;
+    await fetchViews();
+  };
+
+  /** Pins a view as the user's default, or clears it with null. */
+  const setDefaultView = async (viewId: string | null) => {
+    if (!userId) return;
+    const { error } = viewId
+      ? await supabase.from("work_order_view_defaults").upsert({ user_id: userId, view_id: viewId, pinned_at: new Date().toISOString() })
+      : await supabase.from("work_order_view_defaults").delete().eq("user_id", userId);
+    if (error) throw error;
+    setDefaultViewId(viewId);
+  };
+
+  return { views, defaultViewId, userId, loading, saveView, updateView, deleteView, setDefaultView };
+};
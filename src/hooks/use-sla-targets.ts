@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { SlaTarget } from "@/lib/sla";
+
+// Shared across pages; the settings screen calls refresh() after edits
+let targetsRequest: Promise<SlaTarget[]> | null = null;
+const listeners = new Set<(targets: SlaTarget[]) => void>();
+
+const loadTargets = (force = false) => {
+  if (!targetsRequest || force) {
+    targetsRequest = Promise.resolve(
+      supabase.from("sla_targets").select("*").order("response_hours", { ascending: false })
+    ).then(({ data, error }) => {
+      if (error) {
+        targetsRequest = null;
+        throw error;
+      }
+      const targets = data || [];
+      listeners.forEach((listener) => listener(targets));
+      return targets;
+    });
+  }
+  return targetsRequest;
+};
+
+/** Response and resolution targets per priority, slowest first. */
+export const useSlaTargets = () => {
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const listener = (next: SlaTarget[]) => { if (!cancelled) setTargets(next); };
+    listeners.add(listener);
+    loadTargets()
+      .then(listener)
+      .catch((e) => console.error("Error loading SLA targets:", e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const targetsByPriority = useMemo(
+    () => Object.fromEntries(targets.map((t) => [t.priority, t])) as Partial<Record<string, SlaTarget>>,
+    [targets]
+  );
+
+  const refresh = useCallback(() => loadTargets(true), []);
+
+  return { targets, targetsByPriority, loading, refresh };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { AppRole, isApprover } from "@/lib/roles";
+
+export type StatusTransition = Database["public"]["Tables"]["work_status_transitions"]["Row"];
+
+// The table changes only with a migration, so one fetch per page load is enough
+let transitionsRequest: Promise<StatusTransition[]> | null = null;
+
+const loadTransitions = () => {
+  if (!transitionsRequest) {
+    transitionsRequest = Promise.resolve(
+      supabase.from("work_status_transitions").select("*").order("sort_order")
+    ).then(({ data, error }) => {
+      if (error) {
+        transitionsRequest = null;
+        throw error;
+      }
+      return data || [];
+    });
+  }
+  return transitionsRequest;
+};
+
+/**
+ * Allowed status transitions from the database. `getActions` returns the moves
+ * the given role may make from a status, in display order.
+ */
+export const useStatusTransitions = (role: AppRole | null) => {
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTransitions()
+      .then((data) => { if (!cancelled) setTransitions(data); })
+      .catch((e) => console.error("Error loading status transitions:", e));
+    return () => { cancelled = true; };
+  }, []);
+
+  const canApprove = isApprover(role);
+
+  const getActions = useCallback(
+    (status: string) =>
+      transitions.filter((t) => t.from_status === status && (canApprove || !t.requires_approver)),
+    [transitions, canApprove]
+  );
+
+  return { transitions, getActions };
+};
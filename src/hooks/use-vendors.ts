@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Vendor } from "@/lib/vendors";
+
+/**
+ * The vendor directory, archived vendors included so old work orders still
+ * show who did them. Staff only.
+ */
+export const useVendors = () => {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.from("vendors").select("*").order("name");
+    if (error) {
+      console.error("Error loading vendors:", error);
+    } else {
+      setVendors(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const vendorsById = useMemo(() => new Map(vendors.map((v) => [v.id, v])), [vendors]);
+  const activeVendors = useMemo(() => vendors.filter((v) => !v.archived_at), [vendors]);
+
+  return { vendors, vendorsById, activeVendors, loading, refresh };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { DEFAULT_FILTERS, WorkRequestFilters, readFilters, writeFilters } from "@/lib/work-request-search";
+
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Work order search state kept in the URL, so it survives a reload and can
+ * be shared. The search box is debounced: `searchInput` follows every
+ * keystroke and `filters.q` catches up once typing pauses.
+ */
+export const useWorkRequestFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  const [searchInput, setSearchInput] = useState(filters.q);
+  // The last query written to the URL, so our own writes don't reset the box mid-typing
+  const committedQuery = useRef(filters.q);
+
+  const updateFilters = useCallback((changes: Partial<WorkRequestFilters>) => {
+    setSearchParams((prev) => writeFilters(prev, { ...readFilters(prev), ...changes }), { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    const query = searchInput.trim();
+    if (query === filters.q) return;
+    const timeout = setTimeout(() => {
+      committedQuery.current = query;
+      updateFilters({ q: query });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.q, updateFilters]);
+
+  // Back/forward navigation or a cleared filter changed the query
+  useEffect(() => {
+    if (filters.q === committedQuery.current) return;
+    committedQuery.current = filters.q;
+    setSearchInput(filters.q);
+  }, [filters.q]);
+
+  const clearFilters = useCallback(() => {
+    updateFilters({ ...DEFAULT_FILTERS, sort: filters.sort, asc: filters.asc, view: filters.view });
+  }, [updateFilters, filters.sort, filters.asc, filters.view]);
+
+  /** Swaps in every filter from `params`, such as a saved view. */
+  const applyFilterParams = useCallback((params: URLSearchParams) => {
+    setSearchParams((prev) => writeFilters(prev, readFilters(params)), { replace: true });
+  }, [setSearchParams]);
+
+  return { filters, searchParams, updateFilters, clearFilters, applyFilterParams, searchInput, setSearchInput };
+};
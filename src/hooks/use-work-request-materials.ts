@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { MaterialLine } from "@/lib/costs";
+
+export type MaterialInput = Pick<MaterialLine, "description" | "quantity" | "unit_cost" | "vendor" | "inventory_item_id">;
+
+/** Parts and materials line items on one work order. */
+export const useWorkRequestMaterials = (workRequestId: string) => {
+  const [lines, setLines] = useState<MaterialLine[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("work_request_materials")
+      .select("*")
+      .eq("work_request_id", workRequestId)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error loading materials:", error);
+    } else {
+      setLines(data || []);
+    }
+    setLoading(false);
+  }, [workRequestId]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  const addLine = async (line: MaterialInput) => {
+    const { error } = await supabase.from("work_request_materials").insert({ ...line, work_request_id: workRequestId });
+    if (error) throw error;
+    await refresh();
+  };
+
+  const updateLine = async (id: string, changes: Partial<MaterialInput>) => {
+    const { error } = await supabase.from("work_request_materials").update(changes).eq("id", id);
+    if (error) throw error;
+    await refresh();
+  };
+
+  const removeLine = async (id: string) => {
+    const { error } = await supabase.from("work_request_materials").delete().eq("id", id);
+    if (error) throw error;
+    setLines((prev) => prev.filter((l) => l.id !== id));
+  };
+
+  return { lines, loading, refresh, addLine, updateLine, removeLine };
+};
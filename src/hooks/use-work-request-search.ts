@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { SearchHighlight, WorkRequestSearchArgs, searchWorkRequests } from "@/lib/work-request-search";
+
+/**
+ * One page of search_work_requests() at a time. Changing `args` goes back to
+ * the first page; any change to work_requests reloads the current one.
+ * `setRows` is for optimistic updates until that reload lands.
+ */
+export const useWorkRequestSearch = <T extends { id: string }>(args: WorkRequestSearchArgs, pageSize: number) => {
+  const [rows, setRows] = useState<T[]>([]);
+  const [highlights, setHighlights] = useState<Record<string, SearchHighlight>>({});
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  // cursors[i] fetches page i; the first page has none
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const argsKey = JSON.stringify(args);
+
+  const load = useCallback(async (cursor: string | null, showLoading = true) => {
+    const id = ++requestId.current;
+    if (showLoading) setLoading(true);
+    try {
+      const page = await searchWorkRequests<T>({ ...JSON.parse(argsKey), _cursor: cursor ?? undefined }, pageSize);
+      if (id !== requestId.current) return;
+      setRows(page.rows);
+      setHighlights(page.highlights);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (e: unknown) {
+      if (id !== requestId.current) return;
+      setError(e instanceof Error ? e : new Error("Search failed"));
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [argsKey, pageSize]);
+
+  useEffect(() => {
+    setCursors([null]);
+    setPageIndex(0);
+    load(null);
+  }, [load]);
+
+  const currentCursor = cursors[pageIndex] ?? null;
+  const refresh = useCallback(() => load(currentCursor, false), [load, currentCursor]);
+
+  // Subscribed once; the handler always reloads whichever page is showing
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+  useEffect(() => {
+    const channel = supabase
+      .channel(`work_request_search_${crypto.randomUUID()}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "work_requests" }, () => { refreshRef.current(); })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const nextPage = () => {
+    if (!nextCursor) return;
+    setCursors((prev) => [...prev.slice(0, pageIndex + 1), nextCursor]);
+    setPageIndex(pageIndex + 1);
+    load(nextCursor);
+  };
+
+  const prevPage = () => {
+    if (pageIndex === 0) return;
+    setPageIndex(pageIndex - 1);
+    load(cursors[pageIndex - 1]);
+  };
+
+  return {
+    rows,
+    setRows,
+    highlights,
+    total,
+    loading,
+    error,
+    /** Zero-based */
+    pageIndex,
+    hasNextPage: !!nextCursor,
+    hasPrevPage: pageIndex > 0,
+    nextPage,
+    prevPage,
+    refresh,
+  };
+};
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type WorkRequestStats = Database["public"]["Functions"]["get_work_request_stats"]["Returns"][number];
+
+const EMPTY_STATS: WorkRequestStats = {
+  total: 0, pending: 0, approved: 0, in_progress: 0, completed: 0, open_high_priority: 0, open_breached: 0,
+};
+
+/** Dashboard counts over every work request the user can see, kept live. */
+export const useWorkRequestStats = () => {
+  const [stats, setStats] = useState<WorkRequestStats>(EMPTY_STATS);
+
+  const fetchStats = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_work_request_stats");
+    if (error) {
+      console.error("Error loading work request stats:", error);
+      return;
+    }
+    setStats(data?.[0] ?? EMPTY_STATS);
+  }, []);
+
+  useEffect(() => {
+    fetchStats();
+    const channel = supabase
+      .channel(`work_request_stats_${crypto.randomUUID()}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "work_requests" }, () => { fetchStats(); })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [fetchStats]);
+
+  return { stats, refresh: fetchStats };
+};
@@ -14,225 +14,1815 @@ export type Database = {
   }
   public: {
     Tables: {
+      approval_chain_steps: {
+        Row: {
+          approver_profile_id: string
+          created_at: string
+          department: string | null
+          id: string
+          label: string
+          min_estimated_cost: number
+          step_order: number
+          updated_at: string
+        }
+        Insert: {
+          approver_profile_id: string
+          created_at?: string
+          department?: string | null
+          id?: string
+          label: string
+          min_estimated_cost?: number
+          step_order?: number
+          updated_at?: string
+        }
+        Update: {
+          approver_profile_id?: string
+          created_at?: string
+          department?: string | null
+          id?: string
+          label?: string
+          min_estimated_cost?: number
+          step_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chain_steps_approver_profile_id_fkey"
+            columns: ["approver_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chain_steps_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["value"]
+          },
+        ]
+      }
+      assets: {
+        Row: {
+          archived_at: string | null
+          asset_type: string
+          created_at: string
+          created_by: string | null
+          id: string
+          install_date: string | null
+          location: string
+          make: string | null
+          model: string | null
+          name: string
+          notes: string
+          serial_number: string | null
+          updated_at: string
+          warranty_expires_on: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          asset_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          install_date?: string | null
+          location: string
+          make?: string | null
+          model?: string | null
+          name: string
+          notes?: string
+          serial_number?: string | null
+          updated_at?: string
+          warranty_expires_on?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          asset_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          install_date?: string | null
+          location?: string
+          make?: string | null
+          model?: string | null
+          name?: string
+          notes?: string
+          serial_number?: string | null
+          updated_at?: string
+          warranty_expires_on?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assets_location_fkey"
+            columns: ["location"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["value"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      departments: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          body: string | null
+          context: Json
+          created_at: string
+          event_id: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          sent_at: string | null
+          status: string
+          subject: string | null
+          template: string
+          updated_at: string
+          work_request_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          body?: string | null
+          context?: Json
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          template: string
+          updated_at?: string
+          work_request_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          body?: string | null
+          context?: Json
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          template?: string
+          updated_at?: string
+          work_request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "work_request_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_template_fkey"
+            columns: ["template"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["event"]
+          },
+          {
+            foreignKeyName: "email_outbox_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          event: string
+          is_enabled: boolean
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          event: string
+          is_enabled?: boolean
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          event?: string
+          is_enabled?: boolean
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      inventory_adjustments: {
+        Row: {
+          change: number
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          id: string
+          item_id: string
+          note: string | null
+          purchase_task_id: string | null
+          quantity_after: number
+          reason: string
+          work_request_id: string | null
+        }
+        Insert: {
+          change?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: string
+          item_id: string
+          note?: string | null
+          purchase_task_id?: string | null
+          quantity_after?: number
+          reason: string
+          work_request_id?: string | null
+        }
+        Update: {
+          change?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: string
+          item_id?: string
+          note?: string | null
+          purchase_task_id?: string | null
+          quantity_after?: number
+          reason?: string
+          work_request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_adjustments_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_adjustments_purchase_task_id_fkey"
+            columns: ["purchase_task_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_purchase_tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_adjustments_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_items: {
+        Row: {
+          archived_at: string | null
+          bin: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          location: string | null
+          name: string
+          notes: string
+          quantity_on_hand: number
+          reorder_quantity: number | null
+          reorder_threshold: number
+          sku: string | null
+          unit: string
+          unit_cost: number
+          updated_at: string
+          vendor: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          bin?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          notes?: string
+          quantity_on_hand?: number
+          reorder_quantity?: number | null
+          reorder_threshold?: number
+          sku?: string | null
+          unit?: string
+          unit_cost?: number
+          updated_at?: string
+          vendor?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          bin?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          notes?: string
+          quantity_on_hand?: number
+          reorder_quantity?: number | null
+          reorder_threshold?: number
+          sku?: string | null
+          unit?: string
+          unit_cost?: number
+          updated_at?: string
+          vendor?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_items_location_fkey"
+            columns: ["location"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["value"]
+          },
+        ]
+      }
+      inventory_purchase_tasks: {
+        Row: {
+          closed_at: string | null
+          closed_by_name: string | null
+          created_at: string
+          id: string
+          item_id: string
+          notes: string | null
+          ordered_at: string | null
+          ordered_by_name: string | null
+          quantity: number
+          status: string
+          stock_at_alert: number
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          id?: string
+          item_id: string
+          notes?: string | null
+          ordered_at?: string | null
+          ordered_by_name?: string | null
+          quantity: number
+          status?: string
+          stock_at_alert: number
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          id?: string
+          item_id?: string
+          notes?: string | null
+          ordered_at?: string | null
+          ordered_by_name?: string | null
+          quantity?: number
+          status?: string
+          stock_at_alert?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_purchase_tasks_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      maintenance_schedules: {
+        Row: {
+          category: string
+          checklist: Json
+          created_at: string
+          created_by: string | null
+          department: string
+          description: string
+          ends_on: string | null
+          estimated_hours: number | null
+          frequency: string
+          id: string
+          interval_count: number
+          is_active: boolean
+          last_error: string | null
+          last_generated_on: string | null
+          lead_days: number
+          location: string
+          next_due_on: string | null
+          next_occurrence: number
+          priority: Database["public"]["Enums"]["priority_level"]
+          requestor_email: string
+          requestor_name: string
+          starts_on: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          checklist?: Json
+          created_at?: string
+          created_by?: string | null
+          department: string
+          description?: string
+          ends_on?: string | null
+          estimated_hours?: number | null
+          frequency: string
+          id?: string
+          interval_count?: number
+          is_active?: boolean
+          last_error?: string | null
+          last_generated_on?: string | null
+          lead_days?: number
+          location: string
+          next_due_on?: string | null
+          next_occurrence?: number
+          priority?: Database["public"]["Enums"]["priority_level"]
+          requestor_email: string
+          requestor_name: string
+          starts_on: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          checklist?: Json
+          created_at?: string
+          created_by?: string | null
+          department?: string
+          description?: string
+          ends_on?: string | null
+          estimated_hours?: number | null
+          frequency?: string
+          id?: string
+          interval_count?: number
+          is_active?: boolean
+          last_error?: string | null
+          last_generated_on?: string | null
+          lead_days?: number
+          location?: string
+          next_due_on?: string | null
+          next_occurrence?: number
+          priority?: Database["public"]["Enums"]["priority_level"]
+          requestor_email?: string
+          requestor_name?: string
+          starts_on?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      on_call_staff: {
+        Row: {
+          added_at: string
+          added_by: string | null
+          profile_id: string
+        }
+        Insert: {
+          added_at?: string
+          added_by?: string | null
+          profile_id: string
+        }
+        Update: {
+          added_at?: string
+          added_by?: string | null
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "on_call_staff_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       personal_tasks: {
         Row: {
           created_at: string
-          description: string | null
+          description: string | null
+          id: string
+          priority: Database["public"]["Enums"]["priority_level"] | null
+          status: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          priority?: Database["public"]["Enums"]["priority_level"] | null
+          status?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          priority?: Database["public"]["Enums"]["priority_level"] | null
+          status?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          department: string | null
+          email: string | null
+          id: string
+          name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          email?: string | null
+          id?: string
+          name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          email?: string | null
+          id?: string
+          name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sla_targets: {
+        Row: {
+          at_risk_percent: number
+          priority: Database["public"]["Enums"]["priority_level"]
+          resolution_hours: number
+          response_hours: number
+          updated_at: string
+        }
+        Insert: {
+          at_risk_percent?: number
+          priority: Database["public"]["Enums"]["priority_level"]
+          resolution_hours: number
+          response_hours: number
+          updated_at?: string
+        }
+        Update: {
+          at_risk_percent?: number
+          priority?: Database["public"]["Enums"]["priority_level"]
+          resolution_hours?: number
+          response_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      staff_labor_rates: {
+        Row: {
+          hourly_rate: number
+          profile_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          hourly_rate: number
+          profile_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          hourly_rate?: number
+          profile_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_labor_rates_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vendors: {
+        Row: {
+          archived_at: string | null
+          call_out_fee: number | null
+          contact_name: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          hourly_rate: number | null
+          id: string
+          insurance_expires_on: string | null
+          name: string
+          notes: string
+          phone: string | null
+          rate_notes: string | null
+          trade: string
+          updated_at: string
+          website: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          call_out_fee?: number | null
+          contact_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          hourly_rate?: number | null
+          id?: string
+          insurance_expires_on?: string | null
+          name: string
+          notes?: string
+          phone?: string | null
+          rate_notes?: string | null
+          trade?: string
+          updated_at?: string
+          website?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          call_out_fee?: number | null
+          contact_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          hourly_rate?: number | null
+          id?: string
+          insurance_expires_on?: string | null
+          name?: string
+          notes?: string
+          phone?: string | null
+          rate_notes?: string | null
+          trade?: string
+          updated_at?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event_id: string | null
+          event_type: string
           id: string
-          priority: Database["public"]["Enums"]["priority_level"] | null
-          status: string | null
-          title: string
+          last_attempt_at: string | null
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          replay_of: string | null
+          request_id: number | null
+          response_body: string | null
+          response_status: number | null
+          status: string
+          subscription_id: string
+          work_request_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event_id?: string | null
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          replay_of?: string | null
+          request_id?: number | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          subscription_id: string
+          work_request_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event_id?: string | null
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          replay_of?: string | null
+          request_id?: number | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          subscription_id?: string
+          work_request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "work_request_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          event_types: string[]
+          id: string
+          is_active: boolean
+          name: string
+          secret: string
           updated_at: string
-          user_id: string
+          url: string
         }
         Insert: {
           created_at?: string
-          description?: string | null
+          created_by?: string | null
+          event_types?: string[]
           id?: string
-          priority?: Database["public"]["Enums"]["priority_level"] | null
-          status?: string | null
-          title: string
+          is_active?: boolean
+          name: string
+          secret?: string
           updated_at?: string
-          user_id: string
+          url: string
         }
         Update: {
           created_at?: string
-          description?: string | null
+          created_by?: string | null
+          event_types?: string[]
           id?: string
-          priority?: Database["public"]["Enums"]["priority_level"] | null
-          status?: string | null
-          title?: string
+          is_active?: boolean
+          name?: string
+          secret?: string
           updated_at?: string
-          user_id?: string
+          url?: string
         }
         Relationships: []
       }
-      profiles: {
+      work_order_view_defaults: {
+        Row: {
+          pinned_at: string
+          user_id: string
+          view_id: string
+        }
+        Insert: {
+          pinned_at?: string
+          user_id?: string
+          view_id: string
+        }
+        Update: {
+          pinned_at?: string
+          user_id?: string
+          view_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_view_defaults_view_id_fkey"
+            columns: ["view_id"]
+            isOneToOne: false
+            referencedRelation: "work_order_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_views: {
         Row: {
           created_at: string
-          department: string | null
-          email: string | null
+          filters: Json
           id: string
-          name: string | null
+          is_shared: boolean
+          name: string
+          owner_id: string
           updated_at: string
-          user_id: string
         }
         Insert: {
           created_at?: string
-          department?: string | null
-          email?: string | null
+          filters?: Json
           id?: string
-          name?: string | null
+          is_shared?: boolean
+          name: string
+          owner_id?: string
           updated_at?: string
-          user_id: string
         }
         Update: {
           created_at?: string
-          department?: string | null
-          email?: string | null
+          filters?: Json
           id?: string
-          name?: string | null
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: []
       }
-      user_roles: {
+      work_request_approvals: {
         Row: {
+          approver_name: string | null
+          approver_profile_id: string | null
+          chain_step_id: string | null
+          comment: string | null
           created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decided_by_name: string | null
+          decision: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          label: string
+          link_expires_at: string | null
+          link_nonce: string | null
+          step_order: number
+          work_request_id: string
         }
         Insert: {
+          approver_name?: string | null
+          approver_profile_id?: string | null
+          chain_step_id?: string | null
+          comment?: string | null
           created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decided_by_name?: string | null
+          decision?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          label: string
+          link_expires_at?: string | null
+          link_nonce?: string | null
+          step_order: number
+          work_request_id: string
         }
         Update: {
+          approver_name?: string | null
+          approver_profile_id?: string | null
+          chain_step_id?: string | null
+          comment?: string | null
           created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decided_by_name?: string | null
+          decision?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          label?: string
+          link_expires_at?: string | null
+          link_nonce?: string | null
+          step_order?: number
+          work_request_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "work_request_approvals_approver_profile_id_fkey"
+            columns: ["approver_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_request_approvals_chain_step_id_fkey"
+            columns: ["chain_step_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chain_steps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_request_approvals_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_assignees: {
+        Row: {
+          assigned_at: string
+          assigned_by: string | null
+          profile_id: string
+          work_request_id: string
+        }
+        Insert: {
+          assigned_at?: string
+          assigned_by?: string | null
+          profile_id: string
+          work_request_id: string
+        }
+        Update: {
+          assigned_at?: string
+          assigned_by?: string | null
+          profile_id?: string
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_assignees_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_request_assignees_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+          work_request_id: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+          work_request_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_attachments_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          created_at: string
+          event_type: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          reason: string | null
+          work_request_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          reason?: string | null
+          work_request_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          reason?: string | null
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_events_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_materials: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          description: string
+          id: string
+          inventory_item_id: string | null
+          line_total: number | null
+          quantity: number
+          unit_cost: number
+          updated_at: string
+          vendor: string | null
+          work_request_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description: string
+          id?: string
+          inventory_item_id?: string | null
+          line_total?: never
+          quantity?: number
+          unit_cost?: number
+          updated_at?: string
+          vendor?: string | null
+          work_request_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string
+          id?: string
+          inventory_item_id?: string | null
+          line_total?: never
+          quantity?: number
+          unit_cost?: number
+          updated_at?: string
+          vendor?: string | null
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_materials_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_request_materials_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_messages: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          author_type: string
+          body: string
+          created_at: string
+          id: string
+          work_request_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          author_type: string
+          body: string
+          created_at?: string
+          id?: string
+          work_request_id: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          author_type?: string
+          body?: string
+          created_at?: string
+          id?: string
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_messages_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_note_revisions: {
+        Row: {
+          body: string
+          edited_at: string
+          edited_by: string | null
+          id: string
+          mentions: string[]
+          note_id: string
+        }
+        Insert: {
+          body: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          mentions?: string[]
+          note_id: string
+        }
+        Update: {
+          body?: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          mentions?: string[]
+          note_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "work_request_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_request_notes: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          search_vector: unknown | null
+          updated_at: string
+          work_request_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          search_vector?: never
+          updated_at?: string
+          work_request_id: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          search_vector?: never
+          updated_at?: string
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_request_notes_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       work_requests: {
         Row: {
+          access_token: string
           actual_hours: number | null
           approval_checklist: Json | null
           approved_at: string | null
           approved_by: string | null
+          approved_by_id: string | null
+          asset_id: string | null
           category: string
           completed_at: string | null
           completed_by: string | null
+          completed_by_id: string | null
           completion_notes: string | null
           created_at: string | null
           date_changed_reason: string | null
           department: string
           description: string
+          due_at: string | null
+          estimated_cost: number | null
           estimated_hours: number | null
           id: string
+          is_emergency: boolean
           is_timer_active: boolean | null
+          labor_cost: number | null
+          labor_rate: number | null
           location: string
+          maintenance_schedule_id: string | null
+          materials_cost: number
           priority: Database["public"]["Enums"]["priority_level"] | null
           rejected_at: string | null
           rejected_by: string | null
+          rejected_by_id: string | null
           rejected_reason: string | null
           requested_date: string
           requestor_email: string
           requestor_name: string
           requestor_phone: string | null
+          responded_at: string | null
+          response_due_at: string | null
+          search_vector: unknown | null
+          sla_breached_at: string | null
+          sla_status: string | null
           started_at: string | null
           started_by: string | null
+          started_by_id: string | null
           status: Database["public"]["Enums"]["work_status"] | null
           timer_paused_at: string | null
           timer_started_at: string | null
           title: string
           total_elapsed_seconds: number | null
           updated_at: string | null
+          vendor_assigned_at: string | null
+          vendor_expected_date: string | null
+          vendor_id: string | null
+          vendor_invoice_amount: number | null
+          vendor_quote: number | null
           work_order_id: string | null
         }
         Insert: {
+          access_token?: string
           actual_hours?: number | null
           approval_checklist?: Json | null
           approved_at?: string | null
           approved_by?: string | null
+          approved_by_id?: string | null
+          asset_id?: string | null
           category: string
           completed_at?: string | null
           completed_by?: string | null
+          completed_by_id?: string | null
           completion_notes?: string | null
           created_at?: string | null
           date_changed_reason?: string | null
           department: string
           description: string
+          due_at?: string | null
+          estimated_cost?: number | null
           estimated_hours?: number | null
           id?: string
+          is_emergency?: boolean
           is_timer_active?: boolean | null
+          labor_cost?: number | null
+          labor_rate?: number | null
           location: string
+          maintenance_schedule_id?: string | null
+          materials_cost?: number
           priority?: Database["public"]["Enums"]["priority_level"] | null
           rejected_at?: string | null
           rejected_by?: string | null
+          rejected_by_id?: string | null
           rejected_reason?: string | null
           requested_date: string
           requestor_email: string
           requestor_name: string
           requestor_phone?: string | null
+          responded_at?: string | null
+          response_due_at?: string | null
+          search_vector?: unknown | null
+          sla_breached_at?: string | null
+          sla_status?: string | null
           started_at?: string | null
           started_by?: string | null
+          started_by_id?: string | null
           status?: Database["public"]["Enums"]["work_status"] | null
           timer_paused_at?: string | null
           timer_started_at?: string | null
           title: string
           total_elapsed_seconds?: number | null
           updated_at?: string | null
+          vendor_assigned_at?: string | null
+          vendor_expected_date?: string | null
+          vendor_id?: string | null
+          vendor_invoice_amount?: number | null
+          vendor_quote?: number | null
           work_order_id?: string | null
         }
         Update: {
+          access_token?: string
           actual_hours?: number | null
           approval_checklist?: Json | null
           approved_at?: string | null
           approved_by?: string | null
+          approved_by_id?: string | null
+          asset_id?: string | null
           category?: string
           completed_at?: string | null
           completed_by?: string | null
+          completed_by_id?: string | null
           completion_notes?: string | null
           created_at?: string | null
           date_changed_reason?: string | null
           department?: string
           description?: string
+          due_at?: string | null
+          estimated_cost?: number | null
           estimated_hours?: number | null
           id?: string
+          is_emergency?: boolean
           is_timer_active?: boolean | null
+          labor_cost?: number | null
+          labor_rate?: number | null
           location?: string
+          maintenance_schedule_id?: string | null
+          materials_cost?: number
           priority?: Database["public"]["Enums"]["priority_level"] | null
           rejected_at?: string | null
           rejected_by?: string | null
+          rejected_by_id?: string | null
           rejected_reason?: string | null
           requested_date?: string
           requestor_email?: string
           requestor_name?: string
           requestor_phone?: string | null
+          responded_at?: string | null
+          response_due_at?: string | null
+          search_vector?: unknown | null
+          sla_breached_at?: string | null
+          sla_status?: string | null
           started_at?: string | null
           started_by?: string | null
+          started_by_id?: string | null
           status?: Database["public"]["Enums"]["work_status"] | null
           timer_paused_at?: string | null
           timer_started_at?: string | null
           title?: string
           total_elapsed_seconds?: number | null
           updated_at?: string | null
+          vendor_assigned_at?: string | null
+          vendor_expected_date?: string | null
+          vendor_id?: string | null
+          vendor_invoice_amount?: number | null
+          vendor_quote?: number | null
           work_order_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "work_requests_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_requests_maintenance_schedule_id_fkey"
+            columns: ["maintenance_schedule_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_requests_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_status_transitions: {
+        Row: {
+          action: string
+          from_status: Database["public"]["Enums"]["work_status"]
+          label: string
+          requires_approver: boolean
+          sort_order: number
+          to_status: Database["public"]["Enums"]["work_status"]
+        }
+        Insert: {
+          action: string
+          from_status: Database["public"]["Enums"]["work_status"]
+          label: string
+          requires_approver?: boolean
+          sort_order?: number
+          to_status: Database["public"]["Enums"]["work_status"]
+        }
+        Update: {
+          action?: string
+          from_status?: Database["public"]["Enums"]["work_status"]
+          label?: string
+          requires_approver?: boolean
+          sort_order?: number
+          to_status?: Database["public"]["Enums"]["work_status"]
+        }
         Relationships: []
       }
+      work_time_entries: {
+        Row: {
+          actor_name: string | null
+          created_at: string
+          duration_seconds: number | null
+          ended_at: string | null
+          ended_by_id: string | null
+          ended_by_name: string | null
+          id: string
+          started_at: string
+          user_id: string | null
+          work_request_id: string
+        }
+        Insert: {
+          actor_name?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          ended_by_id?: string | null
+          ended_by_name?: string | null
+          id?: string
+          started_at?: string
+          user_id?: string | null
+          work_request_id: string
+        }
+        Update: {
+          actor_name?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          ended_by_id?: string | null
+          ended_by_name?: string | null
+          id?: string
+          started_at?: string
+          user_id?: string | null
+          work_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_time_entries_work_request_id_fkey"
+            columns: ["work_request_id"]
+            isOneToOne: false
+            referencedRelation: "work_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      get_work_requests_by_email: {
-        Args: { _email: string }
-        Returns: Database["public"]["Tables"]["work_requests"]["Row"][]
-      }
       approve_work_request: {
-        Args: { _approved_by_user: string; _request_id: string }
+        Args: { _request_id: string }
         Returns: string
       }
+      build_work_request_search_vector: {
+        Args: { _request: Database["public"]["Tables"]["work_requests"]["Row"] }
+        Returns: unknown
+      }
+      bulk_update_work_requests: {
+        Args: {
+          _action: string
+          _priority?: Database["public"]["Enums"]["priority_level"]
+          _profile_ids?: string[]
+          _reason?: string
+          _request_ids: string[]
+          _requested_date?: string
+        }
+        Returns: {
+          message: string
+          request_id: string
+          succeeded: boolean
+        }[]
+      }
+      can_attach_to_work_request: {
+        Args: { _request_id: string }
+        Returns: boolean
+      }
+      can_access_work_request_notes: {
+        Args: { _request_id: string }
+        Returns: boolean
+      }
+      can_edit_work_request_costs: {
+        Args: { _request_id: string }
+        Returns: boolean
+      }
+      claim_email_outbox: {
+        Args: { _limit?: number; _outbox_id?: string }
+        Returns: {
+          attempts: number
+          body: string | null
+          context: Json
+          created_at: string
+          event_id: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          sent_at: string | null
+          status: string
+          subject: string | null
+          template: string
+          updated_at: string
+          work_request_id: string | null
+        }[]
+      }
+      check_approval_link: {
+        Args: { _approval_id: string; _nonce: string }
+        Returns: Database["public"]["Tables"]["work_request_approvals"]["Row"]
+      }
       complete_work: {
         Args: {
           actual_hours_worked?: number
-          completed_by_user: string
           notes?: string
           started_id: string
         }
         Returns: string
       }
+      compute_sla_status: {
+        Args: {
+          _now?: string
+          _request: Database["public"]["Tables"]["work_requests"]["Row"]
+        }
+        Returns: string
+      }
+      current_actor_name: { Args: never; Returns: string }
+      decide_work_request_approval: {
+        Args: { _approval_id: string; _comment?: string; _decision: string }
+        Returns: Database["public"]["Enums"]["work_status"]
+      }
+      decide_work_request_approval_by_link: {
+        Args: {
+          _approval_id: string
+          _comment?: string
+          _decision: string
+          _nonce: string
+        }
+        Returns: Database["public"]["Enums"]["work_status"]
+      }
+      generate_access_token: { Args: never; Returns: string }
+      generate_maintenance_work_orders: {
+        Args: { _schedule_id?: string }
+        Returns: number
+      }
       generate_work_order_id: { Args: never; Returns: string }
+      get_approval_link: {
+        Args: { _approval_id: string; _nonce: string }
+        Returns: {
+          approval_id: string
+          approver_name: string
+          department: string
+          description: string
+          estimated_cost: number
+          link_expires_at: string
+          location: string
+          requestor_name: string
+          step_count: number
+          step_label: string
+          step_number: number
+          title: string
+          work_order_id: string
+        }[]
+      }
+      get_assignable_profiles: {
+        Args: never
+        Returns: {
+          email: string
+          id: string
+          name: string
+          role: string
+          user_id: string
+        }[]
+      }
+      get_location_assets: {
+        Args: { _location: string }
+        Returns: {
+          asset_type: string
+          id: string
+          name: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_work_request_by_token: {
+        Args: { _token: string }
+        Returns: {
+          actual_hours: number
+          category: string
+          completed_at: string
+          completion_notes: string
+          created_at: string
+          department: string
+          description: string
+          id: string
+          location: string
+          priority: Database["public"]["Enums"]["priority_level"]
+          rejected_reason: string
+          requested_date: string
+          started_at: string
+          status: Database["public"]["Enums"]["work_status"]
+          title: string
+          work_order_id: string
+        }[]
+      }
+      get_work_request_events_by_token: {
+        Args: { _token: string }
+        Returns: {
+          actor_name: string
+          created_at: string
+          event_type: string
+          id: string
+          new_value: string
+          old_value: string
+          reason: string
+        }[]
+      }
+      get_work_request_messages_by_token: {
+        Args: { _token: string }
+        Returns: {
+          author_name: string
+          author_type: string
+          body: string
+          created_at: string
+          id: string
+        }[]
+      }
+      get_work_request_stats: {
+        Args: never
+        Returns: {
+          approved: number
+          completed: number
+          in_progress: number
+          open_breached: number
+          open_high_priority: number
+          pending: number
+          total: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -240,37 +1830,136 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_email_sender: {
+        Args: { _outbox_id?: string }
+        Returns: undefined
+      }
+      is_approver: { Args: { _user_id: string }; Returns: boolean }
+      is_staff: { Args: { _user_id: string }; Returns: boolean }
+      is_work_request_assignee: {
+        Args: { _request_id: string }
+        Returns: boolean
+      }
+      is_work_request_requestor: {
+        Args: { _request_id: string }
+        Returns: boolean
+      }
+      maintenance_occurrence: {
+        Args: {
+          _frequency: string
+          _interval_count: number
+          _n: number
+          _starts_on: string
+        }
+        Returns: string
+      }
+      plan_work_request_approvals: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      post_work_request_message_by_token: {
+        Args: { _body: string; _token: string }
+        Returns: string
+      }
+      process_webhook_deliveries: { Args: never; Returns: number }
+      queue_approval_request_email: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      refresh_sla_statuses: { Args: never; Returns: number }
+      replay_webhook_delivery: {
+        Args: { _delivery_id: string }
+        Returns: string
+      }
+      request_status_links: { Args: { _email: string }; Returns: undefined }
+      resend_approval_request_email: {
+        Args: { _approval_id: string }
+        Returns: undefined
+      }
+      search_work_requests: {
+        Args: {
+          _ascending?: boolean
+          _assignee?: string
+          _cursor?: string
+          _department?: string
+          _from?: string
+          _limit?: number
+          _priority?: string
+          _query?: string
+          _sla?: string
+          _sort?: string
+          _statuses?: Database["public"]["Enums"]["work_status"][]
+          _to?: string
+        }
+        Returns: {
+          description_highlight: string
+          notes_match: boolean
+          request: Json
+          row_cursor: string
+          title_highlight: string
+          total_count: number
+        }[]
+      }
+      send_webhook_delivery: {
+        Args: { _delivery_id: string }
+        Returns: undefined
+      }
+      set_work_request_estimated_cost: {
+        Args: { _estimated_cost: number; _request_id: string }
+        Returns: string
+      }
+      set_work_request_assignees: {
+        Args: { _profile_ids: string[]; _request_id: string }
+        Returns: undefined
+      }
+      sla_clock_start: {
+        Args: { _request: Database["public"]["Tables"]["work_requests"]["Row"] }
+        Returns: string
+      }
       start_work: {
-        Args: { approved_id: string; started_by_user: string }
+        Args: { approved_id: string }
+        Returns: string
+      }
+      submit_work_request: {
+        Args: {
+          _asset_id?: string
+          _category?: string
+          _department: string
+          _description: string
+          _is_emergency?: boolean
+          _location: string
+          _priority: Database["public"]["Enums"]["priority_level"]
+          _requested_date: string
+          _requestor_email: string
+          _requestor_name: string
+          _requestor_phone?: string
+          _title: string
+        }
+        Returns: {
+          access_token: string
+          id: string
+          work_order_id: string
+        }[]
+      }
+      update_work_request_status: {
+        Args: {
+          _hours?: number
+          _new_requested_date?: string
+          _notes?: string
+          _reason?: string
+          _request_id: string
+          _status: Database["public"]["Enums"]["work_status"]
+        }
         Returns: string
       }
-      update_work_request_status:
-        | {
-            Args: {
-              _hours?: number
-              _new_requested_date?: string
-              _notes?: string
-              _reason?: string
-              _request_id: string
-              _status: Database["public"]["Enums"]["work_status"]
-              _user_name?: string
-            }
-            Returns: string
-          }
-        | {
-            Args: {
-              _hours?: number
-              _notes?: string
-              _reason?: string
-              _request_id: string
-              _status: Database["public"]["Enums"]["work_status"]
-              _user_name?: string
-            }
-            Returns: string
-          }
+      work_request_labor_rate: {
+        Args: { _request_id: string }
+        Returns: number
+      }
+      work_request_search_query: { Args: { _query: string }; Returns: unknown }
     }
     Enums: {
-      app_role: "admin" | "employee"
+      app_role: "admin" | "employee" | "manager" | "volunteer"
       priority_level: "low" | "medium" | "high" | "urgent"
       request_status:
         | "pending"
@@ -412,7 +2101,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "employee"],
+      app_role: ["admin", "employee", "manager", "volunteer"],
       priority_level: ["low", "medium", "high", "urgent"],
       request_status: [
         "pending",
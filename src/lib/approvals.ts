@@ -0,0 +1,30 @@
+import type { Database } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/costs";
+
+export type ApprovalChainStep = Database["public"]["Tables"]["approval_chain_steps"]["Row"];
+export type WorkRequestApproval = Database["public"]["Tables"]["work_request_approvals"]["Row"];
+
+export type ApprovalDecision = "approved" | "rejected";
+
+export const APPROVAL_DECISION_META: Record<ApprovalDecision | "waiting" | "not_reached", { label: string; icon: string; className: string }> = {
+  approved: { label: "Approved", icon: "check_circle", className: "text-green-600" },
+  rejected: { label: "Rejected", icon: "cancel", className: "text-red-600" },
+  waiting: { label: "Waiting", icon: "hourglass_top", className: "text-amber-600" },
+  not_reached: { label: "Not reached", icon: "radio_button_unchecked", className: "text-gray-300" },
+};
+
+/** Steps in the order they are decided. */
+export const sortApprovals = <T extends Pick<WorkRequestApproval, "step_order" | "created_at">>(approvals: T[]) =>
+  [...approvals].sort((a, b) => a.step_order - b.step_order || a.created_at.localeCompare(b.created_at));
+
+/** The step up for decision: the first one nobody has decided, unless the chain was rejected. */
+export const getOpenApproval = <T extends Pick<WorkRequestApproval, "step_order" | "created_at" | "decision">>(approvals: T[]) =>
+  approvals.some((a) => a.decision === "rejected") ? undefined : sortApprovals(approvals).find((a) => !a.decision);
+
+/** How a step reads in the chain, given the step currently open. */
+export const getApprovalState = (approval: WorkRequestApproval, open: WorkRequestApproval | undefined) =>
+  (approval.decision as ApprovalDecision | null) ?? (approval.id === open?.id ? "waiting" : "not_reached");
+
+/** "Any cost" or "From $1,000.00" */
+export const describeCostBand = (minEstimatedCost: number) =>
+  minEstimatedCost > 0 ? `From ${formatCurrency(minEstimatedCost)}` : "Any cost";
@@ -0,0 +1,57 @@
+import { addDays, isBefore, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+import { secondsToHours } from "@/lib/work-timer";
+
+export type Asset = Database["public"]["Tables"]["assets"]["Row"];
+export type LocationAsset = Database["public"]["Functions"]["get_location_assets"]["Returns"][number];
+
+export type AssetType = "hvac" | "boiler" | "plumbing" | "electrical" | "av" | "kitchen" | "appliance" | "vehicle" | "other";
+
+// Same list as the assets.asset_type check constraint
+export const ASSET_TYPE_META: Record<AssetType, { label: string; icon: string }> = {
+  hvac: { label: "HVAC", icon: "heat_pump" },
+  boiler: { label: "Boiler", icon: "local_fire_department" },
+  plumbing: { label: "Plumbing", icon: "plumbing" },
+  electrical: { label: "Electrical", icon: "electrical_services" },
+  av: { label: "AV / Sound", icon: "speaker" },
+  kitchen: { label: "Kitchen", icon: "kitchen" },
+  appliance: { label: "Appliance", icon: "local_laundry_service" },
+  vehicle: { label: "Vehicle", icon: "airport_shuttle" },
+  other: { label: "Other", icon: "build" },
+};
+
+export const ASSET_TYPES = Object.keys(ASSET_TYPE_META) as AssetType[];
+
+const metaFor = (type: string | null | undefined) =>
+  ASSET_TYPE_META[type && type in ASSET_TYPE_META ? type as AssetType : "other"];
+
+export const getAssetTypeLabel = (type: string | null | undefined) => metaFor(type).label;
+export const getAssetTypeIcon = (type: string | null | undefined) => metaFor(type).icon;
+
+/** "Carrier 48TC · SN 1234", skipping whatever isn't recorded. */
+export const describeAsset = (asset: Pick<Asset, "make" | "model" | "serial_number">) =>
+  [[asset.make, asset.model].filter(Boolean).join(" "), asset.serial_number && `SN ${asset.serial_number}`]
+    .filter(Boolean)
+    .join(" · ");
+
+export type WarrantyStatus = "none" | "active" | "expiring" | "expired";
+
+// Warranties within this many days of expiry are flagged
+const WARRANTY_WARNING_DAYS = 60;
+
+export const getWarrantyStatus = (warrantyExpiresOn: string | null | undefined, now = new Date()): WarrantyStatus => {
+  if (!warrantyExpiresOn) return "none";
+  const expires = parseISO(warrantyExpiresOn);
+  if (isBefore(expires, now)) return "expired";
+  return isBefore(expires, addDays(now, WARRANTY_WARNING_DAYS)) ? "expiring" : "active";
+};
+
+export const WARRANTY_STATUS_META: Record<Exclude<WarrantyStatus, "none">, { label: string; className: string }> = {
+  active: { label: "Under warranty", className: "bg-green-100 text-green-700" },
+  expiring: { label: "Warranty ending", className: "bg-amber-100 text-amber-700" },
+  expired: { label: "Out of warranty", className: "bg-gray-100 text-gray-500" },
+};
+
+/** Hours booked on a work order: the completion figure, else the timer so far. */
+export const getLaborHours = (req: { actual_hours?: number | null; total_elapsed_seconds?: number | null }) =>
+  req.actual_hours ?? (req.total_elapsed_seconds ? secondsToHours(req.total_elapsed_seconds) : 0);
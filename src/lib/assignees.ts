@@ -0,0 +1,37 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AssignableProfile = Database["public"]["Functions"]["get_assignable_profiles"]["Returns"][number];
+export type WorkRequestAssignee = Database["public"]["Tables"]["work_request_assignees"]["Row"];
+
+/** Assignee filter values besides a specific profile id. */
+export const ASSIGNEE_FILTER_ALL = "all";
+export const ASSIGNEE_FILTER_UNASSIGNED = "unassigned";
+export const ASSIGNEE_FILTER_ME = "me";
+
+export const getProfileLabel = (profile: Pick<AssignableProfile, "name" | "email">) =>
+  profile.name || profile.email || "Unknown";
+
+export const getInitials = (label: string) => {
+  const parts = label.replace(/@.*/, "").split(/[\s._-]+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+};
+
+/** Profile ids assigned to each work request id. */
+export const groupAssignees = (rows: Pick<WorkRequestAssignee, "work_request_id" | "profile_id">[]) => {
+  const byRequest: Record<string, string[]> = {};
+  rows.forEach((row) => {
+    (byRequest[row.work_request_id] ||= []).push(row.profile_id);
+  });
+  return byRequest;
+};
+
+export const matchesAssigneeFilter = (filter: string, assigneeIds: string[], myProfileId: string | null) => {
+  switch (filter) {
+    case ASSIGNEE_FILTER_ALL: return true;
+    case ASSIGNEE_FILTER_UNASSIGNED: return assigneeIds.length === 0;
+    case ASSIGNEE_FILTER_ME: return !!myProfileId && assigneeIds.includes(myProfileId);
+    default: return assigneeIds.includes(filter);
+  }
+};
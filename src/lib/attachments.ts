@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Must match the limits on the `work-request-attachments` storage bucket
+export const ATTACHMENT_BUCKET = "work-request-attachments";
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/gif",
+  "application/pdf",
+];
+
+export interface WorkRequestAttachment {
+  id: string;
+  work_request_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith("image/");
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Returns a user-facing error message, or null when the file is acceptable. */
+export const validateAttachment = (file: File): string | null => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type. Use a photo or PDF.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+};
+
+/**
+ * Uploads files into `<workRequestId>/` and records a row per file.
+ * Returns the names of files that failed so the caller can report them
+ * without failing the whole submission.
+ */
+export const uploadWorkRequestAttachments = async (workRequestId: string, files: File[]) => {
+  const failed: string[] = [];
+  const { data: { user } } = await supabase.auth.getUser();
+
+  for (const file of files) {
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+    const path = `${workRequestId}/${crypto.randomUUID()}-${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+    if (uploadError) { failed.push(file.name); continue; }
+
+    const { error: insertError } = await supabase.from("work_request_attachments").insert({
+      work_request_id: workRequestId,
+      storage_path: path,
+      file_name: file.name,
+      content_type: file.type,
+      size_bytes: file.size,
+      uploaded_by: user?.id ?? null,
+    });
+    if (insertError) failed.push(file.name);
+  }
+
+  return failed;
+};
@@ -1,18 +1,3 @@
-export const getPriorityColor = (priority: string) => {
-  switch (priority) {
-    case "emergency":
-      return "bg-red-50 text-red-700 border-red-200";
-    case "high":
-      return "bg-orange-50 text-orange-700 border-orange-200";
-    case "medium":
-      return "bg-blue-50 text-blue-700 border-blue-200";
-    case "low":
-      return "bg-gray-50 text-gray-600 border-gray-200";
-    default:
-      return "bg-gray-50 text-gray-600 border-gray-200";
-  }
-};
-
 export const getStatusColor = (status: string) => {
   switch (status) {
     case "completed":
@@ -76,4 +61,5 @@ export interface WorkRequest {
   completion_notes?: string;
   work_order_id?: string;
   date_changed_reason?: string;
+  is_emergency?: boolean;
 }
@@ -0,0 +1,23 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type MaterialLine = Database["public"]["Tables"]["work_request_materials"]["Row"];
+export type LaborRate = Database["public"]["Tables"]["staff_labor_rates"]["Row"];
+
+const currency = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" });
+
+export const formatCurrency = (amount: number | null | undefined) => currency.format(amount ?? 0);
+
+/** Mirrors the line_total generated column, for lines still being edited. */
+export const getLineTotal = (line: { quantity: number; unit_cost: number }) =>
+  Math.round(line.quantity * line.unit_cost * 100) / 100;
+
+export const sumMaterials = (lines: { quantity: number; unit_cost: number }[]) =>
+  lines.reduce((sum, line) => sum + getLineTotal(line), 0);
+
+export interface CostFields {
+  materials_cost?: number | null;
+  labor_cost?: number | null;
+}
+
+/** Labor is only costed once a job is completed. */
+export const getTotalCost = (req: CostFields) => (req.materials_cost ?? 0) + (req.labor_cost ?? 0);
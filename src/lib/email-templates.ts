@@ -0,0 +1,68 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type EmailTemplate = Database["public"]["Tables"]["email_templates"]["Row"];
+export type EmailEvent = "submitted" | "approved" | "rejected" | "date_changed" | "started" | "completed" | "status_links"
+  | "staff_message" | "requestor_message" | "note_mention"
+  | "emergency" | "approval_request";
+
+/** Must match the event check on email_templates. */
+export const EMAIL_EVENTS: { value: EmailEvent; label: string; description: string }[] = [
+  { value: "submitted", label: "Submitted", description: "Confirms a new request and its work order number" },
+  { value: "approved", label: "Approved", description: "The request was approved" },
+  { value: "rejected", label: "Rejected", description: "The request was rejected, with the reason" },
+  { value: "date_changed", label: "Date changed", description: "The scheduled date moved, with the reason" },
+  { value: "started", label: "Started", description: "Work has begun" },
+  { value: "completed", label: "Completed", description: "Work is finished" },
+  { value: "status_links", label: "Status links", description: "Sent when a requestor asks for links to their requests" },
+  { value: "staff_message", label: "Staff message", description: "Staff posted a message for the requestor" },
+  { value: "requestor_message", label: "Requestor message", description: "Sent to assignees, or approvers if unassigned, when the requestor replies" },
+  { value: "note_mention", label: "Note mention", description: "Someone was @mentioned in an internal note" },
+  { value: "emergency", label: "Emergency", description: "Sent to the on-call roster when an emergency is submitted" },
+  { value: "approval_request", label: "Approval request", description: "Asks the approver of the open approval step to approve or reject" },
+];
+
+/** Placeholders filled from the outbox context; samples drive the editor preview. */
+export const EMAIL_PLACEHOLDERS: { key: string; description: string; sample: string }[] = [
+  { key: "work_order_id", description: "Work order number", sample: "WO-20251012-0042" },
+  { key: "title", description: "Request title", sample: "Leaking faucet in break room" },
+  { key: "description", description: "Request description", sample: "The cold tap drips constantly." },
+  { key: "requestor_name", description: "Requestor's name", sample: "Jordan Lee" },
+  { key: "requestor_phone", description: "Requestor's phone (emergency emails)", sample: "555-0142" },
+  { key: "department", description: "Department", sample: "Facilities" },
+  { key: "location", description: "Location", sample: "Main Building" },
+  { key: "category", description: "Category", sample: "Plumbing" },
+  { key: "priority", description: "Priority", sample: "Medium" },
+  { key: "status", description: "Current status", sample: "Approved" },
+  { key: "requested_date", description: "Scheduled date", sample: "October 14, 2025" },
+  { key: "old_requested_date", description: "Previous date (date changes)", sample: "October 12, 2025" },
+  { key: "rejected_reason", description: "Rejection reason", sample: "Covered by the landlord's contract" },
+  { key: "date_changed_reason", description: "Reason for the new date", sample: "Parts arrive Tuesday" },
+  { key: "actor_name", description: "Who made the change", sample: "Sam Rivera" },
+  { key: "author_name", description: "Who wrote the message or note", sample: "Sam Rivera" },
+  { key: "message", description: "The message or note text", sample: "We'll need access to the room on Tuesday morning." },
+  { key: "estimated_cost", description: "Estimated cost (approval requests)", sample: "$1,250.00" },
+  { key: "approver_name", description: "Approver's name (approval requests)", sample: "Pat Morgan" },
+  { key: "step_label", description: "What the approver signs off as (approval requests)", sample: "Department head" },
+  { key: "approve_url", description: "One-click approve link (approval requests)", sample: `${window.location.origin}/approval/c2FtcGxl.c2lnbmF0dXJl?decision=approved` },
+  { key: "reject_url", description: "One-click reject link (approval requests)", sample: `${window.location.origin}/approval/c2FtcGxl.c2lnbmF0dXJl?decision=rejected` },
+  { key: "link_expires_on", description: "When the approval links expire", sample: "October 21, 2025" },
+  { key: "status_url", description: "Link to the request's status page", sample: `${window.location.origin}/status/Q2hhbmdlTWUtc2FtcGxlLXRva2Vu` },
+  {
+    key: "status_links",
+    description: "Status links for all of the requestor's requests (status links email)",
+    sample: `WO-20251012-0042 – Leaking faucet in break room\n${window.location.origin}/status/Q2hhbmdlTWUtc2FtcGxlLXRva2Vu`,
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export const SAMPLE_CONTEXT: Record<string, string> = Object.fromEntries(EMAIL_PLACEHOLDERS.map((p) => [p.key, p.sample]));
+
+/** Same substitution as the send-notification-emails edge function. */
+export const renderTemplate = (template: string, context: Record<string, string | null>) =>
+  template.replace(PLACEHOLDER_PATTERN, (_, key: string) => context[key] ?? "");
+
+export const findUnknownPlaceholders = (template: string) => {
+  const known = new Set(EMAIL_PLACEHOLDERS.map((p) => p.key));
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]))].filter((key) => !known.has(key));
+};
@@ -0,0 +1,48 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type InventoryItem = Database["public"]["Tables"]["inventory_items"]["Row"];
+export type InventoryAdjustment = Database["public"]["Tables"]["inventory_adjustments"]["Row"];
+export type PurchaseTask = Database["public"]["Tables"]["inventory_purchase_tasks"]["Row"];
+
+export type AdjustmentReason = "received" | "count" | "correction" | "consumed" | "returned";
+
+// Same list as the inventory_adjustments.reason check constraint
+export const ADJUSTMENT_REASON_META: Record<AdjustmentReason, { label: string; icon: string }> = {
+  received: { label: "Received", icon: "local_shipping" },
+  count: { label: "Stock count", icon: "fact_check" },
+  correction: { label: "Correction", icon: "edit_note" },
+  consumed: { label: "Used on work order", icon: "handyman" },
+  returned: { label: "Returned from work order", icon: "undo" },
+};
+
+/** Reasons staff can log by hand; the rest come from work order materials. */
+export const MANUAL_ADJUSTMENT_REASONS: AdjustmentReason[] = ["received", "count", "correction"];
+
+export const getAdjustmentReasonMeta = (reason: string) =>
+  ADJUSTMENT_REASON_META[reason as AdjustmentReason] ?? { label: reason, icon: "swap_vert" };
+
+export type PurchaseTaskStatus = "open" | "ordered" | "received" | "cancelled";
+
+export const PURCHASE_TASK_STATUS_META: Record<PurchaseTaskStatus, { label: string; className: string }> = {
+  open: { label: "To order", className: "bg-amber-100 text-amber-700" },
+  ordered: { label: "Ordered", className: "bg-blue-100 text-blue-700" },
+  received: { label: "Received", className: "bg-green-100 text-green-700" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-500" },
+};
+
+export const isPendingPurchase = (task: Pick<PurchaseTask, "status">) =>
+  task.status === "open" || task.status === "ordered";
+
+/** Mirrors raise_inventory_purchase_task(): a threshold of 0 never alerts. */
+export const isLowStock = (item: Pick<InventoryItem, "quantity_on_hand" | "reorder_threshold">) =>
+  item.quantity_on_hand < item.reorder_threshold;
+
+/** "12 each", "3.5 boxes" — trailing zeros dropped. */
+export const formatQuantity = (quantity: number, unit?: string | null) =>
+  `${Number(quantity.toFixed(2))}${unit ? ` ${unit}` : ""}`;
+
+/** "Fellowship Hall · Shelf B2", skipping whatever isn't recorded. */
+export const describeStorage = (
+  item: Pick<InventoryItem, "location" | "bin">,
+  getLocationLabel: (value: string) => string
+) => [item.location && getLocationLabel(item.location), item.bin].filter(Boolean).join(" · ");
@@ -0,0 +1,18 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type LookupKind = "departments" | "locations" | "categories";
+export type LookupEntry = Database["public"]["Tables"]["departments"]["Row"];
+
+export const LOOKUP_KINDS: { kind: LookupKind; label: string; singular: string; icon: string }[] = [
+  { kind: "departments", label: "Departments", singular: "department", icon: "groups" },
+  { kind: "locations", label: "Locations", singular: "location", icon: "location_on" },
+  { kind: "categories", label: "Categories", singular: "category", icon: "category" },
+];
+
+export const isActiveEntry = (entry: LookupEntry) => !entry.archived_at;
+
+/**
+ * Stable key for a new entry. Departments historically used lower-cased
+ * names; new entries of every kind follow that.
+ */
+export const toLookupValue = (name: string) => name.trim().toLowerCase().replace(/\s+/g, " ");
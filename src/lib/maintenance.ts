@@ -0,0 +1,53 @@
+import { addDays, addMonths, addWeeks, addYears, isAfter, isBefore, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+export type MaintenanceSchedule = Database["public"]["Tables"]["maintenance_schedules"]["Row"];
+export type Frequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export const FREQUENCY_OPTIONS: { value: Frequency; label: string; unit: string }[] = [
+  { value: "daily", label: "Daily", unit: "day" },
+  { value: "weekly", label: "Weekly", unit: "week" },
+  { value: "monthly", label: "Monthly", unit: "month" },
+  { value: "yearly", label: "Yearly", unit: "year" },
+];
+
+export interface ProjectedOccurrence {
+  schedule: MaintenanceSchedule;
+  date: Date;
+}
+
+/** "Every week", "Every 3 months". */
+export const describeRecurrence = (frequency: string, intervalCount: number) => {
+  const unit = FREQUENCY_OPTIONS.find((f) => f.value === frequency)?.unit ?? frequency;
+  return intervalCount === 1 ? `Every ${unit}` : `Every ${intervalCount} ${unit}s`;
+};
+
+/** The nth occurrence (0-based), counted from starts_on like maintenance_occurrence() in SQL. */
+export const getOccurrenceDate = (schedule: Pick<MaintenanceSchedule, "starts_on" | "frequency" | "interval_count">, n: number) => {
+  const start = parseISO(schedule.starts_on);
+  const steps = n * schedule.interval_count;
+  switch (schedule.frequency) {
+    case "daily": return addDays(start, steps);
+    case "weekly": return addWeeks(start, steps);
+    case "monthly": return addMonths(start, steps);
+    default: return addYears(start, steps);
+  }
+};
+
+/**
+ * Occurrences in [from, to] that haven't been turned into work orders yet.
+ * Generated ones are real work_requests rows and show up on their own.
+ */
+export const getProjectedOccurrences = (schedules: MaintenanceSchedule[], from: Date, to: Date) => {
+  const occurrences: ProjectedOccurrence[] = [];
+  schedules.forEach((schedule) => {
+    if (!schedule.is_active) return;
+    const endsOn = schedule.ends_on ? parseISO(schedule.ends_on) : null;
+    for (let n = schedule.next_occurrence; ; n++) {
+      const date = getOccurrenceDate(schedule, n);
+      if (isAfter(date, to) || (endsOn && isAfter(date, endsOn))) break;
+      if (!isBefore(date, from)) occurrences.push({ schedule, date });
+    }
+  });
+  return occurrences;
+};
@@ -0,0 +1,39 @@
+import type { Database } from "@/integrations/supabase/types";
+import { AssignableProfile, getProfileLabel } from "@/lib/assignees";
+import { AppRole, isStaff } from "@/lib/roles";
+
+export type WorkRequestNote = Database["public"]["Tables"]["work_request_notes"]["Row"];
+export type WorkRequestNoteRevision = Database["public"]["Tables"]["work_request_note_revisions"]["Row"];
+
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]*)$/;
+
+/** The partial "@name" being typed just before the cursor, if any. */
+export const getMentionQuery = (text: string, cursor: number) => {
+  const match = text.slice(0, cursor).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+  return { start: cursor - match[2].length - 1, query: match[2].toLowerCase() };
+};
+
+/** Who can read a request's notes, and so be @mentioned in one: staff and its assignees. */
+export const canReadNotes = (profile: AssignableProfile, assigneeIds: string[]) =>
+  isStaff(profile.role as AppRole) || assigneeIds.includes(profile.id);
+
+export const filterMentionCandidates = (profiles: AssignableProfile[], query: string, limit = 6) =>
+  profiles
+    .filter((p) => getProfileLabel(p).toLowerCase().includes(query) || (p.email || "").toLowerCase().includes(query))
+    .slice(0, limit);
+
+/** Keeps only the picked profiles whose "@label" is still in the body. */
+export const resolveMentions = (body: string, profileIds: string[], profilesById: Record<string, AssignableProfile>) =>
+  [...new Set(profileIds)].filter((id) => profilesById[id] && body.includes(`@${getProfileLabel(profilesById[id])}`));
+
+/** Splits a note body into plain text and "@label" segments for the mentioned profiles. */
+export const splitMentions = (body: string, labels: string[]) => {
+  const tokens = labels.filter(Boolean).map((label) => `@${label}`).sort((a, b) => b.length - a.length);
+  if (tokens.length === 0) return [{ text: body, mention: false }];
+  const escaped = tokens.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return body
+    .split(new RegExp(`(${escaped.join("|")})`, "g"))
+    .filter(Boolean)
+    .map((text) => ({ text, mention: tokens.includes(text) }));
+};
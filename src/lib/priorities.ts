@@ -0,0 +1,52 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type Priority = Database["public"]["Enums"]["priority_level"];
+
+/** The priority_level enum, lowest first. */
+export const PRIORITIES: readonly Priority[] = Constants.public.Enums.priority_level;
+
+export const PRIORITY_META: Record<Priority, { label: string; badge: string; dot: string; border: string }> = {
+  low: { label: "Low", badge: "bg-gray-50 text-gray-600 border-gray-200", dot: "bg-gray-400", border: "border-l-gray-400" },
+  medium: { label: "Medium", badge: "bg-blue-50 text-blue-700 border-blue-200", dot: "bg-blue-500", border: "border-l-blue-500" },
+  high: { label: "High", badge: "bg-orange-50 text-orange-700 border-orange-200", dot: "bg-orange-500", border: "border-l-orange-500" },
+  urgent: { label: "Urgent", badge: "bg-red-50 text-red-700 border-red-200", dot: "bg-red-500", border: "border-l-red-500" },
+};
+
+export const isPriority = (value: string | null | undefined): value is Priority =>
+  !!value && value in PRIORITY_META;
+
+const metaFor = (priority: string | null | undefined) => PRIORITY_META[isPriority(priority) ? priority : "low"];
+
+export const getPriorityLabel = (priority: string | null | undefined) =>
+  isPriority(priority) ? PRIORITY_META[priority].label : "—";
+
+/** Background, text and border colour classes; add the border width yourself. */
+export const getPriorityBadge = (priority: string | null | undefined) => metaFor(priority).badge;
+export const getPriorityDot = (priority: string | null | undefined) => metaFor(priority).dot;
+export const getPriorityBorder = (priority: string | null | undefined) => metaFor(priority).border;
+
+export const isHighPriority = (priority: string | null | undefined) => priority === "high" || priority === "urgent";
+
+export interface EmergencyFields {
+  is_emergency?: boolean | null;
+  status: string;
+}
+
+/** Emergencies stay pinned until they are closed. */
+export const isOpenEmergency = (req: EmergencyFields) =>
+  !!req.is_emergency && req.status !== "completed" && req.status !== "rejected";
+
+/** Moves open emergencies to the front, keeping the existing order otherwise. */
+export const pinEmergencies = <T extends EmergencyFields>(requests: T[]) => [
+  ...requests.filter(isOpenEmergency),
+  ...requests.filter((r) => !isOpenEmergency(r)),
+];
+
+// Priority filter value for emergencies, whatever their priority
+export const PRIORITY_FILTER_EMERGENCY = "emergency";
+
+export const matchesPriorityFilter = (filter: string, req: EmergencyFields & { priority: string }) => {
+  if (filter === "all") return true;
+  if (filter === PRIORITY_FILTER_EMERGENCY) return !!req.is_emergency;
+  return req.priority === filter;
+};
@@ -0,0 +1,40 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+const ALL_STAFF: AppRole[] = ["admin", "manager", "employee"];
+const APPROVERS: AppRole[] = ["admin", "manager"];
+const ASSIGNABLE: AppRole[] = [...ALL_STAFF, "volunteer"];
+
+// Which roles may open each staff route. Keep in sync with the RLS policies
+// in 20251002120000_role_based_access.sql and
+// 20251006120000_work_request_assignees.sql.
+export const ROUTE_ROLES: Record<string, AppRole[]> = {
+  "/admin": APPROVERS,
+  "/work-orders": ALL_STAFF,
+  "/approvals": ALL_STAFF,
+  "/analytics": APPROVERS,
+  "/calendar": ALL_STAFF,
+  "/tasks": ALL_STAFF,
+  "/my-work": ASSIGNABLE,
+  "/maintenance": APPROVERS,
+  "/assets": ALL_STAFF,
+  "/inventory": ALL_STAFF,
+  "/vendors": ALL_STAFF,
+  "/settings": ["admin"],
+};
+
+export const canAccessRoute = (role: AppRole | null, path: string) =>
+  !!role && (ROUTE_ROLES[path] ?? []).includes(role);
+
+export const isApprover = (role: AppRole | null) => !!role && APPROVERS.includes(role);
+
+export const isStaff = (role: AppRole | null) => !!role && ALL_STAFF.includes(role);
+
+/** Where a signed-in user lands after login. */
+export const getHomeRoute = (role: AppRole | null) => {
+  if (isApprover(role)) return "/admin";
+  if (isStaff(role)) return "/work-orders";
+  if (role === "volunteer") return "/my-work";
+  return "/access-denied";
+};
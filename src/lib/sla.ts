@@ -0,0 +1,69 @@
+import { formatDistanceToNow, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+export type SlaTarget = Database["public"]["Tables"]["sla_targets"]["Row"];
+export type SlaStatus = "on_track" | "at_risk" | "breached" | "met";
+
+export const SLA_STATUS_META: Record<SlaStatus, { label: string; icon: string; className: string }> = {
+  on_track: { label: "On track", icon: "schedule", className: "bg-gray-100 text-gray-600" },
+  at_risk: { label: "At risk", icon: "hourglass_bottom", className: "bg-amber-100 text-amber-700" },
+  breached: { label: "Breached", icon: "alarm", className: "bg-red-100 text-red-700" },
+  met: { label: "Met SLA", icon: "verified", className: "bg-green-100 text-green-700" },
+};
+
+// Filter value covering both at_risk and breached
+export const SLA_FILTER_ATTENTION = "attention";
+
+export interface SlaFields {
+  sla_status?: string | null;
+  response_due_at?: string | null;
+  due_at?: string | null;
+  responded_at?: string | null;
+  completed_at?: string | null;
+}
+
+export const isSlaStatus = (value: string | null | undefined): value is SlaStatus =>
+  !!value && value in SLA_STATUS_META;
+
+export const matchesSlaFilter = (filter: string, req: SlaFields) => {
+  if (filter === "all") return true;
+  if (filter === SLA_FILTER_ATTENTION) return req.sla_status === "at_risk" || req.sla_status === "breached";
+  return req.sla_status === filter;
+};
+
+const isLate = (doneAt: string | null | undefined, dueAt: string | null | undefined, now: number) =>
+  !!dueAt && (doneAt ? new Date(doneAt).getTime() : now) > new Date(dueAt).getTime();
+
+/** Mirrors compute_sla_status: approval or rejection came (or is) after the response target. */
+export const isResponseLate = (req: SlaFields, now = Date.now()) => isLate(req.responded_at, req.response_due_at, now);
+
+/** Completion came (or is) after the resolution target. */
+export const isResolutionLate = (req: SlaFields, now = Date.now()) => isLate(req.completed_at, req.due_at, now);
+
+/** Target as the request form phrases it, e.g. "1 week", "3 days", "4 hours". */
+export const formatTargetHours = (hours: number) => {
+  if (hours % 168 === 0) return hours === 168 ? "1 week" : `${hours / 168} weeks`;
+  if (hours > 48 && hours % 24 === 0) return `${hours / 24} days`;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+};
+
+/**
+ * The deadline that matters right now: the response target until the request
+ * leaves pending, then the resolution target. None once the work is done.
+ */
+export const getCurrentDeadline = (req: SlaFields) => {
+  if (req.completed_at) return null;
+  if (!req.responded_at && req.response_due_at) return { kind: "Response", at: req.response_due_at };
+  if (req.due_at) return { kind: "Resolution", at: req.due_at };
+  return null;
+};
+
+/** "due in 3 hours" / "overdue by 2 days" for the current deadline. */
+export const describeDeadline = (req: SlaFields, now = Date.now()) => {
+  const deadline = getCurrentDeadline(req);
+  if (!deadline) return null;
+  const distance = formatDistanceToNow(parseISO(deadline.at));
+  return new Date(deadline.at).getTime() < now
+    ? `${deadline.kind} overdue by ${distance}`
+    : `${deadline.kind} due in ${distance}`;
+};
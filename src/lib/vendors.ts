@@ -0,0 +1,102 @@
+import { addDays, differenceInCalendarDays, isBefore, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/costs";
+
+export type Vendor = Database["public"]["Tables"]["vendors"]["Row"];
+
+export type VendorTrade =
+  | "plumbing" | "electrical" | "hvac" | "roofing" | "carpentry" | "painting"
+  | "cleaning" | "landscaping" | "pest_control" | "locksmith" | "general" | "other";
+
+// Same list as the vendors.trade check constraint
+export const VENDOR_TRADE_META: Record<VendorTrade, { label: string; icon: string }> = {
+  plumbing: { label: "Plumbing", icon: "plumbing" },
+  electrical: { label: "Electrical", icon: "electrical_services" },
+  hvac: { label: "HVAC", icon: "heat_pump" },
+  roofing: { label: "Roofing", icon: "roofing" },
+  carpentry: { label: "Carpentry", icon: "carpenter" },
+  painting: { label: "Painting", icon: "format_paint" },
+  cleaning: { label: "Cleaning", icon: "cleaning_services" },
+  landscaping: { label: "Landscaping", icon: "yard" },
+  pest_control: { label: "Pest Control", icon: "pest_control" },
+  locksmith: { label: "Locksmith", icon: "key" },
+  general: { label: "General Contractor", icon: "construction" },
+  other: { label: "Other", icon: "handshake" },
+};
+
+export const VENDOR_TRADES = Object.keys(VENDOR_TRADE_META) as VendorTrade[];
+
+const metaFor = (trade: string | null | undefined) =>
+  VENDOR_TRADE_META[trade && trade in VENDOR_TRADE_META ? trade as VendorTrade : "other"];
+
+export const getTradeLabel = (trade: string | null | undefined) => metaFor(trade).label;
+export const getTradeIcon = (trade: string | null | undefined) => metaFor(trade).icon;
+
+export type InsuranceStatus = "none" | "valid" | "expiring" | "expired";
+
+// Certificates within this many days of expiry are flagged, leaving time to chase a renewal
+const INSURANCE_WARNING_DAYS = 30;
+
+export const getInsuranceStatus = (insuranceExpiresOn: string | null | undefined, now = new Date()): InsuranceStatus => {
+  if (!insuranceExpiresOn) return "none";
+  const expires = parseISO(insuranceExpiresOn);
+  if (isBefore(expires, now)) return "expired";
+  return isBefore(expires, addDays(now, INSURANCE_WARNING_DAYS)) ? "expiring" : "valid";
+};
+
+export const INSURANCE_STATUS_META: Record<InsuranceStatus, { label: string; className: string }> = {
+  none: { label: "No certificate on file", className: "bg-gray-100 text-gray-500" },
+  valid: { label: "Insured", className: "bg-green-100 text-green-700" },
+  expiring: { label: "Insurance ending", className: "bg-amber-100 text-amber-700" },
+  expired: { label: "Insurance expired", className: "bg-red-100 text-red-700" },
+};
+
+/** "$85/h · $120 call-out", skipping whatever isn't recorded. */
+export const describeRates = (vendor: Pick<Vendor, "hourly_rate" | "call_out_fee">) =>
+  [
+    vendor.hourly_rate != null && `${formatCurrency(vendor.hourly_rate)}/h`,
+    vendor.call_out_fee != null && `${formatCurrency(vendor.call_out_fee)} call-out`,
+  ].filter(Boolean).join(" · ");
+
+export type VendorJob = {
+  status: string | null;
+  completed_at: string | null;
+  vendor_quote: number | null;
+  vendor_expected_date: string | null;
+  vendor_invoice_amount: number | null;
+};
+
+/** What a job cost us: the invoice once it's in, the quote until then. */
+export const getVendorJobCost = (job: Pick<VendorJob, "vendor_quote" | "vendor_invoice_amount">) =>
+  job.vendor_invoice_amount ?? job.vendor_quote;
+
+/** Finished no later than the day the vendor said it would be. */
+export const isVendorJobOnTime = (job: Pick<VendorJob, "completed_at" | "vendor_expected_date">) =>
+  !!job.completed_at && !!job.vendor_expected_date
+  && differenceInCalendarDays(parseISO(job.completed_at), parseISO(job.vendor_expected_date)) <= 0;
+
+export interface VendorPerformance {
+  jobs: number;
+  open: number;
+  completed: number;
+  /** Percent of completed jobs with an expected date that finished on time; null with none to judge */
+  onTimeRate: number | null;
+  /** Mean cost of completed jobs with a quote or invoice; null with none */
+  averageCost: number | null;
+  totalCost: number;
+}
+
+export const getVendorPerformance = (jobs: VendorJob[]): VendorPerformance => {
+  const completed = jobs.filter((j) => j.status === "completed");
+  const dated = completed.filter((j) => j.vendor_expected_date);
+  const costs = completed.map(getVendorJobCost).filter((c): c is number => c != null);
+  const totalCost = costs.reduce((sum, c) => sum + c, 0);
+  return {
+    jobs: jobs.length,
+    open: jobs.filter((j) => j.status !== "completed" && j.status !== "rejected").length,
+    completed: completed.length,
+    onTimeRate: dated.length > 0 ? Math.round((dated.filter(isVendorJobOnTime).length / dated.length) * 100) : null,
+    averageCost: costs.length > 0 ? totalCost / costs.length : null,
+    totalCost,
+  };
+};
@@ -0,0 +1,29 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type WebhookSubscription = Database["public"]["Tables"]["webhook_subscriptions"]["Row"];
+export type WebhookDelivery = Database["public"]["Tables"]["webhook_deliveries"]["Row"];
+export type WebhookEvent = "created" | "approved" | "rejected" | "date_changed" | "completed" | "sla_breached";
+export type DeliveryStatus = "pending" | "sending" | "succeeded" | "failed";
+
+/** Must match the event_types check on webhook_subscriptions. */
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: "created", label: "Created", description: "A new request is submitted or generated" },
+  { value: "approved", label: "Approved", description: "A request is approved" },
+  { value: "rejected", label: "Rejected", description: "A request is rejected" },
+  { value: "date_changed", label: "Date changed", description: "The scheduled date moves" },
+  { value: "completed", label: "Completed", description: "Work is marked complete" },
+  { value: "sla_breached", label: "SLA breached", description: "A response or resolution target is missed" },
+];
+
+export const DELIVERY_STATUS_META: Record<DeliveryStatus, { label: string; icon: string; className: string }> = {
+  pending: { label: "Retrying", icon: "schedule", className: "bg-amber-50 text-amber-700" },
+  sending: { label: "Sending", icon: "send", className: "bg-blue-50 text-blue-700" },
+  succeeded: { label: "Delivered", icon: "check_circle", className: "bg-green-50 text-green-700" },
+  failed: { label: "Failed", icon: "error", className: "bg-red-50 text-red-700" },
+};
+
+export const getEventLabel = (event: string) => WEBHOOK_EVENTS.find((e) => e.value === event)?.label ?? event;
+
+/** 32 random bytes as hex, the same shape as the column default. */
+export const generateWebhookSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, "0")).join("");
@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { Priority } from "@/lib/priorities";
+
+export type BulkAction = "approve" | "reject" | "reschedule" | "priority" | "assign";
+export type BulkResult = Database["public"]["Functions"]["bulk_update_work_requests"]["Returns"][number];
+
+/** bulk_update_work_requests() refuses more than this in one call. */
+export const BULK_LIMIT = 500;
+
+export const BULK_ACTIONS: { action: BulkAction; label: string; icon: string }[] = [
+  { action: "approve", label: "Approve", icon: "check_circle" },
+  { action: "reject", label: "Reject", icon: "cancel" },
+  { action: "reschedule", label: "Reschedule", icon: "event" },
+  { action: "priority", label: "Priority", icon: "flag" },
+  { action: "assign", label: "Assign", icon: "person_add" },
+];
+
+export interface BulkActionInput {
+  reason?: string;
+  requestedDate?: string;
+  priority?: Priority;
+  profileIds?: string[];
+}
+
+export const runBulkAction = async (requestIds: string[], action: BulkAction, input: BulkActionInput) => {
+  const { data, error } = await supabase.rpc("bulk_update_work_requests", {
+    _request_ids: requestIds,
+    _action: action,
+    _reason: input.reason,
+    _requested_date: input.requestedDate,
+    _priority: input.priority,
+    _profile_ids: input.profileIds,
+  });
+  if (error) throw error;
+  return (data || []) as BulkResult[];
+};
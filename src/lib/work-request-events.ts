@@ -0,0 +1,100 @@
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "@/lib/costs";
+
+export interface WorkRequestEvent {
+  id: string;
+  event_type: string;
+  old_value: string | null;
+  new_value: string | null;
+  reason: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+const formatStatus = (status: string | null) =>
+  status ? status.split("_").map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ") : "—";
+
+const formatEventDate = (value: string | null) =>
+  value ? format(parseISO(value), "MMM d, yyyy") : "—";
+
+const countChecklist = (value: string | null) => {
+  try {
+    const items = value ? JSON.parse(value) : [];
+    if (!Array.isArray(items)) return null;
+    return { done: items.filter((i: { completed?: boolean }) => i.completed).length, total: items.length };
+  } catch {
+    return null;
+  }
+};
+
+/** Material Symbols icon for an event, keyed on the new status where relevant. */
+export const getEventIcon = (event: WorkRequestEvent) => {
+  switch (event.event_type) {
+    case "created": return "add_circle";
+    case "date_changed": return "event";
+    case "priority_changed": return "flag";
+    case "checklist_updated": return "checklist";
+    case "sla_breached": return "alarm";
+    case "vendor_assigned": return "handshake";
+    case "approval_step": return "how_to_reg";
+    case "estimate_changed": return "request_quote";
+    case "status_changed":
+      switch (event.new_value) {
+        case "approved": return "thumb_up";
+        case "rejected": return "cancel";
+        case "in_progress": return "play_circle";
+        case "paused": return "pause_circle";
+        case "completed": return "task_alt";
+        default: return "sync";
+      }
+    default:
+      return "history";
+  }
+};
+
+export const getEventColor = (event: WorkRequestEvent) => {
+  if (event.event_type === "sla_breached") return "bg-red-100 text-red-600";
+  if (event.event_type === "approval_step") return "bg-blue-100 text-blue-600";
+  if (event.event_type !== "status_changed") return "bg-gray-100 text-gray-500";
+  switch (event.new_value) {
+    case "approved": return "bg-blue-100 text-blue-600";
+    case "rejected": return "bg-red-100 text-red-600";
+    case "in_progress": return "bg-indigo-100 text-indigo-600";
+    case "paused": return "bg-amber-100 text-amber-600";
+    case "completed": return "bg-green-100 text-green-600";
+    default: return "bg-gray-100 text-gray-500";
+  }
+};
+
+/** One-line, human readable summary of an event. */
+export const describeEvent = (event: WorkRequestEvent) => {
+  switch (event.event_type) {
+    case "created":
+      return "Request submitted";
+    case "status_changed":
+      if (event.old_value === "paused" && event.new_value === "in_progress") return "Work resumed";
+      if (event.new_value === "in_progress") return "Work started";
+      return formatStatus(event.new_value);
+    case "date_changed":
+      return `Date changed from ${formatEventDate(event.old_value)} to ${formatEventDate(event.new_value)}`;
+    case "priority_changed":
+      return `Priority changed from ${formatStatus(event.old_value)} to ${formatStatus(event.new_value)}`;
+    case "checklist_updated": {
+      const counts = countChecklist(event.new_value);
+      return counts ? `Checklist updated (${counts.done}/${counts.total} done)` : "Checklist updated";
+    }
+    case "sla_breached":
+      return event.new_value === "response" ? "Response target missed" : "Resolution target missed";
+    case "vendor_assigned":
+      if (!event.new_value) return event.old_value ? `Taken back from ${event.old_value}` : "Vendor removed";
+      return event.old_value ? `Reassigned from ${event.old_value} to ${event.new_value}` : `Assigned to ${event.new_value}`;
+    case "approval_step":
+      return `${event.old_value ?? "Approval step"} signed off`;
+    case "estimate_changed": {
+      const formatEstimate = (value: string | null) => (value ? formatCurrency(parseFloat(value)) : "none");
+      return `Estimate changed from ${formatEstimate(event.old_value)} to ${formatEstimate(event.new_value)}`;
+    }
+    default:
+      return formatStatus(event.event_type);
+  }
+};
@@ -0,0 +1,203 @@
+import { addDays, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { ASSIGNEE_FILTER_ALL, ASSIGNEE_FILTER_ME } from "@/lib/assignees";
+
+export type WorkRequestSearchArgs = Database["public"]["Functions"]["search_work_requests"]["Args"];
+type SearchRow = Database["public"]["Functions"]["search_work_requests"]["Returns"][number];
+type WorkStatus = Database["public"]["Enums"]["work_status"];
+
+export type WorkRequestSort = "created_at" | "requested_date" | "priority" | "relevance";
+
+export const SORT_OPTIONS: { value: WorkRequestSort; label: string }[] = [
+  { value: "created_at", label: "Submitted" },
+  { value: "requested_date", label: "Requested date" },
+  { value: "priority", label: "Priority" },
+  { value: "relevance", label: "Best match" },
+];
+
+export type DateRangePreset = "all" | "today" | "this_week" | "this_month" | "next_30_days";
+
+export const DATE_RANGE_OPTIONS: { value: DateRangePreset; label: string }[] = [
+  { value: "all", label: "Any Date" },
+  { value: "today", label: "Today" },
+  { value: "this_week", label: "This Week" },
+  { value: "this_month", label: "This Month" },
+  { value: "next_30_days", label: "Next 30 Days" },
+];
+
+/** Requested-date bounds for a preset, worked out when the search runs so saved views stay relative. */
+export const getDateRange = (preset: DateRangePreset, now = new Date()): { from?: string; to?: string } => {
+  const day = (date: Date) => format(date, "yyyy-MM-dd");
+  switch (preset) {
+    case "today": return { from: day(now), to: day(now) };
+    case "this_week": return { from: day(startOfWeek(now)), to: day(endOfWeek(now)) };
+    case "this_month": return { from: day(startOfMonth(now)), to: day(endOfMonth(now)) };
+    case "next_30_days": return { from: day(now), to: day(addDays(now, 30)) };
+    default: return {};
+  }
+};
+
+export type WorkOrderLayout = "table" | "card";
+
+/** Search state as it appears in the URL; "all" means no filter. */
+export interface WorkRequestFilters {
+  q: string;
+  status: string;
+  priority: string;
+  department: string;
+  assignee: string;
+  sla: string;
+  when: DateRangePreset;
+  sort: WorkRequestSort;
+  asc: boolean;
+  view: WorkOrderLayout;
+}
+
+export const DEFAULT_FILTERS: WorkRequestFilters = {
+  q: "",
+  status: "all",
+  priority: "all",
+  department: "all",
+  assignee: ASSIGNEE_FILTER_ALL,
+  sla: "all",
+  when: "all",
+  sort: "created_at",
+  asc: false,
+  view: "table",
+};
+
+// Every query param the work order page reads
+const FILTER_KEYS = ["q", "status", "priority", "department", "assignee", "sla", "when", "sort", "view"] as const;
+const NARROWING_KEYS = ["q", "status", "priority", "department", "assignee", "sla", "when"] as const;
+
+const isSort = (value: string | null): value is WorkRequestSort =>
+  SORT_OPTIONS.some((o) => o.value === value);
+
+const isDateRange = (value: string | null): value is DateRangePreset =>
+  DATE_RANGE_OPTIONS.some((o) => o.value === value);
+
+export const readFilters = (params: URLSearchParams): WorkRequestFilters => ({
+  q: params.get("q") ?? DEFAULT_FILTERS.q,
+  status: params.get("status") ?? DEFAULT_FILTERS.status,
+  priority: params.get("priority") ?? DEFAULT_FILTERS.priority,
+  department: params.get("department") ?? DEFAULT_FILTERS.department,
+  assignee: params.get("assignee") ?? DEFAULT_FILTERS.assignee,
+  sla: params.get("sla") ?? DEFAULT_FILTERS.sla,
+  when: isDateRange(params.get("when")) ? params.get("when") as DateRangePreset : DEFAULT_FILTERS.when,
+  sort: isSort(params.get("sort")) ? params.get("sort") as WorkRequestSort : DEFAULT_FILTERS.sort,
+  asc: params.get("order") === "asc",
+  view: params.get("view") === "card" ? "card" : DEFAULT_FILTERS.view,
+});
+
+/** Writes only the values that differ from the defaults, keeping other params. */
+export const writeFilters = (params: URLSearchParams, filters: WorkRequestFilters) => {
+  const next = new URLSearchParams(params);
+  FILTER_KEYS.forEach((key) => {
+    const value = key === "q" ? filters.q.trim() : filters[key];
+    if (value === DEFAULT_FILTERS[key]) next.delete(key);
+    else next.set(key, value);
+  });
+  if (filters.asc) next.set("order", "asc");
+  else next.delete("order");
+  return next;
+};
+
+export const hasActiveFilters = (filters: WorkRequestFilters) =>
+  NARROWING_KEYS.some((key) => filters[key] !== DEFAULT_FILTERS[key]);
+
+/** True when the URL carries any work order filter, sort or layout. */
+export const hasFilterParams = (params: URLSearchParams) =>
+  FILTER_KEYS.some((key) => params.has(key)) || params.has("order");
+
+/** The filter params alone, in a fixed order; equal filters give equal strings. */
+export const canonicalFilterParams = (params: URLSearchParams) =>
+  writeFilters(new URLSearchParams(), readFilters(params));
+
+const orUndefined = (value: string) => (value === "all" ? undefined : value);
+
+export const toSearchArgs = (filters: WorkRequestFilters, myProfileId: string | null): WorkRequestSearchArgs => ({
+  _query: filters.q.trim() || undefined,
+  _statuses: filters.status === "all" ? undefined : [filters.status as WorkStatus],
+  _priority: orUndefined(filters.priority),
+  _department: orUndefined(filters.department),
+  // Nobody is assigned to a profile id that doesn't exist, so "me" without a profile matches nothing
+  _assignee: filters.assignee === ASSIGNEE_FILTER_ALL ? undefined
+    : filters.assignee === ASSIGNEE_FILTER_ME ? myProfileId ?? "none" : filters.assignee,
+  _sla: orUndefined(filters.sla),
+  _from: getDateRange(filters.when).from,
+  _to: getDateRange(filters.when).to,
+  _sort: filters.sort,
+  _ascending: filters.asc,
+});
+
+// ─── Results ────────────────────────────────────────────────────────────────
+
+export interface SearchHighlight {
+  title: string | null;
+  description: string | null;
+  notes: boolean;
+}
+
+export interface SearchPage<T> {
+  rows: T[];
+  highlights: Record<string, SearchHighlight>;
+  total: number;
+  /** Cursor for the page after this one, or null on the last page. */
+  nextCursor: string | null;
+}
+
+const toPage = <T extends { id: string }>(data: SearchRow[], limit: number): SearchPage<T> => {
+  const rows = data.map((r) => r.request as unknown as T);
+  const highlights: Record<string, SearchHighlight> = {};
+  data.forEach((r, i) => {
+    highlights[rows[i].id] = { title: r.title_highlight, description: r.description_highlight, notes: r.notes_match };
+  });
+  return {
+    rows,
+    highlights,
+    total: data[0]?.total_count ?? 0,
+    nextCursor: data.length === limit ? data[data.length - 1].row_cursor : null,
+  };
+};
+
+export const searchWorkRequests = async <T extends { id: string }>(args: WorkRequestSearchArgs, limit: number) => {
+  const { data, error } = await supabase.rpc("search_work_requests", { ...args, _limit: limit });
+  if (error) throw error;
+  return toPage<T>(data || [], limit);
+};
+
+/** Every match, a page at a time; for exports and date-bounded views. */
+export const searchAllWorkRequests = async <T extends { id: string }>(args: WorkRequestSearchArgs) => {
+  const rows: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await searchWorkRequests<T>({ ...args, _cursor: cursor }, 500);
+    rows.push(...page.rows);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return rows;
+};
+
+// ─── Highlighting ───────────────────────────────────────────────────────────
+
+// Private-use characters search_work_requests() wraps matches in
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_END = "\uE001";
+
+export const hasHighlight = (text: string | null | undefined) => !!text && text.includes(HIGHLIGHT_START);
+
+/** Splits a highlighted string into plain and matched parts. */
+export const splitHighlights = (text: string) => {
+  const parts: { text: string; match: boolean }[] = [];
+  text.split(HIGHLIGHT_START).forEach((chunk, i) => {
+    if (i === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      return;
+    }
+    const [matched, rest = ""] = chunk.split(HIGHLIGHT_END);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  });
+  return parts;
+};
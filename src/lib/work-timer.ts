@@ -0,0 +1,52 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type WorkTimeEntry = Database["public"]["Tables"]["work_time_entries"]["Row"];
+
+export interface TimerFields {
+  is_timer_active?: boolean | null;
+  timer_started_at?: string | null;
+  timer_paused_at?: string | null;
+  total_elapsed_seconds?: number | null;
+}
+
+/** Seconds worked so far: banked time plus the running segment, if any. */
+export const getElapsedSeconds = (timer: TimerFields, now = Date.now()) => {
+  const banked = timer.total_elapsed_seconds || 0;
+  if (!timer.is_timer_active || !timer.timer_started_at) return banked;
+  return banked + Math.max(0, Math.floor((now - new Date(timer.timer_started_at).getTime()) / 1000));
+};
+
+/** Live clock format, e.g. "1:05:09". */
+export const formatTimer = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+};
+
+/** Short duration, e.g. "2h 15m" or "40m". */
+export const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.round((seconds % 3600) / 60);
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
+
+/** Recorded time as billable hours, rounded to the nearest quarter hour. */
+export const secondsToHours = (seconds: number) => Math.max(0.25, Math.round((seconds / 3600) * 4) / 4);
+
+/**
+ * Mirrors the track_work_timer trigger so the UI can update optimistically
+ * before the realtime row arrives.
+ */
+export const applyTimerTransition = (timer: TimerFields, fromStatus: string, toStatus: string): TimerFields => {
+  const nowIso = new Date().toISOString();
+  let next: TimerFields = { ...timer };
+  if (fromStatus === "in_progress" && timer.is_timer_active) {
+    next = { ...next, total_elapsed_seconds: getElapsedSeconds(timer), is_timer_active: false, timer_paused_at: nowIso };
+  }
+  if (toStatus === "in_progress") {
+    next = { ...next, is_timer_active: true, timer_started_at: nowIso, timer_paused_at: null };
+  }
+  return next;
+};
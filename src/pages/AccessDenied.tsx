@@ -0,0 +1,27 @@
+import { useNavigate } from "react-router-dom";
+
+const AccessDenied = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-[calc(100vh-73px)] flex items-center justify-center bg-[#f5f7f8]">
+      <div className="text-center max-w-md px-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+          <span className="material-symbols-outlined text-primary text-4xl">lock</span>
+        </div>
+        <h1 className="text-3xl font-extrabold text-gray-900 mb-2">Access restricted</h1>
+        <p className="text-gray-500 mb-6">
+          Your account doesn't have permission to view this page. Ask an administrator to assign you a role.
+        </p>
+        <button
+          onClick={() => navigate("/")}
+          className="px-6 py-2.5 bg-primary text-white font-bold rounded-lg shadow-lg shadow-primary/20 hover:bg-primary/90 transition-all"
+        >
+          Return to Home
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { cardAppear, pageTransition } from "@/lib/animations";
+import { ApprovalDecision } from "@/lib/approvals";
+import { formatCurrency } from "@/lib/costs";
+import { cn } from "@/lib/utils";
+import type { Database } from "@/integrations/supabase/types";
+
+type ApprovalLinkSummary = Database["public"]["Functions"]["get_approval_link"]["Returns"][number];
+type WorkStatus = Database["public"]["Enums"]["work_status"];
+
+// The function answers 400 with { error } for links that are spent, expired
+// or replaced; surface that text rather than the generic HTTP error.
+const invokeApprovalLink = async <T,>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("approval-link", { body });
+  if (error instanceof FunctionsHttpError) {
+    const { error: message } = await error.context.json().catch(() => ({}));
+    throw new Error(message || "Something went wrong. Please try again.");
+  }
+  if (error) throw error;
+  return data as T;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+// Public page reached from the approve and reject links in approval request
+// emails. The signed token is the only credential; the decision is recorded
+// under the approver the email went to.
+const ApprovalLink = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const [approval, setApproval] = useState<ApprovalLinkSummary | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [decision, setDecision] = useState<ApprovalDecision>(
+    searchParams.get("decision") === "rejected" ? "rejected" : "approved"
+  );
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [result, setResult] = useState<WorkStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    invokeApprovalLink<{ approval: ApprovalLinkSummary }>({ token })
+      .then(({ approval }) => { if (!cancelled) setApproval(approval); })
+      .catch((e: unknown) => { if (!cancelled) setLinkError(e instanceof Error ? e.message : "This link is not valid."); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  const rejecting = decision === "rejected";
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const { status } = await invokeApprovalLink<{ status: WorkStatus }>({
+        token,
+        decision,
+        comment: comment.trim() || null,
+      });
+      setResult(status);
+    } catch (e: unknown) {
+      setSubmitError(e instanceof Error ? e.message : "Could not record your decision");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center">
+        <span className="material-symbols-outlined animate-spin text-primary text-3xl">progress_activity</span>
+      </div>
+    );
+  }
+
+  if (!approval) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center bg-[#f5f7f8] px-4">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+            <span className="material-symbols-outlined text-primary text-4xl">link_off</span>
+          </div>
+          <h1 className="text-2xl font-extrabold text-gray-900 mb-2">Link can't be used</h1>
+          <p className="text-gray-500">{linkError}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const label = approval.work_order_id || approval.title;
+
+  if (result) {
+    const done = {
+      approved: { icon: "check_circle", className: "text-green-600 bg-green-100", title: "Approved", text: `${label} is fully approved. The requestor will be emailed.` },
+      rejected: { icon: "cancel", className: "text-red-600 bg-red-100", title: "Rejected", text: `${label} has been rejected. The requestor will be emailed with your reason.` },
+      pending: { icon: "check_circle", className: "text-green-600 bg-green-100", title: "Step approved", text: `${label} moves on to the next approver.` },
+    }[result] ?? { icon: "check_circle", className: "text-green-600 bg-green-100", title: "Recorded", text: "Your decision has been recorded." };
+
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center bg-[#f5f7f8] px-4">
+        <motion.div variants={cardAppear} initial="initial" animate="animate" className="text-center max-w-md">
+          <div className={cn("w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-6", done.className)}>
+            <span className="material-symbols-outlined text-4xl">{done.icon}</span>
+          </div>
+          <h1 className="text-2xl font-extrabold text-gray-900 mb-2">{done.title}</h1>
+          <p className="text-gray-500">{done.text} You can close this page.</p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-[calc(100vh-73px)] bg-[#f5f7f8] p-4 md:p-8"
+      variants={pageTransition}
+      initial="initial"
+      animate="animate"
+      exit="exit"
+    >
+      <div className="max-w-xl mx-auto">
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">Approval needed</h2>
+        <p className="text-gray-500 mb-6">
+          {approval.approver_name ? `${approval.approver_name}, you` : "You"} are signing off as{" "}
+          <strong className="text-gray-900">{approval.step_label}</strong>
+          {approval.step_count > 1 && ` (step ${approval.step_number} of ${approval.step_count})`}.
+        </p>
+
+        <motion.div
+          variants={cardAppear}
+          initial="initial"
+          animate="animate"
+          className="bg-white rounded-xl border border-gray-100 shadow-sm p-6 space-y-5"
+        >
+          <div>
+            <span className="text-xs font-bold text-primary uppercase tracking-wide">{approval.work_order_id}</span>
+            <h3 className="text-xl font-extrabold text-gray-900 mt-1">{approval.title}</h3>
+            {approval.description && <p className="text-sm text-gray-600 mt-2 whitespace-pre-wrap">{approval.description}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="text-xs font-bold text-gray-400 uppercase">Requested By</span>
+              <p className="text-gray-900 mt-0.5">{approval.requestor_name}</p>
+            </div>
+            <div>
+              <span className="text-xs font-bold text-gray-400 uppercase">Department</span>
+              <p className="text-gray-900 mt-0.5">{approval.department}</p>
+            </div>
+            <div>
+              <span className="text-xs font-bold text-gray-400 uppercase">Location</span>
+              <p className="text-gray-900 mt-0.5">{approval.location}</p>
+            </div>
+            <div>
+              <span className="text-xs font-bold text-gray-400 uppercase">Estimated Cost</span>
+              <p className="text-gray-900 mt-0.5">
+                {approval.estimated_cost != null ? formatCurrency(approval.estimated_cost) : "Not estimated"}
+              </p>
+            </div>
+          </div>
+
+          <div className="border-t border-gray-100 pt-5 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(["approved", "rejected"] as ApprovalDecision[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setDecision(option)}
+                  className={cn(
+                    "flex items-center justify-center gap-2 rounded-lg border py-2.5 text-sm font-bold transition-colors",
+                    decision === option
+                      ? option === "approved" ? "border-green-600 bg-green-50 text-green-700" : "border-red-600 bg-red-50 text-red-700"
+                      : "border-gray-200 text-gray-500 hover:bg-gray-50"
+                  )}
+                >
+                  <span className="material-symbols-outlined text-[18px]">{option === "approved" ? "thumb_up" : "thumb_down"}</span>
+                  {option === "approved" ? "Approve" : "Reject"}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{rejecting ? "Reason" : "Comment (optional)"}</Label>
+              <Textarea
+                value={comment}
+                onChange={e => setComment(e.target.value)}
+                placeholder={rejecting ? "Why this can't go ahead..." : "Conditions, budget code, anything the next approver should know..."}
+                className="min-h-[90px]"
+              />
+            </div>
+
+            {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+            <Button
+              onClick={handleSubmit}
+              disabled={submitting || (rejecting && !comment.trim())}
+              variant={rejecting ? "destructive" : "default"}
+              className="w-full font-bold"
+            >
+              {submitting ? "Saving..." : rejecting ? `Reject ${label}` : `Approve ${label}`}
+            </Button>
+            <p className="text-xs text-gray-400 text-center">
+              This link works once and expires on {formatDate(approval.link_expires_at)}.
+            </p>
+          </div>
+        </motion.div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ApprovalLink;
@@ -12,11 +12,8 @@ import {
   staggerItem,
   cardAppear,
   buttonHover,
-  emptyStateFade,
-  emptyStateFadeItem,
   pageTransition,
 } from "@/lib/animations";
-import { AnimatedCard, StaggeredList, FloatingElement, PulseGlow } from "@/lib/animations";
 
 // ─── Harborside logo ──────────────────────────────────────────────────────────
 // isolation:isolate creates a new stacking context so mix-blend-mode:multiply
@@ -110,60 +107,27 @@ const AnimatedWaves = () => (
   </div>
 );
 
-interface StatusRequest {
-  id: string;
-  work_order_id: string;
-  title: string;
-  description: string;
-  department: string;
-  priority: string;
-  status: string;
-  requested_date: string;
-  created_at: string;
-  rejected_reason?: string;
-  rejected_by?: string;
-  approved_by?: string;
-  started_by?: string;
-  started_at?: string;
-  completed_by?: string;
-  completed_at?: string;
-  actual_hours?: number;
-  completion_notes?: string;
-}
-
 const Index = () => {
   const [email, setEmail] = useState("");
-  const [requests, setRequests] = useState<StatusRequest[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [hasSearched, setHasSearched] = useState(false);
+  const [linksSent, setLinksSent] = useState(false);
   const { toast } = useToast();
 
-  const handleCheckStatus = async (e: React.FormEvent) => {
+  const handleSendLinks = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    setHasSearched(true);
 
     try {
-      // Use the SECURITY DEFINER RPC so unauthenticated users can query
-      // their own requests without being blocked by Row Level Security.
-      // The function also normalises case so the email match is case-insensitive.
-      const { data, error } = await supabase
-        .rpc("get_work_requests_by_email", { _email: email.trim().toLowerCase() });
-
+      // Always succeeds for a well-formed address, so the page never reveals
+      // whether someone has requests; the links only go to that inbox.
+      const { error } = await supabase.rpc("request_status_links", { _email: email.trim().toLowerCase() });
       if (error) throw error;
-      setRequests((data as StatusRequest[]) || []);
-
-      if (!data || data.length === 0) {
-        toast({
-          title: "No requests found",
-          description: "No work requests were found for that email address. Make sure it matches the email you used when submitting.",
-        });
-      }
+      setLinksSent(true);
     } catch (err) {
-      console.error("Error fetching requests:", err);
+      console.error("Error requesting status links:", err);
       toast({
         title: "Error",
-        description: err instanceof Error ? err.message : "Failed to fetch your requests. Please try again.",
+        description: err instanceof Error ? err.message : "Failed to send your links. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -171,111 +135,100 @@ const Index = () => {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const styles: Record<string, string> = {
-      pending: "bg-amber-100 text-amber-700",
-      approved: "bg-blue-100 text-blue-700",
-      in_progress: "bg-blue-100 text-blue-700",
-      completed: "bg-green-100 text-green-700",
-      rejected: "bg-red-100 text-red-700",
-    };
-    return styles[status] || "bg-gray-100 text-gray-700";
-  };
-
-  const getPriorityDot = (priority: string) => {
-    const colors: Record<string, string> = {
-      emergency: "bg-red-500",
-      high: "bg-orange-500",
-      medium: "bg-blue-500",
-      low: "bg-gray-400",
-    };
-    return colors[priority] || "bg-gray-400";
-  };
-
-  const formatStatus = (status: string) =>
-    status.split("_").map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
-
-  const formatDate = (dateString: string) =>
-    new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+  // ── Hero / status links view ────────────────────────────────
+  return (
+    <motion.div
+      className="min-h-[calc(100vh-73px)] flex flex-col"
+      variants={pageTransition}
+      initial="initial"
+      animate="animate"
+      exit="exit"
+    >
+      <main className="flex-1 flex flex-col items-center justify-center relative px-4 py-20 bg-geometric">
+        <div className="absolute inset-0 hero-gradient pointer-events-none" />
 
-  // ── Hero / search view ──────────────────────────────────────
-  if (!hasSearched) {
-    return (
-      <motion.div
-        className="min-h-[calc(100vh-73px)] flex flex-col"
-        variants={pageTransition}
-        initial="initial"
-        animate="animate"
-        exit="exit"
-      >
-        <main className="flex-1 flex flex-col items-center justify-center relative px-4 py-20 bg-geometric">
-          <div className="absolute inset-0 hero-gradient pointer-events-none" />
+        {/* Hero content */}
+        <motion.div
+          variants={heroFadeIn}
+          initial="initial"
+          animate="animate"
+          className="relative z-10 max-w-4xl mx-auto text-center flex flex-col items-center gap-8"
+        >
+          {/* Harborside logo */}
+          <HarborsideLogo />
 
-          {/* Hero content */}
+          {/* Heading + sub */}
           <motion.div
-            variants={heroFadeIn}
+            variants={staggerContainer}
             initial="initial"
             animate="animate"
-            className="relative z-10 max-w-4xl mx-auto text-center flex flex-col items-center gap-8"
+            className="space-y-4"
           >
-            {/* Harborside logo */}
-            <HarborsideLogo />
+            <motion.h1
+              variants={staggerItem}
+              className="text-4xl md:text-6xl font-extrabold tracking-tight text-gray-900 leading-[1.1]"
+            >
+              Harborside Facilities{" "}
+              <br className="hidden md:block" />
+              <span className="text-primary">Management</span>
+            </motion.h1>
 
-            {/* Heading + sub */}
-            <motion.div
-              variants={staggerContainer}
-              initial="initial"
-              animate="animate"
-              className="space-y-4"
+            <motion.p
+              variants={staggerItem}
+              className="text-lg md:text-xl text-gray-500 max-w-2xl mx-auto font-medium"
             >
-              <motion.h1
-                variants={staggerItem}
-                className="text-4xl md:text-6xl font-extrabold tracking-tight text-gray-900 leading-[1.1]"
-              >
-                Harborside Facilities{" "}
-                <br className="hidden md:block" />
-                <span className="text-primary">Management</span>
-              </motion.h1>
+              Check the status of your work requests. Submit new requests and
+              track maintenance in real-time.
+            </motion.p>
+          </motion.div>
 
-              <motion.p
-                variants={staggerItem}
-                className="text-lg md:text-xl text-gray-500 max-w-2xl mx-auto font-medium"
+          {/* Status check card */}
+          <motion.div
+            variants={cardAppear}
+            initial="initial"
+            animate="animate"
+            transition={{ delay: 0.35 }}
+            className="w-full max-w-[600px] bg-white rounded-xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-gray-100 overflow-hidden"
+          >
+            <div className="p-8 md:p-12 flex flex-col items-center text-center">
+              <motion.div
+                animate={{ scale: [1, 1.06, 1] }}
+                transition={{ duration: 3, repeat: Infinity, ease: "easeInOut", delay: 1 }}
+                className="mb-6 size-16 bg-primary/10 rounded-full flex items-center justify-center text-primary"
               >
-                Check the status of your work requests. Submit new requests and
-                track maintenance in real-time.
-              </motion.p>
-            </motion.div>
-
-            {/* Status check card */}
-            <motion.div
-              variants={cardAppear}
-              initial="initial"
-              animate="animate"
-              transition={{ delay: 0.35 }}
-              className="w-full max-w-[600px] bg-white rounded-xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-gray-100 overflow-hidden"
-            >
-              <div className="p-8 md:p-12 flex flex-col items-center text-center">
-                <motion.div
-                  animate={{ scale: [1, 1.06, 1] }}
-                  transition={{ duration: 3, repeat: Infinity, ease: "easeInOut", delay: 1 }}
-                  className="mb-6 size-16 bg-primary/10 rounded-full flex items-center justify-center text-primary"
+                <span className="material-symbols-outlined text-4xl">{linksSent ? "mark_email_read" : "search"}</span>
+              </motion.div>
+
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-3">
+                {linksSent ? "Check Your Inbox" : "Check Request Status"}
+              </h2>
+              <p className="text-gray-500 text-base leading-relaxed mb-10 max-w-md">
+                {linksSent ? (
+                  <>
+                    If we have requests from <span className="font-semibold text-gray-700">{email.trim()}</span>,
+                    a link to each one is on its way. The links in your confirmation emails work too.
+                  </>
+                ) : (
+                  <>
+                    Enter the email address used to submit your facility maintenance
+                    or event request and we'll send you a status link for each one.
+                  </>
+                )}
+              </p>
+
+              {linksSent ? (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setLinksSent(false);
+                    setEmail("");
+                  }}
                 >
-                  <span className="material-symbols-outlined text-4xl">search</span>
-                </motion.div>
-
-                <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-3">
-                  Check Request Status
-                </h2>
-                <p className="text-gray-500 text-base leading-relaxed mb-10 max-w-md">
-                  Enter the email address used to submit your facility maintenance
-                  or event request to see current progress.
-                </p>
-
-                <form onSubmit={handleCheckStatus} className="w-full space-y-6">
+                  <span className="material-symbols-outlined text-[18px] mr-1">arrow_back</span>
+                  Use a different email
+                </Button>
+              ) : (
+                <form onSubmit={handleSendLinks} className="w-full space-y-6">
                   <motion.div
                     variants={staggerItem}
                     initial="initial"
@@ -337,11 +290,11 @@ const Index = () => {
                             <span className="material-symbols-outlined animate-spin mr-2">
                               progress_activity
                             </span>
-                            Checking...
+                            Sending...
                           </>
                         ) : (
                           <>
-                            Check Status
+                            Email Me My Links
                             <span className="material-symbols-outlined ml-2 text-xl">
                               arrow_forward
                             </span>
@@ -351,287 +304,44 @@ const Index = () => {
                     </motion.div>
                   </motion.div>
                 </form>
+              )}
 
-                <motion.p
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.9 }}
-                  className="mt-8 text-sm italic text-gray-400"
-                >
-                  We'll search our database for requests from this email
-                </motion.p>
-              </div>
-              <div className="h-1.5 w-full primary-gradient opacity-50" />
-            </motion.div>
-
-            {/* Submit new request CTA */}
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.75 }}
-            >
-              <Link to="/submit">
-                <motion.span
-                  variants={buttonHover}
-                  initial="rest"
-                  whileHover="hover"
-                  whileTap="tap"
-                  className="inline-flex items-center gap-2 text-primary font-bold text-sm hover:underline cursor-pointer"
-                >
-                  <span className="material-symbols-outlined text-[18px]">add_circle</span>
-                  Submit a new work request
-                </motion.span>
-              </Link>
-            </motion.div>
+              <motion.p
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.9 }}
+                className="mt-8 text-sm italic text-gray-400"
+              >
+                Links are only ever sent to the address on the request
+              </motion.p>
+            </div>
+            <div className="h-1.5 w-full primary-gradient opacity-50" />
           </motion.div>
-        </main>
 
-        {/* ── Harborside animated waves + footer text ── */}
-        <AnimatedWaves />
-      </motion.div>
-    );
-  }
-
-  // ── Results view ─────────────────────────────────────────────
-  return (
-    <motion.div
-      className="min-h-[calc(100vh-73px)] bg-background p-4 md:p-8"
-      variants={pageTransition}
-      initial="initial"
-      animate="animate"
-      exit="exit"
-    >
-      <div className="max-w-4xl mx-auto">
-        {/* Header row */}
-        <motion.div
-          variants={staggerContainer}
-          initial="initial"
-          animate="animate"
-          className="flex items-center justify-between mb-6"
-        >
-          <motion.div variants={staggerItem} className="flex items-center gap-3">
-            <h2 className="text-2xl font-bold text-gray-900">Your Requests</h2>
-            <AnimatePresence>
+          {/* Submit new request CTA */}
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.75 }}
+          >
+            <Link to="/submit">
               <motion.span
-                key={requests.length}
-                initial={{ scale: 0.6, opacity: 0 }}
-                animate={{ scale: 1, opacity: 1 }}
-                className="bg-primary/10 text-primary text-sm font-bold px-3 py-1 rounded-full"
+                variants={buttonHover}
+                initial="rest"
+                whileHover="hover"
+                whileTap="tap"
+                className="inline-flex items-center gap-2 text-primary font-bold text-sm hover:underline cursor-pointer"
               >
-                {requests.length}
+                <span className="material-symbols-outlined text-[18px]">add_circle</span>
+                Submit a new work request
               </motion.span>
-            </AnimatePresence>
-          </motion.div>
-
-          <motion.div variants={staggerItem} className="flex gap-2">
-            <Button
-              variant="outline"
-              onClick={() => {
-                setHasSearched(false);
-                setRequests([]);
-                setEmail("");
-              }}
-            >
-              <span className="material-symbols-outlined text-[18px] mr-1">arrow_back</span>
-              Back
-            </Button>
-            <Link to="/submit">
-              <Button className="primary-gradient text-white font-bold shadow-sm">
-                <span className="material-symbols-outlined text-[18px] mr-1">add</span>
-                New Request
-              </Button>
             </Link>
           </motion.div>
         </motion.div>
+      </main>
 
-        {/* Empty state */}
-        {requests.length === 0 && (
-          <motion.div
-            variants={emptyStateFade}
-            initial="initial"
-            animate="animate"
-            className="bg-white rounded-xl border border-gray-100 shadow-sm p-16 text-center"
-          >
-            <motion.div variants={emptyStateFadeItem} className="mx-auto mb-6 w-fit">
-              <FloatingElement amplitude={8} duration={3.5}>
-                <div className="size-20 bg-gray-50 rounded-full flex items-center justify-center">
-                  <span className="material-symbols-outlined text-gray-300 text-5xl">
-                    description
-                  </span>
-                </div>
-              </FloatingElement>
-            </motion.div>
-
-            <motion.h3
-              variants={emptyStateFadeItem}
-              className="text-xl font-bold text-gray-900 mb-2"
-            >
-              No Requests Found
-            </motion.h3>
-
-            <motion.p
-              variants={emptyStateFadeItem}
-              className="text-gray-500 mb-2 max-w-md mx-auto"
-            >
-              We couldn't find any work requests associated with this email address.
-            </motion.p>
-
-            <motion.p
-              variants={emptyStateFadeItem}
-              className="text-sm italic text-gray-400 mb-8"
-            >
-              Make sure you're using the same email you submitted your request with.
-            </motion.p>
-
-            <motion.div variants={emptyStateFadeItem}>
-              <Link to="/submit">
-                <Button className="primary-gradient text-white font-bold shadow-lg shadow-primary/20">
-                  <span className="material-symbols-outlined text-[20px] mr-2">
-                    add_circle
-                  </span>
-                  Submit New Request
-                </Button>
-              </Link>
-            </motion.div>
-          </motion.div>
-        )}
-
-        {/* Results list */}
-        {requests.length > 0 && (
-          <StaggeredList className="space-y-4">
-            {requests.map((request) => (
-              <AnimatedCard
-                key={request.id}
-                hover
-                className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden"
-              >
-                <div className="p-6">
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center gap-3">
-                      <span className="text-xs font-bold text-primary uppercase tracking-wide">
-                        {request.work_order_id}
-                      </span>
-                      <span className="text-xs text-gray-400">
-                        Submitted {formatDate(request.created_at)}
-                      </span>
-                    </div>
-
-                    {/* Status badge – pulse on pending */}
-                    {request.status === "pending" ? (
-                      <PulseGlow color="#F59E0B" intensity={0.25}>
-                        <span
-                          className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold ${getStatusBadge(
-                            request.status
-                          )}`}
-                        >
-                          <span className="material-symbols-outlined text-[16px]">schedule</span>
-                          {formatStatus(request.status)}
-                        </span>
-                      </PulseGlow>
-                    ) : (
-                      <span
-                        className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold ${getStatusBadge(
-                          request.status
-                        )}`}
-                      >
-                        {request.status === "completed" && (
-                          <span className="material-symbols-outlined text-[16px]">check_circle</span>
-                        )}
-                        {request.status === "rejected" && (
-                          <span className="material-symbols-outlined text-[16px]">cancel</span>
-                        )}
-                        {request.status === "in_progress" && (
-                          <span className="material-symbols-outlined text-[16px]">sync</span>
-                        )}
-                        {formatStatus(request.status)}
-                      </span>
-                    )}
-                  </div>
-
-                  <h3 className="text-lg font-bold text-gray-900 mb-4">{request.title}</h3>
-
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-                    <div>
-                      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
-                        Department
-                      </p>
-                      <p className="text-sm font-semibold text-gray-700 capitalize">
-                        {request.department}
-                      </p>
-                    </div>
-                    <div>
-                      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
-                        Priority
-                      </p>
-                      <div className="flex items-center gap-2">
-                        <div className={`size-2 rounded-full ${getPriorityDot(request.priority)}`} />
-                        <p className="text-sm font-semibold text-gray-700 capitalize">
-                          {request.priority}
-                        </p>
-                      </div>
-                    </div>
-                    <div>
-                      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
-                        Requested Date
-                      </p>
-                      <p className="text-sm font-semibold text-gray-700">
-                        {formatDate(request.requested_date)}
-                      </p>
-                    </div>
-                    {request.completed_at && (
-                      <div>
-                        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
-                          Completed
-                        </p>
-                        <p className="text-sm font-semibold text-gray-700">
-                          {formatDate(request.completed_at)}
-                        </p>
-                      </div>
-                    )}
-                  </div>
-
-                  {request.status === "completed" && request.completion_notes && (
-                    <motion.div
-                      initial={{ opacity: 0, height: 0 }}
-                      animate={{ opacity: 1, height: "auto" }}
-                      className="bg-green-50 border border-green-100 rounded-lg p-4 flex gap-3"
-                    >
-                      <span className="material-symbols-outlined text-green-600 text-[20px] mt-0.5">
-                        task_alt
-                      </span>
-                      <div>
-                        <p className="text-sm font-bold text-green-800 mb-1">Completion Notes</p>
-                        <p className="text-sm text-green-700">{request.completion_notes}</p>
-                        {request.actual_hours && (
-                          <p className="text-xs text-green-600 mt-1">
-                            Actual hours: {request.actual_hours}h
-                          </p>
-                        )}
-                      </div>
-                    </motion.div>
-                  )}
-
-                  {request.status === "rejected" && request.rejected_reason && (
-                    <motion.div
-                      initial={{ opacity: 0, height: 0 }}
-                      animate={{ opacity: 1, height: "auto" }}
-                      className="bg-red-50 border border-red-100 rounded-lg p-4 flex gap-3"
-                    >
-                      <span className="material-symbols-outlined text-red-600 text-[20px] mt-0.5">
-                        error
-                      </span>
-                      <div>
-                        <p className="text-sm font-bold text-red-800 mb-1">Rejection Reason</p>
-                        <p className="text-sm text-red-700">{request.rejected_reason}</p>
-                      </div>
-                    </motion.div>
-                  )}
-                </div>
-              </AnimatedCard>
-            ))}
-          </StaggeredList>
-        )}
-      </div>
+      {/* ── Harborside animated waves + footer text ── */}
+      <AnimatedWaves />
     </motion.div>
   );
 };
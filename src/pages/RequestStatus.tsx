@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { cardAppear, pageTransition, PulseGlow } from "@/lib/animations";
+import { WorkRequestTimeline } from "@/components/timeline/WorkRequestTimeline";
+import { MessageThread } from "@/components/messages/MessageThread";
+import { useLookups } from "@/hooks/use-lookups";
+import { getPriorityDot, getPriorityLabel } from "@/lib/priorities";
+import type { Database } from "@/integrations/supabase/types";
+
+type StatusRequest = Database["public"]["Functions"]["get_work_request_by_token"]["Returns"][number];
+
+const getStatusBadge = (status: string) => {
+  const styles: Record<string, string> = {
+    pending: "bg-amber-100 text-amber-700",
+    approved: "bg-blue-100 text-blue-700",
+    in_progress: "bg-blue-100 text-blue-700",
+    completed: "bg-green-100 text-green-700",
+    rejected: "bg-red-100 text-red-700",
+  };
+  return styles[status] || "bg-gray-100 text-gray-700";
+};
+
+const formatStatus = (status: string) =>
+  status.split("_").map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+// Public page reached from the link in requestor emails. The token is the
+// only credential, so nothing here identifies the requestor.
+const RequestStatus = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const { getLabel } = useLookups();
+  const [request, setRequest] = useState<StatusRequest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    supabase
+      .rpc("get_work_request_by_token", { _token: token })
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error fetching request:", error);
+        setRequest(data ?? null);
+        setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center">
+        <span className="material-symbols-outlined animate-spin text-primary text-3xl">progress_activity</span>
+      </div>
+    );
+  }
+
+  if (!request) {
+    return (
+      <div className="min-h-[calc(100vh-73px)] flex items-center justify-center bg-[#f5f7f8] px-4">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+            <span className="material-symbols-outlined text-primary text-4xl">link_off</span>
+          </div>
+          <h1 className="text-2xl font-extrabold text-gray-900 mb-2">Link not recognised</h1>
+          <p className="text-gray-500 mb-6">
+            This status link is incomplete or no longer valid. We can email you fresh links to all of your requests.
+          </p>
+          <Link to="/">
+            <Button className="primary-gradient text-white font-bold">Email me my links</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="min-h-[calc(100vh-73px)] bg-background p-4 md:p-8"
+      variants={pageTransition}
+      initial="initial"
+      animate="animate"
+      exit="exit"
+    >
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Request Status</h2>
+          <Link to="/submit">
+            <Button className="primary-gradient text-white font-bold shadow-sm">
+              <span className="material-symbols-outlined text-[18px] mr-1">add</span>
+              New Request
+            </Button>
+          </Link>
+        </div>
+
+        <motion.div
+          variants={cardAppear}
+          initial="initial"
+          animate="animate"
+          className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden"
+        >
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-bold text-primary uppercase tracking-wide">
+                  {request.work_order_id}
+                </span>
+                <span className="text-xs text-gray-400">
+                  Submitted {formatDate(request.created_at)}
+                </span>
+              </div>
+
+              {/* Status badge – pulse on pending */}
+              {request.status === "pending" ? (
+                <PulseGlow color="#F59E0B" intensity={0.25}>
+                  <span
+                    className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold ${getStatusBadge(
+                      request.status
+                    )}`}
+                  >
+                    <span className="material-symbols-outlined text-[16px]">schedule</span>
+                    {formatStatus(request.status)}
+                  </span>
+                </PulseGlow>
+              ) : (
+                <span
+                  className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold ${getStatusBadge(
+                    request.status
+                  )}`}
+                >
+                  {request.status === "completed" && (
+                    <span className="material-symbols-outlined text-[16px]">check_circle</span>
+                  )}
+                  {request.status === "rejected" && (
+                    <span className="material-symbols-outlined text-[16px]">cancel</span>
+                  )}
+                  {request.status === "in_progress" && (
+                    <span className="material-symbols-outlined text-[16px]">sync</span>
+                  )}
+                  {formatStatus(request.status)}
+                </span>
+              )}
+            </div>
+
+            <h3 className="text-lg font-bold text-gray-900 mb-2">{request.title}</h3>
+            {request.description && <p className="text-sm text-gray-600 mb-4">{request.description}</p>}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div>
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
+                  Location
+                </p>
+                <p className="text-sm font-semibold text-gray-700">
+                  {getLabel("locations", request.location)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
+                  Priority
+                </p>
+                <div className="flex items-center gap-2">
+                  <div className={`size-2 rounded-full ${getPriorityDot(request.priority)}`} />
+                  <p className="text-sm font-semibold text-gray-700">
+                    {getPriorityLabel(request.priority)}
+                  </p>
+                </div>
+              </div>
+              <div>
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
+                  Requested Date
+                </p>
+                <p className="text-sm font-semibold text-gray-700">
+                  {formatDate(request.requested_date)}
+                </p>
+              </div>
+              {request.completed_at && (
+                <div>
+                  <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
+                    Completed
+                  </p>
+                  <p className="text-sm font-semibold text-gray-700">
+                    {formatDate(request.completed_at)}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {request.status === "completed" && request.completion_notes && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                className="bg-green-50 border border-green-100 rounded-lg p-4 flex gap-3"
+              >
+                <span className="material-symbols-outlined text-green-600 text-[20px] mt-0.5">
+                  task_alt
+                </span>
+                <div>
+                  <p className="text-sm font-bold text-green-800 mb-1">Completion Notes</p>
+                  <p className="text-sm text-green-700">{request.completion_notes}</p>
+                  {request.actual_hours && (
+                    <p className="text-xs text-green-600 mt-1">
+                      Actual hours: {request.actual_hours}h
+                    </p>
+                  )}
+                </div>
+              </motion.div>
+            )}
+
+            {request.status === "rejected" && request.rejected_reason && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                className="bg-red-50 border border-red-100 rounded-lg p-4 flex gap-3"
+              >
+                <span className="material-symbols-outlined text-red-600 text-[20px] mt-0.5">
+                  error
+                </span>
+                <div>
+                  <p className="text-sm font-bold text-red-800 mb-1">Rejection Reason</p>
+                  <p className="text-sm text-red-700">{request.rejected_reason}</p>
+                </div>
+              </motion.div>
+            )}
+
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <button
+                onClick={() => setHistoryOpen(!historyOpen)}
+                className="flex items-center gap-1 text-sm font-bold text-primary hover:underline"
+              >
+                <span className="material-symbols-outlined text-[18px]">history</span>
+                {historyOpen ? "Hide history" : "View history"}
+              </button>
+              <AnimatePresence>
+                {historyOpen && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: "auto" }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="mt-4 overflow-hidden"
+                  >
+                    <WorkRequestTimeline workRequestId={request.id} accessToken={token} />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
+          </div>
+        </motion.div>
+
+        <motion.div
+          variants={cardAppear}
+          initial="initial"
+          animate="animate"
+          className="mt-6 bg-white rounded-xl border border-gray-100 shadow-sm p-6"
+        >
+          <h3 className="flex items-center gap-2 text-sm font-bold text-gray-900 mb-4">
+            <span className="material-symbols-outlined text-[18px] text-primary">forum</span>
+            Messages
+          </h3>
+          <MessageThread workRequestId={request.id} accessToken={token} />
+        </motion.div>
+
+        <p className="mt-4 text-xs text-gray-400 text-center">
+          Anyone with this link can see this request. Keep it to yourself.
+        </p>
+      </div>
+    </motion.div>
+  );
+};
+
+export default RequestStatus;
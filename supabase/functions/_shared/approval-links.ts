@@ -0,0 +1,48 @@
+// Signed tokens for the approve and reject links in 'approval_request'
+// emails. A token is base64url(JSON payload) + "." + base64url(HMAC-SHA256
+// of that first part), keyed with APPROVAL_LINK_SECRET. The nonce ties it to
+// one emailing of one approval step; the database checks it is still current.
+
+export interface ApprovalLinkPayload {
+  approval_id: string;
+  nonce: string;
+  /** Unix seconds, matching work_request_approvals.link_expires_at */
+  expires_at: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), (c) => c.charCodeAt(0));
+};
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const signApprovalToken = async (payload: ApprovalLinkPayload, secret: string) => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/** The payload of a well-signed, unexpired token; null for anything else. */
+export const verifyApprovalToken = async (token: string, secret: string): Promise<ApprovalLinkPayload | null> => {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await importKey(secret), fromBase64Url(signature), encoder.encode(body));
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as ApprovalLinkPayload;
+    if (!payload.approval_id || !payload.nonce || !(payload.expires_at * 1000 > Date.now())) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
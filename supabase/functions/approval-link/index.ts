@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.0";
+import { verifyApprovalToken } from "../_shared/approval-links.ts";
+
+// Backs the public /approval/:token page that approve and reject links in
+// 'approval_request' emails open. The signed token is the only credential:
+//
+//   { token }                       returns the request the link is for
+//   { token, decision, comment }    records the decision as the approver
+//
+// Environment:
+//   APPROVAL_LINK_SECRET   the secret send-notification-emails signs with
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const secret = Deno.env.get('APPROVAL_LINK_SECRET');
+    if (!secret) throw new Error('APPROVAL_LINK_SECRET is not set');
+
+    const { token, decision, comment } = await req.json().catch(() => ({}));
+    const payload = typeof token === 'string' ? await verifyApprovalToken(token, secret) : null;
+    if (!payload) {
+      return json({ error: 'This link is not valid or has expired.' }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    if (decision === undefined) {
+      const { data, error } = await supabase
+        .rpc('get_approval_link', { _approval_id: payload.approval_id, _nonce: payload.nonce })
+        .single();
+      // Raised by check_approval_link() for the approver to read
+      if (error) return json({ error: error.message }, 400);
+      return json({ approval: data });
+    }
+
+    if (decision !== 'approved' && decision !== 'rejected') {
+      return json({ error: 'Unknown decision' }, 400);
+    }
+
+    const { data: status, error } = await supabase.rpc('decide_work_request_approval_by_link', {
+      _approval_id: payload.approval_id,
+      _nonce: payload.nonce,
+      _decision: decision,
+      _comment: typeof comment === 'string' ? comment : null,
+    });
+    if (error) return json({ error: error.message }, 400);
+    return json({ status });
+
+  } catch (error: unknown) {
+    console.error('Error in approval-link function:', error);
+
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,183 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.0";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { signApprovalToken } from "../_shared/approval-links.ts";
+
+// Renders queued email_outbox rows with their email_templates row and sends
+// them over SMTP. Called by invoke_email_sender() in the database.
+//
+// Environment:
+//   SMTP_HOST, SMTP_PORT       e.g. the local mail catcher (inbucket:2500)
+//   SMTP_USER, SMTP_PASSWORD   optional; omitted for mail catchers
+//   SMTP_TLS                   "true" for implicit TLS (port 465)
+//   SMTP_FROM                  e.g. "Facilities <facilities@example.org>"
+//   APP_URL                    base URL for {{status_url}}, {{status_links}},
+//                              {{approve_url}} and {{reject_url}}
+//   APPROVAL_LINK_SECRET       signs approve and reject links; shared with
+//                              the approval-link function
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface OutboxRow {
+  id: string;
+  template: string;
+  recipient: string;
+  context: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface StatusLink {
+  work_order_id: string;
+  title: string;
+  access_token: string;
+}
+
+interface EmailTemplate {
+  event: string;
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+}
+
+// Keep in sync with renderTemplate() in src/lib/email-templates.ts
+const renderTemplate = (template: string, context: Record<string, string | null>) =>
+  template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, key: string) => context[key] ?? '');
+
+// Links are built here because only the function knows APP_URL
+const buildContext = (context: Record<string, unknown>, appUrl: string): Record<string, string | null> => {
+  const statusUrl = (token: unknown) => (token ? `${appUrl}/status/${token}` : `${appUrl}/`);
+  const links = Array.isArray(context.requests) ? (context.requests as StatusLink[]) : [];
+  return {
+    ...Object.fromEntries(Object.entries(context).filter(([, value]) => typeof value === 'string')) as Record<string, string>,
+    status_url: statusUrl(context.access_token),
+    status_links: links.map((link) => `${link.work_order_id} – ${link.title}\n${statusUrl(link.access_token)}`).join('\n\n'),
+  };
+};
+
+// Only 'approval_request' rows carry an approval; everything else gets no links
+const buildApprovalLinks = async (context: Record<string, unknown>, appUrl: string, secret: string | undefined) => {
+  if (typeof context.approval_id !== 'string' || typeof context.link_nonce !== 'string') return {};
+  if (!secret) throw new Error('APPROVAL_LINK_SECRET is not set');
+
+  const token = await signApprovalToken({
+    approval_id: context.approval_id,
+    nonce: context.link_nonce,
+    expires_at: Number(context.link_expires_at),
+  }, secret);
+  return {
+    approve_url: `${appUrl}/approval/${token}?decision=approved`,
+    reject_url: `${appUrl}/approval/${token}?decision=rejected`,
+  };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toHtml = (text: string) =>
+  text.split(/\n{2,}/).map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n');
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  try {
+    const { outbox_id: outboxId = null } = await req.json().catch(() => ({}));
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_email_outbox', { _outbox_id: outboxId });
+    if (claimError) throw claimError;
+    const rows = (claimed ?? []) as OutboxRow[];
+    if (rows.length === 0) {
+      return new Response(JSON.stringify({ success: true, sent: 0, failed: 0 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    }
+
+    const { data: templates, error: templateError } = await supabase.from('email_templates').select('*');
+    if (templateError) throw templateError;
+    const templatesByEvent = new Map((templates as EmailTemplate[]).map((t) => [t.event, t]));
+
+    const smtpPort = parseInt(Deno.env.get('SMTP_PORT') ?? '587', 10);
+    const smtpUser = Deno.env.get('SMTP_USER');
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: smtpPort,
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        auth: smtpUser ? { username: smtpUser, password: Deno.env.get('SMTP_PASSWORD') ?? '' } : undefined,
+      },
+    });
+    const from = Deno.env.get('SMTP_FROM') ?? 'Facilities <no-reply@localhost>';
+    const appUrl = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '');
+    const approvalLinkSecret = Deno.env.get('APPROVAL_LINK_SECRET');
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const row of rows) {
+      const template = templatesByEvent.get(row.template);
+      const context = buildContext(row.context, appUrl);
+      let subject: string | null = null;
+      let body: string | null = null;
+
+      try {
+        Object.assign(context, await buildApprovalLinks(row.context, appUrl, approvalLinkSecret));
+        subject = template ? renderTemplate(template.subject, context) : null;
+        body = template ? renderTemplate(template.body, context) : null;
+
+        if (!template || !template.is_enabled) {
+          throw new Error(`Template "${row.template}" is disabled`);
+        }
+        await client.send({ from, to: row.recipient, subject: subject!, content: body!, html: toHtml(body!) });
+
+        await supabase
+          .from('email_outbox')
+          .update({ status: 'sent', subject, body, sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', row.id);
+        sent++;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to send email ${row.id}:`, message);
+        const giveUp = row.attempts >= row.max_attempts || !template?.is_enabled;
+        await supabase
+          .from('email_outbox')
+          .update({
+            status: giveUp ? 'failed' : 'pending',
+            subject,
+            body,
+            last_error: message,
+            next_attempt_at: new Date(Date.now() + 2 ** row.attempts * 60_000).toISOString(),
+          })
+          .eq('id', row.id);
+        failed++;
+      }
+    }
+
+    await client.close();
+
+    return new Response(JSON.stringify({ success: true, sent, failed }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error in send-notification-emails function:', error);
+
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      success: false,
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  }
+};
+
+serve(handler);
@@ -0,0 +1,139 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work request attachments
+--
+-- Requestors can attach photos or PDFs (a leak, a broken fixture) when they
+-- submit a work request. Files live in the private `work-request-attachments`
+-- storage bucket under `<work_request_id>/<file>`; a row in
+-- work_request_attachments links each object back to its request.
+--
+-- Limits:  10 MB per file, images (jpeg/png/webp/heic/gif) and PDF only.
+--   The bucket enforces both, the client checks them up front for a nicer
+--   error message.
+-- Access:  only staff (anyone with a row in user_roles) and the original
+--   requestor (signed-in user whose email matches requestor_email) can read.
+--   Anonymous uploads are only accepted for a request created in the last
+--   hour, i.e. straight after the public form submitted it.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+-- Bucket with size and MIME type limits
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'work-request-attachments',
+  'work-request-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Attachment metadata
+CREATE TABLE IF NOT EXISTS public.work_request_attachments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_attachments_request
+  ON public.work_request_attachments(work_request_id);
+
+ALTER TABLE public.work_request_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Helper: any user with an assigned role counts as staff
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id);
+$$;
+
+-- Helper: the signed-in user submitted this request (email match, case-insensitive)
+CREATE OR REPLACE FUNCTION public.is_work_request_requestor(_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.work_requests
+    WHERE id = _request_id
+      AND lower(requestor_email) = lower(coalesce(auth.jwt() ->> 'email', ''))
+  );
+$$;
+
+-- Helper: attachments may be added by staff at any time, and by anyone for a
+-- request that was created within the last hour (the public form uploads
+-- right after inserting the request)
+CREATE OR REPLACE FUNCTION public.can_attach_to_work_request(_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_staff(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.work_requests
+      WHERE id = _request_id
+        AND created_at > now() - interval '1 hour'
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_staff(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_work_request_requestor(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_attach_to_work_request(uuid) TO anon, authenticated;
+
+-- Table policies
+DROP POLICY IF EXISTS "Staff and requestor can view attachments" ON public.work_request_attachments;
+CREATE POLICY "Staff and requestor can view attachments"
+ON public.work_request_attachments FOR SELECT
+USING (public.is_staff(auth.uid()) OR public.is_work_request_requestor(work_request_id));
+
+DROP POLICY IF EXISTS "Attachments can be added to new requests" ON public.work_request_attachments;
+CREATE POLICY "Attachments can be added to new requests"
+ON public.work_request_attachments FOR INSERT
+WITH CHECK (public.can_attach_to_work_request(work_request_id));
+
+DROP POLICY IF EXISTS "Staff can delete attachments" ON public.work_request_attachments;
+CREATE POLICY "Staff can delete attachments"
+ON public.work_request_attachments FOR DELETE
+USING (public.is_staff(auth.uid()));
+
+-- Storage policies (first folder of the object name is the work request id)
+DROP POLICY IF EXISTS "Staff and requestor can read attachment files" ON storage.objects;
+CREATE POLICY "Staff and requestor can read attachment files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'work-request-attachments'
+  AND (
+    public.is_staff(auth.uid())
+    OR public.is_work_request_requestor(((storage.foldername(name))[1])::uuid)
+  )
+);
+
+DROP POLICY IF EXISTS "Attachment files can be uploaded to new requests" ON storage.objects;
+CREATE POLICY "Attachment files can be uploaded to new requests"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'work-request-attachments'
+  AND public.can_attach_to_work_request(((storage.foldername(name))[1])::uuid)
+);
+
+DROP POLICY IF EXISTS "Staff can delete attachment files" ON storage.objects;
+CREATE POLICY "Staff can delete attachment files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'work-request-attachments'
+  AND public.is_staff(auth.uid())
+);
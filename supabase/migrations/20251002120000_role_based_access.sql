@@ -0,0 +1,262 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Role-based access control for work requests
+--
+-- Roles (user_roles.role):
+--   admin     full access, manages roles
+--   manager   approver: approves, rejects and reschedules requests
+--   employee  works requests: start, pause, resume, complete
+-- A signed-in user with no row in user_roles is not staff and only sees the
+-- requests they submitted themselves (email match).
+--
+-- Direct UPDATEs on work_requests are limited to approvers. Everyone else
+-- changes status through the SECURITY DEFINER RPCs below, each of which
+-- checks the caller's role before touching the row.
+--
+-- The public form can no longer read back the row it inserted (anon has no
+-- SELECT), so it submits through submit_work_request() which returns the new
+-- id and work_order_id.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+-- Highest-privilege role wins when a user has several
+CREATE OR REPLACE FUNCTION public.get_user_role(_user_id uuid)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.user_roles
+  WHERE user_id = _user_id
+  ORDER BY CASE role WHEN 'admin' THEN 1 WHEN 'manager' THEN 2 ELSE 3 END
+  LIMIT 1;
+$$;
+
+-- Helper: admins and managers can make approval decisions
+CREATE OR REPLACE FUNCTION public.is_approver(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role IN ('admin', 'manager')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_approver(uuid) TO anon, authenticated;
+
+-- ─── work_requests policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Users can view work requests" ON public.work_requests;
+DROP POLICY IF EXISTS "Staff can view work requests" ON public.work_requests;
+CREATE POLICY "Staff can view work requests"
+ON public.work_requests FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Requestors can view their own work requests" ON public.work_requests;
+CREATE POLICY "Requestors can view their own work requests"
+ON public.work_requests FOR SELECT
+USING (lower(requestor_email) = lower(coalesce(auth.jwt() ->> 'email', '')));
+
+DROP POLICY IF EXISTS "Users can update work requests" ON public.work_requests;
+DROP POLICY IF EXISTS "Approvers can update work requests" ON public.work_requests;
+CREATE POLICY "Approvers can update work requests"
+ON public.work_requests FOR UPDATE
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+-- ─── Public submission ──────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.submit_work_request(
+  _requestor_name text,
+  _requestor_email text,
+  _department text,
+  _title text,
+  _description text,
+  _priority priority_level,
+  _requested_date date,
+  _location text,
+  _category text DEFAULT 'General',
+  _requestor_phone text DEFAULT NULL
+)
+RETURNS TABLE (id uuid, work_order_id text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO public.work_requests AS wr (
+    requestor_name, requestor_email, requestor_phone, department, title,
+    description, priority, requested_date, location, category
+  ) VALUES (
+    _requestor_name, _requestor_email, _requestor_phone, _department, _title,
+    _description, _priority, _requested_date, _location, _category
+  )
+  RETURNING wr.id, wr.work_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text) TO anon, authenticated;
+
+-- ─── Status RPCs ────────────────────────────────────────────────────────────
+
+-- The older overload without _new_requested_date skipped these checks
+DROP FUNCTION IF EXISTS public.update_work_request_status(uuid, work_status, text, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.update_work_request_status(
+  _request_id uuid,
+  _status work_status,
+  _user_name text DEFAULT NULL::text,
+  _reason text DEFAULT NULL::text,
+  _hours numeric DEFAULT NULL::numeric,
+  _notes text DEFAULT NULL::text,
+  _new_requested_date date DEFAULT NULL::date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF _status IN ('approved', 'rejected') OR _new_requested_date IS NOT NULL THEN
+    IF NOT public.is_approver(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins and managers can approve, reject or reschedule work requests'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can update work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET
+    status = _status,
+    updated_at = now(),
+    requested_date = COALESCE(_new_requested_date, requested_date),
+    approved_by = CASE WHEN _status = 'approved' THEN _user_name ELSE approved_by END,
+    approved_at = CASE WHEN _status = 'approved' THEN now() ELSE approved_at END,
+    rejected_by = CASE WHEN _status = 'rejected' THEN _user_name ELSE rejected_by END,
+    rejected_at = CASE WHEN _status = 'rejected' THEN now() ELSE rejected_at END,
+    rejected_reason = CASE WHEN _status = 'rejected' THEN _reason ELSE rejected_reason END,
+    started_by = CASE WHEN _status = 'in_progress' THEN _user_name ELSE started_by END,
+    started_at = CASE WHEN _status = 'in_progress' THEN now() ELSE started_at END,
+    completed_by = CASE WHEN _status = 'completed' THEN _user_name ELSE completed_by END,
+    completed_at = CASE WHEN _status = 'completed' THEN now() ELSE completed_at END,
+    actual_hours = CASE WHEN _status = 'completed' THEN _hours ELSE actual_hours END,
+    completion_notes = CASE WHEN _status = 'completed' THEN _notes ELSE completion_notes END
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$function$;
+
+-- approve_work_request still pointed at the retired pending_work_requests table
+DROP FUNCTION IF EXISTS public.approve_work_request(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.approve_work_request(_request_id uuid, _approved_by_user text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can approve work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'approved',
+      approved_by = _approved_by_user,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.start_work(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.start_work(approved_id uuid, started_by_user text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can start work' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'in_progress',
+      started_by = started_by_user,
+      started_at = now(),
+      updated_at = now()
+  WHERE id = approved_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', approved_id;
+  END IF;
+
+  RETURN approved_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.complete_work(uuid, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.complete_work(
+  started_id uuid,
+  completed_by_user text,
+  actual_hours_worked numeric DEFAULT NULL,
+  notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can complete work' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'completed',
+      completed_by = completed_by_user,
+      completed_at = now(),
+      actual_hours = actual_hours_worked,
+      completion_notes = notes,
+      updated_at = now()
+  WHERE id = started_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', started_id;
+  END IF;
+
+  RETURN started_id;
+END;
+$$;
+
+-- Status RPCs are for signed-in staff only
+REVOKE EXECUTE ON FUNCTION public.update_work_request_status(uuid, work_status, text, text, numeric, text, date) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.approve_work_request(uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.start_work(uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.complete_work(uuid, text, numeric, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.update_work_request_status(uuid, work_status, text, text, numeric, text, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_work_request(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_work(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_work(uuid, text, numeric, text) TO authenticated;
@@ -0,0 +1,202 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Record the signed-in user on workflow actions
+--
+-- The workflow RPCs used to take the actor's name as a parameter and the UI
+-- always passed 'Admin'. They now read the caller from auth.uid() and store
+-- both the user id (*_by_id) and a display name (*_by) resolved from
+-- profiles, falling back to the account email.
+--
+-- The old signatures are dropped so a client can no longer claim to be
+-- someone else.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS approved_by_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rejected_by_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS started_by_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS completed_by_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Display name for the caller: profile name, then profile email, then JWT email
+CREATE OR REPLACE FUNCTION public.current_actor_name()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT NULLIF(trim(name), '') FROM public.profiles WHERE user_id = auth.uid()),
+    (SELECT NULLIF(trim(email), '') FROM public.profiles WHERE user_id = auth.uid()),
+    auth.jwt() ->> 'email'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_actor_name() TO authenticated;
+
+-- ─── update_work_request_status ─────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.update_work_request_status(uuid, work_status, text, text, numeric, text, date);
+
+CREATE OR REPLACE FUNCTION public.update_work_request_status(
+  _request_id uuid,
+  _status work_status,
+  _reason text DEFAULT NULL::text,
+  _hours numeric DEFAULT NULL::numeric,
+  _notes text DEFAULT NULL::text,
+  _new_requested_date date DEFAULT NULL::date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := public.current_actor_name();
+BEGIN
+  IF _status IN ('approved', 'rejected') OR _new_requested_date IS NOT NULL THEN
+    IF NOT public.is_approver(_actor_id) THEN
+      RAISE EXCEPTION 'Only admins and managers can approve, reject or reschedule work requests'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NOT public.is_staff(_actor_id) THEN
+    RAISE EXCEPTION 'Only staff can update work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET
+    status = _status,
+    updated_at = now(),
+    requested_date = COALESCE(_new_requested_date, requested_date),
+    approved_by = CASE WHEN _status = 'approved' THEN _actor_name ELSE approved_by END,
+    approved_by_id = CASE WHEN _status = 'approved' THEN _actor_id ELSE approved_by_id END,
+    approved_at = CASE WHEN _status = 'approved' THEN now() ELSE approved_at END,
+    rejected_by = CASE WHEN _status = 'rejected' THEN _actor_name ELSE rejected_by END,
+    rejected_by_id = CASE WHEN _status = 'rejected' THEN _actor_id ELSE rejected_by_id END,
+    rejected_at = CASE WHEN _status = 'rejected' THEN now() ELSE rejected_at END,
+    rejected_reason = CASE WHEN _status = 'rejected' THEN _reason ELSE rejected_reason END,
+    started_by = CASE WHEN _status = 'in_progress' THEN _actor_name ELSE started_by END,
+    started_by_id = CASE WHEN _status = 'in_progress' THEN _actor_id ELSE started_by_id END,
+    started_at = CASE WHEN _status = 'in_progress' THEN now() ELSE started_at END,
+    completed_by = CASE WHEN _status = 'completed' THEN _actor_name ELSE completed_by END,
+    completed_by_id = CASE WHEN _status = 'completed' THEN _actor_id ELSE completed_by_id END,
+    completed_at = CASE WHEN _status = 'completed' THEN now() ELSE completed_at END,
+    actual_hours = CASE WHEN _status = 'completed' THEN _hours ELSE actual_hours END,
+    completion_notes = CASE WHEN _status = 'completed' THEN _notes ELSE completion_notes END
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$function$;
+
+-- ─── approve_work_request ───────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.approve_work_request(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.approve_work_request(_request_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can approve work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'approved',
+      approved_by = public.current_actor_name(),
+      approved_by_id = auth.uid(),
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$$;
+
+-- ─── start_work ─────────────────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.start_work(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.start_work(approved_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can start work' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'in_progress',
+      started_by = public.current_actor_name(),
+      started_by_id = auth.uid(),
+      started_at = now(),
+      updated_at = now()
+  WHERE id = approved_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', approved_id;
+  END IF;
+
+  RETURN approved_id;
+END;
+$$;
+
+-- ─── complete_work ──────────────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.complete_work(uuid, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.complete_work(
+  started_id uuid,
+  actual_hours_worked numeric DEFAULT NULL,
+  notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can complete work' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'completed',
+      completed_by = public.current_actor_name(),
+      completed_by_id = auth.uid(),
+      completed_at = now(),
+      actual_hours = actual_hours_worked,
+      completion_notes = notes,
+      updated_at = now()
+  WHERE id = started_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', started_id;
+  END IF;
+
+  RETURN started_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_work_request_status(uuid, work_status, text, numeric, text, date) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.approve_work_request(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.start_work(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.complete_work(uuid, numeric, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.update_work_request_status(uuid, work_status, text, numeric, text, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_work_request(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_work(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_work(uuid, numeric, text) TO authenticated;
@@ -0,0 +1,194 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work request history
+--
+-- Status changes used to overwrite columns on work_requests, losing every
+-- pause/resume and every date change except the latest. A trigger now
+-- appends a row to work_request_events whenever a request is created or its
+-- status, requested date, priority or approval checklist changes.
+--
+-- Actor:   auth.uid() and current_actor_name() of whoever made the change;
+--   on the public form insert there is no user, so the requestor's name is
+--   used instead.
+-- Reason:  rejection reason for rejections, date_changed_reason for
+--   reschedules.
+-- Access:  staff and the signed-in requestor can read events directly. The
+--   anonymous status lookup goes through get_work_request_events_by_email(),
+--   which omits internal checklist events.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_request_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'created', 'status_changed', 'date_changed', 'priority_changed', 'checklist_updated'
+  )),
+  old_value text,
+  new_value text,
+  reason text,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_events_request
+  ON public.work_request_events(work_request_id, created_at);
+
+ALTER TABLE public.work_request_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff and requestor can view work request events" ON public.work_request_events;
+CREATE POLICY "Staff and requestor can view work request events"
+ON public.work_request_events FOR SELECT
+USING (public.is_staff(auth.uid()) OR public.is_work_request_requestor(work_request_id));
+
+-- ─── Trigger ────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.log_work_request_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := COALESCE(public.current_actor_name(), NEW.requestor_name);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'created', NEW.status::text, _actor_id, _actor_name);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'status_changed', OLD.status::text, NEW.status::text,
+      CASE WHEN NEW.status = 'rejected' THEN NEW.rejected_reason END,
+      _actor_id, _actor_name
+    );
+  END IF;
+
+  IF NEW.requested_date IS DISTINCT FROM OLD.requested_date THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'date_changed', OLD.requested_date::text, NEW.requested_date::text,
+      NEW.date_changed_reason, _actor_id, _actor_name
+    );
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'priority_changed', OLD.priority::text, NEW.priority::text, _actor_id, _actor_name);
+  END IF;
+
+  IF NEW.approval_checklist IS DISTINCT FROM OLD.approval_checklist THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'checklist_updated', OLD.approval_checklist::text, NEW.approval_checklist::text, _actor_id, _actor_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_work_request_events ON public.work_requests;
+CREATE TRIGGER log_work_request_events
+  AFTER INSERT OR UPDATE ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_work_request_events();
+
+-- Existing requests start their history at creation
+INSERT INTO public.work_request_events (work_request_id, event_type, new_value, actor_name, created_at)
+SELECT wr.id, 'created', 'pending', wr.requestor_name, COALESCE(wr.created_at, now())
+FROM public.work_requests wr
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.work_request_events e
+  WHERE e.work_request_id = wr.id AND e.event_type = 'created'
+);
+
+-- ─── Date change reason from the approval RPC ───────────────────────────────
+-- update_work_request_status accepted a reason with _new_requested_date but
+-- never stored it, so the trigger had nothing to record.
+
+CREATE OR REPLACE FUNCTION public.update_work_request_status(
+  _request_id uuid,
+  _status work_status,
+  _reason text DEFAULT NULL::text,
+  _hours numeric DEFAULT NULL::numeric,
+  _notes text DEFAULT NULL::text,
+  _new_requested_date date DEFAULT NULL::date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := public.current_actor_name();
+BEGIN
+  IF _status IN ('approved', 'rejected') OR _new_requested_date IS NOT NULL THEN
+    IF NOT public.is_approver(_actor_id) THEN
+      RAISE EXCEPTION 'Only admins and managers can approve, reject or reschedule work requests'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NOT public.is_staff(_actor_id) THEN
+    RAISE EXCEPTION 'Only staff can update work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET
+    status = _status,
+    updated_at = now(),
+    requested_date = COALESCE(_new_requested_date, requested_date),
+    date_changed_reason = CASE WHEN _new_requested_date IS NOT NULL THEN _reason ELSE date_changed_reason END,
+    approved_by = CASE WHEN _status = 'approved' THEN _actor_name ELSE approved_by END,
+    approved_by_id = CASE WHEN _status = 'approved' THEN _actor_id ELSE approved_by_id END,
+    approved_at = CASE WHEN _status = 'approved' THEN now() ELSE approved_at END,
+    rejected_by = CASE WHEN _status = 'rejected' THEN _actor_name ELSE rejected_by END,
+    rejected_by_id = CASE WHEN _status = 'rejected' THEN _actor_id ELSE rejected_by_id END,
+    rejected_at = CASE WHEN _status = 'rejected' THEN now() ELSE rejected_at END,
+    rejected_reason = CASE WHEN _status = 'rejected' THEN _reason ELSE rejected_reason END,
+    started_by = CASE WHEN _status = 'in_progress' THEN _actor_name ELSE started_by END,
+    started_by_id = CASE WHEN _status = 'in_progress' THEN _actor_id ELSE started_by_id END,
+    started_at = CASE WHEN _status = 'in_progress' THEN now() ELSE started_at END,
+    completed_by = CASE WHEN _status = 'completed' THEN _actor_name ELSE completed_by END,
+    completed_by_id = CASE WHEN _status = 'completed' THEN _actor_id ELSE completed_by_id END,
+    completed_at = CASE WHEN _status = 'completed' THEN now() ELSE completed_at END,
+    actual_hours = CASE WHEN _status = 'completed' THEN _hours ELSE actual_hours END,
+    completion_notes = CASE WHEN _status = 'completed' THEN _notes ELSE completion_notes END
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$function$;
+
+-- ─── Public history lookup ──────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_work_request_events_by_email(_request_id uuid, _email text)
+RETURNS TABLE (
+  id uuid,
+  event_type text,
+  old_value text,
+  new_value text,
+  reason text,
+  actor_name text,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.event_type, e.old_value, e.new_value, e.reason, e.actor_name, e.created_at
+  FROM public.work_request_events e
+  JOIN public.work_requests wr ON wr.id = e.work_request_id
+  WHERE e.work_request_id = _request_id
+    AND lower(wr.requestor_email) = lower(_email)
+    AND e.event_type <> 'checklist_updated'
+  ORDER BY e.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_work_request_events_by_email(uuid, text) TO anon, authenticated;
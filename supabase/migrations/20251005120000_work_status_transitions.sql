@@ -0,0 +1,158 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work order state machine
+--
+-- work_status_transitions is the single definition of which status moves are
+-- allowed. A BEFORE UPDATE trigger on work_requests rejects anything not in
+-- the table, so neither the RPCs nor a direct UPDATE can move a rejected
+-- request to completed or skip approval.
+--
+-- The frontend reads the same table to decide which action buttons to show:
+--   action             stable key the UI maps to a handler/dialog
+--   label              button text
+--   requires_approver  only admins and managers may perform it
+--
+--   pending     ──approve──▶ approved ──start──▶ in_progress ──complete──▶ completed
+--      │                                          │     ▲
+--      └──reject──▶ rejected                 pause│     │resume
+--                                                 ▼     │
+--                                                 paused
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_status_transitions (
+  from_status work_status NOT NULL,
+  to_status work_status NOT NULL,
+  action text NOT NULL,
+  label text NOT NULL,
+  requires_approver boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.work_status_transitions (from_status, to_status, action, label, requires_approver, sort_order)
+VALUES
+  ('pending',     'approved',    'approve',  'Approve',    true,  1),
+  ('pending',     'rejected',    'reject',   'Reject',     true,  2),
+  ('approved',    'in_progress', 'start',    'Start Work', false, 1),
+  ('in_progress', 'completed',   'complete', 'Complete',   false, 1),
+  ('in_progress', 'paused',      'pause',    'Pause',      false, 2),
+  ('paused',      'in_progress', 'resume',   'Resume',     false, 1)
+ON CONFLICT (from_status, to_status) DO UPDATE
+SET action = EXCLUDED.action,
+    label = EXCLUDED.label,
+    requires_approver = EXCLUDED.requires_approver,
+    sort_order = EXCLUDED.sort_order;
+
+ALTER TABLE public.work_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in can read status transitions" ON public.work_status_transitions;
+CREATE POLICY "Anyone signed in can read status transitions"
+ON public.work_status_transitions FOR SELECT
+TO authenticated
+USING (true);
+
+-- ─── Enforcement ────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.enforce_work_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM public.work_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Cannot move work request from % to %',
+      replace(OLD.status::text, '_', ' '), replace(NEW.status::text, '_', ' ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_work_status_transition ON public.work_requests;
+CREATE TRIGGER enforce_work_status_transition
+  BEFORE UPDATE OF status ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_work_status_transition();
+
+-- ─── update_work_request_status ─────────────────────────────────────────────
+-- Role requirements now come from the transition table instead of a
+-- hard-coded status list. Rescheduling still needs an approver. Resuming a
+-- paused job no longer overwrites who started it and when.
+
+CREATE OR REPLACE FUNCTION public.update_work_request_status(
+  _request_id uuid,
+  _status work_status,
+  _reason text DEFAULT NULL::text,
+  _hours numeric DEFAULT NULL::numeric,
+  _notes text DEFAULT NULL::text,
+  _new_requested_date date DEFAULT NULL::date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := public.current_actor_name();
+  _current work_status;
+  _transition public.work_status_transitions%ROWTYPE;
+BEGIN
+  IF NOT public.is_staff(_actor_id) THEN
+    RAISE EXCEPTION 'Only staff can update work requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT status INTO _current FROM public.work_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  IF _current IS DISTINCT FROM _status THEN
+    SELECT * INTO _transition
+    FROM public.work_status_transitions
+    WHERE from_status = _current AND to_status = _status;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cannot move work request from % to %',
+        replace(_current::text, '_', ' '), replace(_status::text, '_', ' ')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _transition.requires_approver AND NOT public.is_approver(_actor_id) THEN
+      RAISE EXCEPTION 'Only admins and managers can %', lower(_transition.label)
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF _new_requested_date IS NOT NULL AND NOT public.is_approver(_actor_id) THEN
+    RAISE EXCEPTION 'Only admins and managers can reschedule work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET
+    status = _status,
+    updated_at = now(),
+    requested_date = COALESCE(_new_requested_date, requested_date),
+    date_changed_reason = CASE WHEN _new_requested_date IS NOT NULL THEN _reason ELSE date_changed_reason END,
+    approved_by = CASE WHEN _status = 'approved' THEN _actor_name ELSE approved_by END,
+    approved_by_id = CASE WHEN _status = 'approved' THEN _actor_id ELSE approved_by_id END,
+    approved_at = CASE WHEN _status = 'approved' THEN now() ELSE approved_at END,
+    rejected_by = CASE WHEN _status = 'rejected' THEN _actor_name ELSE rejected_by END,
+    rejected_by_id = CASE WHEN _status = 'rejected' THEN _actor_id ELSE rejected_by_id END,
+    rejected_at = CASE WHEN _status = 'rejected' THEN now() ELSE rejected_at END,
+    rejected_reason = CASE WHEN _status = 'rejected' THEN _reason ELSE rejected_reason END,
+    started_by = CASE WHEN _status = 'in_progress' AND _current = 'approved' THEN _actor_name ELSE started_by END,
+    started_by_id = CASE WHEN _status = 'in_progress' AND _current = 'approved' THEN _actor_id ELSE started_by_id END,
+    started_at = CASE WHEN _status = 'in_progress' AND _current = 'approved' THEN now() ELSE started_at END,
+    completed_by = CASE WHEN _status = 'completed' THEN _actor_name ELSE completed_by END,
+    completed_by_id = CASE WHEN _status = 'completed' THEN _actor_id ELSE completed_by_id END,
+    completed_at = CASE WHEN _status = 'completed' THEN now() ELSE completed_at END,
+    actual_hours = CASE WHEN _status = 'completed' THEN _hours ELSE actual_hours END,
+    completion_notes = CASE WHEN _status = 'completed' THEN _notes ELSE completion_notes END
+  WHERE id = _request_id;
+
+  RETURN _request_id;
+END;
+$function$;
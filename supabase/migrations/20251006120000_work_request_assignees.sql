@@ -0,0 +1,298 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work request assignees
+--
+-- A work order can be assigned to one or more profiles: staff (admin,
+-- manager, employee) or volunteers. Volunteers get the new 'volunteer' role;
+-- they are not staff, so they only see the jobs assigned to them and can
+-- start, pause, resume and complete those jobs.
+--
+-- Assignment is replaced as a whole through set_work_request_assignees(),
+-- which only approvers may call.
+--
+-- Note: the new enum value cannot be used as an app_role literal in the same
+-- transaction that adds it, so functions below compare role::text.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'volunteer';
+
+CREATE TABLE IF NOT EXISTS public.work_request_assignees (
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  assigned_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (work_request_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_assignees_profile
+  ON public.work_request_assignees(profile_id);
+
+ALTER TABLE public.work_request_assignees ENABLE ROW LEVEL SECURITY;
+
+-- ─── Helpers ────────────────────────────────────────────────────────────────
+
+-- Volunteers have a role but are not staff
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role::text <> 'volunteer'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_role(_user_id uuid)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.user_roles
+  WHERE user_id = _user_id
+  ORDER BY CASE role::text
+    WHEN 'admin' THEN 1
+    WHEN 'manager' THEN 2
+    WHEN 'employee' THEN 3
+    ELSE 4
+  END
+  LIMIT 1;
+$$;
+
+-- Helper: the signed-in user is assigned to this request
+CREATE OR REPLACE FUNCTION public.is_work_request_assignee(_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.work_request_assignees a
+    JOIN public.profiles p ON p.id = a.profile_id
+    WHERE a.work_request_id = _request_id
+      AND p.user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_work_request_assignee(uuid) TO authenticated;
+
+-- ─── Policies ───────────────────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff and assignees can view assignments" ON public.work_request_assignees;
+CREATE POLICY "Staff and assignees can view assignments"
+ON public.work_request_assignees FOR SELECT
+USING (public.is_staff(auth.uid()) OR public.is_work_request_assignee(work_request_id));
+
+DROP POLICY IF EXISTS "Approvers can manage assignments" ON public.work_request_assignees;
+CREATE POLICY "Approvers can manage assignments"
+ON public.work_request_assignees FOR ALL
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+DROP POLICY IF EXISTS "Assignees can view their assigned work requests" ON public.work_requests;
+CREATE POLICY "Assignees can view their assigned work requests"
+ON public.work_requests FOR SELECT
+USING (public.is_work_request_assignee(id));
+
+DROP POLICY IF EXISTS "Assignees can view work request events" ON public.work_request_events;
+CREATE POLICY "Assignees can view work request events"
+ON public.work_request_events FOR SELECT
+USING (public.is_work_request_assignee(work_request_id));
+
+-- Staff need to see other profiles to pick assignees and show names
+DROP POLICY IF EXISTS "Staff can view all profiles" ON public.profiles;
+CREATE POLICY "Staff can view all profiles"
+ON public.profiles FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+-- ─── RPCs ───────────────────────────────────────────────────────────────────
+
+-- Everyone who can be assigned work, with their highest role
+CREATE OR REPLACE FUNCTION public.get_assignable_profiles()
+RETURNS TABLE (id uuid, user_id uuid, name text, email text, role text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.user_id, p.name, p.email, public.get_user_role(p.user_id)::text
+  FROM public.profiles p
+  WHERE public.is_staff(auth.uid())
+    AND EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = p.user_id)
+  ORDER BY lower(coalesce(p.name, p.email));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_assignable_profiles() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_work_request_assignees(_request_id uuid, _profile_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can assign work' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.work_requests WHERE id = _request_id) THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  DELETE FROM public.work_request_assignees
+  WHERE work_request_id = _request_id
+    AND NOT (profile_id = ANY (coalesce(_profile_ids, '{}')));
+
+  INSERT INTO public.work_request_assignees (work_request_id, profile_id, assigned_by)
+  SELECT _request_id, pid, auth.uid()
+  FROM unnest(coalesce(_profile_ids, '{}')) AS pid
+  ON CONFLICT (work_request_id, profile_id) DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_work_request_assignees(uuid, uuid[]) TO authenticated;
+
+-- ─── Let assignees work their own jobs ──────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.update_work_request_status(
+  _request_id uuid,
+  _status work_status,
+  _reason text DEFAULT NULL::text,
+  _hours numeric DEFAULT NULL::numeric,
+  _notes text DEFAULT NULL::text,
+  _new_requested_date date DEFAULT NULL::date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := public.current_actor_name();
+  _current work_status;
+  _transition public.work_status_transitions%ROWTYPE;
+BEGIN
+  IF NOT (public.is_staff(_actor_id) OR public.is_work_request_assignee(_request_id)) THEN
+    RAISE EXCEPTION 'Only staff or assignees can update work requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT status INTO _current FROM public.work_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  IF _current IS DISTINCT FROM _status THEN
+    SELECT * INTO _transition
+    FROM public.work_status_transitions
+    WHERE from_status = _current AND to_status = _status;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cannot move work request from % to %',
+        replace(_current::text, '_', ' '), replace(_status::text, '_', ' ')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _transition.requires_approver AND NOT public.is_approver(_actor_id) THEN
+      RAISE EXCEPTION 'Only admins and managers can %', lower(_transition.label)
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF _new_requested_date IS NOT NULL AND NOT public.is_approver(_actor_id) THEN
+    RAISE EXCEPTION 'Only admins and managers can reschedule work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET
+    status = _status,
+    updated_at = now(),
+    requested_date = COALESCE(_new_requested_date, requested_date),
+    date_changed_reason = CASE WHEN _new_requested_date IS NOT NULL THEN _reason ELSE date_changed_reason END,
+    approved_by = CASE WHEN _status = 'approved' THEN _actor_name ELSE approved_by END,
+    approved_by_id = CASE WHEN _status = 'approved' THEN _actor_id ELSE approved_by_id END,
+    approved_at = CASE WHEN _status = 'approved' THEN now() ELSE approved_at END,
+    rejected_by = CASE WHEN _status = 'rejected' THEN _actor_name ELSE rejected_by END,
+    rejected_by_id = CASE WHEN _status = 'rejected' THEN _actor_id ELSE rejected_by_id END,
+    rejected_at = CASE WHEN _status = 'rejected' THEN now() ELSE rejected_at END,
+    rejected_reason = CASE WHEN _status = 'rejected' THEN _reason ELSE rejected_reason END,
+    started_by = CASE WHEN _status = 'in_progress' AND _current = 'approved' THEN _actor_name ELSE started_by END,
+    started_by_id = CASE WHEN _status = 'in_progress' AND _current = 'approved' THEN _actor_id ELSE started_by_id END,
+    started_at = CASE WHEN _status = 'in_progress' AND _current = 'approved' THEN now() ELSE started_at END,
+    completed_by = CASE WHEN _status = 'completed' THEN _actor_name ELSE completed_by END,
+    completed_by_id = CASE WHEN _status = 'completed' THEN _actor_id ELSE completed_by_id END,
+    completed_at = CASE WHEN _status = 'completed' THEN now() ELSE completed_at END,
+    actual_hours = CASE WHEN _status = 'completed' THEN _hours ELSE actual_hours END,
+    completion_notes = CASE WHEN _status = 'completed' THEN _notes ELSE completion_notes END
+  WHERE id = _request_id;
+
+  RETURN _request_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.start_work(approved_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_staff(auth.uid()) OR public.is_work_request_assignee(approved_id)) THEN
+    RAISE EXCEPTION 'Only staff or assignees can start work' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'in_progress',
+      started_by = public.current_actor_name(),
+      started_by_id = auth.uid(),
+      started_at = now(),
+      updated_at = now()
+  WHERE id = approved_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', approved_id;
+  END IF;
+
+  RETURN approved_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_work(
+  started_id uuid,
+  actual_hours_worked numeric DEFAULT NULL,
+  notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_staff(auth.uid()) OR public.is_work_request_assignee(started_id)) THEN
+    RAISE EXCEPTION 'Only staff or assignees can complete work' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'completed',
+      completed_by = public.current_actor_name(),
+      completed_by_id = auth.uid(),
+      completed_at = now(),
+      actual_hours = actual_hours_worked,
+      completion_notes = notes,
+      updated_at = now()
+  WHERE id = started_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', started_id;
+  END IF;
+
+  RETURN started_id;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work timer and time-entry log
+--
+-- The timer columns on work_requests (is_timer_active, timer_started_at,
+-- timer_paused_at, total_elapsed_seconds) are now maintained by a trigger on
+-- status changes, so every path that moves a job in or out of in_progress
+-- (start_work, complete_work, update_work_request_status) keeps time:
+--
+--   → in_progress   timer starts, a new work_time_entries segment opens
+--   in_progress →   elapsed time is banked, the open segment is closed
+--
+-- Each segment records who started and who stopped it. Entries are written
+-- only by the trigger; clients can read them but not change them.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name text,
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  ended_at timestamp with time zone,
+  ended_by_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ended_by_name text,
+  duration_seconds integer,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_time_entries_request
+  ON public.work_time_entries(work_request_id, started_at);
+
+-- At most one running segment per work order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_time_entries_open
+  ON public.work_time_entries(work_request_id) WHERE ended_at IS NULL;
+
+ALTER TABLE public.work_time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff and assignees can view time entries" ON public.work_time_entries;
+CREATE POLICY "Staff and assignees can view time entries"
+ON public.work_time_entries FOR SELECT
+USING (public.is_staff(auth.uid()) OR public.is_work_request_assignee(work_request_id));
+
+-- ─── Timer trigger ──────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.track_work_timer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _now timestamptz := now();
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Leaving in_progress: bank the running segment
+  IF OLD.status = 'in_progress' AND COALESCE(OLD.is_timer_active, false) THEN
+    NEW.total_elapsed_seconds := COALESCE(OLD.total_elapsed_seconds, 0)
+      + GREATEST(0, floor(extract(epoch FROM _now - OLD.timer_started_at)))::integer;
+    NEW.is_timer_active := false;
+    NEW.timer_paused_at := _now;
+
+    UPDATE public.work_time_entries
+    SET ended_at = _now,
+        ended_by_id = auth.uid(),
+        ended_by_name = public.current_actor_name(),
+        duration_seconds = GREATEST(0, floor(extract(epoch FROM _now - started_at)))::integer
+    WHERE work_request_id = NEW.id AND ended_at IS NULL;
+  END IF;
+
+  -- Entering in_progress: start a new segment
+  IF NEW.status = 'in_progress' THEN
+    NEW.is_timer_active := true;
+    NEW.timer_started_at := _now;
+    NEW.timer_paused_at := NULL;
+
+    INSERT INTO public.work_time_entries (work_request_id, user_id, actor_name, started_at)
+    VALUES (NEW.id, auth.uid(), public.current_actor_name(), _now)
+    ON CONFLICT (work_request_id) WHERE ended_at IS NULL DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to sort after enforce_work_status_transition so illegal moves are
+-- rejected before any time is logged
+DROP TRIGGER IF EXISTS track_work_timer ON public.work_requests;
+CREATE TRIGGER track_work_timer
+  BEFORE UPDATE OF status ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_work_timer();
+
+-- ─── Backfill ───────────────────────────────────────────────────────────────
+-- Jobs already in progress start timing from now; earlier time was never
+-- recorded and is not guessed at.
+
+UPDATE public.work_requests
+SET is_timer_active = true,
+    timer_started_at = now(),
+    timer_paused_at = NULL,
+    total_elapsed_seconds = COALESCE(total_elapsed_seconds, 0)
+WHERE status = 'in_progress'
+  AND NOT COALESCE(is_timer_active, false);
+
+INSERT INTO public.work_time_entries (work_request_id, actor_name, started_at)
+SELECT wr.id, wr.started_by, wr.timer_started_at
+FROM public.work_requests wr
+WHERE wr.status = 'in_progress'
+  AND wr.is_timer_active
+  AND NOT EXISTS (
+    SELECT 1 FROM public.work_time_entries e
+    WHERE e.work_request_id = wr.id AND e.ended_at IS NULL
+  );
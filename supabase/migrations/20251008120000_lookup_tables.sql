@@ -0,0 +1,238 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Departments, locations and categories as admin-managed lookup tables
+--
+-- Each table has the same shape:
+--   value        stable key stored on work_requests; never changes
+--   name         display label; admins can rename it freely
+--   sort_order   order in pickers and filters
+--   archived_at  archived entries stay valid for existing requests and keep
+--                their label in filters and reports, but new requests and
+--                edits cannot use them
+--
+-- A trigger on work_requests rejects department/location/category values
+-- that are missing or archived, so the public form cannot drift from the
+-- lists again.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.departments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  value text NOT NULL UNIQUE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  archived_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  value text NOT NULL UNIQUE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  archived_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  value text NOT NULL UNIQUE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  archived_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_departments_name ON public.departments(lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_name ON public.locations(lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_name ON public.categories(lower(name));
+
+DROP TRIGGER IF EXISTS update_departments_updated_at ON public.departments;
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_locations_updated_at ON public.locations;
+CREATE TRIGGER update_locations_updated_at
+  BEFORE UPDATE ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON public.categories;
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ─── Seed ───────────────────────────────────────────────────────────────────
+-- Departments were stored lower-cased and locations by name; keep those as
+-- the values so existing requests match without rewriting them.
+
+INSERT INTO public.departments (value, name, sort_order) VALUES
+  ('worship', 'Worship', 1),
+  ('events', 'Events', 2),
+  ('kids', 'Kids', 3),
+  ('admin', 'Admin', 4),
+  ('outreach', 'Outreach', 5),
+  ('youth', 'Youth', 6),
+  ('facilities', 'Facilities', 7),
+  ('it/tech', 'IT/Tech', 8),
+  ('other', 'Other', 99)
+ON CONFLICT (value) DO NOTHING;
+
+INSERT INTO public.locations (value, name, sort_order) VALUES
+  ('Main Sanctuary', 'Main Sanctuary', 1),
+  ('Fellowship Hall', 'Fellowship Hall', 2),
+  ('Youth Room', 'Youth Room', 3),
+  ('Kitchen', 'Kitchen', 4),
+  ('Office Wing', 'Office Wing', 5),
+  ('Parking Lot', 'Parking Lot', 6),
+  ('Exterior Grounds', 'Exterior Grounds', 7),
+  ('Nursery', 'Nursery', 8),
+  ('Gym', 'Gym', 9),
+  ('Other', 'Other', 99)
+ON CONFLICT (value) DO NOTHING;
+
+INSERT INTO public.categories (value, name, sort_order) VALUES
+  ('General', 'General', 1),
+  ('Plumbing', 'Plumbing', 2),
+  ('Electrical', 'Electrical', 3),
+  ('HVAC', 'HVAC', 4),
+  ('Cleaning', 'Cleaning', 5),
+  ('Setup / AV', 'Setup / AV', 6),
+  ('Grounds', 'Grounds', 7),
+  ('Repairs', 'Repairs', 8)
+ON CONFLICT (value) DO NOTHING;
+
+-- Anything already on a request that isn't in the seed lists is kept, archived
+INSERT INTO public.departments (value, name, sort_order, archived_at)
+SELECT DISTINCT department, initcap(department), 100, now()
+FROM public.work_requests
+WHERE department IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.locations (value, name, sort_order, archived_at)
+SELECT DISTINCT location, location, 100, now()
+FROM public.work_requests
+WHERE location IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.categories (value, name, sort_order, archived_at)
+SELECT DISTINCT category, category, 100, now()
+FROM public.work_requests
+WHERE category IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+-- The public request form reads the lists anonymously; only admins edit.
+-- Entries are archived rather than deleted so old requests keep their label.
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read departments" ON public.departments;
+CREATE POLICY "Anyone can read departments"
+ON public.departments FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can add departments" ON public.departments;
+CREATE POLICY "Admins can add departments"
+ON public.departments FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can update departments" ON public.departments;
+CREATE POLICY "Admins can update departments"
+ON public.departments FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Anyone can read locations" ON public.locations;
+CREATE POLICY "Anyone can read locations"
+ON public.locations FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can add locations" ON public.locations;
+CREATE POLICY "Admins can add locations"
+ON public.locations FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can update locations" ON public.locations;
+CREATE POLICY "Admins can update locations"
+ON public.locations FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Anyone can read categories" ON public.categories;
+CREATE POLICY "Anyone can read categories"
+ON public.categories FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can add categories" ON public.categories;
+CREATE POLICY "Admins can add categories"
+ON public.categories FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can update categories" ON public.categories;
+CREATE POLICY "Admins can update categories"
+ON public.categories FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The stable key must not change once requests may reference it
+CREATE OR REPLACE FUNCTION public.prevent_lookup_value_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.value IS DISTINCT FROM OLD.value THEN
+    RAISE EXCEPTION 'The value of a % entry cannot be changed; rename it instead', TG_TABLE_NAME
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_departments_value_change ON public.departments;
+CREATE TRIGGER prevent_departments_value_change
+  BEFORE UPDATE OF value ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_lookup_value_change();
+
+DROP TRIGGER IF EXISTS prevent_locations_value_change ON public.locations;
+CREATE TRIGGER prevent_locations_value_change
+  BEFORE UPDATE OF value ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_lookup_value_change();
+
+DROP TRIGGER IF EXISTS prevent_categories_value_change ON public.categories;
+CREATE TRIGGER prevent_categories_value_change
+  BEFORE UPDATE OF value ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_lookup_value_change();
+
+-- ─── Validate work requests ─────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.validate_work_request_lookups()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.department IS DISTINCT FROM OLD.department)
+    AND NOT EXISTS (SELECT 1 FROM public.departments WHERE value = NEW.department AND archived_at IS NULL) THEN
+    RAISE EXCEPTION 'Unknown or archived department: %', NEW.department USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.location IS DISTINCT FROM OLD.location)
+    AND NOT EXISTS (SELECT 1 FROM public.locations WHERE value = NEW.location AND archived_at IS NULL) THEN
+    RAISE EXCEPTION 'Unknown or archived location: %', NEW.location USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.category IS DISTINCT FROM OLD.category)
+    AND NOT EXISTS (SELECT 1 FROM public.categories WHERE value = NEW.category AND archived_at IS NULL) THEN
+    RAISE EXCEPTION 'Unknown or archived category: %', NEW.category USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_work_request_lookups ON public.work_requests;
+CREATE TRIGGER validate_work_request_lookups
+  BEFORE INSERT OR UPDATE OF department, location, category ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_work_request_lookups();
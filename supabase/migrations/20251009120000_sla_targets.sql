@@ -0,0 +1,240 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- SLA targets and overdue detection
+--
+-- sla_targets holds a response and a resolution target per priority, in
+-- hours from submission. Each work request gets:
+--
+--   response_due_at  approval or rejection is due by then
+--   due_at           completion is due by then
+--   responded_at     when the request first left pending
+--   sla_status       on_track | at_risk | breached | met (NULL when rejected)
+--   sla_breached_at  when a target was first missed
+--
+-- Due dates are set on insert and recomputed when the priority changes;
+-- editing a target applies to new requests and priority changes only.
+-- A request is at risk once at_risk_percent of the time to an outstanding
+-- target has passed. The status is recomputed on every status change and by a
+-- pg_cron job every five minutes, which is what flags requests that go
+-- overdue while nobody touches them.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.sla_targets (
+  priority public.priority_level PRIMARY KEY,
+  response_hours integer NOT NULL CHECK (response_hours > 0),
+  resolution_hours integer NOT NULL CHECK (resolution_hours > 0),
+  at_risk_percent integer NOT NULL DEFAULT 75 CHECK (at_risk_percent BETWEEN 1 AND 99),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (resolution_hours >= response_hours)
+);
+
+-- Matches what the request form has always promised
+INSERT INTO public.sla_targets (priority, response_hours, resolution_hours) VALUES
+  ('low', 168, 336),
+  ('medium', 48, 120),
+  ('high', 4, 48),
+  ('urgent', 1, 24)
+ON CONFLICT (priority) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_sla_targets_updated_at ON public.sla_targets;
+CREATE TRIGGER update_sla_targets_updated_at
+  BEFORE UPDATE ON public.sla_targets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.sla_targets ENABLE ROW LEVEL SECURITY;
+
+-- The public form shows the response target on each priority card
+DROP POLICY IF EXISTS "Anyone can read SLA targets" ON public.sla_targets;
+CREATE POLICY "Anyone can read SLA targets"
+ON public.sla_targets FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can update SLA targets" ON public.sla_targets;
+CREATE POLICY "Admins can update SLA targets"
+ON public.sla_targets FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- ─── Work request columns ───────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS response_due_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS due_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS responded_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS sla_status text
+    CHECK (sla_status IN ('on_track', 'at_risk', 'breached', 'met')),
+  ADD COLUMN IF NOT EXISTS sla_breached_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_work_requests_sla_open
+  ON public.work_requests(due_at)
+  WHERE status NOT IN ('completed', 'rejected');
+
+-- ─── Status computation ─────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.compute_sla_status(_request public.work_requests, _now timestamptz DEFAULT now())
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _at_risk numeric;
+  _resolved_at timestamptz;
+BEGIN
+  IF _request.status = 'rejected' OR _request.due_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _resolved_at := CASE WHEN _request.status = 'completed' THEN COALESCE(_request.completed_at, _now) END;
+
+  IF COALESCE(_request.responded_at, _now) > _request.response_due_at
+    OR COALESCE(_resolved_at, _now) > _request.due_at THEN
+    RETURN 'breached';
+  END IF;
+
+  IF _resolved_at IS NOT NULL THEN
+    RETURN 'met';
+  END IF;
+
+  SELECT at_risk_percent / 100.0 INTO _at_risk
+  FROM public.sla_targets WHERE priority = _request.priority;
+  _at_risk := COALESCE(_at_risk, 0.75);
+
+  IF (_request.responded_at IS NULL
+      AND _now >= _request.created_at + (_request.response_due_at - _request.created_at) * _at_risk)
+    OR _now >= _request.created_at + (_request.due_at - _request.created_at) * _at_risk THEN
+    RETURN 'at_risk';
+  END IF;
+
+  RETURN 'on_track';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_work_request_sla()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target public.sla_targets%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.priority IS DISTINCT FROM OLD.priority THEN
+    SELECT * INTO _target FROM public.sla_targets WHERE priority = NEW.priority;
+    IF FOUND THEN
+      NEW.response_due_at := NEW.created_at + make_interval(hours => _target.response_hours);
+      NEW.due_at := NEW.created_at + make_interval(hours => _target.resolution_hours);
+    END IF;
+  END IF;
+
+  IF NEW.responded_at IS NULL AND NEW.status <> 'pending' THEN
+    NEW.responded_at := now();
+  END IF;
+
+  NEW.sla_status := public.compute_sla_status(NEW);
+  IF NEW.sla_status = 'breached' AND NEW.sla_breached_at IS NULL THEN
+    NEW.sla_breached_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_work_request_sla ON public.work_requests;
+CREATE TRIGGER track_work_request_sla
+  BEFORE INSERT OR UPDATE OF priority, status ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.track_work_request_sla();
+
+-- ─── Breach events ──────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_request_events
+  DROP CONSTRAINT IF EXISTS work_request_events_event_type_check;
+ALTER TABLE public.work_request_events
+  ADD CONSTRAINT work_request_events_event_type_check CHECK (event_type IN (
+    'created', 'status_changed', 'date_changed', 'priority_changed', 'checklist_updated', 'sla_breached'
+  ));
+
+CREATE OR REPLACE FUNCTION public.log_work_request_sla_breach()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sla_breached_at IS NOT NULL AND OLD.sla_breached_at IS NULL THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, new_value, actor_name, created_at)
+    VALUES (
+      NEW.id, 'sla_breached',
+      CASE WHEN NEW.responded_at IS NULL OR NEW.responded_at > NEW.response_due_at THEN 'response' ELSE 'resolution' END,
+      'SLA monitor', NEW.sla_breached_at
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_work_request_sla_breach ON public.work_requests;
+CREATE TRIGGER log_work_request_sla_breach
+  AFTER UPDATE OF sla_breached_at ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_work_request_sla_breach();
+
+-- ─── Scheduled refresh ──────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.refresh_sla_statuses()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  WITH computed AS (
+    SELECT wr.id, public.compute_sla_status(wr) AS sla_status
+    FROM public.work_requests wr
+    WHERE wr.status NOT IN ('completed', 'rejected')
+  )
+  UPDATE public.work_requests wr
+  SET sla_status = c.sla_status,
+      sla_breached_at = CASE
+        WHEN c.sla_status = 'breached' THEN COALESCE(wr.sla_breached_at, now())
+        ELSE wr.sla_breached_at
+      END
+  FROM computed c
+  WHERE wr.id = c.id
+    AND wr.sla_status IS DISTINCT FROM c.sla_status;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_sla_statuses() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('refresh-sla-statuses', '*/5 * * * *', $$SELECT public.refresh_sla_statuses()$$);
+
+-- ─── Backfill ───────────────────────────────────────────────────────────────
+-- responded_at comes from the first status change in the event history,
+-- falling back to the approval or rejection time.
+
+UPDATE public.work_requests wr
+SET response_due_at = wr.created_at + make_interval(hours => t.response_hours),
+    due_at = wr.created_at + make_interval(hours => t.resolution_hours),
+    responded_at = CASE WHEN wr.status <> 'pending' THEN COALESCE(
+      (SELECT min(e.created_at) FROM public.work_request_events e
+       WHERE e.work_request_id = wr.id AND e.event_type = 'status_changed'),
+      wr.approved_at, wr.rejected_at, wr.updated_at
+    ) END
+FROM public.sla_targets t
+WHERE t.priority = wr.priority
+  AND wr.due_at IS NULL;
+
+-- Past breaches are recorded without a backdated event
+ALTER TABLE public.work_requests DISABLE TRIGGER log_work_request_sla_breach;
+
+UPDATE public.work_requests wr
+SET sla_status = public.compute_sla_status(wr),
+    sla_breached_at = CASE WHEN public.compute_sla_status(wr) = 'breached' THEN now() END
+WHERE wr.due_at IS NOT NULL;
+
+ALTER TABLE public.work_requests ENABLE TRIGGER log_work_request_sla_breach;
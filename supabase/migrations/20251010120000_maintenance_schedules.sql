@@ -0,0 +1,317 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Recurring preventive maintenance schedules
+--
+-- A schedule is a work request template (title, description, department,
+-- location, category, priority, checklist) plus a recurrence:
+--
+--   frequency       daily | weekly | monthly | yearly
+--   interval_count  every N of those
+--   starts_on       first occurrence; later ones are counted from it, so a
+--                   schedule starting on the 31st stays on month ends
+--   ends_on         optional last day
+--   lead_days       how far ahead of each due date the work order is created
+--
+-- generate_maintenance_work_orders() creates an approved work_requests row
+-- for each occurrence that falls within lead_days, linked back through
+-- maintenance_schedule_id. It runs daily from pg_cron and on demand from the
+-- schedules screen. next_occurrence / next_due_on point at the first
+-- occurrence not yet generated; the calendar projects from there.
+--
+-- SLA clocks for scheduled work start on the due date rather than when the
+-- work order was created ahead of time.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.maintenance_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  department text NOT NULL,
+  location text NOT NULL,
+  category text NOT NULL DEFAULT 'General',
+  priority public.priority_level NOT NULL DEFAULT 'medium',
+  estimated_hours numeric,
+  checklist jsonb NOT NULL DEFAULT '[]'::jsonb,
+  requestor_name text NOT NULL,
+  requestor_email text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  starts_on date NOT NULL,
+  ends_on date,
+  lead_days integer NOT NULL DEFAULT 14 CHECK (lead_days BETWEEN 0 AND 365),
+  is_active boolean NOT NULL DEFAULT true,
+  next_occurrence integer NOT NULL DEFAULT 0,
+  next_due_on date,
+  last_generated_on date,
+  last_error text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_due
+  ON public.maintenance_schedules(next_due_on) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_maintenance_schedules_updated_at ON public.maintenance_schedules;
+CREATE TRIGGER update_maintenance_schedules_updated_at
+  BEFORE UPDATE ON public.maintenance_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS maintenance_schedule_id uuid
+    REFERENCES public.maintenance_schedules(id) ON DELETE SET NULL;
+
+-- One work order per occurrence, however often the generator runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_requests_schedule_occurrence
+  ON public.work_requests(maintenance_schedule_id, requested_date)
+  WHERE maintenance_schedule_id IS NOT NULL;
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.maintenance_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view maintenance schedules" ON public.maintenance_schedules;
+CREATE POLICY "Staff can view maintenance schedules"
+ON public.maintenance_schedules FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can add maintenance schedules" ON public.maintenance_schedules;
+CREATE POLICY "Approvers can add maintenance schedules"
+ON public.maintenance_schedules FOR INSERT
+WITH CHECK (public.is_approver(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can update maintenance schedules" ON public.maintenance_schedules;
+CREATE POLICY "Approvers can update maintenance schedules"
+ON public.maintenance_schedules FOR UPDATE
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can delete maintenance schedules" ON public.maintenance_schedules;
+CREATE POLICY "Approvers can delete maintenance schedules"
+ON public.maintenance_schedules FOR DELETE
+USING (public.is_approver(auth.uid()));
+
+-- ─── Recurrence ─────────────────────────────────────────────────────────────
+
+-- The nth occurrence (0-based), counted from starts_on. Mirrored in
+-- src/lib/maintenance.ts for the calendar projection.
+CREATE OR REPLACE FUNCTION public.maintenance_occurrence(
+  _starts_on date,
+  _frequency text,
+  _interval_count integer,
+  _n integer
+)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_starts_on + CASE _frequency
+    WHEN 'daily' THEN make_interval(days => _n * _interval_count)
+    WHEN 'weekly' THEN make_interval(weeks => _n * _interval_count)
+    WHEN 'monthly' THEN make_interval(months => _n * _interval_count)
+    WHEN 'yearly' THEN make_interval(years => _n * _interval_count)
+  END)::date;
+$$;
+
+-- Re-anchor next_occurrence when the recurrence changes: the first occurrence
+-- from today on that hasn't been generated yet
+CREATE OR REPLACE FUNCTION public.set_maintenance_next_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _n integer := 0;
+  _due date;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.starts_on IS NOT DISTINCT FROM OLD.starts_on
+    AND NEW.frequency IS NOT DISTINCT FROM OLD.frequency
+    AND NEW.interval_count IS NOT DISTINCT FROM OLD.interval_count
+    AND NEW.next_occurrence IS NOT DISTINCT FROM OLD.next_occurrence THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.next_occurrence IS DISTINCT FROM OLD.next_occurrence THEN
+    -- The generator advanced it; just keep next_due_on in step
+    NEW.next_due_on := public.maintenance_occurrence(NEW.starts_on, NEW.frequency, NEW.interval_count, NEW.next_occurrence);
+    RETURN NEW;
+  END IF;
+
+  LOOP
+    _due := public.maintenance_occurrence(NEW.starts_on, NEW.frequency, NEW.interval_count, _n);
+    EXIT WHEN _due >= CURRENT_DATE AND (NEW.last_generated_on IS NULL OR _due > NEW.last_generated_on);
+    _n := _n + 1;
+  END LOOP;
+
+  NEW.next_occurrence := _n;
+  NEW.next_due_on := _due;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_maintenance_next_occurrence ON public.maintenance_schedules;
+CREATE TRIGGER set_maintenance_next_occurrence
+  BEFORE INSERT OR UPDATE OF starts_on, frequency, interval_count, next_occurrence ON public.maintenance_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.set_maintenance_next_occurrence();
+
+-- ─── Generator ──────────────────────────────────────────────────────────────
+-- Runs as the cron job (no auth.uid()) or for an approver. A schedule that
+-- fails, e.g. because its location was archived, records last_error and is
+-- skipped without holding up the others.
+
+CREATE OR REPLACE FUNCTION public.generate_maintenance_work_orders(_schedule_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _schedule public.maintenance_schedules%ROWTYPE;
+  _n integer;
+  _due date;
+  _last date;
+  _created integer := 0;
+  _inserted integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can generate maintenance work orders' USING ERRCODE = '42501';
+  END IF;
+
+  FOR _schedule IN
+    SELECT * FROM public.maintenance_schedules
+    WHERE is_active
+      AND (_schedule_id IS NULL OR id = _schedule_id)
+      AND next_due_on <= CURRENT_DATE + lead_days
+      AND (ends_on IS NULL OR next_due_on <= ends_on)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      _n := _schedule.next_occurrence;
+      _last := _schedule.last_generated_on;
+      LOOP
+        _due := public.maintenance_occurrence(_schedule.starts_on, _schedule.frequency, _schedule.interval_count, _n);
+        EXIT WHEN _due > CURRENT_DATE + _schedule.lead_days
+          OR (_schedule.ends_on IS NOT NULL AND _due > _schedule.ends_on);
+
+        INSERT INTO public.work_requests (
+          title, description, department, location, category, priority, estimated_hours,
+          requestor_name, requestor_email, requested_date, status,
+          approved_by, approved_at, approval_checklist, maintenance_schedule_id
+        ) VALUES (
+          _schedule.title, _schedule.description, _schedule.department, _schedule.location,
+          _schedule.category, _schedule.priority, _schedule.estimated_hours,
+          _schedule.requestor_name, _schedule.requestor_email, _due, 'approved',
+          'Maintenance schedule', now(), _schedule.checklist, _schedule.id
+        )
+        ON CONFLICT (maintenance_schedule_id, requested_date) WHERE maintenance_schedule_id IS NOT NULL
+        DO NOTHING;
+
+        GET DIAGNOSTICS _inserted = ROW_COUNT;
+        _created := _created + _inserted;
+        _last := _due;
+        _n := _n + 1;
+      END LOOP;
+
+      UPDATE public.maintenance_schedules
+      SET next_occurrence = _n, last_generated_on = _last, last_error = NULL
+      WHERE id = _schedule.id;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.maintenance_schedules SET last_error = SQLERRM WHERE id = _schedule.id;
+    END;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_maintenance_work_orders(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_maintenance_work_orders(uuid) TO authenticated;
+
+SELECT cron.schedule('generate-maintenance-work-orders', '0 5 * * *', $$SELECT public.generate_maintenance_work_orders()$$);
+
+-- ─── SLA clock for scheduled work ───────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.sla_clock_start(_request public.work_requests)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN _request.maintenance_schedule_id IS NOT NULL
+      THEN GREATEST(_request.created_at, _request.requested_date::timestamptz)
+    ELSE _request.created_at
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.compute_sla_status(_request public.work_requests, _now timestamptz DEFAULT now())
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _at_risk numeric;
+  _resolved_at timestamptz;
+  _start timestamptz := public.sla_clock_start(_request);
+BEGIN
+  IF _request.status = 'rejected' OR _request.due_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _resolved_at := CASE WHEN _request.status = 'completed' THEN COALESCE(_request.completed_at, _now) END;
+
+  IF COALESCE(_request.responded_at, _now) > _request.response_due_at
+    OR COALESCE(_resolved_at, _now) > _request.due_at THEN
+    RETURN 'breached';
+  END IF;
+
+  IF _resolved_at IS NOT NULL THEN
+    RETURN 'met';
+  END IF;
+
+  SELECT at_risk_percent / 100.0 INTO _at_risk
+  FROM public.sla_targets WHERE priority = _request.priority;
+  _at_risk := COALESCE(_at_risk, 0.75);
+
+  IF (_request.responded_at IS NULL
+      AND _now >= _start + (_request.response_due_at - _start) * _at_risk)
+    OR _now >= _start + (_request.due_at - _start) * _at_risk THEN
+    RETURN 'at_risk';
+  END IF;
+
+  RETURN 'on_track';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_work_request_sla()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target public.sla_targets%ROWTYPE;
+  _start timestamptz;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.priority IS DISTINCT FROM OLD.priority THEN
+    SELECT * INTO _target FROM public.sla_targets WHERE priority = NEW.priority;
+    IF FOUND THEN
+      _start := public.sla_clock_start(NEW);
+      NEW.response_due_at := _start + make_interval(hours => _target.response_hours);
+      NEW.due_at := _start + make_interval(hours => _target.resolution_hours);
+    END IF;
+  END IF;
+
+  IF NEW.responded_at IS NULL AND NEW.status <> 'pending' THEN
+    NEW.responded_at := now();
+  END IF;
+
+  NEW.sla_status := public.compute_sla_status(NEW);
+  IF NEW.sla_status = 'breached' AND NEW.sla_breached_at IS NULL THEN
+    NEW.sla_breached_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
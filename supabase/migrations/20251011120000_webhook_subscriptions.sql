@@ -0,0 +1,342 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Outbound webhook subscriptions
+--
+-- Replaces the hard-coded n8n URLs in notify_work_request_webhook() (a test
+-- URL fired on every UPDATE, checklist saves included) and in the
+-- notify-date-change edge function. Admins register endpoints in
+-- webhook_subscriptions with the events they want; a trigger on
+-- work_request_events queues one webhook_deliveries row per matching
+-- subscription and sends it straight away through pg_net.
+--
+-- Events:    created, approved, rejected, date_changed, completed,
+--   sla_breached.
+-- Signing:   X-Webhook-Signature is "sha256=" followed by the hex HMAC-SHA256
+--   of "<X-Webhook-Timestamp>.<raw body>", keyed with the subscription
+--   secret. Receivers should reject stale timestamps.
+-- Retries:   a non-2xx response, an error or no response within 10 minutes
+--   counts as a failed attempt. Failed attempts are retried after 1, 2, 4,
+--   8 and 16 minutes; the sixth failure marks the delivery failed.
+--   process_webhook_deliveries() settles responses and sends due retries
+--   every minute under pg_cron. Deliveries for paused subscriptions wait.
+-- Replay:    admins can re-send any logged delivery; the copy is a new
+--   delivery pointing back at the original through replay_of.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  event_types text[] NOT NULL DEFAULT '{}' CHECK (event_types <@ ARRAY[
+    'created', 'approved', 'rejected', 'date_changed', 'completed', 'sla_breached'
+  ]::text[]),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_webhook_subscriptions_updated_at ON public.webhook_subscriptions;
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+  BEFORE UPDATE ON public.webhook_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id uuid NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  work_request_id uuid REFERENCES public.work_requests(id) ON DELETE SET NULL,
+  event_id uuid REFERENCES public.work_request_events(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 6,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_attempt_at timestamp with time zone,
+  request_id bigint,
+  response_status integer,
+  response_body text,
+  last_error text,
+  delivered_at timestamp with time zone,
+  replay_of uuid REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON public.webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+  ON public.webhook_deliveries(subscription_id, created_at DESC);
+
+-- ─── Access ─────────────────────────────────────────────────────────────────
+-- Subscriptions hold signing secrets, so only admins can see them. The
+-- delivery log is written by the functions below only.
+
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view webhook subscriptions" ON public.webhook_subscriptions;
+CREATE POLICY "Admins can view webhook subscriptions"
+ON public.webhook_subscriptions FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can add webhook subscriptions" ON public.webhook_subscriptions;
+CREATE POLICY "Admins can add webhook subscriptions"
+ON public.webhook_subscriptions FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can update webhook subscriptions" ON public.webhook_subscriptions;
+CREATE POLICY "Admins can update webhook subscriptions"
+ON public.webhook_subscriptions FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can delete webhook subscriptions" ON public.webhook_subscriptions;
+CREATE POLICY "Admins can delete webhook subscriptions"
+ON public.webhook_subscriptions FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can view webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ─── Sending ────────────────────────────────────────────────────────────────
+-- pg_net sends the jsonb body as its text form, so the signature is computed
+-- over payload::text.
+
+CREATE OR REPLACE FUNCTION public.send_webhook_delivery(_delivery_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.webhook_deliveries;
+  _subscription public.webhook_subscriptions;
+  _timestamp text := floor(extract(epoch FROM now()))::bigint::text;
+  _request_id bigint;
+BEGIN
+  SELECT * INTO _delivery FROM public.webhook_deliveries WHERE id = _delivery_id FOR UPDATE;
+  SELECT * INTO _subscription FROM public.webhook_subscriptions WHERE id = _delivery.subscription_id;
+
+  _request_id := net.http_post(
+    url := _subscription.url,
+    body := _delivery.payload,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Webhook-Event', _delivery.event_type,
+      'X-Webhook-Delivery', _delivery.id,
+      'X-Webhook-Timestamp', _timestamp,
+      'X-Webhook-Signature', 'sha256=' || encode(
+        extensions.hmac(_timestamp || '.' || _delivery.payload::text, _subscription.secret, 'sha256'),
+        'hex'
+      )
+    ),
+    timeout_milliseconds := 10000
+  );
+
+  UPDATE public.webhook_deliveries
+  SET status = 'sending',
+      attempts = attempts + 1,
+      last_attempt_at = now(),
+      request_id = _request_id
+  WHERE id = _delivery_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_webhook_delivery(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ─── Queueing ───────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.queue_work_request_webhooks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event text;
+  _request public.work_requests;
+  _payload jsonb;
+  _delivery_id uuid;
+BEGIN
+  _event := CASE
+    WHEN NEW.event_type = 'created' THEN 'created'
+    WHEN NEW.event_type = 'status_changed' AND NEW.new_value IN ('approved', 'rejected', 'completed') THEN NEW.new_value
+    WHEN NEW.event_type IN ('date_changed', 'sla_breached') THEN NEW.event_type
+  END;
+
+  IF _event IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.webhook_subscriptions s
+    WHERE s.is_active AND _event = ANY(s.event_types)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _request FROM public.work_requests WHERE id = NEW.work_request_id;
+
+  _payload := jsonb_build_object(
+    'event', _event,
+    'occurred_at', NEW.created_at,
+    'change', jsonb_build_object(
+      'old_value', NEW.old_value,
+      'new_value', NEW.new_value,
+      'reason', NEW.reason,
+      'actor_name', NEW.actor_name
+    ),
+    'work_request', jsonb_build_object(
+      'id', _request.id,
+      'work_order_id', _request.work_order_id,
+      'title', _request.title,
+      'description', _request.description,
+      'department', _request.department,
+      'location', _request.location,
+      'category', _request.category,
+      'priority', _request.priority,
+      'status', _request.status,
+      'requested_date', _request.requested_date,
+      'estimated_hours', _request.estimated_hours,
+      'requestor_name', _request.requestor_name,
+      'requestor_email', _request.requestor_email,
+      'requestor_phone', _request.requestor_phone,
+      'due_at', _request.due_at,
+      'created_at', _request.created_at,
+      'updated_at', _request.updated_at
+    )
+  );
+
+  FOR _delivery_id IN
+    INSERT INTO public.webhook_deliveries (subscription_id, event_type, work_request_id, event_id, payload)
+    SELECT s.id, _event, NEW.work_request_id, NEW.id, _payload
+    FROM public.webhook_subscriptions s
+    WHERE s.is_active AND _event = ANY(s.event_types)
+    RETURNING id
+  LOOP
+    PERFORM public.send_webhook_delivery(_delivery_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_work_request_webhooks ON public.work_request_events;
+CREATE TRIGGER queue_work_request_webhooks
+  AFTER INSERT ON public.work_request_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_work_request_webhooks();
+
+DROP TRIGGER IF EXISTS work_requests_webhook_trigger ON public.work_requests;
+DROP FUNCTION IF EXISTS public.notify_work_request_webhook();
+
+-- ─── Responses and retries ──────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.process_webhook_deliveries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery_id uuid;
+  _count integer := 0;
+BEGIN
+  WITH settled AS (
+    SELECT d.id, r.status_code, r.content, r.timed_out, r.error_msg,
+           COALESCE(r.status_code BETWEEN 200 AND 299, false) AS ok
+    FROM public.webhook_deliveries d
+    LEFT JOIN net._http_response r ON r.id = d.request_id
+    WHERE d.status = 'sending'
+      AND (r.id IS NOT NULL OR d.last_attempt_at < now() - interval '10 minutes')
+  )
+  UPDATE public.webhook_deliveries d
+  SET status = CASE
+        WHEN s.ok THEN 'succeeded'
+        WHEN d.attempts >= d.max_attempts THEN 'failed'
+        ELSE 'pending'
+      END,
+      response_status = s.status_code,
+      response_body = left(s.content, 2000),
+      last_error = CASE
+        WHEN s.ok THEN NULL
+        WHEN s.error_msg IS NOT NULL THEN s.error_msg
+        WHEN s.timed_out THEN 'Timed out'
+        WHEN s.status_code IS NULL THEN 'No response'
+        ELSE 'HTTP ' || s.status_code
+      END,
+      delivered_at = CASE WHEN s.ok THEN now() END,
+      next_attempt_at = now() + make_interval(mins => power(2, d.attempts - 1)::integer),
+      request_id = NULL
+  FROM settled s
+  WHERE d.id = s.id;
+
+  FOR _delivery_id IN
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    JOIN public.webhook_subscriptions s ON s.id = d.subscription_id
+    WHERE d.status = 'pending'
+      AND d.next_attempt_at <= now()
+      AND s.is_active
+    ORDER BY d.next_attempt_at
+    LIMIT 100
+    FOR UPDATE OF d SKIP LOCKED
+  LOOP
+    PERFORM public.send_webhook_delivery(_delivery_id);
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_webhook_deliveries() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('process-webhook-deliveries', '* * * * *', $$SELECT public.process_webhook_deliveries()$$);
+
+-- ─── Replay ─────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.replay_webhook_delivery(_delivery_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _new_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can replay webhook deliveries';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (subscription_id, event_type, work_request_id, event_id, payload, replay_of)
+  SELECT d.subscription_id, d.event_type, d.work_request_id, d.event_id, d.payload, d.id
+  FROM public.webhook_deliveries d
+  WHERE d.id = _delivery_id
+  RETURNING id INTO _new_id;
+
+  IF _new_id IS NULL THEN
+    RAISE EXCEPTION 'Webhook delivery not found';
+  END IF;
+
+  PERFORM public.send_webhook_delivery(_new_id);
+  RETURN _new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replay_webhook_delivery(uuid) TO authenticated;
+
+-- ─── Existing integration ───────────────────────────────────────────────────
+-- The production date-change URL from notify-date-change carries over as a
+-- subscription. The n8n flow has to switch to the new payload shape and
+-- verify signatures with the secret shown in Settings. The INSERT/UPDATE
+-- trigger only ever pointed at an n8n test URL and is not carried over.
+
+INSERT INTO public.webhook_subscriptions (name, url, event_types)
+SELECT 'n8n date change notifications',
+       'https://treymccormick.app.n8n.cloud/webhook/7d719d86-449c-4494-8dbb-a1de582b4179',
+       ARRAY['date_changed']
+WHERE NOT EXISTS (SELECT 1 FROM public.webhook_subscriptions);
@@ -0,0 +1,242 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Requestor email notifications
+--
+-- Requestor emails used to depend on an external n8n flow. They are now
+-- queued here and rendered and sent over SMTP by the
+-- send-notification-emails edge function, which can point at a local mail
+-- catcher in development.
+--
+-- Templates: one row per notification in email_templates. Admins edit the
+--   subject and body; {{placeholders}} are filled from the outbox context.
+-- Queueing:  a trigger on work_request_events adds an email_outbox row for
+--   submission, approval, rejection, date change, start (approved →
+--   in_progress; resuming from pause does not email) and completion. The
+--   context is captured at that moment, so later edits don't change what
+--   the email says.
+-- Sending:   invoke_email_sender() calls the edge function through pg_net,
+--   right after queueing and every minute under pg_cron. It needs two Vault
+--   secrets, project_url and service_role_key; without them emails stay
+--   queued. Failed sends are retried after 2, 4, 8 and 16 minutes before the
+--   row is marked failed.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+  event text NOT NULL PRIMARY KEY CHECK (event IN (
+    'submitted', 'approved', 'rejected', 'date_changed', 'started', 'completed'
+  )),
+  subject text NOT NULL,
+  body text NOT NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_email_templates_updated_at ON public.email_templates;
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('submitted',
+   'We received your request {{work_order_id}}',
+   E'Hi {{requestor_name}},\n\nThanks for your request "{{title}}". Your work order number is {{work_order_id}}.\n\nLocation: {{location}}\nRequested date: {{requested_date}}\nPriority: {{priority}}\n\nWe will let you know once it has been reviewed. You can check its status at {{status_url}}.'),
+  ('approved',
+   'Your request {{work_order_id}} was approved',
+   E'Hi {{requestor_name}},\n\nYour request "{{title}}" ({{work_order_id}}) has been approved by {{actor_name}} and is scheduled for {{requested_date}}.\n\nTrack its progress at {{status_url}}.'),
+  ('rejected',
+   'Your request {{work_order_id}} was not approved',
+   E'Hi {{requestor_name}},\n\nUnfortunately your request "{{title}}" ({{work_order_id}}) was not approved.\n\nReason: {{rejected_reason}}\n\nReply to this email if you have questions.'),
+  ('date_changed',
+   'New date for {{work_order_id}}: {{requested_date}}',
+   E'Hi {{requestor_name}},\n\nThe date for "{{title}}" ({{work_order_id}}) has moved from {{old_requested_date}} to {{requested_date}}.\n\nReason: {{date_changed_reason}}\n\nDetails at {{status_url}}.'),
+  ('started',
+   'Work has started on {{work_order_id}}',
+   E'Hi {{requestor_name}},\n\nWork on "{{title}}" ({{work_order_id}}) at {{location}} has started.\n\nTrack its progress at {{status_url}}.'),
+  ('completed',
+   'Your request {{work_order_id}} is complete',
+   E'Hi {{requestor_name}},\n\n"{{title}}" ({{work_order_id}}) has been completed.\n\nThanks for letting us know about it.')
+ON CONFLICT (event) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_request_id uuid REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  event_id uuid REFERENCES public.work_request_events(id) ON DELETE SET NULL,
+  template text NOT NULL REFERENCES public.email_templates(event),
+  recipient text NOT NULL,
+  context jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  subject text,
+  body text,
+  last_error text,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+  ON public.email_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+DROP TRIGGER IF EXISTS update_email_outbox_updated_at ON public.email_outbox;
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ─── Access ─────────────────────────────────────────────────────────────────
+-- The edge function uses the service role; clients only touch templates.
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view email templates" ON public.email_templates;
+CREATE POLICY "Admins can view email templates"
+ON public.email_templates FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can update email templates" ON public.email_templates;
+CREATE POLICY "Admins can update email templates"
+ON public.email_templates FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can view email outbox" ON public.email_outbox;
+CREATE POLICY "Admins can view email outbox"
+ON public.email_outbox FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ─── Sender ─────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.invoke_email_sender(_outbox_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url text;
+  _key text;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF _url IS NULL OR _key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(_url, '/') || '/functions/v1/send-notification-emails',
+    body := jsonb_build_object('outbox_id', _outbox_id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _key
+    ),
+    timeout_milliseconds := 30000
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_email_sender(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Marks due rows as sending and hands them to the edge function. Rows stuck
+-- in sending for 10 minutes (the function died mid-send) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_outbox_id uuid DEFAULT NULL, _limit integer DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox o
+  SET status = 'sending',
+      attempts = o.attempts + 1,
+      next_attempt_at = now() + interval '10 minutes'
+  WHERE o.id IN (
+    SELECT c.id
+    FROM public.email_outbox c
+    WHERE c.status IN ('pending', 'sending')
+      AND c.next_attempt_at <= now()
+      AND (_outbox_id IS NULL OR c.id = _outbox_id)
+    ORDER BY c.next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(uuid, integer) TO service_role;
+
+-- ─── Queueing ───────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.queue_work_request_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template text;
+  _request public.work_requests;
+  _outbox_id uuid;
+BEGIN
+  _template := CASE
+    WHEN NEW.event_type = 'created' THEN 'submitted'
+    WHEN NEW.event_type = 'date_changed' THEN 'date_changed'
+    WHEN NEW.event_type = 'status_changed' AND NEW.new_value IN ('approved', 'rejected', 'completed') THEN NEW.new_value
+    WHEN NEW.event_type = 'status_changed' AND NEW.old_value = 'approved' AND NEW.new_value = 'in_progress' THEN 'started'
+  END;
+
+  IF _template IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.email_templates t WHERE t.event = _template AND t.is_enabled
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _request FROM public.work_requests WHERE id = NEW.work_request_id;
+  IF COALESCE(_request.requestor_email, '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.email_outbox (work_request_id, event_id, template, recipient, context)
+  VALUES (
+    _request.id, NEW.id, _template, _request.requestor_email,
+    jsonb_build_object(
+      'work_order_id', _request.work_order_id,
+      'title', _request.title,
+      'description', _request.description,
+      'requestor_name', _request.requestor_name,
+      'department', COALESCE((SELECT d.name FROM public.departments d WHERE d.value = _request.department), _request.department),
+      'location', COALESCE((SELECT l.name FROM public.locations l WHERE l.value = _request.location), _request.location),
+      'category', COALESCE((SELECT c.name FROM public.categories c WHERE c.value = _request.category), _request.category),
+      'priority', initcap(_request.priority::text),
+      'status', initcap(replace(_request.status::text, '_', ' ')),
+      'requested_date', to_char(_request.requested_date, 'FMMonth FMDD, YYYY'),
+      'old_requested_date', CASE WHEN NEW.event_type = 'date_changed' THEN to_char(NEW.old_value::date, 'FMMonth FMDD, YYYY') END,
+      'rejected_reason', _request.rejected_reason,
+      'date_changed_reason', _request.date_changed_reason,
+      'actor_name', NEW.actor_name
+    )
+  )
+  RETURNING id INTO _outbox_id;
+
+  PERFORM public.invoke_email_sender(_outbox_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_work_request_email ON public.work_request_events;
+CREATE TRIGGER queue_work_request_email
+  AFTER INSERT ON public.work_request_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_work_request_email();
+
+SELECT cron.schedule('send-notification-emails', '* * * * *', $$
+  SELECT public.invoke_email_sender()
+  WHERE EXISTS (
+    SELECT 1 FROM public.email_outbox
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now()
+  )
+$$);
@@ -0,0 +1,260 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Tokenized status links
+--
+-- get_work_requests_by_email() let anyone who typed an address read that
+-- person's full request history, phone number and descriptions included.
+-- Each request now carries an unguessable access_token, and the public
+-- /status/:token page reads only that one request.
+--
+-- Lookup:   get_work_request_by_token() returns the public fields of a single
+--   request; get_work_request_events_by_token() its history without internal
+--   checklist events. Both are granted to anon.
+-- Links:    request_status_links() emails the requestor a link for each of
+--   their requests through the email outbox. It returns nothing either way,
+--   so it doesn't reveal whether an address has requests, and sends at most
+--   one email per address every 10 minutes.
+-- Retired:  get_work_requests_by_email() and
+--   get_work_request_events_by_email() are dropped.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.generate_access_token()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT translate(encode(extensions.gen_random_bytes(24), 'base64'), '+/', '-_');
+$$;
+
+ALTER TABLE public.work_requests ADD COLUMN IF NOT EXISTS access_token text;
+
+UPDATE public.work_requests SET access_token = public.generate_access_token() WHERE access_token IS NULL;
+
+ALTER TABLE public.work_requests
+  ALTER COLUMN access_token SET DEFAULT public.generate_access_token(),
+  ALTER COLUMN access_token SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_requests_access_token ON public.work_requests(access_token);
+
+-- ─── Submission returns the token ───────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.submit_work_request(
+  _requestor_name text,
+  _requestor_email text,
+  _department text,
+  _title text,
+  _description text,
+  _priority priority_level,
+  _requested_date date,
+  _location text,
+  _category text DEFAULT 'General',
+  _requestor_phone text DEFAULT NULL
+)
+RETURNS TABLE (id uuid, work_order_id text, access_token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO public.work_requests AS wr (
+    requestor_name, requestor_email, requestor_phone, department, title,
+    description, priority, requested_date, location, category
+  ) VALUES (
+    _requestor_name, _requestor_email, _requestor_phone, _department, _title,
+    _description, _priority, _requested_date, _location, _category
+  )
+  RETURNING wr.id, wr.work_order_id, wr.access_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text) TO anon, authenticated;
+
+-- ─── Public lookup ──────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_work_request_by_token(_token text)
+RETURNS TABLE (
+  id uuid,
+  work_order_id text,
+  title text,
+  description text,
+  department text,
+  location text,
+  category text,
+  priority priority_level,
+  status work_status,
+  requested_date date,
+  created_at timestamp with time zone,
+  rejected_reason text,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  completion_notes text,
+  actual_hours numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT wr.id, wr.work_order_id, wr.title, wr.description, wr.department, wr.location,
+         wr.category, wr.priority, wr.status, wr.requested_date, wr.created_at,
+         wr.rejected_reason, wr.started_at, wr.completed_at, wr.completion_notes, wr.actual_hours
+  FROM public.work_requests wr
+  WHERE wr.access_token = _token;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_work_request_by_token(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_work_request_events_by_token(_token text)
+RETURNS TABLE (
+  id uuid,
+  event_type text,
+  old_value text,
+  new_value text,
+  reason text,
+  actor_name text,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.event_type, e.old_value, e.new_value, e.reason, e.actor_name, e.created_at
+  FROM public.work_request_events e
+  JOIN public.work_requests wr ON wr.id = e.work_request_id
+  WHERE wr.access_token = _token
+    AND e.event_type <> 'checklist_updated'
+  ORDER BY e.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_work_request_events_by_token(text) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.get_work_requests_by_email(text);
+DROP FUNCTION IF EXISTS public.get_work_request_events_by_email(uuid, text);
+
+-- ─── "Email me my links" ────────────────────────────────────────────────────
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+  'submitted', 'approved', 'rejected', 'date_changed', 'started', 'completed', 'status_links'
+));
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('status_links',
+   'Your facilities request links',
+   E'Hi {{requestor_name}},\n\nHere are the status pages for your requests:\n\n{{status_links}}\n\nIf you didn''t ask for this email you can ignore it.')
+ON CONFLICT (event) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.request_status_links(_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recipient text := lower(trim(_email));
+  _requests jsonb;
+  _requestor_name text;
+  _outbox_id uuid;
+BEGIN
+  IF _recipient = '' OR EXISTS (
+    SELECT 1 FROM public.email_outbox o
+    WHERE o.template = 'status_links'
+      AND lower(o.recipient) = _recipient
+      AND o.created_at > now() - interval '10 minutes'
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.email_templates t WHERE t.event = 'status_links' AND t.is_enabled
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+           'work_order_id', r.work_order_id,
+           'title', r.title,
+           'access_token', r.access_token
+         ) ORDER BY r.created_at DESC),
+         (array_agg(r.requestor_name ORDER BY r.created_at DESC))[1]
+  INTO _requests, _requestor_name
+  FROM (
+    SELECT wr.work_order_id, wr.title, wr.access_token, wr.requestor_name, wr.created_at
+    FROM public.work_requests wr
+    WHERE lower(wr.requestor_email) = _recipient
+    ORDER BY wr.created_at DESC
+    LIMIT 25
+  ) r;
+
+  IF _requests IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.email_outbox (template, recipient, context)
+  VALUES ('status_links', _recipient, jsonb_build_object('requestor_name', _requestor_name, 'requests', _requests))
+  RETURNING id INTO _outbox_id;
+
+  PERFORM public.invoke_email_sender(_outbox_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_status_links(text) TO anon, authenticated;
+
+-- ─── Notification emails link to the request's status page ──────────────────
+
+CREATE OR REPLACE FUNCTION public.queue_work_request_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template text;
+  _request public.work_requests;
+  _outbox_id uuid;
+BEGIN
+  _template := CASE
+    WHEN NEW.event_type = 'created' THEN 'submitted'
+    WHEN NEW.event_type = 'date_changed' THEN 'date_changed'
+    WHEN NEW.event_type = 'status_changed' AND NEW.new_value IN ('approved', 'rejected', 'completed') THEN NEW.new_value
+    WHEN NEW.event_type = 'status_changed' AND NEW.old_value = 'approved' AND NEW.new_value = 'in_progress' THEN 'started'
+  END;
+
+  IF _template IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.email_templates t WHERE t.event = _template AND t.is_enabled
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _request FROM public.work_requests WHERE id = NEW.work_request_id;
+  IF COALESCE(_request.requestor_email, '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.email_outbox (work_request_id, event_id, template, recipient, context)
+  VALUES (
+    _request.id, NEW.id, _template, _request.requestor_email,
+    jsonb_build_object(
+      'work_order_id', _request.work_order_id,
+      'title', _request.title,
+      'description', _request.description,
+      'requestor_name', _request.requestor_name,
+      'department', COALESCE((SELECT d.name FROM public.departments d WHERE d.value = _request.department), _request.department),
+      'location', COALESCE((SELECT l.name FROM public.locations l WHERE l.value = _request.location), _request.location),
+      'category', COALESCE((SELECT c.name FROM public.categories c WHERE c.value = _request.category), _request.category),
+      'priority', initcap(_request.priority::text),
+      'status', initcap(replace(_request.status::text, '_', ' ')),
+      'requested_date', to_char(_request.requested_date, 'FMMonth FMDD, YYYY'),
+      'old_requested_date', CASE WHEN NEW.event_type = 'date_changed' THEN to_char(NEW.old_value::date, 'FMMonth FMDD, YYYY') END,
+      'rejected_reason', _request.rejected_reason,
+      'date_changed_reason', _request.date_changed_reason,
+      'actor_name', NEW.actor_name,
+      'access_token', _request.access_token
+    )
+  )
+  RETURNING id INTO _outbox_id;
+
+  PERFORM public.invoke_email_sender(_outbox_id);
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,245 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work request messages
+--
+-- A conversation thread on each work request between the requestor and
+-- staff, replacing the rejection reason and completion notes as the only
+-- way to talk to each other.
+--
+-- Staff:      staff and assignees read and post through the table. The author
+--   fields are stamped from the session, so they can't be spoofed.
+-- Requestor:  the public status page reads and posts through
+--   get_work_request_messages_by_token() and
+--   post_work_request_message_by_token(); the token is the only credential.
+-- Live:       the table is in the supabase_realtime publication for staff.
+--   Anonymous visitors can't pass RLS for postgres_changes, so every new
+--   message is also broadcast on the public topic
+--   'work_request_messages:<access_token>'.
+-- Notify:     a staff message emails the requestor ('staff_message'); a
+--   requestor message emails the assignees, or the approvers when nobody is
+--   assigned ('requestor_message').
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_request_messages (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  author_type text NOT NULL CHECK (author_type IN ('staff', 'requestor')),
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name text,
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 4000),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_messages_request
+  ON public.work_request_messages(work_request_id, created_at);
+
+ALTER TABLE public.work_request_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff, assignees and requestor can view messages" ON public.work_request_messages;
+CREATE POLICY "Staff, assignees and requestor can view messages"
+ON public.work_request_messages FOR SELECT
+USING (
+  public.is_staff(auth.uid())
+  OR public.is_work_request_assignee(work_request_id)
+  OR public.is_work_request_requestor(work_request_id)
+);
+
+DROP POLICY IF EXISTS "Staff and assignees can post messages" ON public.work_request_messages;
+CREATE POLICY "Staff and assignees can post messages"
+ON public.work_request_messages FOR INSERT
+WITH CHECK (
+  author_type = 'staff'
+  AND (public.is_staff(auth.uid()) OR public.is_work_request_assignee(work_request_id))
+);
+
+-- Staff authorship always comes from the session
+CREATE OR REPLACE FUNCTION public.stamp_work_request_message_author()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.body := trim(NEW.body);
+  IF NEW.author_type = 'staff' THEN
+    NEW.author_id := auth.uid();
+    NEW.author_name := public.current_actor_name();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_work_request_message_author ON public.work_request_messages;
+CREATE TRIGGER stamp_work_request_message_author
+BEFORE INSERT ON public.work_request_messages
+FOR EACH ROW EXECUTE FUNCTION public.stamp_work_request_message_author();
+
+-- ─── Public access by token ─────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_work_request_messages_by_token(_token text)
+RETURNS TABLE (
+  id uuid,
+  author_type text,
+  author_name text,
+  body text,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.author_type, m.author_name, m.body, m.created_at
+  FROM public.work_request_messages m
+  JOIN public.work_requests wr ON wr.id = m.work_request_id
+  WHERE wr.access_token = _token
+  ORDER BY m.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_work_request_messages_by_token(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.post_work_request_message_by_token(_token text, _body text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.work_requests;
+  _message_id uuid;
+BEGIN
+  SELECT * INTO _request FROM public.work_requests WHERE access_token = _token;
+  IF _request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  INSERT INTO public.work_request_messages (work_request_id, author_type, author_name, body)
+  VALUES (_request.id, 'requestor', _request.requestor_name, _body)
+  RETURNING id INTO _message_id;
+
+  RETURN _message_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.post_work_request_message_by_token(text, text) TO anon, authenticated;
+
+-- ─── Realtime ───────────────────────────────────────────────────────────────
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'work_request_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.work_request_messages;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.broadcast_work_request_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', NEW.id,
+      'author_type', NEW.author_type,
+      'author_name', NEW.author_name,
+      'body', NEW.body,
+      'created_at', NEW.created_at
+    ),
+    'message',
+    'work_request_messages:' || (SELECT wr.access_token FROM public.work_requests wr WHERE wr.id = NEW.work_request_id),
+    false
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS broadcast_work_request_message ON public.work_request_messages;
+CREATE TRIGGER broadcast_work_request_message
+AFTER INSERT ON public.work_request_messages
+FOR EACH ROW EXECUTE FUNCTION public.broadcast_work_request_message();
+
+-- ─── Notifications ──────────────────────────────────────────────────────────
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+  'submitted', 'approved', 'rejected', 'date_changed', 'started', 'completed', 'status_links',
+  'staff_message', 'requestor_message'
+));
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('staff_message',
+   'New message about {{work_order_id}}',
+   E'Hi {{requestor_name}},\n\n{{author_name}} wrote about your request "{{title}}":\n\n{{message}}\n\nReply from the status page: {{status_url}}'),
+  ('requestor_message',
+   '{{requestor_name}} replied on {{work_order_id}}',
+   E'{{requestor_name}} wrote about "{{title}}" ({{work_order_id}}):\n\n{{message}}\n\nReply from the work order in the facilities app.')
+ON CONFLICT (event) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.queue_work_request_message_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template text := CASE NEW.author_type WHEN 'staff' THEN 'staff_message' ELSE 'requestor_message' END;
+  _request public.work_requests;
+  _context jsonb;
+  _recipients text[];
+  _recipient text;
+  _outbox_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.email_templates t WHERE t.event = _template AND t.is_enabled) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _request FROM public.work_requests WHERE id = NEW.work_request_id;
+
+  _context := jsonb_build_object(
+    'work_order_id', _request.work_order_id,
+    'title', _request.title,
+    'requestor_name', _request.requestor_name,
+    'status', initcap(replace(_request.status::text, '_', ' ')),
+    'author_name', NEW.author_name,
+    'message', NEW.body
+  );
+
+  IF NEW.author_type = 'staff' THEN
+    _recipients := ARRAY[NULLIF(trim(_request.requestor_email), '')];
+    _context := _context || jsonb_build_object('access_token', _request.access_token);
+  ELSE
+    SELECT array_agg(DISTINCT p.email) INTO _recipients
+    FROM public.work_request_assignees a
+    JOIN public.profiles p ON p.id = a.profile_id
+    WHERE a.work_request_id = _request.id AND COALESCE(p.email, '') <> '';
+
+    IF _recipients IS NULL THEN
+      SELECT array_agg(DISTINCT p.email) INTO _recipients
+      FROM public.user_roles ur
+      JOIN public.profiles p ON p.user_id = ur.user_id
+      WHERE ur.role IN ('admin', 'manager') AND COALESCE(p.email, '') <> '';
+    END IF;
+  END IF;
+
+  FOREACH _recipient IN ARRAY COALESCE(_recipients, '{}') LOOP
+    CONTINUE WHEN _recipient IS NULL;
+    INSERT INTO public.email_outbox (work_request_id, template, recipient, context)
+    VALUES (_request.id, _template, _recipient, _context)
+    RETURNING id INTO _outbox_id;
+
+    PERFORM public.invoke_email_sender(_outbox_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_work_request_message_email ON public.work_request_messages;
+CREATE TRIGGER queue_work_request_message_email
+AFTER INSERT ON public.work_request_messages
+FOR EACH ROW EXECUTE FUNCTION public.queue_work_request_message_email();
@@ -0,0 +1,191 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Internal work request notes
+--
+-- Private notes for the team ("called plumber, waiting on quote"), kept apart
+-- from work_request_messages, which the requestor sees.
+--
+-- Access:    staff and the request's assignees only, and only when signed in.
+--   There is no requestor clause and no token RPC, so neither anon nor a
+--   status-link visitor can read a note.
+-- Authors:   author_id/author_name are stamped from the session. Only the
+--   author can edit a note; nobody can delete one.
+-- History:   every edit copies the previous body and mentions into
+--   work_request_note_revisions.
+-- Mentions:  `mentions` holds the mentioned profile ids. Profiles newly
+--   mentioned by an insert or edit get a 'note_mention' email.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_request_notes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name text,
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 4000),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_notes_request
+  ON public.work_request_notes(work_request_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.work_request_note_revisions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id uuid NOT NULL REFERENCES public.work_request_notes(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  edited_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_note_revisions_note
+  ON public.work_request_note_revisions(note_id, edited_at);
+
+ALTER TABLE public.work_request_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_request_note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Helper: the signed-in user works on this request
+CREATE OR REPLACE FUNCTION public.can_access_work_request_notes(_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_staff(auth.uid()) OR public.is_work_request_assignee(_request_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_access_work_request_notes(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.can_access_work_request_notes(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Staff and assignees can view notes" ON public.work_request_notes;
+CREATE POLICY "Staff and assignees can view notes"
+ON public.work_request_notes FOR SELECT
+TO authenticated
+USING (public.can_access_work_request_notes(work_request_id));
+
+DROP POLICY IF EXISTS "Staff and assignees can add notes" ON public.work_request_notes;
+CREATE POLICY "Staff and assignees can add notes"
+ON public.work_request_notes FOR INSERT
+TO authenticated
+WITH CHECK (public.can_access_work_request_notes(work_request_id));
+
+DROP POLICY IF EXISTS "Authors can edit their notes" ON public.work_request_notes;
+CREATE POLICY "Authors can edit their notes"
+ON public.work_request_notes FOR UPDATE
+TO authenticated
+USING (author_id = auth.uid() AND public.can_access_work_request_notes(work_request_id))
+WITH CHECK (author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Staff and assignees can view note history" ON public.work_request_note_revisions;
+CREATE POLICY "Staff and assignees can view note history"
+ON public.work_request_note_revisions FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.work_request_notes n
+  WHERE n.id = note_id AND public.can_access_work_request_notes(n.work_request_id)
+));
+
+-- ─── Authorship and history ─────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.stamp_work_request_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.body := trim(NEW.body);
+  NEW.mentions := ARRAY(SELECT DISTINCT unnest(COALESCE(NEW.mentions, '{}')));
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.author_id := auth.uid();
+    NEW.author_name := public.current_actor_name();
+    NEW.created_at := now();
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  NEW.work_request_id := OLD.work_request_id;
+  NEW.author_id := OLD.author_id;
+  NEW.author_name := OLD.author_name;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.body IS DISTINCT FROM OLD.body OR NEW.mentions IS DISTINCT FROM OLD.mentions THEN
+    INSERT INTO public.work_request_note_revisions (note_id, body, mentions, edited_by)
+    VALUES (OLD.id, OLD.body, OLD.mentions, auth.uid());
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_work_request_note ON public.work_request_notes;
+CREATE TRIGGER stamp_work_request_note
+BEFORE INSERT OR UPDATE ON public.work_request_notes
+FOR EACH ROW EXECUTE FUNCTION public.stamp_work_request_note();
+
+-- ─── Mention emails ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+  'submitted', 'approved', 'rejected', 'date_changed', 'started', 'completed', 'status_links',
+  'staff_message', 'requestor_message', 'note_mention'
+));
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('note_mention',
+   '{{author_name}} mentioned you on {{work_order_id}}',
+   E'{{author_name}} mentioned you in an internal note on "{{title}}" ({{work_order_id}}):\n\n{{message}}\n\nOpen the work order in the facilities app to reply.')
+ON CONFLICT (event) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.queue_work_request_note_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.work_requests;
+  _recipient text;
+  _outbox_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.email_templates t WHERE t.event = 'note_mention' AND t.is_enabled) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _request FROM public.work_requests WHERE id = NEW.work_request_id;
+
+  FOR _recipient IN
+    SELECT DISTINCT p.email
+    FROM public.profiles p
+    WHERE p.id = ANY(NEW.mentions)
+      AND (TG_OP = 'INSERT' OR NOT p.id = ANY(OLD.mentions))
+      AND p.user_id IS DISTINCT FROM NEW.author_id
+      AND COALESCE(p.email, '') <> ''
+  LOOP
+    INSERT INTO public.email_outbox (work_request_id, template, recipient, context)
+    VALUES (
+      _request.id, 'note_mention', _recipient,
+      jsonb_build_object(
+        'work_order_id', _request.work_order_id,
+        'title', _request.title,
+        'status', initcap(replace(_request.status::text, '_', ' ')),
+        'author_name', NEW.author_name,
+        'message', NEW.body
+      )
+    )
+    RETURNING id INTO _outbox_id;
+
+    PERFORM public.invoke_email_sender(_outbox_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_work_request_note_mentions ON public.work_request_notes;
+CREATE TRIGGER queue_work_request_note_mentions
+AFTER INSERT OR UPDATE OF mentions ON public.work_request_notes
+FOR EACH ROW EXECUTE FUNCTION public.queue_work_request_note_mentions();
@@ -0,0 +1,177 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Emergency requests
+--
+-- priority_level (low, medium, high, urgent) is the one priority scale; the
+-- app's "emergency" priority never existed in the database. An emergency is
+-- now a flag on top of it rather than a fifth priority.
+--
+-- Escalation: a request inserted with is_emergency is raised to 'urgent' and
+--   approved on the spot, so it never waits in the approval queue.
+-- On-call:    on_call_staff lists the profiles to alert. Each emergency emails
+--   everyone on call, or the approvers when nobody is ('emergency').
+-- Form:       submit_work_request() takes _is_emergency.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS is_emergency boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_work_requests_open_emergencies
+  ON public.work_requests(created_at)
+  WHERE is_emergency AND status NOT IN ('completed', 'rejected');
+
+-- Runs before track_work_request_sla so the urgent targets apply
+CREATE OR REPLACE FUNCTION public.escalate_emergency_work_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_emergency THEN
+    NEW.priority := 'urgent';
+    IF NEW.status = 'pending' THEN
+      NEW.status := 'approved';
+      NEW.approved_by := 'Emergency escalation';
+      NEW.approved_at := now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS escalate_emergency_work_request ON public.work_requests;
+CREATE TRIGGER escalate_emergency_work_request
+  BEFORE INSERT ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.escalate_emergency_work_request();
+
+-- ─── Submission ─────────────────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.submit_work_request(
+  _requestor_name text,
+  _requestor_email text,
+  _department text,
+  _title text,
+  _description text,
+  _priority priority_level,
+  _requested_date date,
+  _location text,
+  _category text DEFAULT 'General',
+  _requestor_phone text DEFAULT NULL,
+  _is_emergency boolean DEFAULT false
+)
+RETURNS TABLE (id uuid, work_order_id text, access_token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO public.work_requests AS wr (
+    requestor_name, requestor_email, requestor_phone, department, title,
+    description, priority, requested_date, location, category, is_emergency
+  ) VALUES (
+    _requestor_name, _requestor_email, _requestor_phone, _department, _title,
+    _description, _priority, _requested_date, _location, _category, COALESCE(_is_emergency, false)
+  )
+  RETURNING wr.id, wr.work_order_id, wr.access_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text, boolean) TO anon, authenticated;
+
+-- ─── On-call roster ─────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.on_call_staff (
+  profile_id uuid NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  added_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.on_call_staff ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view the on-call roster" ON public.on_call_staff;
+CREATE POLICY "Staff can view the on-call roster"
+ON public.on_call_staff FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can manage the on-call roster" ON public.on_call_staff;
+CREATE POLICY "Approvers can manage the on-call roster"
+ON public.on_call_staff FOR ALL
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+-- ─── Alert ──────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+  'submitted', 'approved', 'rejected', 'date_changed', 'started', 'completed', 'status_links',
+  'staff_message', 'requestor_message', 'note_mention', 'emergency'
+));
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('emergency',
+   'EMERGENCY {{work_order_id}}: {{title}}',
+   E'An emergency was reported and is already approved.\n\n{{title}}\nLocation: {{location}}\nReported by: {{requestor_name}} {{requestor_phone}}\n\n{{description}}\n\nOpen the work order in the facilities app to take it.')
+ON CONFLICT (event) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.alert_on_call_staff()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recipients text[];
+  _recipient text;
+  _outbox_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.email_templates t WHERE t.event = 'emergency' AND t.is_enabled) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT array_agg(DISTINCT p.email) INTO _recipients
+  FROM public.on_call_staff oc
+  JOIN public.profiles p ON p.id = oc.profile_id
+  WHERE COALESCE(p.email, '') <> '';
+
+  IF _recipients IS NULL THEN
+    SELECT array_agg(DISTINCT p.email) INTO _recipients
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.user_id = ur.user_id
+    WHERE ur.role IN ('admin', 'manager') AND COALESCE(p.email, '') <> '';
+  END IF;
+
+  FOREACH _recipient IN ARRAY COALESCE(_recipients, '{}') LOOP
+    INSERT INTO public.email_outbox (work_request_id, template, recipient, context)
+    VALUES (
+      NEW.id, 'emergency', _recipient,
+      jsonb_build_object(
+        'work_order_id', NEW.work_order_id,
+        'title', NEW.title,
+        'description', NEW.description,
+        'requestor_name', NEW.requestor_name,
+        'requestor_phone', NEW.requestor_phone,
+        'department', COALESCE((SELECT d.name FROM public.departments d WHERE d.value = NEW.department), NEW.department),
+        'location', COALESCE((SELECT l.name FROM public.locations l WHERE l.value = NEW.location), NEW.location),
+        'category', COALESCE((SELECT c.name FROM public.categories c WHERE c.value = NEW.category), NEW.category),
+        'priority', initcap(NEW.priority::text)
+      )
+    )
+    RETURNING id INTO _outbox_id;
+
+    PERFORM public.invoke_email_sender(_outbox_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alert_on_call_staff ON public.work_requests;
+CREATE TRIGGER alert_on_call_staff
+  AFTER INSERT ON public.work_requests
+  FOR EACH ROW
+  WHEN (NEW.is_emergency)
+  EXECUTE FUNCTION public.alert_on_call_staff();
@@ -0,0 +1,261 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Work request search
+--
+-- The work order tables used to select every work_request and filter in the
+-- browser. search_work_requests() filters, sorts and pages on the server.
+--
+-- Index:   work_requests.search_vector covers the work order id, title,
+--   description, location name, requestor and completion notes. A trigger
+--   keeps it current, including when a location is renamed.
+--   work_request_notes.search_vector covers internal notes. It is searched
+--   through the notes RLS, so requestors never match on them.
+-- Query:   every word is matched as a prefix ("pump" finds "pumps"). A query
+--   that starts a work order id also matches on the id.
+-- Paging:  keyset pagination. Each row carries an opaque cursor; pass the
+--   last one back as _cursor for the next page. Open emergencies always sort
+--   first, ties break on id.
+-- Highlighting: matches in title and description are wrapped in U+E000 and
+--   U+E001, which can't appear in typed text.
+-- Stats:   get_work_request_stats() returns the dashboard counts, so the KPI
+--   cards don't need every row either.
+--
+-- Both functions run as the caller, so RLS applies as it does to a select.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION public.build_work_request_search_vector(_request public.work_requests)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', COALESCE(_request.work_order_id, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(_request.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(_request.description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(
+      (SELECT l.name FROM public.locations l WHERE l.value = _request.location), _request.location, ''
+    )), 'C') ||
+    setweight(to_tsvector('simple', COALESCE(_request.requestor_name, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(_request.completion_notes, '')), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_work_request_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.build_work_request_search_vector(NEW);
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after set_work_order_id_trigger so new ids are indexed
+DROP TRIGGER IF EXISTS update_work_request_search_vector ON public.work_requests;
+CREATE TRIGGER update_work_request_search_vector
+  BEFORE INSERT OR UPDATE OF work_order_id, title, description, location, requestor_name, completion_notes
+  ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_work_request_search_vector();
+
+CREATE OR REPLACE FUNCTION public.reindex_work_requests_for_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.work_requests wr
+  SET search_vector = public.build_work_request_search_vector(wr)
+  WHERE wr.location = NEW.value;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reindex_work_requests_for_location ON public.locations;
+CREATE TRIGGER reindex_work_requests_for_location
+  AFTER UPDATE OF name ON public.locations
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.reindex_work_requests_for_location();
+
+-- Backfill without bumping updated_at or logging events
+ALTER TABLE public.work_requests DISABLE TRIGGER USER;
+UPDATE public.work_requests wr SET search_vector = public.build_work_request_search_vector(wr);
+ALTER TABLE public.work_requests ENABLE TRIGGER USER;
+
+CREATE INDEX IF NOT EXISTS idx_work_requests_search_vector
+  ON public.work_requests USING gin(search_vector);
+
+ALTER TABLE public.work_request_notes
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', body)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_work_request_notes_search_vector
+  ON public.work_request_notes USING gin(search_vector);
+
+-- ─── Query parsing ──────────────────────────────────────────────────────────
+
+-- NULL when the text has no searchable words (blank, or only stop words)
+CREATE OR REPLACE FUNCTION public.work_request_search_query(_query text)
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _terms text;
+  _tsquery tsquery;
+BEGIN
+  SELECT string_agg(quote_literal(t) || ':*', ' & ') INTO _terms
+  FROM regexp_split_to_table(lower(COALESCE(_query, '')), '[^[:alnum:]]+') AS t
+  WHERE t <> '';
+
+  IF _terms IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _tsquery := to_tsquery('english', _terms);
+  RETURN CASE WHEN numnode(_tsquery) = 0 THEN NULL ELSE _tsquery END;
+END;
+$$;
+
+-- ─── Search ─────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.search_work_requests(
+  _query text DEFAULT NULL,
+  _statuses work_status[] DEFAULT NULL,
+  _priority text DEFAULT NULL,
+  _department text DEFAULT NULL,
+  _assignee text DEFAULT NULL,
+  _sla text DEFAULT NULL,
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _sort text DEFAULT 'created_at',
+  _ascending boolean DEFAULT false,
+  _cursor text DEFAULT NULL,
+  _limit integer DEFAULT 25
+)
+RETURNS TABLE (
+  request jsonb,
+  title_highlight text,
+  description_highlight text,
+  notes_match boolean,
+  row_cursor text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _text text := NULLIF(btrim(COALESCE(_query, '')), '');
+  _tsquery tsquery := public.work_request_search_query(_query);
+  _headline_options text := format('StartSel=%s, StopSel=%s', chr(57344), chr(57345));
+  _after_pin integer;
+  _after_key numeric;
+  _after_id uuid;
+BEGIN
+  IF _sort NOT IN ('created_at', 'requested_date', 'priority', 'relevance') THEN
+    RAISE EXCEPTION 'Unknown sort: %', _sort;
+  END IF;
+
+  IF _cursor IS NOT NULL THEN
+    BEGIN
+      _after_pin := split_part(_cursor, '|', 1)::integer;
+      _after_key := split_part(_cursor, '|', 2)::numeric;
+      _after_id := split_part(_cursor, '|', 3)::uuid;
+    EXCEPTION WHEN others THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END;
+  END IF;
+
+  RETURN QUERY
+  WITH matched AS (
+    SELECT
+      wr AS req,
+      CASE WHEN wr.is_emergency AND wr.status NOT IN ('completed', 'rejected') THEN 0 ELSE 1 END AS pin,
+      COALESCE(CASE _sort
+        WHEN 'requested_date' THEN extract(epoch FROM wr.requested_date::timestamp)
+        WHEN 'priority' THEN array_position(enum_range(NULL::priority_level), wr.priority)::numeric
+        WHEN 'relevance' THEN ts_rank(wr.search_vector, _tsquery)::numeric
+        ELSE extract(epoch FROM wr.created_at)
+      END, 0) * CASE WHEN _ascending THEN 1 ELSE -1 END AS sort_key,
+      -- RLS on work_request_notes hides other people's notes from this subquery
+      (_tsquery IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.work_request_notes n
+        WHERE n.work_request_id = wr.id AND n.search_vector @@ _tsquery
+      )) AS in_notes
+    FROM public.work_requests wr
+    WHERE (_statuses IS NULL OR wr.status = ANY(_statuses))
+      AND (_priority IS NULL
+        OR (_priority = 'emergency' AND wr.is_emergency)
+        OR wr.priority::text = _priority)
+      AND (_department IS NULL OR wr.department = _department)
+      AND (_assignee IS NULL
+        OR (_assignee = 'unassigned' AND NOT EXISTS (
+          SELECT 1 FROM public.work_request_assignees a WHERE a.work_request_id = wr.id))
+        OR EXISTS (
+          SELECT 1 FROM public.work_request_assignees a
+          WHERE a.work_request_id = wr.id AND a.profile_id::text = _assignee))
+      AND (_sla IS NULL
+        OR (_sla = 'attention' AND wr.sla_status IN ('at_risk', 'breached'))
+        OR wr.sla_status = _sla)
+      AND (_from IS NULL OR wr.requested_date >= _from)
+      AND (_to IS NULL OR wr.requested_date <= _to)
+  ),
+  filtered AS (
+    SELECT m.* FROM matched m
+    WHERE _text IS NULL
+      OR (m.req).work_order_id ILIKE _text || '%'
+      OR (_tsquery IS NOT NULL AND (m.req).search_vector @@ _tsquery)
+      OR m.in_notes
+  )
+  SELECT
+    to_jsonb(f.req) - 'search_vector',
+    CASE WHEN _tsquery IS NOT NULL
+      THEN ts_headline('english', (f.req).title, _tsquery, _headline_options || ', HighlightAll=true') END,
+    CASE WHEN _tsquery IS NOT NULL
+      THEN ts_headline('english', (f.req).description, _tsquery, _headline_options || ', MaxWords=30, MinWords=12, MaxFragments=2') END,
+    f.in_notes,
+    f.pin || '|' || f.sort_key || '|' || (f.req).id,
+    (SELECT count(*) FROM filtered)
+  FROM filtered f
+  WHERE _cursor IS NULL OR (f.pin, f.sort_key, (f.req).id) > (_after_pin, _after_key, _after_id)
+  ORDER BY f.pin, f.sort_key, (f.req).id
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 25), 1), 500);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_work_requests(text, work_status[], text, text, text, text, date, date, text, boolean, text, integer) TO authenticated;
+
+-- ─── Stats ──────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_work_request_stats()
+RETURNS TABLE (
+  total bigint,
+  pending bigint,
+  approved bigint,
+  in_progress bigint,
+  completed bigint,
+  open_high_priority bigint,
+  open_breached bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE wr.status = 'pending'),
+    count(*) FILTER (WHERE wr.status = 'approved'),
+    count(*) FILTER (WHERE wr.status = 'in_progress'),
+    count(*) FILTER (WHERE wr.status = 'completed'),
+    count(*) FILTER (WHERE wr.priority IN ('high', 'urgent') AND wr.status NOT IN ('completed', 'rejected')),
+    count(*) FILTER (WHERE wr.sla_status = 'breached' AND wr.status NOT IN ('completed', 'rejected'))
+  FROM public.work_requests wr;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_work_request_stats() TO authenticated;
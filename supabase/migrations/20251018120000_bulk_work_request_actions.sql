@@ -0,0 +1,91 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Bulk work request actions
+--
+-- bulk_update_work_requests() applies one action to many work requests:
+--   approve     approve_work_request()
+--   reject      update_work_request_status() to 'rejected' with _reason
+--   reschedule  update_work_request_status() with _requested_date and _reason,
+--               keeping the status
+--   priority    sets _priority
+--   assign      set_work_request_assignees() with _profile_ids (replaces)
+--
+-- The whole call is one transaction, and each row runs in its own
+-- subtransaction. A row that fails (a transition that isn't allowed, a row
+-- that's gone) is rolled back alone and reported with its error message; the
+-- rest still apply. Arguments that are wrong for every row raise instead.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.bulk_update_work_requests(
+  _request_ids uuid[],
+  _action text,
+  _reason text DEFAULT NULL,
+  _requested_date date DEFAULT NULL,
+  _priority priority_level DEFAULT NULL,
+  _profile_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (request_id uuid, succeeded boolean, message text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+  _status work_status;
+BEGIN
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can run bulk actions' USING ERRCODE = '42501';
+  END IF;
+
+  IF _action NOT IN ('approve', 'reject', 'reschedule', 'priority', 'assign') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', _action;
+  END IF;
+
+  IF cardinality(_request_ids) > 500 THEN
+    RAISE EXCEPTION 'Bulk actions are limited to 500 work requests at a time';
+  END IF;
+
+  IF _action IN ('reject', 'reschedule') AND COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to % work requests', _action USING ERRCODE = 'check_violation';
+  END IF;
+  IF _action = 'reschedule' AND _requested_date IS NULL THEN
+    RAISE EXCEPTION 'A new date is required to reschedule work requests' USING ERRCODE = 'check_violation';
+  END IF;
+  IF _action = 'priority' AND _priority IS NULL THEN
+    RAISE EXCEPTION 'A priority is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOREACH _id IN ARRAY COALESCE(_request_ids, '{}') LOOP
+    request_id := _id;
+    BEGIN
+      CASE _action
+        WHEN 'approve' THEN
+          PERFORM public.approve_work_request(_id);
+        WHEN 'reject' THEN
+          PERFORM public.update_work_request_status(_id, 'rejected', btrim(_reason));
+        WHEN 'reschedule' THEN
+          SELECT wr.status INTO _status FROM public.work_requests wr WHERE wr.id = _id;
+          IF _status IN ('completed', 'rejected') THEN
+            RAISE EXCEPTION 'Closed work requests cannot be rescheduled';
+          END IF;
+          PERFORM public.update_work_request_status(_id, _status, btrim(_reason), NULL, NULL, _requested_date);
+        WHEN 'priority' THEN
+          UPDATE public.work_requests wr SET priority = _priority, updated_at = now() WHERE wr.id = _id;
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Work request not found with id: %', _id;
+          END IF;
+        WHEN 'assign' THEN
+          PERFORM public.set_work_request_assignees(_id, _profile_ids);
+      END CASE;
+      succeeded := true;
+      message := NULL;
+    EXCEPTION WHEN others THEN
+      succeeded := false;
+      message := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bulk_update_work_requests(uuid[], text, text, date, priority_level, uuid[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.bulk_update_work_requests(uuid[], text, text, date, priority_level, uuid[]) TO authenticated;
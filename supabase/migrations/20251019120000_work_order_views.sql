@@ -0,0 +1,79 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Saved work order views
+--
+-- A view is a named set of work order filters, stored as the query params
+-- the work order page reads (q, status, priority, when, sort, view, ...).
+--
+-- Owner:   each view belongs to the user who saved it. Only they can change
+--   or delete it.
+-- Shared:  is_shared shows the view to all staff as a tab on the work order
+--   page.
+-- Default: work_order_view_defaults holds one pinned view per user, their
+--   own or a shared one. It opens when they visit the page without filters.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_order_views (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(filters) = 'object'),
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_views_owner ON public.work_order_views(owner_id);
+CREATE INDEX IF NOT EXISTS idx_work_order_views_shared ON public.work_order_views(created_at) WHERE is_shared;
+
+DROP TRIGGER IF EXISTS update_work_order_views_updated_at ON public.work_order_views;
+CREATE TRIGGER update_work_order_views_updated_at
+  BEFORE UPDATE ON public.work_order_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.work_order_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own and shared work order views" ON public.work_order_views;
+CREATE POLICY "Users can view their own and shared work order views"
+ON public.work_order_views FOR SELECT
+TO authenticated
+USING (owner_id = auth.uid() OR (is_shared AND public.is_staff(auth.uid())));
+
+DROP POLICY IF EXISTS "Users can save work order views" ON public.work_order_views;
+CREATE POLICY "Users can save work order views"
+ON public.work_order_views FOR INSERT
+TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can update their work order views" ON public.work_order_views;
+CREATE POLICY "Owners can update their work order views"
+ON public.work_order_views FOR UPDATE
+TO authenticated
+USING (owner_id = auth.uid())
+WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can delete their work order views" ON public.work_order_views;
+CREATE POLICY "Owners can delete their work order views"
+ON public.work_order_views FOR DELETE
+TO authenticated
+USING (owner_id = auth.uid());
+
+-- ─── Pinned default ─────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_order_view_defaults (
+  user_id uuid NOT NULL DEFAULT auth.uid() PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  view_id uuid NOT NULL REFERENCES public.work_order_views(id) ON DELETE CASCADE,
+  pinned_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.work_order_view_defaults ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own default view" ON public.work_order_view_defaults;
+CREATE POLICY "Users manage their own default view"
+ON public.work_order_view_defaults FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (SELECT 1 FROM public.work_order_views v WHERE v.id = view_id)
+);
@@ -0,0 +1,161 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Asset registry
+--
+-- Equipment we maintain (boilers, HVAC units, AV gear, kitchen appliances),
+-- each installed at one of the locations lookup values.
+--
+--   asset_type         fixed list, labelled in src/lib/assets.ts
+--   warranty_expires_on  optional; the registry flags warranties running out
+--   archived_at        archived assets keep their work order history but
+--                      cannot be picked for new requests
+--
+-- work_requests.asset_id links a work order to the equipment it is about.
+-- The asset must sit at the request's location; moving a request to another
+-- location drops a link that no longer fits.
+--
+-- Staff read the registry and approvers maintain it. The public request form
+-- only sees names and types, through get_location_assets().
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(btrim(name)) > 0),
+  asset_type text NOT NULL DEFAULT 'other'
+    CHECK (asset_type IN ('hvac', 'boiler', 'plumbing', 'electrical', 'av', 'kitchen', 'appliance', 'vehicle', 'other')),
+  location text NOT NULL REFERENCES public.locations(value),
+  make text,
+  model text,
+  serial_number text,
+  install_date date,
+  warranty_expires_on date,
+  notes text NOT NULL DEFAULT '',
+  archived_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assets_location ON public.assets(location) WHERE archived_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_assets_updated_at ON public.assets;
+CREATE TRIGGER update_assets_updated_at
+  BEFORE UPDATE ON public.assets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view assets" ON public.assets;
+CREATE POLICY "Staff can view assets"
+ON public.assets FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can add assets" ON public.assets;
+CREATE POLICY "Approvers can add assets"
+ON public.assets FOR INSERT
+WITH CHECK (public.is_approver(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can update assets" ON public.assets;
+CREATE POLICY "Approvers can update assets"
+ON public.assets FOR UPDATE
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+-- ─── Work request link ──────────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS asset_id uuid REFERENCES public.assets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_work_requests_asset
+  ON public.work_requests(asset_id, created_at DESC) WHERE asset_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.validate_work_request_asset()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _asset public.assets;
+BEGIN
+  IF NEW.asset_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _asset FROM public.assets WHERE id = NEW.asset_id;
+
+  -- A location change carries an existing link only if the asset is there too
+  IF TG_OP = 'UPDATE' AND NEW.asset_id IS NOT DISTINCT FROM OLD.asset_id THEN
+    IF _asset.location IS DISTINCT FROM NEW.location THEN
+      NEW.asset_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF _asset.id IS NULL OR _asset.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown or archived asset' USING ERRCODE = 'check_violation';
+  END IF;
+  IF _asset.location IS DISTINCT FROM NEW.location THEN
+    RAISE EXCEPTION '% is not at this location', _asset.name USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_work_request_asset ON public.work_requests;
+CREATE TRIGGER validate_work_request_asset
+  BEFORE INSERT OR UPDATE OF asset_id, location ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_work_request_asset();
+
+-- ─── Public picker ──────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_location_assets(_location text)
+RETURNS TABLE (id uuid, name text, asset_type text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.name, a.asset_type
+  FROM public.assets a
+  WHERE a.location = _location AND a.archived_at IS NULL
+  ORDER BY lower(a.name);
+$$;
+GRANT EXECUTE ON FUNCTION public.get_location_assets(text) TO anon, authenticated;
+
+-- ─── Submission ─────────────────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text, boolean);
+
+CREATE OR REPLACE FUNCTION public.submit_work_request(
+  _requestor_name text,
+  _requestor_email text,
+  _department text,
+  _title text,
+  _description text,
+  _priority priority_level,
+  _requested_date date,
+  _location text,
+  _category text DEFAULT 'General',
+  _requestor_phone text DEFAULT NULL,
+  _is_emergency boolean DEFAULT false,
+  _asset_id uuid DEFAULT NULL
+)
+RETURNS TABLE (id uuid, work_order_id text, access_token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO public.work_requests AS wr (
+    requestor_name, requestor_email, requestor_phone, department, title,
+    description, priority, requested_date, location, category, is_emergency, asset_id
+  ) VALUES (
+    _requestor_name, _requestor_email, _requestor_phone, _department, _title,
+    _description, _priority, _requested_date, _location, _category, COALESCE(_is_emergency, false), _asset_id
+  )
+  RETURNING wr.id, wr.work_order_id, wr.access_token;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.submit_work_request(text, text, text, text, text, priority_level, date, text, text, text, boolean, uuid) TO anon, authenticated;
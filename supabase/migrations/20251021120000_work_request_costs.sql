@@ -0,0 +1,193 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Labor and materials costs per work order
+--
+-- Materials: work_request_materials holds parts and supplies line items
+--   (description, quantity, unit cost, vendor). Staff and assignees edit them
+--   while the job is open; approvers can still correct them afterwards.
+--   work_requests.materials_cost is kept in step by a trigger.
+-- Labor:     staff_labor_rates holds an hourly rate per profile. When a job
+--   is completed, labor_rate is fixed at the combined rate of its assignees
+--   (or the rate of whoever completed it if nobody was assigned), and
+--   labor_cost = actual_hours × labor_rate. Fixing the rate at completion
+--   keeps past costs stable when rates change later.
+--
+-- Rates are visible to approvers only; everyone else gets the combined rate
+-- of a job they can work on through work_request_labor_rate().
+-- ─────────────────────────────────────────────────────────────────────────────
+
+-- ─── Labor rates ────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.staff_labor_rates (
+  profile_id uuid NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  hourly_rate numeric(10, 2) NOT NULL CHECK (hourly_rate >= 0),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_staff_labor_rates_updated_at ON public.staff_labor_rates;
+CREATE TRIGGER update_staff_labor_rates_updated_at
+  BEFORE UPDATE ON public.staff_labor_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.staff_labor_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Approvers can manage labor rates" ON public.staff_labor_rates;
+CREATE POLICY "Approvers can manage labor rates"
+ON public.staff_labor_rates FOR ALL
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+-- ─── Materials ──────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_request_materials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  description text NOT NULL CHECK (char_length(btrim(description)) > 0),
+  quantity numeric(10, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_cost numeric(10, 2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  line_total numeric(12, 2) GENERATED ALWAYS AS (round(quantity * unit_cost, 2)) STORED,
+  vendor text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name text DEFAULT public.current_actor_name(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_materials_request
+  ON public.work_request_materials(work_request_id, created_at);
+
+DROP TRIGGER IF EXISTS update_work_request_materials_updated_at ON public.work_request_materials;
+CREATE TRIGGER update_work_request_materials_updated_at
+  BEFORE UPDATE ON public.work_request_materials
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Open jobs are edited by whoever works them; closed ones by approvers only
+CREATE OR REPLACE FUNCTION public.can_edit_work_request_costs(_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_approver(auth.uid())
+    OR (
+      (public.is_staff(auth.uid()) OR public.is_work_request_assignee(_request_id))
+      AND EXISTS (
+        SELECT 1 FROM public.work_requests wr
+        WHERE wr.id = _request_id AND wr.status NOT IN ('completed', 'rejected')
+      )
+    );
+$$;
+
+ALTER TABLE public.work_request_materials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff and assignees can view materials" ON public.work_request_materials;
+CREATE POLICY "Staff and assignees can view materials"
+ON public.work_request_materials FOR SELECT
+USING (public.is_staff(auth.uid()) OR public.is_work_request_assignee(work_request_id));
+
+DROP POLICY IF EXISTS "Workers can add materials" ON public.work_request_materials;
+CREATE POLICY "Workers can add materials"
+ON public.work_request_materials FOR INSERT
+WITH CHECK (public.can_edit_work_request_costs(work_request_id));
+
+DROP POLICY IF EXISTS "Workers can update materials" ON public.work_request_materials;
+CREATE POLICY "Workers can update materials"
+ON public.work_request_materials FOR UPDATE
+USING (public.can_edit_work_request_costs(work_request_id))
+WITH CHECK (public.can_edit_work_request_costs(work_request_id));
+
+DROP POLICY IF EXISTS "Workers can remove materials" ON public.work_request_materials;
+CREATE POLICY "Workers can remove materials"
+ON public.work_request_materials FOR DELETE
+USING (public.can_edit_work_request_costs(work_request_id));
+
+-- ─── Totals on work_requests ────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS materials_cost numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS labor_rate numeric(10, 2),
+  ADD COLUMN IF NOT EXISTS labor_cost numeric(12, 2);
+
+CREATE OR REPLACE FUNCTION public.sync_work_request_materials_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request_id uuid := COALESCE(NEW.work_request_id, OLD.work_request_id);
+BEGIN
+  UPDATE public.work_requests
+  SET materials_cost = (
+    SELECT COALESCE(sum(m.line_total), 0) FROM public.work_request_materials m WHERE m.work_request_id = _request_id
+  )
+  WHERE id = _request_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_work_request_materials_cost ON public.work_request_materials;
+CREATE TRIGGER sync_work_request_materials_cost
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_request_materials
+  FOR EACH ROW EXECUTE FUNCTION public.sync_work_request_materials_cost();
+
+-- Combined hourly rate of the people on a job; NULL when no rate is on file
+CREATE OR REPLACE FUNCTION public.work_request_labor_rate(_request_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rate numeric;
+BEGIN
+  IF NOT (public.is_staff(auth.uid()) OR public.is_work_request_assignee(_request_id)) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.work_request_assignees a WHERE a.work_request_id = _request_id) THEN
+    SELECT sum(r.hourly_rate) INTO _rate
+    FROM public.work_request_assignees a
+    JOIN public.staff_labor_rates r ON r.profile_id = a.profile_id
+    WHERE a.work_request_id = _request_id;
+  ELSE
+    SELECT r.hourly_rate INTO _rate
+    FROM public.profiles p
+    JOIN public.staff_labor_rates r ON r.profile_id = p.id
+    WHERE p.user_id = auth.uid();
+  END IF;
+
+  RETURN _rate;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.work_request_labor_rate(uuid) FROM anon;
+
+CREATE OR REPLACE FUNCTION public.set_work_request_labor_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.labor_rate := public.work_request_labor_rate(NEW.id);
+  END IF;
+
+  NEW.labor_cost := CASE
+    WHEN NEW.actual_hours IS NULL OR NEW.labor_rate IS NULL THEN NULL
+    ELSE round(NEW.actual_hours * NEW.labor_rate, 2)
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_work_request_labor_cost ON public.work_requests;
+CREATE TRIGGER set_work_request_labor_cost
+  BEFORE UPDATE OF status, actual_hours, labor_rate ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_work_request_labor_cost();
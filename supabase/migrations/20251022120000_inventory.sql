@@ -0,0 +1,322 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Parts and supplies inventory
+--
+--   inventory_items            what we keep in stock (filters, bulbs, fuses),
+--                              where it is stored, and when to reorder
+--   inventory_adjustments      the stock ledger. Every change to
+--                              quantity_on_hand is a row here, so each item
+--                              has a full audit trail
+--   inventory_purchase_tasks   raised automatically when stock falls below
+--                              reorder_threshold; one open task per item
+--
+-- Stock only moves through the ledger. Staff log deliveries, counts and
+-- corrections; work_request_materials lines picked from stock log
+-- consumption (and returns, when a line is edited or removed). Direct
+-- writes to quantity_on_hand are ignored.
+--
+-- A purchase task goes open → ordered → received (by logging the delivery
+-- against it) or cancelled. If stock is still low after a delivery, the
+-- next task is raised straight away.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+-- ─── Items ──────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.inventory_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(btrim(name)) > 0),
+  sku text,
+  unit text NOT NULL DEFAULT 'each' CHECK (char_length(btrim(unit)) > 0),
+  location text REFERENCES public.locations(value),
+  bin text,
+  quantity_on_hand numeric(10, 2) NOT NULL DEFAULT 0 CHECK (quantity_on_hand >= 0),
+  reorder_threshold numeric(10, 2) NOT NULL DEFAULT 0 CHECK (reorder_threshold >= 0),
+  reorder_quantity numeric(10, 2) CHECK (reorder_quantity > 0),
+  unit_cost numeric(10, 2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  vendor text,
+  notes text NOT NULL DEFAULT '',
+  archived_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_items_sku
+  ON public.inventory_items(lower(sku)) WHERE sku IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_inventory_items_updated_at ON public.inventory_items;
+CREATE TRIGGER update_inventory_items_updated_at
+  BEFORE UPDATE ON public.inventory_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Writes made straight from a client run at trigger depth 1; the ledger
+-- updates stock from inside its own trigger, one level deeper
+CREATE OR REPLACE FUNCTION public.guard_inventory_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.quantity_on_hand := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.quantity_on_hand END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_inventory_quantity ON public.inventory_items;
+CREATE TRIGGER guard_inventory_quantity
+  BEFORE INSERT OR UPDATE ON public.inventory_items
+  FOR EACH ROW EXECUTE FUNCTION public.guard_inventory_quantity();
+
+ALTER TABLE public.inventory_items ENABLE ROW LEVEL SECURITY;
+
+-- Volunteers log parts on their own jobs, so they need to see the stock list
+DROP POLICY IF EXISTS "Workers can view inventory" ON public.inventory_items;
+CREATE POLICY "Workers can view inventory"
+ON public.inventory_items FOR SELECT
+USING (public.is_staff(auth.uid()) OR public.has_role(auth.uid(), 'volunteer'));
+
+DROP POLICY IF EXISTS "Approvers can add inventory items" ON public.inventory_items;
+CREATE POLICY "Approvers can add inventory items"
+ON public.inventory_items FOR INSERT
+WITH CHECK (public.is_approver(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can update inventory items" ON public.inventory_items;
+CREATE POLICY "Approvers can update inventory items"
+ON public.inventory_items FOR UPDATE
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+-- ─── Purchase tasks ─────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.inventory_purchase_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  quantity numeric(10, 2) NOT NULL CHECK (quantity > 0),
+  stock_at_alert numeric(10, 2) NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'ordered', 'received', 'cancelled')),
+  notes text,
+  ordered_at timestamp with time zone,
+  ordered_by_name text,
+  closed_at timestamp with time zone,
+  closed_by_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_purchase_tasks_pending
+  ON public.inventory_purchase_tasks(item_id) WHERE status IN ('open', 'ordered');
+
+DROP TRIGGER IF EXISTS update_inventory_purchase_tasks_updated_at ON public.inventory_purchase_tasks;
+CREATE TRIGGER update_inventory_purchase_tasks_updated_at
+  BEFORE UPDATE ON public.inventory_purchase_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stamps who ordered or closed a task. Only a logged delivery marks one
+-- received, so clients can move it to ordered or cancelled and no further.
+CREATE OR REPLACE FUNCTION public.stamp_inventory_purchase_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'This purchase task is already closed' USING ERRCODE = 'check_violation';
+  END IF;
+  IF NEW.status = 'received' AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Log the delivery to mark a purchase task received' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'ordered' THEN
+    NEW.ordered_at := now();
+    NEW.ordered_by_name := public.current_actor_name();
+  ELSIF NEW.status IN ('received', 'cancelled') THEN
+    NEW.closed_at := now();
+    NEW.closed_by_name := public.current_actor_name();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_inventory_purchase_task ON public.inventory_purchase_tasks;
+CREATE TRIGGER stamp_inventory_purchase_task
+  BEFORE UPDATE ON public.inventory_purchase_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_inventory_purchase_task();
+
+ALTER TABLE public.inventory_purchase_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view purchase tasks" ON public.inventory_purchase_tasks;
+CREATE POLICY "Staff can view purchase tasks"
+ON public.inventory_purchase_tasks FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Staff can update purchase tasks" ON public.inventory_purchase_tasks;
+CREATE POLICY "Staff can update purchase tasks"
+ON public.inventory_purchase_tasks FOR UPDATE
+USING (public.is_staff(auth.uid()))
+WITH CHECK (public.is_staff(auth.uid()));
+
+-- Suggested order: the item's reorder quantity, else enough to get back to
+-- twice the threshold. New items start empty and get their opening count
+-- next, so only updates are checked.
+CREATE OR REPLACE FUNCTION public.raise_inventory_purchase_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.archived_at IS NOT NULL OR NEW.quantity_on_hand >= NEW.reorder_threshold THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.inventory_purchase_tasks (item_id, quantity, stock_at_alert)
+  SELECT NEW.id,
+         COALESCE(NEW.reorder_quantity, NEW.reorder_threshold * 2 - NEW.quantity_on_hand),
+         NEW.quantity_on_hand
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.inventory_purchase_tasks t
+    WHERE t.item_id = NEW.id AND t.status IN ('open', 'ordered')
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS raise_inventory_purchase_task ON public.inventory_items;
+CREATE TRIGGER raise_inventory_purchase_task
+  AFTER UPDATE OF quantity_on_hand, reorder_threshold, archived_at ON public.inventory_items
+  FOR EACH ROW EXECUTE FUNCTION public.raise_inventory_purchase_task();
+
+-- ─── Stock ledger ───────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.inventory_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('received', 'count', 'correction', 'consumed', 'returned')),
+  change numeric(10, 2) NOT NULL DEFAULT 0,
+  quantity_after numeric(10, 2) NOT NULL DEFAULT 0,
+  work_request_id uuid REFERENCES public.work_requests(id) ON DELETE SET NULL,
+  purchase_task_id uuid REFERENCES public.inventory_purchase_tasks(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name text DEFAULT public.current_actor_name(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_item
+  ON public.inventory_adjustments(item_id, created_at DESC);
+
+-- Counts give the quantity found (quantity_after); everything else gives
+-- the change. Either way the other column is filled in here and the item
+-- updated, under a row lock so concurrent entries can't lose stock.
+CREATE OR REPLACE FUNCTION public.apply_inventory_adjustment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = NEW.item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found with id: %', NEW.item_id;
+  END IF;
+
+  IF NEW.reason = 'count' THEN
+    NEW.change := NEW.quantity_after - _item.quantity_on_hand;
+  ELSE
+    NEW.quantity_after := _item.quantity_on_hand + NEW.change;
+  END IF;
+
+  IF NEW.quantity_after < 0 THEN
+    RAISE EXCEPTION 'Only % % of % left in stock', _item.quantity_on_hand, _item.unit, _item.name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Close the task first, so a delivery that still leaves stock low raises the next one
+  IF NEW.purchase_task_id IS NOT NULL THEN
+    UPDATE public.inventory_purchase_tasks
+    SET status = 'received'
+    WHERE id = NEW.purchase_task_id AND item_id = NEW.item_id AND status IN ('open', 'ordered');
+  END IF;
+
+  UPDATE public.inventory_items SET quantity_on_hand = NEW.quantity_after WHERE id = NEW.item_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_inventory_adjustment ON public.inventory_adjustments;
+CREATE TRIGGER apply_inventory_adjustment
+  BEFORE INSERT ON public.inventory_adjustments
+  FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_adjustment();
+
+ALTER TABLE public.inventory_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view stock adjustments" ON public.inventory_adjustments;
+CREATE POLICY "Staff can view stock adjustments"
+ON public.inventory_adjustments FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+-- Consumption and returns come from work order materials only
+DROP POLICY IF EXISTS "Staff can log stock adjustments" ON public.inventory_adjustments;
+CREATE POLICY "Staff can log stock adjustments"
+ON public.inventory_adjustments FOR INSERT
+WITH CHECK (
+  public.is_staff(auth.uid())
+  AND reason IN ('received', 'count', 'correction')
+  AND work_request_id IS NULL
+  AND (purchase_task_id IS NULL OR reason = 'received')
+);
+
+-- ─── Parts used on work orders ──────────────────────────────────────────────
+
+ALTER TABLE public.work_request_materials
+  ADD COLUMN IF NOT EXISTS inventory_item_id uuid REFERENCES public.inventory_items(id) ON DELETE SET NULL;
+
+-- Picking a line from stock takes it off the shelf; editing or removing the
+-- line puts the difference back
+CREATE OR REPLACE FUNCTION public.sync_work_request_material_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Lines removed along with their work order still return their stock
+  _request_id uuid := (
+    SELECT wr.id FROM public.work_requests wr WHERE wr.id = COALESCE(NEW.work_request_id, OLD.work_request_id)
+  );
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.inventory_item_id IS NOT NULL
+     AND (TG_OP = 'DELETE' OR NEW.inventory_item_id IS DISTINCT FROM OLD.inventory_item_id) THEN
+    INSERT INTO public.inventory_adjustments (item_id, reason, change, work_request_id)
+    VALUES (OLD.inventory_item_id, 'returned', OLD.quantity, _request_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.inventory_item_id IS NOT NULL THEN
+    IF TG_OP = 'INSERT' OR NEW.inventory_item_id IS DISTINCT FROM OLD.inventory_item_id THEN
+      INSERT INTO public.inventory_adjustments (item_id, reason, change, work_request_id)
+      VALUES (NEW.inventory_item_id, 'consumed', -NEW.quantity, _request_id);
+    ELSIF NEW.quantity <> OLD.quantity THEN
+      INSERT INTO public.inventory_adjustments (item_id, reason, change, work_request_id)
+      VALUES (
+        NEW.inventory_item_id,
+        CASE WHEN NEW.quantity > OLD.quantity THEN 'consumed' ELSE 'returned' END,
+        OLD.quantity - NEW.quantity,
+        _request_id
+      );
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_work_request_material_stock ON public.work_request_materials;
+CREATE TRIGGER sync_work_request_material_stock
+  AFTER INSERT OR UPDATE OF quantity, inventory_item_id OR DELETE ON public.work_request_materials
+  FOR EACH ROW EXECUTE FUNCTION public.sync_work_request_material_stock();
@@ -0,0 +1,147 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Vendor and contractor directory
+--
+-- Outside plumbers, electricians, HVAC firms and the like, with contact
+-- details, their insurance certificate expiry and what they charge.
+--
+--   trade                 fixed list, labelled in src/lib/vendors.ts
+--   insurance_expires_on  optional; the directory flags lapsing certificates
+--   archived_at           archived vendors keep their job history but can't
+--                         be given new work
+--
+-- Approvers hand a work order to a vendor with a quote and the date the
+-- vendor expects to finish; the invoiced amount is recorded once it arrives.
+-- Vendor performance (on-time rate, average cost) is worked out from those
+-- columns on the vendor page. Handing a job over, or taking it back, is
+-- logged to the work order history.
+--
+-- Staff read the directory and approvers maintain it.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.vendors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(btrim(name)) > 0),
+  trade text NOT NULL DEFAULT 'general'
+    CHECK (trade IN ('plumbing', 'electrical', 'hvac', 'roofing', 'carpentry', 'painting', 'cleaning', 'landscaping', 'pest_control', 'locksmith', 'general', 'other')),
+  contact_name text,
+  email text,
+  phone text,
+  website text,
+  insurance_expires_on date,
+  hourly_rate numeric(10, 2) CHECK (hourly_rate >= 0),
+  call_out_fee numeric(10, 2) CHECK (call_out_fee >= 0),
+  rate_notes text,
+  notes text NOT NULL DEFAULT '',
+  archived_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_vendors_updated_at ON public.vendors;
+CREATE TRIGGER update_vendors_updated_at
+  BEFORE UPDATE ON public.vendors
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.vendors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view vendors" ON public.vendors;
+CREATE POLICY "Staff can view vendors"
+ON public.vendors FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can add vendors" ON public.vendors;
+CREATE POLICY "Approvers can add vendors"
+ON public.vendors FOR INSERT
+WITH CHECK (public.is_approver(auth.uid()));
+
+DROP POLICY IF EXISTS "Approvers can update vendors" ON public.vendors;
+CREATE POLICY "Approvers can update vendors"
+ON public.vendors FOR UPDATE
+USING (public.is_approver(auth.uid()))
+WITH CHECK (public.is_approver(auth.uid()));
+
+-- ─── Work request assignment ────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS vendor_id uuid REFERENCES public.vendors(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS vendor_quote numeric(12, 2) CHECK (vendor_quote >= 0),
+  ADD COLUMN IF NOT EXISTS vendor_expected_date date,
+  ADD COLUMN IF NOT EXISTS vendor_invoice_amount numeric(12, 2) CHECK (vendor_invoice_amount >= 0),
+  ADD COLUMN IF NOT EXISTS vendor_assigned_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_work_requests_vendor
+  ON public.work_requests(vendor_id, created_at DESC) WHERE vendor_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.validate_work_request_vendor()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _vendor public.vendors;
+BEGIN
+  -- Taking a job back clears the vendor's terms with it
+  IF NEW.vendor_id IS NULL THEN
+    NEW.vendor_quote := NULL;
+    NEW.vendor_expected_date := NULL;
+    NEW.vendor_invoice_amount := NULL;
+    NEW.vendor_assigned_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.vendor_id IS NOT DISTINCT FROM OLD.vendor_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _vendor FROM public.vendors WHERE id = NEW.vendor_id;
+  IF _vendor.id IS NULL OR _vendor.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown or archived vendor' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.vendor_assigned_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_work_request_vendor ON public.work_requests;
+CREATE TRIGGER validate_work_request_vendor
+  BEFORE INSERT OR UPDATE OF vendor_id ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_work_request_vendor();
+
+-- ─── History ────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_request_events
+  DROP CONSTRAINT IF EXISTS work_request_events_event_type_check;
+ALTER TABLE public.work_request_events
+  ADD CONSTRAINT work_request_events_event_type_check CHECK (event_type IN (
+    'created', 'status_changed', 'date_changed', 'priority_changed', 'checklist_updated', 'sla_breached',
+    'vendor_assigned'
+  ));
+
+-- Vendor names are stored, so the entry still reads right after a rename
+CREATE OR REPLACE FUNCTION public.log_work_request_vendor()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.vendor_id IS DISTINCT FROM OLD.vendor_id THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'vendor_assigned',
+      (SELECT v.name FROM public.vendors v WHERE v.id = OLD.vendor_id),
+      (SELECT v.name FROM public.vendors v WHERE v.id = NEW.vendor_id),
+      auth.uid(), public.current_actor_name()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_work_request_vendor ON public.work_requests;
+CREATE TRIGGER log_work_request_vendor
+  AFTER UPDATE OF vendor_id ON public.work_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_work_request_vendor();
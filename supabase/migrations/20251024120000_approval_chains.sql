@@ -0,0 +1,397 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Multi-stage approval chains
+--
+-- Finance policy: larger jobs need the requesting department's head to sign
+-- off first, then the facilities director once the estimated cost passes a
+-- threshold. Admins configure this as chain steps in Settings:
+--
+--   department           a departments.value, or NULL for every department
+--   min_estimated_cost   the step applies from this estimate up (cost band)
+--   step_order           steps are decided lowest first
+--   label                what the approver is signing off as, e.g.
+--                        "Department head"
+--   approver_profile_id  who decides the step
+--
+-- A pending request gets a copy of every step that matches its department
+-- and estimated_cost in work_request_approvals. The copy is rebuilt whenever
+-- the department, the estimate or the chain configuration changes; decided
+-- steps are kept. Requests with no estimate are treated as costing nothing.
+-- Requests no step matches keep the single approval by an admin or manager.
+--
+-- Steps are decided one at a time, in order, by their approver (or by an
+-- admin standing in for them) through decide_work_request_approval(). The
+-- last approval moves the request to approved; a rejection rejects it.
+-- approve_work_request() decides the caller's step when a chain is running,
+-- so the existing Approve buttons and bulk approve keep working, and a
+-- BEFORE UPDATE trigger stops anything else approving past an open step.
+-- Rejecting through update_work_request_status() records the open step as
+-- rejected by whoever did it.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_requests
+  ADD COLUMN IF NOT EXISTS estimated_cost numeric(12, 2) CHECK (estimated_cost >= 0);
+
+-- ─── Configuration ──────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.approval_chain_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department text REFERENCES public.departments(value) ON DELETE CASCADE,
+  min_estimated_cost numeric(12, 2) NOT NULL DEFAULT 0 CHECK (min_estimated_cost >= 0),
+  step_order integer NOT NULL DEFAULT 1 CHECK (step_order > 0),
+  label text NOT NULL CHECK (char_length(btrim(label)) > 0),
+  approver_profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_approval_chain_steps_updated_at ON public.approval_chain_steps;
+CREATE TRIGGER update_approval_chain_steps_updated_at
+  BEFORE UPDATE ON public.approval_chain_steps
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view approval chains" ON public.approval_chain_steps;
+CREATE POLICY "Staff can view approval chains"
+ON public.approval_chain_steps FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage approval chains" ON public.approval_chain_steps;
+CREATE POLICY "Admins can manage approval chains"
+ON public.approval_chain_steps FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- ─── Per-request steps ──────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.work_request_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_request_id uuid NOT NULL REFERENCES public.work_requests(id) ON DELETE CASCADE,
+  chain_step_id uuid REFERENCES public.approval_chain_steps(id) ON DELETE SET NULL,
+  step_order integer NOT NULL,
+  label text NOT NULL,
+  approver_profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Kept so the record still reads right after the profile is renamed or removed
+  approver_name text,
+  decision text CHECK (decision IN ('approved', 'rejected')),
+  comment text,
+  decided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_by_name text,
+  decided_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_approvals_request
+  ON public.work_request_approvals(work_request_id, step_order);
+CREATE INDEX IF NOT EXISTS idx_work_request_approvals_open
+  ON public.work_request_approvals(approver_profile_id) WHERE decision IS NULL;
+
+ALTER TABLE public.work_request_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the functions below
+DROP POLICY IF EXISTS "Staff can view work request approvals" ON public.work_request_approvals;
+CREATE POLICY "Staff can view work request approvals"
+ON public.work_request_approvals FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+-- ─── Planning ───────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.plan_work_request_approvals(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.work_requests;
+BEGIN
+  SELECT * INTO _request FROM public.work_requests WHERE id = _request_id;
+  IF _request.id IS NULL OR _request.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.work_request_approvals
+  WHERE work_request_id = _request_id AND decision IS NULL;
+
+  INSERT INTO public.work_request_approvals (work_request_id, chain_step_id, step_order, label, approver_profile_id, approver_name)
+  SELECT _request_id, s.id, s.step_order, btrim(s.label), s.approver_profile_id,
+         COALESCE(NULLIF(btrim(p.name), ''), p.email)
+  FROM public.approval_chain_steps s
+  JOIN public.profiles p ON p.id = s.approver_profile_id
+  WHERE (s.department IS NULL OR s.department = _request.department)
+    AND COALESCE(_request.estimated_cost, 0) >= s.min_estimated_cost
+    AND NOT EXISTS (
+      SELECT 1 FROM public.work_request_approvals a
+      WHERE a.work_request_id = _request_id AND a.chain_step_id = s.id
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.plan_work_request_approvals(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.plan_approvals_for_work_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.department IS DISTINCT FROM OLD.department
+     OR NEW.estimated_cost IS DISTINCT FROM OLD.estimated_cost THEN
+    PERFORM public.plan_work_request_approvals(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS plan_approvals_for_work_request ON public.work_requests;
+CREATE TRIGGER plan_approvals_for_work_request
+  AFTER INSERT OR UPDATE OF department, estimated_cost ON public.work_requests
+  FOR EACH ROW
+  WHEN (NEW.status = 'pending')
+  EXECUTE FUNCTION public.plan_approvals_for_work_request();
+
+-- Chain edits apply to everything still waiting for approval
+CREATE OR REPLACE FUNCTION public.replan_pending_approvals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  FOR _id IN SELECT id FROM public.work_requests WHERE status = 'pending' LOOP
+    PERFORM public.plan_work_request_approvals(_id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS replan_pending_approvals ON public.approval_chain_steps;
+CREATE TRIGGER replan_pending_approvals
+  AFTER INSERT OR UPDATE OR DELETE ON public.approval_chain_steps
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.replan_pending_approvals();
+
+-- ─── Enforcement ────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.enforce_work_request_approvals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _open public.work_request_approvals;
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status = 'approved' THEN
+    SELECT * INTO _open
+    FROM public.work_request_approvals
+    WHERE work_request_id = NEW.id AND decision IS NULL
+    ORDER BY step_order, created_at
+    LIMIT 1;
+
+    IF _open.id IS NOT NULL THEN
+      RAISE EXCEPTION 'Still waiting on % (%)', COALESCE(_open.approver_name, 'an approver'), _open.label
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_work_request_approvals ON public.work_requests;
+CREATE TRIGGER enforce_work_request_approvals
+  BEFORE UPDATE OF status ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_work_request_approvals();
+
+-- A rejection from outside the chain still closes the step it interrupted
+CREATE OR REPLACE FUNCTION public.close_work_request_approvals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status = 'rejected' AND NOT EXISTS (
+    SELECT 1 FROM public.work_request_approvals
+    WHERE work_request_id = NEW.id AND decision = 'rejected'
+  ) THEN
+    UPDATE public.work_request_approvals
+    SET decision = 'rejected',
+        comment = NEW.rejected_reason,
+        decided_by = auth.uid(),
+        decided_by_name = public.current_actor_name(),
+        decided_at = now()
+    WHERE id = (
+      SELECT id FROM public.work_request_approvals
+      WHERE work_request_id = NEW.id AND decision IS NULL
+      ORDER BY step_order, created_at
+      LIMIT 1
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS close_work_request_approvals ON public.work_requests;
+CREATE TRIGGER close_work_request_approvals
+  AFTER UPDATE OF status ON public.work_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_work_request_approvals();
+
+-- ─── History ────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_request_events
+  DROP CONSTRAINT IF EXISTS work_request_events_event_type_check;
+ALTER TABLE public.work_request_events
+  ADD CONSTRAINT work_request_events_event_type_check CHECK (event_type IN (
+    'created', 'status_changed', 'date_changed', 'priority_changed', 'checklist_updated', 'sla_breached',
+    'vendor_assigned', 'approval_step'
+  ));
+
+-- ─── Decisions ──────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.decide_work_request_approval(
+  _approval_id uuid,
+  _decision text,
+  _comment text DEFAULT NULL
+)
+RETURNS work_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := public.current_actor_name();
+  _step public.work_request_approvals;
+  _current public.work_request_approvals;
+  _status work_status;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown decision: %', _decision;
+  END IF;
+
+  SELECT * INTO _step FROM public.work_request_approvals WHERE id = _approval_id;
+  IF _step.id IS NULL THEN
+    RAISE EXCEPTION 'Approval step not found with id: %', _approval_id;
+  END IF;
+
+  SELECT status INTO _status FROM public.work_requests WHERE id = _step.work_request_id FOR UPDATE;
+  IF _status <> 'pending' THEN
+    RAISE EXCEPTION 'This work request is no longer waiting for approval' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _current
+  FROM public.work_request_approvals
+  WHERE work_request_id = _step.work_request_id AND decision IS NULL
+  ORDER BY step_order, created_at
+  LIMIT 1;
+
+  IF _current.id IS DISTINCT FROM _step.id THEN
+    RAISE EXCEPTION 'This step is not up for decision' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.has_role(_actor_id, 'admin') AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = _step.approver_profile_id AND p.user_id = _actor_id
+  ) THEN
+    RAISE EXCEPTION 'Only % can decide the % step', COALESCE(_step.approver_name, 'the named approver'), lower(_step.label)
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _decision = 'rejected' AND NULLIF(btrim(_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'A comment is required to reject';
+  END IF;
+
+  UPDATE public.work_request_approvals
+  SET decision = _decision,
+      comment = NULLIF(btrim(_comment), ''),
+      decided_by = _actor_id,
+      decided_by_name = _actor_name,
+      decided_at = now()
+  WHERE id = _step.id;
+
+  IF _decision = 'rejected' THEN
+    UPDATE public.work_requests
+    SET status = 'rejected',
+        rejected_by = _actor_name,
+        rejected_by_id = _actor_id,
+        rejected_at = now(),
+        rejected_reason = btrim(_comment),
+        updated_at = now()
+    WHERE id = _step.work_request_id;
+    RETURN 'rejected';
+  END IF;
+
+  -- The final status change is logged on its own; only the steps before it are
+  INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+  VALUES (_step.work_request_id, 'approval_step', _step.label, _decision, NULLIF(btrim(_comment), ''), _actor_id, _actor_name);
+
+  IF EXISTS (
+    SELECT 1 FROM public.work_request_approvals
+    WHERE work_request_id = _step.work_request_id AND decision IS NULL
+  ) THEN
+    RETURN 'pending';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'approved',
+      approved_by = _actor_name,
+      approved_by_id = _actor_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = _step.work_request_id;
+  RETURN 'approved';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.decide_work_request_approval(uuid, text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.decide_work_request_approval(uuid, text, text) TO authenticated;
+
+-- ─── approve_work_request ───────────────────────────────────────────────────
+-- With a chain running, approving decides the open step for the caller.
+
+CREATE OR REPLACE FUNCTION public.approve_work_request(_request_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _open uuid;
+BEGIN
+  SELECT id INTO _open
+  FROM public.work_request_approvals
+  WHERE work_request_id = _request_id AND decision IS NULL
+  ORDER BY step_order, created_at
+  LIMIT 1;
+
+  IF _open IS NOT NULL THEN
+    PERFORM public.decide_work_request_approval(_open, 'approved');
+    RETURN _request_id;
+  END IF;
+
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can approve work requests' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'approved',
+      approved_by = public.current_actor_name(),
+      approved_by_id = auth.uid(),
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$$;
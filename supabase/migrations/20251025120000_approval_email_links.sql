@@ -0,0 +1,468 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- One-click approval links
+--
+-- Department heads rarely sign in to the app, so each open approval step is
+-- emailed to its approver with an approve and a reject link. The links open
+-- the public /approval/:token page, which confirms the decision and takes an
+-- optional comment (required to reject) before anything is recorded.
+--
+-- Nonce:    when a step becomes the open one it gets a random link_nonce and
+--   a link_expires_at a week out, and an 'approval_request' email is queued.
+--   Deciding the step, in the app or by link, spends the link; resending
+--   replaces the nonce so earlier emails stop working.
+-- Signing:  the send-notification-emails function signs the approval id,
+--   nonce and expiry with APPROVAL_LINK_SECRET. Staff can read nonces, but
+--   without the secret they cannot turn one into a working link.
+-- Decision: the approval-link edge function checks the signature, then calls
+--   decide_work_request_approval_by_link() with the service role. That runs
+--   decide_work_request_approval() as the step's approver, so the decision,
+--   events and status emails carry their name as if they had clicked Approve
+--   in the app.
+-- Planning: plan_work_request_approvals() now keeps undecided steps whose
+--   chain step still applies, so editing an estimate doesn't void a link
+--   that is already out.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_request_approvals
+  ADD COLUMN IF NOT EXISTS link_nonce text,
+  ADD COLUMN IF NOT EXISTS link_expires_at timestamp with time zone;
+
+-- ─── Template ───────────────────────────────────────────────────────────────
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+  'submitted', 'approved', 'rejected', 'date_changed', 'started', 'completed', 'status_links',
+  'staff_message', 'requestor_message', 'note_mention', 'emergency', 'approval_request'
+));
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('approval_request',
+   'Approval needed: {{work_order_id}} {{title}}',
+   E'Hello {{approver_name}},\n\n{{requestor_name}} ({{department}}) has requested work that needs your sign-off as {{step_label}}.\n\n{{title}}\nLocation: {{location}}\nEstimated cost: {{estimated_cost}}\n\n{{description}}\n\nApprove:\n{{approve_url}}\n\nReject:\n{{reject_url}}\n\nEach link asks you to confirm before anything is recorded. They work once and expire on {{link_expires_on}}.')
+ON CONFLICT (event) DO NOTHING;
+
+-- ─── Queueing ───────────────────────────────────────────────────────────────
+
+-- Emails the approver of the request's open step, once per step
+CREATE OR REPLACE FUNCTION public.queue_approval_request_email(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.work_requests;
+  _open public.work_request_approvals;
+  _recipient text;
+  _outbox_id uuid;
+BEGIN
+  SELECT * INTO _request FROM public.work_requests WHERE id = _request_id;
+  IF _request.id IS NULL OR _request.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _open
+  FROM public.work_request_approvals
+  WHERE work_request_id = _request_id AND decision IS NULL
+  ORDER BY step_order, created_at
+  LIMIT 1;
+
+  IF _open.id IS NULL OR _open.link_nonce IS NOT NULL OR NOT EXISTS (
+    SELECT 1 FROM public.email_templates t WHERE t.event = 'approval_request' AND t.is_enabled
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT NULLIF(btrim(p.email), '') INTO _recipient FROM public.profiles p WHERE p.id = _open.approver_profile_id;
+  IF _recipient IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.work_request_approvals
+  SET link_nonce = public.generate_access_token(),
+      link_expires_at = now() + interval '7 days'
+  WHERE id = _open.id
+  RETURNING * INTO _open;
+
+  INSERT INTO public.email_outbox (work_request_id, template, recipient, context)
+  VALUES (
+    _request.id, 'approval_request', _recipient,
+    jsonb_build_object(
+      'work_order_id', _request.work_order_id,
+      'title', _request.title,
+      'description', _request.description,
+      'requestor_name', _request.requestor_name,
+      'department', COALESCE((SELECT d.name FROM public.departments d WHERE d.value = _request.department), _request.department),
+      'location', COALESCE((SELECT l.name FROM public.locations l WHERE l.value = _request.location), _request.location),
+      'category', COALESCE((SELECT c.name FROM public.categories c WHERE c.value = _request.category), _request.category),
+      'priority', initcap(_request.priority::text),
+      'requested_date', to_char(_request.requested_date, 'FMMonth FMDD, YYYY'),
+      'estimated_cost', COALESCE(to_char(_request.estimated_cost, 'FM$999,999,990.00'), 'Not estimated'),
+      'approver_name', COALESCE(_open.approver_name, 'there'),
+      'step_label', _open.label,
+      'link_expires_on', to_char(_open.link_expires_at, 'FMMonth FMDD, YYYY'),
+      -- Signed into approve_url and reject_url by the edge function
+      'approval_id', _open.id,
+      'link_nonce', _open.link_nonce,
+      'link_expires_at', extract(epoch FROM _open.link_expires_at)::bigint::text
+    )
+  )
+  RETURNING id INTO _outbox_id;
+
+  PERFORM public.invoke_email_sender(_outbox_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_approval_request_email(uuid) FROM PUBLIC;
+
+-- For an approver whose email went missing or whose link expired
+CREATE OR REPLACE FUNCTION public.resend_approval_request_email(_approval_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.work_request_approvals;
+BEGIN
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can resend approval emails' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _step FROM public.work_request_approvals WHERE id = _approval_id;
+  IF _step.id IS NULL THEN
+    RAISE EXCEPTION 'Approval step not found with id: %', _approval_id;
+  END IF;
+  IF _step.decision IS NOT NULL THEN
+    RAISE EXCEPTION 'This step has already been decided' USING ERRCODE = 'check_violation';
+  END IF;
+  IF _step.id IS DISTINCT FROM (
+    SELECT id FROM public.work_request_approvals
+    WHERE work_request_id = _step.work_request_id AND decision IS NULL
+    ORDER BY step_order, created_at
+    LIMIT 1
+  ) THEN
+    RAISE EXCEPTION 'This step is not up for decision yet' USING ERRCODE = 'check_violation';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = _step.approver_profile_id AND COALESCE(btrim(p.email), '') <> ''
+  ) THEN
+    RAISE EXCEPTION '% has no email address', COALESCE(_step.approver_name, 'The approver');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.email_templates t WHERE t.event = 'approval_request' AND t.is_enabled) THEN
+    RAISE EXCEPTION 'The approval request email is turned off in Settings';
+  END IF;
+
+  UPDATE public.work_request_approvals
+  SET link_nonce = NULL, link_expires_at = NULL
+  WHERE id = _step.id;
+
+  PERFORM public.queue_approval_request_email(_step.work_request_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resend_approval_request_email(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.resend_approval_request_email(uuid) TO authenticated;
+
+-- ─── Planning ───────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.plan_work_request_approvals(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.work_requests;
+BEGIN
+  SELECT * INTO _request FROM public.work_requests WHERE id = _request_id;
+  IF _request.id IS NULL OR _request.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  -- Undecided steps go only when their chain step changed or no longer applies
+  DELETE FROM public.work_request_approvals a
+  WHERE a.work_request_id = _request_id
+    AND a.decision IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.approval_chain_steps s
+      WHERE s.id = a.chain_step_id
+        AND s.step_order = a.step_order
+        AND btrim(s.label) = a.label
+        AND s.approver_profile_id IS NOT DISTINCT FROM a.approver_profile_id
+        AND (s.department IS NULL OR s.department = _request.department)
+        AND COALESCE(_request.estimated_cost, 0) >= s.min_estimated_cost
+    );
+
+  INSERT INTO public.work_request_approvals (work_request_id, chain_step_id, step_order, label, approver_profile_id, approver_name)
+  SELECT _request_id, s.id, s.step_order, btrim(s.label), s.approver_profile_id,
+         COALESCE(NULLIF(btrim(p.name), ''), p.email)
+  FROM public.approval_chain_steps s
+  JOIN public.profiles p ON p.id = s.approver_profile_id
+  WHERE (s.department IS NULL OR s.department = _request.department)
+    AND COALESCE(_request.estimated_cost, 0) >= s.min_estimated_cost
+    AND NOT EXISTS (
+      SELECT 1 FROM public.work_request_approvals a
+      WHERE a.work_request_id = _request_id AND a.chain_step_id = s.id
+    );
+
+  PERFORM public.queue_approval_request_email(_request_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.plan_work_request_approvals(uuid) FROM PUBLIC;
+
+-- ─── Decisions ──────────────────────────────────────────────────────────────
+-- Unchanged apart from emailing the next approver after a step is approved.
+
+CREATE OR REPLACE FUNCTION public.decide_work_request_approval(
+  _approval_id uuid,
+  _decision text,
+  _comment text DEFAULT NULL
+)
+RETURNS work_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := public.current_actor_name();
+  _step public.work_request_approvals;
+  _current public.work_request_approvals;
+  _status work_status;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown decision: %', _decision;
+  END IF;
+
+  SELECT * INTO _step FROM public.work_request_approvals WHERE id = _approval_id;
+  IF _step.id IS NULL THEN
+    RAISE EXCEPTION 'Approval step not found with id: %', _approval_id;
+  END IF;
+
+  SELECT status INTO _status FROM public.work_requests WHERE id = _step.work_request_id FOR UPDATE;
+  IF _status <> 'pending' THEN
+    RAISE EXCEPTION 'This work request is no longer waiting for approval' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _current
+  FROM public.work_request_approvals
+  WHERE work_request_id = _step.work_request_id AND decision IS NULL
+  ORDER BY step_order, created_at
+  LIMIT 1;
+
+  IF _current.id IS DISTINCT FROM _step.id THEN
+    RAISE EXCEPTION 'This step is not up for decision' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.has_role(_actor_id, 'admin') AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = _step.approver_profile_id AND p.user_id = _actor_id
+  ) THEN
+    RAISE EXCEPTION 'Only % can decide the % step', COALESCE(_step.approver_name, 'the named approver'), lower(_step.label)
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _decision = 'rejected' AND NULLIF(btrim(_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'A comment is required to reject';
+  END IF;
+
+  UPDATE public.work_request_approvals
+  SET decision = _decision,
+      comment = NULLIF(btrim(_comment), ''),
+      decided_by = _actor_id,
+      decided_by_name = _actor_name,
+      decided_at = now()
+  WHERE id = _step.id;
+
+  IF _decision = 'rejected' THEN
+    UPDATE public.work_requests
+    SET status = 'rejected',
+        rejected_by = _actor_name,
+        rejected_by_id = _actor_id,
+        rejected_at = now(),
+        rejected_reason = btrim(_comment),
+        updated_at = now()
+    WHERE id = _step.work_request_id;
+    RETURN 'rejected';
+  END IF;
+
+  -- The final status change is logged on its own; only the steps before it are
+  INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+  VALUES (_step.work_request_id, 'approval_step', _step.label, _decision, NULLIF(btrim(_comment), ''), _actor_id, _actor_name);
+
+  IF EXISTS (
+    SELECT 1 FROM public.work_request_approvals
+    WHERE work_request_id = _step.work_request_id AND decision IS NULL
+  ) THEN
+    PERFORM public.queue_approval_request_email(_step.work_request_id);
+    RETURN 'pending';
+  END IF;
+
+  UPDATE public.work_requests
+  SET status = 'approved',
+      approved_by = _actor_name,
+      approved_by_id = _actor_id,
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = _step.work_request_id;
+  RETURN 'approved';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.decide_work_request_approval(uuid, text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.decide_work_request_approval(uuid, text, text) TO authenticated;
+
+-- ─── Links ──────────────────────────────────────────────────────────────────
+-- Called only by the approval-link edge function, after it has checked the
+-- signature. A decided step keeps its nonce so a second click can say so.
+
+CREATE OR REPLACE FUNCTION public.check_approval_link(_approval_id uuid, _nonce text)
+RETURNS public.work_request_approvals
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.work_request_approvals;
+  _open uuid;
+BEGIN
+  SELECT * INTO _step FROM public.work_request_approvals WHERE id = _approval_id;
+  IF _step.id IS NULL OR _step.link_nonce IS NULL OR _step.link_nonce <> _nonce THEN
+    RAISE EXCEPTION 'This link is no longer valid. A newer approval email may have replaced it.';
+  END IF;
+
+  IF _step.decision IS NOT NULL THEN
+    RAISE EXCEPTION 'This step was already % by %', _step.decision, COALESCE(_step.decided_by_name, 'someone else');
+  END IF;
+
+  IF _step.link_expires_at <= now() THEN
+    RAISE EXCEPTION 'This link expired on %. Ask the facilities office to send a new one.',
+      to_char(_step.link_expires_at, 'FMMonth FMDD, YYYY');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.work_requests WHERE id = _step.work_request_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'This work request is no longer waiting for approval';
+  END IF;
+
+  SELECT id INTO _open
+  FROM public.work_request_approvals
+  WHERE work_request_id = _step.work_request_id AND decision IS NULL
+  ORDER BY step_order, created_at
+  LIMIT 1;
+
+  IF _open IS DISTINCT FROM _step.id THEN
+    RAISE EXCEPTION 'This step is not up for decision yet';
+  END IF;
+
+  RETURN _step;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_approval_link(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- What the landing page shows before the approver confirms
+CREATE OR REPLACE FUNCTION public.get_approval_link(_approval_id uuid, _nonce text)
+RETURNS TABLE (
+  approval_id uuid,
+  work_order_id text,
+  title text,
+  description text,
+  requestor_name text,
+  department text,
+  location text,
+  estimated_cost numeric,
+  step_label text,
+  approver_name text,
+  step_number integer,
+  step_count integer,
+  link_expires_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.work_request_approvals := public.check_approval_link(_approval_id, _nonce);
+BEGIN
+  RETURN QUERY
+  SELECT _step.id, wr.work_order_id, wr.title, wr.description, wr.requestor_name,
+         COALESCE((SELECT d.name FROM public.departments d WHERE d.value = wr.department), wr.department),
+         COALESCE((SELECT l.name FROM public.locations l WHERE l.value = wr.location), wr.location),
+         wr.estimated_cost, _step.label, _step.approver_name,
+         (SELECT count(*)::integer FROM public.work_request_approvals a
+          WHERE a.work_request_id = wr.id
+            AND (a.step_order, a.created_at) <= (_step.step_order, _step.created_at)),
+         (SELECT count(*)::integer FROM public.work_request_approvals a WHERE a.work_request_id = wr.id),
+         _step.link_expires_at
+  FROM public.work_requests wr
+  WHERE wr.id = _step.work_request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_approval_link(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_approval_link(uuid, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.decide_work_request_approval_by_link(
+  _approval_id uuid,
+  _nonce text,
+  _decision text,
+  _comment text DEFAULT NULL
+)
+RETURNS work_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.work_request_approvals;
+  _user_id uuid;
+  _email text;
+BEGIN
+  -- Serialises double clicks; decide_work_request_approval() locks it again
+  PERFORM 1 FROM public.work_requests wr
+  JOIN public.work_request_approvals a ON a.work_request_id = wr.id
+  WHERE a.id = _approval_id
+  FOR UPDATE OF wr;
+
+  _step := public.check_approval_link(_approval_id, _nonce);
+
+  SELECT p.user_id, p.email INTO _user_id, _email
+  FROM public.profiles p
+  WHERE p.id = _step.approver_profile_id;
+
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION '% has no account to record this decision under', COALESCE(_step.approver_name, 'The approver');
+  END IF;
+
+  -- Act as the approver for the rest of the transaction, so auth.uid() and
+  -- current_actor_name() record them rather than the service role
+  PERFORM set_config('request.jwt.claim.sub', _user_id::text, true);
+  PERFORM set_config(
+    'request.jwt.claims',
+    jsonb_build_object('sub', _user_id, 'email', _email, 'role', 'authenticated')::text,
+    true
+  );
+
+  RETURN public.decide_work_request_approval(_approval_id, _decision, _comment);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.decide_work_request_approval_by_link(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_work_request_approval_by_link(uuid, text, text, text) TO service_role;
+
+-- ─── Backfill ───────────────────────────────────────────────────────────────
+
+DO $$
+DECLARE
+  _id uuid;
+BEGIN
+  FOR _id IN SELECT id FROM public.work_requests WHERE status = 'pending' LOOP
+    PERFORM public.queue_approval_request_email(_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Note mentions only reach people who can read the note
+--
+-- A 'note_mention' email carries the whole note, but stamp_work_request_note()
+-- accepted any profile id in `mentions`, so a note could be mailed to a
+-- volunteer who isn't assigned to the request, or to anyone at all by a
+-- direct insert. Mentions of profiles that are neither staff nor assigned to
+-- the request are now dropped when the note is saved, so
+-- queue_work_request_note_mentions() never sees them. They are dropped
+-- rather than refused so an old note still saves after an assignee leaves.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.stamp_work_request_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Fixed first, since the mention check depends on it
+  IF TG_OP = 'UPDATE' THEN
+    NEW.work_request_id := OLD.work_request_id;
+  END IF;
+
+  NEW.body := trim(NEW.body);
+  NEW.mentions := ARRAY(
+    SELECT DISTINCT p.id
+    FROM public.profiles p
+    WHERE p.id = ANY(COALESCE(NEW.mentions, '{}'))
+      AND (public.is_staff(p.user_id) OR EXISTS (
+        SELECT 1 FROM public.work_request_assignees a
+        WHERE a.work_request_id = NEW.work_request_id AND a.profile_id = p.id
+      ))
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.author_id := auth.uid();
+    NEW.author_name := public.current_actor_name();
+    NEW.created_at := now();
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  NEW.author_id := OLD.author_id;
+  NEW.author_name := OLD.author_name;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.body IS DISTINCT FROM OLD.body OR NEW.mentions IS DISTINCT FROM OLD.mentions THEN
+    INSERT INTO public.work_request_note_revisions (note_id, body, mentions, edited_by)
+    VALUES (OLD.id, OLD.body, OLD.mentions, auth.uid());
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Log SLA breaches found by status and priority changes
+--
+-- log_work_request_sla_breach fired on UPDATE OF sla_breached_at, but that
+-- column list is matched against the UPDATE statement's SET clause, not what
+-- BEFORE triggers change. When track_work_request_sla stamped
+-- sla_breached_at during a status or priority change (a late completion, say),
+-- no 'sla_breached' event was written and no webhook went out. The trigger
+-- now fires on every update and filters on the values instead.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS log_work_request_sla_breach ON public.work_requests;
+CREATE TRIGGER log_work_request_sla_breach
+  AFTER UPDATE ON public.work_requests
+  FOR EACH ROW
+  WHEN (OLD.sla_breached_at IS NULL AND NEW.sla_breached_at IS NOT NULL)
+  EXECUTE FUNCTION public.log_work_request_sla_breach();
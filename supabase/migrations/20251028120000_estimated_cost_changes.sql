@@ -0,0 +1,148 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Audited estimate changes
+--
+-- Lowering estimated_cost re-plans the approval chain, and a plain update
+-- could quietly drop an undecided cost-band step (the facilities director,
+-- say) with nothing in the history to show for it.
+--
+-- History:  log_work_request_events() records an 'estimate_changed' event
+--   with the old and new estimate, however the change is made.
+-- Guard:    once any step of a pending request's chain is approved, only an
+--   admin may change the estimate in a way that drops an undecided step.
+-- RPC:      set_work_request_estimated_cost() is what the app calls; like the
+--   Est. Cost field it is limited to admins and managers.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.work_request_events
+  DROP CONSTRAINT IF EXISTS work_request_events_event_type_check;
+ALTER TABLE public.work_request_events
+  ADD CONSTRAINT work_request_events_event_type_check CHECK (event_type IN (
+    'created', 'status_changed', 'date_changed', 'priority_changed', 'checklist_updated', 'sla_breached',
+    'vendor_assigned', 'approval_step', 'estimate_changed'
+  ));
+
+-- ─── Guard ──────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.check_work_request_estimate_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dropped public.work_request_approvals;
+BEGIN
+  IF NEW.status <> 'pending' OR public.has_role(auth.uid(), 'admin') OR NOT EXISTS (
+    SELECT 1 FROM public.work_request_approvals
+    WHERE work_request_id = NEW.id AND decision = 'approved'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT a.* INTO _dropped
+  FROM public.work_request_approvals a
+  JOIN public.approval_chain_steps s ON s.id = a.chain_step_id
+  WHERE a.work_request_id = NEW.id
+    AND a.decision IS NULL
+    AND COALESCE(NEW.estimated_cost, 0) < s.min_estimated_cost
+  ORDER BY a.step_order, a.created_at
+  LIMIT 1;
+
+  IF _dropped.id IS NOT NULL THEN
+    RAISE EXCEPTION 'Approvals have started; only an admin can lower the estimate below the % step', _dropped.label
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_work_request_estimate_change ON public.work_requests;
+CREATE TRIGGER check_work_request_estimate_change
+  BEFORE UPDATE OF estimated_cost ON public.work_requests
+  FOR EACH ROW
+  WHEN (NEW.estimated_cost IS DISTINCT FROM OLD.estimated_cost)
+  EXECUTE FUNCTION public.check_work_request_estimate_change();
+
+-- ─── History ────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.log_work_request_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id uuid := auth.uid();
+  _actor_name text := COALESCE(public.current_actor_name(), NEW.requestor_name);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'created', NEW.status::text, _actor_id, _actor_name);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'status_changed', OLD.status::text, NEW.status::text,
+      CASE WHEN NEW.status = 'rejected' THEN NEW.rejected_reason END,
+      _actor_id, _actor_name
+    );
+  END IF;
+
+  IF NEW.requested_date IS DISTINCT FROM OLD.requested_date THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'date_changed', OLD.requested_date::text, NEW.requested_date::text,
+      NEW.date_changed_reason, _actor_id, _actor_name
+    );
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'priority_changed', OLD.priority::text, NEW.priority::text, _actor_id, _actor_name);
+  END IF;
+
+  IF NEW.approval_checklist IS DISTINCT FROM OLD.approval_checklist THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'checklist_updated', OLD.approval_checklist::text, NEW.approval_checklist::text, _actor_id, _actor_name);
+  END IF;
+
+  IF NEW.estimated_cost IS DISTINCT FROM OLD.estimated_cost THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'estimate_changed', OLD.estimated_cost::text, NEW.estimated_cost::text, _actor_id, _actor_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ─── RPC ────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.set_work_request_estimated_cost(_request_id uuid, _estimated_cost numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_approver(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and managers can change the estimated cost' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.work_requests
+  SET estimated_cost = _estimated_cost,
+      updated_at = now()
+  WHERE id = _request_id AND estimated_cost IS DISTINCT FROM _estimated_cost;
+
+  IF NOT FOUND AND NOT EXISTS (SELECT 1 FROM public.work_requests WHERE id = _request_id) THEN
+    RAISE EXCEPTION 'Work request not found with id: %', _request_id;
+  END IF;
+
+  RETURN _request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_work_request_estimated_cost(uuid, numeric) FROM anon;
+GRANT EXECUTE ON FUNCTION public.set_work_request_estimated_cost(uuid, numeric) TO authenticated;
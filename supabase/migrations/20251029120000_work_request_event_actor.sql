@@ -0,0 +1,71 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- History actor and reschedule reason fixes
+--
+-- Actor:   log_work_request_events() fell back to the requestor's name
+--   whenever there was no signed-in user, so SLA refreshes, maintenance runs
+--   and trigger-driven updates showed the requestor approving or rescheduling
+--   their own job. The requestor is now credited only for the anonymous form
+--   insert; anything else without a user is logged as 'System'.
+-- Reason:  date_changed_reason stays on the request after a reschedule, and
+--   every later date change picked it up again. A 'date_changed' event now
+--   carries a reason only when the same update set a new one.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.log_work_request_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id uuid := auth.uid();
+  -- Without a user, only an anonymous insert is the requestor submitting the
+  -- form; cron jobs, maintenance runs and trigger-driven updates are 'System'
+  _actor_name text := COALESCE(
+    public.current_actor_name(),
+    CASE WHEN TG_OP = 'INSERT' AND auth.role() = 'anon' THEN NEW.requestor_name ELSE 'System' END
+  );
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'created', NEW.status::text, _actor_id, _actor_name);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'status_changed', OLD.status::text, NEW.status::text,
+      CASE WHEN NEW.status = 'rejected' THEN NEW.rejected_reason END,
+      _actor_id, _actor_name
+    );
+  END IF;
+
+  IF NEW.requested_date IS DISTINCT FROM OLD.requested_date THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, reason, actor_id, actor_name)
+    VALUES (
+      NEW.id, 'date_changed', OLD.requested_date::text, NEW.requested_date::text,
+      -- The column keeps the last reason; only use it if this update set it
+      CASE WHEN NEW.date_changed_reason IS DISTINCT FROM OLD.date_changed_reason THEN NEW.date_changed_reason END,
+      _actor_id, _actor_name
+    );
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'priority_changed', OLD.priority::text, NEW.priority::text, _actor_id, _actor_name);
+  END IF;
+
+  IF NEW.approval_checklist IS DISTINCT FROM OLD.approval_checklist THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'checklist_updated', OLD.approval_checklist::text, NEW.approval_checklist::text, _actor_id, _actor_name);
+  END IF;
+
+  IF NEW.estimated_cost IS DISTINCT FROM OLD.estimated_cost THEN
+    INSERT INTO public.work_request_events (work_request_id, event_type, old_value, new_value, actor_id, actor_name)
+    VALUES (NEW.id, 'estimate_changed', OLD.estimated_cost::text, NEW.estimated_cost::text, _actor_id, _actor_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Labor rate gaps and moved material lines
+--
+-- Labor:     work_request_labor_rate() summed the rates it could find, so a
+--   job with one of three assignees missing a rate was costed at a partial
+--   rate and labor_cost came out low. It now returns NULL when any assignee
+--   has no rate on file, which leaves labor_cost empty rather than wrong.
+-- Materials: moving a line to another request only recalculated the new
+--   request's materials_cost. Both requests are recalculated now.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.work_request_labor_rate(_request_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rate numeric;
+BEGIN
+  IF NOT (public.is_staff(auth.uid()) OR public.is_work_request_assignee(_request_id)) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.work_request_assignees a WHERE a.work_request_id = _request_id) THEN
+    -- A partial sum would understate the job, so any missing rate gives NULL
+    SELECT CASE WHEN bool_and(r.profile_id IS NOT NULL) THEN sum(r.hourly_rate) END INTO _rate
+    FROM public.work_request_assignees a
+    LEFT JOIN public.staff_labor_rates r ON r.profile_id = a.profile_id
+    WHERE a.work_request_id = _request_id;
+  ELSE
+    SELECT r.hourly_rate INTO _rate
+    FROM public.profiles p
+    JOIN public.staff_labor_rates r ON r.profile_id = p.id
+    WHERE p.user_id = auth.uid();
+  END IF;
+
+  RETURN _rate;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.work_request_labor_rate(uuid) FROM anon;
+
+CREATE OR REPLACE FUNCTION public.sync_work_request_materials_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.work_requests wr
+  SET materials_cost = (
+    SELECT COALESCE(sum(m.line_total), 0) FROM public.work_request_materials m WHERE m.work_request_id = wr.id
+  )
+  WHERE wr.id IN (
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.work_request_id END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.work_request_id END
+  );
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Attachment storage policies on non-UUID paths
+--
+-- The storage policies cast the first folder of the object name to uuid, so
+-- any path not under a work request id raised a cast error instead of being
+-- refused. The folder is now checked against the UUID format first. CASE is
+-- used rather than AND because Postgres doesn't promise to evaluate AND
+-- operands in order.
+-- ─────────────────────────────────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff and requestor can read attachment files" ON storage.objects;
+CREATE POLICY "Staff and requestor can read attachment files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'work-request-attachments'
+  AND (
+    public.is_staff(auth.uid())
+    OR CASE
+      WHEN (storage.foldername(name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN public.is_work_request_requestor(((storage.foldername(name))[1])::uuid)
+      ELSE false
+    END
+  )
+);
+
+DROP POLICY IF EXISTS "Attachment files can be uploaded to new requests" ON storage.objects;
+CREATE POLICY "Attachment files can be uploaded to new requests"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'work-request-attachments'
+  AND CASE
+    WHEN (storage.foldername(name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN public.can_attach_to_work_request(((storage.foldername(name))[1])::uuid)
+    ELSE false
+  END
+);